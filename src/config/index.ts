@@ -7,10 +7,122 @@
 
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * Glue price modes
+ */
+const priceModeSchema = z.enum(['GROSS_MODE', 'NET_MODE']);
+
+/**
+ * Store definition: a Glue base URL, optionally with store-specific defaults
+ */
+const storeSettingsSchema = z.object({
+  baseUrl: z.url(),
+  locale: z.string().optional(),
+  currency: z.string().optional(),
+  priceMode: priceModeSchema.optional(),
+});
+const storeDefinitionSchema = z.union([
+  z.url().transform((baseUrl): z.infer<typeof storeSettingsSchema> => ({ baseUrl })),
+  storeSettingsSchema,
+]);
+
+/**
+ * Environment variable holding a JSON document
+ */
+const jsonSchema = (name: string) => z.string().transform((value, ctx) => {
+  try {
+    return JSON.parse(value) as unknown;
+  } catch {
+    ctx.addIssue({ code: 'custom', message: `${name} must be valid JSON` });
+    return z.NEVER;
+  }
+});
+
+/**
+ * JSON map of store codes to store definitions, e.g.
+ * {"DE":"https://glue.de.example.com","US":{"baseUrl":"https://glue.us.example.com","currency":"USD"}}
+ */
+const storesSchema = jsonSchema('STORES').pipe(z.record(z.string(), storeDefinitionSchema));
+
+/**
+ * JSON map of Glue resource types to cache TTLs in milliseconds, e.g.
+ * {"catalog-search":30000,"category-trees":0}
+ */
+const cacheTtlsSchema = jsonSchema('CACHE_TTLS').pipe(z.record(z.string(), z.number().nonnegative()));
+
+/**
+ * Rate limit of a tool: a maximum number of calls, optionally in its own window
+ */
+const toolRateLimitSettingsSchema = z.object({
+  maxRequests: z.number().positive(),
+  windowMs: z.number().positive().optional(),
+});
+const toolRateLimitSchema = z.union([
+  z.number().positive().transform((maxRequests): z.infer<typeof toolRateLimitSettingsSchema> => ({ maxRequests })),
+  toolRateLimitSettingsSchema,
+]);
+
+/**
+ * JSON map of tool names to rate limits, e.g.
+ * {"checkout":5,"product-search":{"maxRequests":300,"windowMs":60000}}
+ */
+const toolRateLimitsSchema = jsonSchema('RATE_LIMIT_TOOLS').pipe(z.record(z.string(), toolRateLimitSchema));
+
+/**
+ * Client identities by TLS client certificate subject or common name, e.g.
+ * {"assistant.internal":"assistant","O=Acme,CN=reporting":"reporting"}
+ */
+const clientIdentitiesSchema = jsonSchema('MCP_TLS_CLIENT_IDENTITIES').pipe(z.record(z.string(), z.string()));
+
+/**
+ * JSON Web Key Set with the public keys of an authorization server, e.g.
+ * {"keys":[{"kty":"EC","crv":"P-256","x":"...","y":"...","kid":"1"}]}
+ */
+const jwksSchema = jsonSchema('MCP_AUTH_JWKS').pipe(z.object({
+  keys: z.array(z.looseObject({
+    kty: z.string(),
+    kid: z.string().optional(),
+    alg: z.string().optional(),
+    use: z.string().optional(),
+  })),
+}));
+
+/**
+ * Comma-separated key=value pairs, as in OTEL_EXPORTER_OTLP_HEADERS, e.g.
+ * authorization=Bearer abc,x-tenant=shop
+ */
+const headersSchema = z.string().transform((value): Record<string, string> => Object.fromEntries(
+  value.split(',')
+    .map(pair => pair.split('='))
+    .filter(([name, ...rest]) => name?.trim() && rest.length > 0)
+    .map(([name, ...rest]) => [decodeURIComponent(name!.trim()), decodeURIComponent(rest.join('=').trim())])
+));
+
+/**
+ * Comma-separated list, e.g. customerReference,iban
+ */
+const listSchema = z.string().transform(value => value.split(',').map(entry => entry.trim()).filter(Boolean));
+
+/**
+ * Comma-separated origins of browser clients, e.g.
+ * https://shop.example.com,http://localhost:5173, or * for any origin
+ */
+const originsSchema = listSchema.pipe(z.array(z.union([
+  z.literal('*'),
+  z.url({ protocol: /^https?$/ }).transform(url => new URL(url).origin),
+])));
+
+/**
+ * Boolean environment variable; z.coerce.boolean() would treat "false" as true
+ */
+const booleanSchema = z.enum(['true', 'false']).transform(value => value === 'true');
+
 /**
  * Environment configuration schema with validation
  */
@@ -18,19 +130,103 @@ const envSchema = z.object({
   // Server configuration
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   LOG_LEVEL: z.enum(['error', 'warn', 'info', 'debug']).default('info'),
+  LOG_REDACTION_STRATEGY: z.enum(['mask', 'partial', 'hash']).default('mask'),
+  LOG_REDACTION_FIELDS: listSchema.default([]),
   
   // MCP Server configuration
   MCP_TRANSPORT: z.enum(['stdio', 'http', 'sse']).default('stdio'),
   MCP_HTTP_PORT: z.coerce.number().positive().default(3000),
   MCP_HTTP_HOST: z.string().default('localhost'),
   MCP_HTTP_ENDPOINT: z.string().default('/mcp'),
+  MCP_RESOURCE_POLL_INTERVAL: z.coerce.number().positive().default(30000), // 30 seconds
+  MCP_RESPONSE_VERBOSITY: z.enum(['minimal', 'standard', 'full']).default('standard'),
+  MCP_READ_ONLY: booleanSchema.default(false),
+
+  // Authorization of the HTTP and SSE transports
+  MCP_AUTH_ENABLED: booleanSchema.default(false),
+  MCP_AUTH_ISSUER: z.url().optional(), // Authorization server tokens must come from
+  MCP_AUTH_RESOURCE: z.url().optional(), // Defaults to the URL of the MCP endpoint
+  MCP_AUTH_AUDIENCE: z.string().optional(), // Defaults to the resource
+  MCP_AUTH_JWKS_URL: z.url().optional(),
+  MCP_AUTH_JWKS: jwksSchema.optional(),
+  MCP_AUTH_JWKS_CACHE_TTL: z.coerce.number().positive().default(600000), // 10 minutes
+  MCP_AUTH_CLOCK_TOLERANCE: z.coerce.number().nonnegative().default(30000), // 30 seconds
+  MCP_AUTH_DEV_ISSUER: booleanSchema.default(false), // Local issuer for development
+
+  // Cross-origin requests and DNS rebinding protection of the HTTP and SSE transports
+  MCP_CORS_ORIGINS: originsSchema.default(['*']),
+  MCP_CORS_CREDENTIALS: booleanSchema.default(false), // Let browsers send cookies and auth headers
+  MCP_CORS_ALLOWED_HEADERS: listSchema.default(['Content-Type', 'Authorization', 'mcp-protocol-version', 'mcp-session-id']),
+  MCP_ALLOWED_HOSTS: listSchema.optional(), // Defaults to the loopback names when listening on one
+  MCP_DNS_REBINDING_PROTECTION: booleanSchema.default(true),
+
+  // HTTPS and client certificates of the HTTP and SSE transports
+  MCP_TLS_CERT_FILE: z.string().optional(), // PEM certificate chain, enables HTTPS with the key
+  MCP_TLS_KEY_FILE: z.string().optional(),
+  MCP_TLS_KEY_PASSPHRASE: z.string().optional(),
+  MCP_TLS_CA_FILE: z.string().optional(), // CAs client certificates are verified against
+  MCP_TLS_CLIENT_AUTH: z.enum(['none', 'optional', 'required']).default('none'),
+  MCP_TLS_CLIENT_IDENTITIES: clientIdentitiesSchema.default({}),
+  MCP_TLS_RELOAD_INTERVAL: z.coerce.number().positive().default(30000), // Check the files for rotation every 30 seconds
   
   // Spryker API configuration
   SPRYKER_API_BASE_URL: z.url().default('https://glue.eu.spryker.local'),
   SPRYKER_API_TIMEOUT: z.coerce.number().positive().default(30000),
   SPRYKER_API_RETRY_ATTEMPTS: z.coerce.number().nonnegative().default(3),
   SPRYKER_API_RETRY_DELAY: z.coerce.number().positive().default(1000),
+  SPRYKER_API_RETRY_MAX_DELAY: z.coerce.number().positive().default(30000), // Longest backoff or Retry-After to wait for
+  SPRYKER_API_RETRY_BUDGET_RATIO: z.coerce.number().nonnegative().default(0.1), // Retries per request within the window
+  SPRYKER_API_RETRY_BUDGET_MIN_RETRIES: z.coerce.number().int().nonnegative().default(10),
+  SPRYKER_API_RETRY_BUDGET_WINDOW: z.coerce.number().positive().default(10000), // 10 seconds
+  SPRYKER_TOKEN_REFRESH_MARGIN: z.coerce.number().nonnegative().default(60000), // Refresh 1 minute before expiry
+  SPRYKER_REFRESH_TOKEN_TTL: z.coerce.number().positive().default(2592000000), // Glue refresh tokens last 30 days by default
+  SPRYKER_API_LOCALE: z.string().default('en_US'),
+  SPRYKER_API_CURRENCY: z.string().optional(),
+  SPRYKER_API_PRICE_MODE: priceModeSchema.optional(),
+
+  // Multi-store configuration
+  STORES: storesSchema.default({}),
+  SPRYKER_DEFAULT_STORE: z.string().optional(),
   
+  // Response cache
+  CACHE_BACKEND: z.enum(['memory', 'file', 'redis', 'none']).default('memory'),
+  CACHE_MAX_ENTRIES: z.coerce.number().positive().default(1000),
+  CACHE_FILE_DIR: z.string().default(join(tmpdir(), 'spryker-mcp-server-cache')),
+  CACHE_REDIS_URL: z.string().default('redis://localhost:6379'),
+  CACHE_REDIS_KEY_PREFIX: z.string().default('spryker-mcp:'),
+  CACHE_TTLS: cacheTtlsSchema.default({}),
+  CACHE_STALE_TTL: z.coerce.number().nonnegative().default(600000), // Keep expired ETag responses 10 minutes for revalidation
+  
+  // Circuit breaker
+  CIRCUIT_BREAKER_ENABLED: booleanSchema.default(true),
+  CIRCUIT_BREAKER_FAILURE_THRESHOLD: z.coerce.number().int().positive().default(5),
+  CIRCUIT_BREAKER_RESET_TIMEOUT: z.coerce.number().positive().default(30000), // 30 seconds
+  CIRCUIT_BREAKER_HALF_OPEN_PROBES: z.coerce.number().int().positive().default(1),
+  CIRCUIT_BREAKER_SCOPE: z.enum(['host', 'endpoint']).default('host'),
+
+  // Checkout
+  CHECKOUT_IDEMPOTENCY_WINDOW: z.coerce.number().positive().default(3600000), // Remember checkouts for 1 hour
+  CHECKOUT_CONFIRMATION_TTL: z.coerce.number().positive().default(300000), // Confirmation tokens expire after 5 minutes
+
+  // Confirmation of destructive actions
+  CONFIRMATION_FALLBACK: z.enum(['deny', 'allow', 'token']).default('token'), // When the client cannot elicit input
+  CONFIRMATION_TOKEN_TTL: z.coerce.number().positive().default(300000), // 5 minutes
+
+  // Tracing
+  TRACING_EXPORTER: z.enum(['otlp', 'file', 'none']).default('none'),
+  TRACING_OTLP_ENDPOINT: z.url().default('http://localhost:4318/v1/traces'),
+  TRACING_OTLP_HEADERS: headersSchema.default({}),
+  TRACING_FILE: z.string().default(join(tmpdir(), 'spryker-mcp-server-traces.jsonl')),
+  TRACING_SERVICE_NAME: z.string().default('spryker-mcp-server'),
+
+  // Audit trail of state-changing tool calls
+  AUDIT_LOG_ENABLED: booleanSchema.default(false),
+  AUDIT_LOG_FILE: z.string().optional(), // Required when enabled
+  AUDIT_LOG_MAX_SIZE: z.coerce.number().positive().default(10485760), // Rotate at 10 MB
+  AUDIT_LOG_MAX_FILES: z.coerce.number().int().positive().default(10), // Rotated files kept
+  AUDIT_LOG_TOOL: booleanSchema.default(false), // Register get-audit-log
+  AUDIT_ADMIN_TOKEN: z.string().min(16).optional(), // Bearer token of the /audit route
+
   // Authentication (optional for some operations)
   SPRYKER_CLIENT_ID: z.string().optional(),
   SPRYKER_CLIENT_SECRET: z.string().optional(),
@@ -38,6 +234,10 @@ const envSchema = z.object({
   // Rate limiting
   RATE_LIMIT_WINDOW_MS: z.coerce.number().positive().default(60000), // 1 minute
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().positive().default(100),
+  RATE_LIMIT_ENABLED: booleanSchema.default(true),
+  RATE_LIMIT_IP_MAX_REQUESTS: z.coerce.number().positive().optional(),
+  RATE_LIMIT_TOOLS: toolRateLimitsSchema.default({}),
+  RATE_LIMIT_TRUST_PROXY: booleanSchema.default(false),
 });
 
 /**
@@ -55,16 +255,58 @@ export const config = {
     version: '0.1.0',
     environment: env.NODE_ENV,
     logLevel: env.LOG_LEVEL,
+    redaction: {
+      strategy: env.LOG_REDACTION_STRATEGY,
+      fields: env.LOG_REDACTION_FIELDS,
+    },
   },
   
   // MCP Server settings
   mcp: {
     transport: env.MCP_TRANSPORT,
+    readOnly: env.MCP_READ_ONLY,
     http: {
       port: env.MCP_HTTP_PORT,
       host: env.MCP_HTTP_HOST,
       endpoint: env.MCP_HTTP_ENDPOINT,
     },
+    resources: {
+      pollInterval: env.MCP_RESOURCE_POLL_INTERVAL,
+    },
+    responses: {
+      verbosity: env.MCP_RESPONSE_VERBOSITY,
+    },
+    // OAuth bearer tokens required by the HTTP and SSE transports
+    auth: {
+      enabled: env.MCP_AUTH_ENABLED,
+      issuer: env.MCP_AUTH_ISSUER,
+      resource: env.MCP_AUTH_RESOURCE,
+      audience: env.MCP_AUTH_AUDIENCE,
+      jwksUrl: env.MCP_AUTH_JWKS_URL,
+      jwks: env.MCP_AUTH_JWKS,
+      jwksCacheTtl: env.MCP_AUTH_JWKS_CACHE_TTL,
+      clockTolerance: env.MCP_AUTH_CLOCK_TOLERANCE,
+      devIssuer: env.MCP_AUTH_DEV_ISSUER,
+    },
+    // Browser origins and Host headers the HTTP and SSE transports accept
+    cors: {
+      origins: env.MCP_CORS_ORIGINS,
+      credentials: env.MCP_CORS_CREDENTIALS,
+      allowedHeaders: env.MCP_CORS_ALLOWED_HEADERS,
+      allowedHosts: env.MCP_ALLOWED_HOSTS,
+      dnsRebindingProtection: env.MCP_DNS_REBINDING_PROTECTION,
+    },
+    // HTTPS served by the HTTP and SSE transports themselves
+    tls: {
+      enabled: Boolean(env.MCP_TLS_CERT_FILE || env.MCP_TLS_KEY_FILE),
+      certFile: env.MCP_TLS_CERT_FILE,
+      keyFile: env.MCP_TLS_KEY_FILE,
+      keyPassphrase: env.MCP_TLS_KEY_PASSPHRASE,
+      caFile: env.MCP_TLS_CA_FILE,
+      clientAuth: env.MCP_TLS_CLIENT_AUTH,
+      clientIdentities: env.MCP_TLS_CLIENT_IDENTITIES,
+      reloadInterval: env.MCP_TLS_RELOAD_INTERVAL,
+    },
   },
   
   // API configuration
@@ -73,6 +315,76 @@ export const config = {
     timeout: env.SPRYKER_API_TIMEOUT,
     retryAttempts: env.SPRYKER_API_RETRY_ATTEMPTS,
     retryDelay: env.SPRYKER_API_RETRY_DELAY,
+    retryMaxDelay: env.SPRYKER_API_RETRY_MAX_DELAY,
+    retryBudget: {
+      ratio: env.SPRYKER_API_RETRY_BUDGET_RATIO,
+      minRetries: env.SPRYKER_API_RETRY_BUDGET_MIN_RETRIES,
+      windowMs: env.SPRYKER_API_RETRY_BUDGET_WINDOW,
+    },
+    tokenRefreshMargin: env.SPRYKER_TOKEN_REFRESH_MARGIN,
+    refreshTokenTtl: env.SPRYKER_REFRESH_TOKEN_TTL,
+    locale: env.SPRYKER_API_LOCALE,
+    currency: env.SPRYKER_API_CURRENCY,
+    priceMode: env.SPRYKER_API_PRICE_MODE,
+  },
+  
+  // Stores by store code
+  stores: {
+    defaultStore: env.SPRYKER_DEFAULT_STORE,
+    definitions: env.STORES,
+  },
+  
+  // Response cache
+  cache: {
+    backend: env.CACHE_BACKEND,
+    maxEntries: env.CACHE_MAX_ENTRIES,
+    fileDirectory: env.CACHE_FILE_DIR,
+    redisUrl: env.CACHE_REDIS_URL,
+    redisKeyPrefix: env.CACHE_REDIS_KEY_PREFIX,
+    ttls: env.CACHE_TTLS,
+    staleTtl: env.CACHE_STALE_TTL,
+  },
+  
+  // Circuit breaker per upstream host, or per host and endpoint family
+  circuitBreaker: {
+    enabled: env.CIRCUIT_BREAKER_ENABLED,
+    failureThreshold: env.CIRCUIT_BREAKER_FAILURE_THRESHOLD,
+    resetTimeout: env.CIRCUIT_BREAKER_RESET_TIMEOUT,
+    halfOpenProbes: env.CIRCUIT_BREAKER_HALF_OPEN_PROBES,
+    scope: env.CIRCUIT_BREAKER_SCOPE,
+  },
+
+  // Checkouts remembered per cart to return the placed order on repeated
+  // calls, and confirmation tokens of checkout previews
+  checkout: {
+    idempotencyWindow: env.CHECKOUT_IDEMPOTENCY_WINDOW,
+    confirmationTtl: env.CHECKOUT_CONFIRMATION_TTL,
+  },
+
+  // Confirmation of checkout, deleted addresses and removed cart items and
+  // vouchers by the user, and what to do when the client cannot ask them
+  confirmation: {
+    fallback: env.CONFIRMATION_FALLBACK,
+    tokenTtl: env.CONFIRMATION_TOKEN_TTL,
+  },
+  
+  // Tracing of MCP requests, tool calls and Glue requests
+  tracing: {
+    exporter: env.TRACING_EXPORTER,
+    otlpEndpoint: env.TRACING_OTLP_ENDPOINT,
+    otlpHeaders: env.TRACING_OTLP_HEADERS,
+    file: env.TRACING_FILE,
+    serviceName: env.TRACING_SERVICE_NAME,
+  },
+
+  // Audit trail of state-changing tool calls
+  audit: {
+    enabled: env.AUDIT_LOG_ENABLED,
+    file: env.AUDIT_LOG_FILE,
+    maxSize: env.AUDIT_LOG_MAX_SIZE,
+    maxFiles: env.AUDIT_LOG_MAX_FILES,
+    tool: env.AUDIT_LOG_TOOL,
+    adminToken: env.AUDIT_ADMIN_TOKEN,
   },
   
   // Authentication
@@ -83,8 +395,12 @@ export const config = {
   
   // Rate limiting
   rateLimit: {
+    enabled: env.RATE_LIMIT_ENABLED,
     windowMs: env.RATE_LIMIT_WINDOW_MS,
     maxRequests: env.RATE_LIMIT_MAX_REQUESTS,
+    ipMaxRequests: env.RATE_LIMIT_IP_MAX_REQUESTS ?? env.RATE_LIMIT_MAX_REQUESTS,
+    tools: env.RATE_LIMIT_TOOLS,
+    trustProxy: env.RATE_LIMIT_TRUST_PROXY,
   },
   
   // Feature flags
@@ -103,3 +419,7 @@ export const config = {
 export type Config = typeof config;
 export type Environment = typeof env.NODE_ENV;
 export type LogLevel = typeof env.LOG_LEVEL;
+export type ConfirmationFallback = typeof env.CONFIRMATION_FALLBACK;
+export type PriceMode = z.infer<typeof priceModeSchema>;
+export type StoreDefinition = z.infer<typeof storeDefinitionSchema>;
+export type ToolRateLimit = z.infer<typeof toolRateLimitSchema>;
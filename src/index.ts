@@ -20,12 +20,19 @@ import {
   CallToolRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   SetLevelRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 import { config } from './config/index.js';
 import { logger } from './utils/logger.js';
 import { toolRegistry } from './tools/index.js';
 import { promptRegistry } from './prompts/index.js';
+import { resourceRegistry } from './resources/index.js';
+import { runInSession } from './services/session-context.js';
+import { elicitationFor, runWithElicitation } from './services/user-confirmation.js';
+import { tracer, traceRequestHandler } from './services/tracing/index.js';
 import { StdioMCPServer } from './servers/stdio-server.js';
 import { HttpMCPServer } from './servers/http-server.js';
 import { SSEMCPServer } from './servers/sse-server.js';
@@ -37,13 +44,18 @@ import { TransportType, ServerOptions, MCPServer, HandlerRegistrar } from './ser
 function createHandlerRegistrar(): HandlerRegistrar {
   return (server: Server) => {
     // Register tool call handler
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, traceRequestHandler(async (request, extra) => {
       const { name, arguments: args } = request.params;
       
-      logger.info(`Executing tool: ${name}`, { args });
+      logger.info(`Executing tool: ${name}`, { tool: name, args });
       
       try {
-        const result = await toolRegistry.callTool(name, args || {});
+        // Run the tool within its MCP session so it can resolve the session's
+        // credentials and the scopes of its access token, and ask the user to
+        // confirm actions through its client
+        const elicit = elicitationFor(server, extra?.requestId);
+        const result = await runInSession(extra?.sessionId, () =>
+          runWithElicitation(elicit, () => toolRegistry.callTool(name, args || {})), extra?.authInfo);
         logger.info(`Tool ${name} executed successfully`);
         return result;
       } catch (error) {
@@ -51,20 +63,20 @@ function createHandlerRegistrar(): HandlerRegistrar {
           error instanceof Error ? error : new Error(String(error)));
         throw error;
       }
-    });
+    }));
 
     // Register prompt list handler
-    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    server.setRequestHandler(ListPromptsRequestSchema, traceRequestHandler(async () => {
       logger.debug('Received list_prompts request');
       
       const prompts = promptRegistry.getMCPPrompts();
       logger.info(`Returning ${prompts.length} available prompts`);
       
       return { prompts };
-    });
+    }));
 
     // Register prompt get handler
-    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    server.setRequestHandler(GetPromptRequestSchema, traceRequestHandler(async (request) => {
       const { name, arguments: args } = request.params;
       
       logger.info(`Getting prompt: ${name}`, { args });
@@ -90,10 +102,50 @@ function createHandlerRegistrar(): HandlerRegistrar {
           error instanceof Error ? error : new Error(String(error)));
         throw error;
       }
-    });
+    }));
+
+    // Register resource list handler
+    server.setRequestHandler(ListResourcesRequestSchema, traceRequestHandler(async () => {
+      logger.debug('Received list_resources request');
+
+      const resources = resourceRegistry.getMCPResources();
+      logger.info(`Returning ${resources.length} available resources`);
+
+      return { resources };
+    }));
+
+    // Register resource template list handler
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, traceRequestHandler(async () => {
+      logger.debug('Received list_resource_templates request');
+
+      const resourceTemplates = resourceRegistry.getMCPResourceTemplates();
+      logger.info(`Returning ${resourceTemplates.length} available resource templates`);
+
+      return { resourceTemplates };
+    }));
+
+    // Register resource read handler
+    server.setRequestHandler(ReadResourceRequestSchema, traceRequestHandler(async (request, extra) => {
+      const { uri } = request.params;
+
+      logger.info(`Reading resource: ${uri}`);
+
+      try {
+        // Read within the MCP session so cart and order resources use its
+        // credentials and need the scopes of their tools
+        const contents = await runInSession(extra?.sessionId, () => resourceRegistry.readResource(uri), extra?.authInfo);
+        logger.info(`Resource ${uri} read successfully`);
+
+        return { contents: [contents] };
+      } catch (error) {
+        logger.error(`Resource ${uri} read failed:`, 
+          error instanceof Error ? error : new Error(String(error)));
+        throw error;
+      }
+    }));
 
     // Register logging set level handler
-    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    server.setRequestHandler(SetLevelRequestSchema, traceRequestHandler(async (request) => {
       const { level } = request.params;
       
       logger.info(`Setting log level to: ${level}`);
@@ -117,7 +169,7 @@ function createHandlerRegistrar(): HandlerRegistrar {
           error instanceof Error ? error : new Error(String(error)));
         throw error;
       }
-    });
+    }));
 
     // Register all tools (this will handle ListToolsRequestSchema)
     toolRegistry.registerAll(server);
@@ -236,11 +288,13 @@ async function main(): Promise<void> {
   // Handle graceful shutdown
   process.on('SIGINT', async () => {
     await server.shutdown();
+    await tracer.flush();
     process.exit(0);
   });
 
   process.on('SIGTERM', async () => {
     await server.shutdown();
+    await tracer.flush();
     process.exit(0);
   });
 
@@ -72,7 +72,8 @@ Instructions based on action:
 **CHECKOUT:**
 1. Guide user through f1e_get-checkout-data
 2. Help with address and payment method selection
-3. Use f1e_checkout to complete the order
+3. Use f1e_checkout-preview and show the user its summary
+4. Once the user confirms, use f1e_checkout with the confirmationToken to complete the order
 
 Always provide clear confirmation messages and helpful next steps.`
 };
@@ -77,8 +77,13 @@ Order Process Steps:
 - Help customer choose best options for their needs
 - Calculate final totals including shipping and taxes
 
-**5. ORDER COMPLETION:**
-- Use f1e_checkout to process the order
+**5. ORDER CONFIRMATION:**
+- Use f1e_checkout-preview to validate the checkout and get the final summary
+- Show items, totals, taxes, shipping and payment to the customer
+- Ask the customer to explicitly confirm the order
+
+**6. ORDER COMPLETION:**
+- Use f1e_checkout with the same details and the confirmationToken of the preview
 - Provide order confirmation with reference number
 - Send order summary with expected delivery
 - Offer tracking information and customer service contacts
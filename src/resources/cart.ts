@@ -0,0 +1,24 @@
+/**
+ * Cart Resource
+ *
+ * A cart of the current session's customer or guest, backed by the get-cart tool
+ */
+
+import { requireScope } from '../services/auth/scopes.js';
+import { loadCartSnapshot } from '../services/cart-snapshot.js';
+import { getCartTool } from '../tools/get-cart.js';
+import { readFromTool } from './tool-backed.js';
+import type { SprykerResource } from './types.js';
+
+export const cartResource: SprykerResource = {
+  name: 'cart',
+  description: 'Contents and totals of a cart of the authenticated session',
+  mimeType: 'application/json',
+  uriTemplate: 'spryker://cart/{cartId}',
+  read: async ({ cartId }) => readFromTool(getCartTool, { cartId }),
+  fingerprint: async ({ cartId }) => {
+    // Subscribers are notified of changes, so they need the scope of reading the cart
+    requireScope(getCartTool.scope, `Resource of ${getCartTool.name}`);
+    return (await loadCartSnapshot(cartId ?? '')).fingerprint;
+  },
+};
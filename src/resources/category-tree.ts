@@ -0,0 +1,17 @@
+/**
+ * Category Tree Resource
+ *
+ * The full catalog category tree, backed by the get-category-tree tool
+ */
+
+import { getCategoryTreeTool } from '../tools/get-category-tree.js';
+import { readFromTool } from './tool-backed.js';
+import type { SprykerResource } from './types.js';
+
+export const categoryTreeResource: SprykerResource = {
+  name: 'category-tree',
+  description: 'The full catalog category tree for navigation and browsing',
+  mimeType: 'application/json',
+  uriTemplate: 'spryker://category-tree',
+  read: async () => readFromTool(getCategoryTreeTool, {}),
+};
@@ -0,0 +1,46 @@
+/**
+ * Resources Module
+ *
+ * Exports all resources and the resource registry
+ */
+
+// Import all resource definitions
+import { productResource } from './product.js';
+import { categoryTreeResource } from './category-tree.js';
+import { cartResource } from './cart.js';
+import { orderResource } from './order.js';
+
+// Import registry
+import { resourceRegistry, ResourceRegistry } from './registry.js';
+import { logger } from '../utils/logger.js';
+
+// Register all resources
+function registerAllResources(): void {
+  logger.info('Registering MCP resources...');
+
+  const resources = [
+    productResource,
+    categoryTreeResource,
+    cartResource,
+    orderResource,
+  ];
+
+  resources.forEach(resource => resourceRegistry.register(resource));
+
+  logger.info(`Successfully registered ${resources.length} resources`);
+}
+
+// Auto-register resources when module is imported
+registerAllResources();
+
+// Export everything
+export { resourceRegistry, ResourceRegistry };
+export { ResourceSubscriptionManager, registerResourceSubscriptions } from './subscriptions.js';
+export type { SprykerResource, ResourceVariables } from './types.js';
+export type { ResourceContents } from './registry.js';
+export {
+  productResource,
+  categoryTreeResource,
+  cartResource,
+  orderResource,
+};
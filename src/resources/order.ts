@@ -0,0 +1,17 @@
+/**
+ * Order Resource
+ *
+ * An order of the current session's customer, backed by the get-order tool
+ */
+
+import { getOrderTool } from '../tools/get-order.js';
+import { readFromTool } from './tool-backed.js';
+import type { SprykerResource } from './types.js';
+
+export const orderResource: SprykerResource = {
+  name: 'order',
+  description: 'Details of an order of the authenticated customer, including items and totals',
+  mimeType: 'application/json',
+  uriTemplate: 'spryker://order/{orderReference}',
+  read: async ({ orderReference }) => readFromTool(getOrderTool, { orderReference }),
+};
@@ -0,0 +1,17 @@
+/**
+ * Product Resource
+ *
+ * Abstract product details by SKU, backed by the get-product tool
+ */
+
+import { getProductTool } from '../tools/get-product.js';
+import { readFromTool } from './tool-backed.js';
+import type { SprykerResource } from './types.js';
+
+export const productResource: SprykerResource = {
+  name: 'product',
+  description: 'Abstract product details including concrete products, images, prices, availability and categories',
+  mimeType: 'application/json',
+  uriTemplate: 'spryker://product/{sku}',
+  read: async ({ sku }) => readFromTool(getProductTool, { sku }),
+};
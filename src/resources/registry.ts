@@ -0,0 +1,125 @@
+/**
+ * MCP Resource Registry
+ *
+ * Manages registration, listing and reading of resources for the MCP server
+ */
+
+import { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { logger } from '../utils/logger.js';
+import type { SprykerResource, ResourceVariables } from './types.js';
+
+/**
+ * Resource contents in MCP format
+ */
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+/**
+ * Resource registry implementation
+ */
+export class ResourceRegistry {
+  private resources: Map<string, SprykerResource> = new Map();
+  private templates: Map<string, UriTemplate> = new Map();
+
+  /**
+   * Register a resource
+   */
+  register(resource: SprykerResource): void {
+    if (this.resources.has(resource.name)) {
+      logger.warn(`Resource ${resource.name} is already registered, overwriting`);
+    }
+
+    this.resources.set(resource.name, resource);
+    this.templates.set(resource.name, new UriTemplate(resource.uriTemplate));
+    logger.debug(`Registered resource: ${resource.name}`);
+  }
+
+  /**
+   * Get a specific resource by name
+   */
+  get(name: string): SprykerResource | undefined {
+    return this.resources.get(name);
+  }
+
+  /**
+   * Get all registered resources
+   */
+  list(): SprykerResource[] {
+    return Array.from(this.resources.values());
+  }
+
+  /**
+   * Get fixed-URI resources in MCP format
+   */
+  getMCPResources(): Resource[] {
+    return this.list()
+      .filter(resource => !UriTemplate.isTemplate(resource.uriTemplate))
+      .map(resource => ({
+        uri: resource.uriTemplate,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      }));
+  }
+
+  /**
+   * Get parameterized resources in MCP format
+   */
+  getMCPResourceTemplates(): ResourceTemplate[] {
+    return this.list()
+      .filter(resource => UriTemplate.isTemplate(resource.uriTemplate))
+      .map(resource => ({
+        uriTemplate: resource.uriTemplate,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      }));
+  }
+
+  /**
+   * Find the resource a URI belongs to, with the variables extracted from it
+   */
+  match(uri: string): { resource: SprykerResource; variables: ResourceVariables } | undefined {
+    for (const resource of this.resources.values()) {
+      const matched = this.templates.get(resource.name)?.match(uri);
+      if (!matched) {
+        continue;
+      }
+
+      const variables: ResourceVariables = {};
+      for (const [key, value] of Object.entries(matched)) {
+        variables[key] = decodeURIComponent(Array.isArray(value) ? value.join(',') : value);
+      }
+      return { resource, variables };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read the contents of a resource by URI
+   */
+  async readResource(uri: string): Promise<ResourceContents> {
+    const matched = this.match(uri);
+    if (!matched) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    const text = await matched.resource.read(matched.variables);
+
+    return {
+      uri,
+      mimeType: matched.resource.mimeType,
+      text,
+    };
+  }
+}
+
+/**
+ * Global resource registry instance
+ */
+export const resourceRegistry = new ResourceRegistry();
@@ -0,0 +1,173 @@
+/**
+ * MCP Resource Subscriptions
+ *
+ * Polls subscribed resources and notifies the client with
+ * `notifications/resources/updated` whenever their fingerprint changes.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { runInSession } from '../services/session-context.js';
+import { resourceRegistry, ResourceRegistry } from './registry.js';
+import type { SprykerResource, ResourceVariables } from './types.js';
+
+/**
+ * State tracked for a subscribed resource URI
+ */
+interface Subscription {
+  resource: SprykerResource;
+  variables: ResourceVariables;
+  sessionId: string | undefined;
+  /**
+   * Access token of the subscribe request, whose scopes every poll is checked against
+   */
+  auth: AuthInfo | undefined;
+  fingerprint: string;
+}
+
+/**
+ * Subscription manager for a single MCP server instance
+ */
+export class ResourceSubscriptionManager {
+  private subscriptions: Map<string, Subscription> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(
+    private readonly server: Server,
+    private readonly pollInterval: number = config.mcp.resources.pollInterval,
+    private readonly registry: ResourceRegistry = resourceRegistry
+  ) {}
+
+  /**
+   * Subscribe to a resource URI, recording its current state as the baseline.
+   * The resource is polled within the session and with the access token of
+   * the subscriber.
+   */
+  async subscribe(uri: string, sessionId?: string, auth?: AuthInfo): Promise<void> {
+    const matched = this.registry.match(uri);
+    if (!matched) {
+      throw new Error(`Resource not found: ${uri}`);
+    }
+
+    const { resource, variables } = matched;
+    if (!resource.fingerprint) {
+      throw new Error(`Resource does not support subscriptions: ${uri}`);
+    }
+
+    const fingerprint = await runInSession(sessionId, () => resource.fingerprint!(variables), auth);
+    this.subscriptions.set(uri, { resource, variables, sessionId, auth, fingerprint });
+    logger.debug(`Subscribed to resource: ${uri}`);
+
+    this.startPolling();
+  }
+
+  /**
+   * Stop watching a resource URI
+   */
+  unsubscribe(uri: string): void {
+    if (this.subscriptions.delete(uri)) {
+      logger.debug(`Unsubscribed from resource: ${uri}`);
+    }
+
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  /**
+   * Get all subscribed resource URIs
+   */
+  list(): string[] {
+    return Array.from(this.subscriptions.keys());
+  }
+
+  /**
+   * Check every subscribed resource once and notify the client about changes
+   */
+  async poll(): Promise<void> {
+    // Skip overlapping polls when the backend is slower than the interval
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      for (const [uri, subscription] of this.subscriptions) {
+        try {
+          const { resource, variables, sessionId, auth } = subscription;
+          const fingerprint = await runInSession(sessionId, () => resource.fingerprint!(variables), auth);
+
+          // The client may have unsubscribed while the fingerprint was computed
+          if (fingerprint === subscription.fingerprint || !this.subscriptions.has(uri)) {
+            continue;
+          }
+
+          subscription.fingerprint = fingerprint;
+          logger.info(`Resource changed: ${uri}`);
+          await this.server.sendResourceUpdated({ uri });
+        } catch (error) {
+          logger.warn(`Failed to poll resource ${uri}`, {
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Stop polling and drop all subscriptions
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.subscriptions.clear();
+  }
+
+  private startPolling(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.pollInterval);
+
+    // Polling alone should not keep the process alive
+    this.timer.unref();
+  }
+}
+
+/**
+ * Register the subscribe and unsubscribe handlers on a server instance
+ */
+export function registerResourceSubscriptions(server: Server): ResourceSubscriptionManager {
+  const manager = new ResourceSubscriptionManager(server);
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    const { uri } = request.params;
+
+    logger.info(`Subscribing to resource: ${uri}`);
+    await manager.subscribe(uri, extra?.sessionId, extra?.authInfo);
+
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+
+    logger.info(`Unsubscribing from resource: ${uri}`);
+    manager.unsubscribe(uri);
+
+    return {};
+  });
+
+  return manager;
+}
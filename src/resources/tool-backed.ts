@@ -0,0 +1,31 @@
+/**
+ * Tool-backed resource helpers
+ *
+ * Resources reuse the tool implementations so both return the same data.
+ */
+
+import { requireScope } from '../services/auth/scopes.js';
+import type { SprykerTool } from '../tools/types.js';
+
+/**
+ * Run a tool and return its JSON text, failing when the tool reports an error
+ * or the access token of the request does not grant the scope of the tool
+ */
+export async function readFromTool(tool: SprykerTool, args: Record<string, unknown>): Promise<string> {
+  requireScope(tool.scope, `Resource of ${tool.name}`);
+  const result = await tool.handler(args);
+  const text = result.content.map(item => item.text).join('\n');
+
+  if ('isError' in result && result.isError) {
+    let message = `${tool.name} failed`;
+    try {
+      const parsed = JSON.parse(text) as { message?: string; error?: string };
+      message = parsed.message || parsed.error || message;
+    } catch {
+      // Keep the generic message for non-JSON tool output
+    }
+    throw new Error(message);
+  }
+
+  return text;
+}
@@ -0,0 +1,24 @@
+/**
+ * Types for MCP Resources
+ */
+
+/**
+ * Variables extracted from a resource URI
+ */
+export type ResourceVariables = Record<string, string>;
+
+export interface SprykerResource {
+  name: string;
+  description: string;
+  mimeType: string;
+  /**
+   * URI or RFC 6570 URI template, e.g. `spryker://product/{sku}`
+   */
+  uriTemplate: string;
+  read: (variables: ResourceVariables) => Promise<string>;
+  /**
+   * Compute a value that changes whenever the resource changes.
+   * Resources providing a fingerprint can be subscribed to.
+   */
+  fingerprint?: (variables: ResourceVariables) => Promise<string>;
+}
@@ -0,0 +1,65 @@
+/**
+ * Audit route of the HTTP and SSE transports
+ *
+ * Lets administrators query the audit trail with the bearer token in
+ * AUDIT_ADMIN_TOKEN. Without a token the route does not exist.
+ */
+
+import type { IncomingMessage } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { AuditLogQuerySchema, queryAuditLog } from '../tools/get-audit-log.js';
+
+/**
+ * Response of the audit route
+ */
+export interface AuditRouteResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Whether a request carries the admin token; compared by digest, so the
+ * time taken does not tell how much of the token matched
+ */
+function isAdmin(req: IncomingMessage, adminToken: string): boolean {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return false;
+  }
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(token), digest(adminToken));
+}
+
+/**
+ * Answer a request to the audit route, with the query parameters of the
+ * get-audit-log tool
+ */
+export async function auditRoute(req: IncomingMessage, url: URL): Promise<AuditRouteResponse> {
+  const adminToken = config.audit.adminToken;
+  if (!adminToken) {
+    return { status: 404, body: { error: 'Not found' } };
+  }
+  if (req.method !== 'GET') {
+    return { status: 405, body: { error: 'Method not allowed' } };
+  }
+  if (!isAdmin(req, adminToken)) {
+    logger.warn('Rejected unauthorized audit log request');
+    return { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="audit"' }, body: { error: 'Unauthorized' } };
+  }
+
+  const params = Object.fromEntries(url.searchParams);
+  const query = AuditLogQuerySchema.safeParse({
+    ...params,
+    ...(params.limit !== undefined ? { limit: Number(params.limit) } : {}),
+    ...(params.verify !== undefined ? { verify: params.verify === 'true' } : {}),
+  });
+  if (!query.success) {
+    return { status: 400, body: { error: 'Invalid query', issues: query.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) } };
+  }
+
+  return { status: 200, body: await queryAuditLog(query.data) };
+}
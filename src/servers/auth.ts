@@ -0,0 +1,233 @@
+/**
+ * Authorization of the HTTP and SSE transports
+ *
+ * Requests to the MCP endpoint need an OAuth bearer access token issued for
+ * this server. Clients without one are answered with 401 and a pointer to
+ * the protected resource metadata (RFC 9728), which names the authorization
+ * server to get a token from. Calls of tools whose scope the token does not
+ * grant are answered with 403, so clients can ask the user for more scopes.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { toolRegistry } from '../tools/index.js';
+import {
+  AuthError,
+  DevIssuer,
+  TOOL_SCOPES,
+  TokenVerifier,
+  createKeySet,
+  type AuthErrorCode,
+} from '../services/auth/index.js';
+import { isLoopbackHost } from './cors.js';
+import { clientIdentityOf } from './tls.js';
+import type { ServerOptions } from './types.js';
+
+/**
+ * Request carrying the access token it was authorized with, which the MCP
+ * SDK hands to request handlers as authInfo
+ */
+export type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+/**
+ * Response of an authorization route
+ */
+export interface AuthRouteResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Well-known path of the protected resource metadata
+ */
+export const PROTECTED_RESOURCE_METADATA_PATH = '/.well-known/oauth-protected-resource';
+
+/**
+ * Client and user a request was authorized for by its access token and TLS
+ * client certificate, or undefined without either
+ */
+export function principalOf(req: AuthenticatedRequest): string | undefined {
+  const { auth } = req;
+  const certificate = clientIdentityOf(req);
+  return auth || certificate
+    ? JSON.stringify([auth?.extra?.issuer, auth?.clientId, auth?.extra?.subject, certificate])
+    : undefined;
+}
+
+/**
+ * Read a request body of at most 64 kB
+ */
+async function readBody(req: IncomingMessage): Promise<string> {
+  let body = '';
+  for await (const chunk of req) {
+    body += String(chunk);
+    if (body.length > 65536) {
+      throw new Error('Request body too large');
+    }
+  }
+  return body;
+}
+
+/**
+ * Bearer token authorization of an HTTP or SSE server
+ */
+export class BearerAuth {
+  /**
+   * Resource identifier of the MCP endpoint, the audience of its tokens
+   */
+  readonly resource: string;
+  private readonly issuer: string;
+  private readonly metadataPath: string;
+  private readonly metadataUrl: string;
+  private readonly verifier: TokenVerifier;
+  private readonly devIssuer: DevIssuer | undefined;
+
+  constructor(options: ServerOptions) {
+    const { issuer, resource, audience, clockTolerance, devIssuer } = config.mcp.auth;
+    const origin = `${config.mcp.tls.enabled ? 'https' : 'http'}://${options.httpHost}:${options.httpPort}`;
+
+    this.resource = resource ?? `${origin}${options.httpEndpoint}`;
+    // Metadata of a resource with a path lives at the well-known path followed by it
+    const resourceUrl = new URL(this.resource);
+    this.metadataPath = `${PROTECTED_RESOURCE_METADATA_PATH}${resourceUrl.pathname.replace(/\/$/, '')}`;
+    this.metadataUrl = `${resourceUrl.origin}${this.metadataPath}`;
+
+    if (devIssuer && !isLoopbackHost(options.httpHost ?? '')) {
+      throw new Error('The development issuer issues tokens to anyone and is only allowed on a loopback host');
+    }
+    this.devIssuer = devIssuer ? new DevIssuer(issuer ?? origin, audience ?? this.resource) : undefined;
+    this.issuer = this.devIssuer?.issuer ?? issuer ?? origin;
+    this.verifier = new TokenVerifier(this.devIssuer ?? createKeySet(), {
+      issuer: this.issuer,
+      audience: audience ?? this.resource,
+      clockTolerance,
+    });
+
+    if (this.devIssuer) {
+      logger.warn(`Development issuer enabled, tokens for any client are issued at ${this.issuer}/oauth/token`);
+    }
+  }
+
+  /**
+   * Protected resource metadata (RFC 9728)
+   */
+  metadata(): Record<string, unknown> {
+    return {
+      resource: this.resource,
+      authorization_servers: [this.issuer],
+      scopes_supported: [...TOOL_SCOPES],
+      bearer_methods_supported: ['header'],
+      resource_name: config.server.name,
+    };
+  }
+
+  /**
+   * Check the access token of a request, answering it with 401 when it has
+   * none or an invalid one. The verified token is attached to the request.
+   * Returns whether the request may proceed.
+   */
+  async authenticate(req: AuthenticatedRequest, res: ServerResponse): Promise<boolean> {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      this.reject(res, 401, 'Missing bearer access token');
+      return false;
+    }
+
+    try {
+      req.auth = await this.verifier.verify(token);
+      return true;
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        throw error;
+      }
+      logger.warn('Rejected access token', { reason: error.message });
+      this.reject(res, 401, error.message, error.code);
+      return false;
+    }
+  }
+
+  /**
+   * Check that the access token of a request grants the scopes of the tools
+   * it calls, answering it with 403 otherwise. Returns whether the request
+   * may proceed.
+   */
+  authorizeTools(req: AuthenticatedRequest, res: ServerResponse, tools: string[]): boolean {
+    const granted = req.auth?.scopes ?? [];
+    const missing = [...new Set(tools
+      .map(name => toolRegistry.getTool(name)?.scope)
+      .filter((scope): scope is NonNullable<typeof scope> => scope !== undefined && !granted.includes(scope)))];
+    if (missing.length === 0) {
+      return true;
+    }
+
+    logger.warn('Rejected tool call without the required scope', { tools, missing, clientId: req.auth?.clientId });
+    this.reject(res, 403, `Insufficient scope, requires ${missing.join(' ')}`, 'insufficient_scope', missing.join(' '));
+    return false;
+  }
+
+  /**
+   * Answer requests for the protected resource metadata and, with the
+   * development issuer, its metadata, keys and tokens. Returns undefined for
+   * other paths.
+   */
+  async route(req: IncomingMessage, url: URL): Promise<AuthRouteResponse | undefined> {
+    const path = url.pathname;
+
+    if (path === PROTECTED_RESOURCE_METADATA_PATH || path === this.metadataPath) {
+      return req.method === 'GET'
+        ? { status: 200, headers: { 'Cache-Control': 'max-age=3600' }, body: this.metadata() }
+        : { status: 405, body: { error: 'Method not allowed' } };
+    }
+
+    if (!this.devIssuer) {
+      return undefined;
+    }
+
+    if (path === '/.well-known/oauth-authorization-server' && req.method === 'GET') {
+      return { status: 200, body: this.devIssuer.metadata() };
+    }
+    if (path === '/oauth/jwks' && req.method === 'GET') {
+      return { status: 200, body: this.devIssuer.jwks() };
+    }
+    if (path === '/oauth/token' && req.method === 'POST') {
+      const response = this.devIssuer.issueToken(new URLSearchParams(await readBody(req)));
+      return { status: 'error' in response ? 400 : 200, headers: { 'Cache-Control': 'no-store' }, body: response };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Answer a request with a bearer challenge (RFC 6750 section 3)
+   */
+  private reject(res: ServerResponse, status: 401 | 403, description: string, error?: AuthErrorCode, scope?: string): void {
+    const challenge = [
+      ...(error ? [`error="${error}"`, `error_description="${description.replace(/["\\]/g, '')}"`] : []),
+      ...(scope ? [`scope="${scope}"`] : []),
+      `resource_metadata="${this.metadataUrl}"`,
+    ];
+
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'WWW-Authenticate': `Bearer ${challenge.join(', ')}`,
+    });
+    res.end(JSON.stringify({ error: error ?? 'unauthorized', error_description: description }));
+  }
+}
+
+/**
+ * Authorization of a server, or undefined when it accepts any caller
+ */
+export function createBearerAuth(options: ServerOptions): BearerAuth | undefined {
+  if (config.mcp.auth.enabled) {
+    return new BearerAuth(options);
+  }
+
+  if (options.httpHost && !isLoopbackHost(options.httpHost)) {
+    logger.warn(`Authorization is disabled, anyone who can reach ${options.httpHost}:${options.httpPort} can call all tools; set MCP_AUTH_ENABLED=true`);
+  }
+  return undefined;
+}
@@ -7,12 +7,18 @@ import {
   CallToolRequestSchema, 
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
   SetLevelRequestSchema
 } from '@modelcontextprotocol/sdk/types.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { toolRegistry } from '../tools/index.js';
 import { promptRegistry } from '../prompts/index.js';
+import { resourceRegistry } from '../resources/index.js';
+import { runInSession } from '../services/session-context.js';
+import { elicitationFor, runWithElicitation } from '../services/user-confirmation.js';
 
 /**
  * Base server class with common functionality
@@ -30,6 +36,7 @@ export abstract class BaseServer {
         capabilities: {
           tools: {},
           prompts: {},
+          resources: {},
           logging: {},
         },
       }
@@ -45,13 +52,18 @@ export abstract class BaseServer {
     logger.info('Registering MCP handlers...');
 
     // Register tool call handler
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       
-      logger.info(`Executing tool: ${name}`, { args });
+      logger.info(`Executing tool: ${name}`, { tool: name, args });
       
       try {
-        const result = await toolRegistry.callTool(name, args || {});
+        // Run the tool within its MCP session so it can resolve the session's
+        // credentials and the scopes of its access token, and ask the user to
+        // confirm actions through its client
+        const elicit = elicitationFor(this.server, extra?.requestId);
+        const result = await runInSession(extra?.sessionId, () =>
+          runWithElicitation(elicit, () => toolRegistry.callTool(name, args || {})), extra?.authInfo);
         logger.info(`Tool ${name} executed successfully`);
         return result;
       } catch (error) {
@@ -100,6 +112,45 @@ export abstract class BaseServer {
       }
     });
 
+    // Register resource list handler
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      logger.debug('Received list_resources request');
+
+      const resources = resourceRegistry.getMCPResources();
+      logger.info(`Returning ${resources.length} available resources`);
+
+      return { resources };
+    });
+
+    // Register resource template list handler
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      logger.debug('Received list_resource_templates request');
+
+      const resourceTemplates = resourceRegistry.getMCPResourceTemplates();
+      logger.info(`Returning ${resourceTemplates.length} available resource templates`);
+
+      return { resourceTemplates };
+    });
+
+    // Register resource read handler
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+
+      logger.info(`Reading resource: ${uri}`);
+
+      try {
+        // Read within the MCP session so cart and order resources use its credentials
+        const contents = await runInSession(extra?.sessionId, () => resourceRegistry.readResource(uri), extra?.authInfo);
+        logger.info(`Resource ${uri} read successfully`);
+
+        return { contents: [contents] };
+      } catch (error) {
+        logger.error(`Resource ${uri} read failed:`, 
+          error instanceof Error ? error : new Error(String(error)));
+        throw error;
+      }
+    });
+
     // Register logging set level handler
     this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
       const { level } = request.params;
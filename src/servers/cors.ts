@@ -0,0 +1,122 @@
+/**
+ * Cross-origin requests and DNS rebinding protection
+ *
+ * Browsers only let pages of the allowed origins call the HTTP and SSE
+ * transports. Requests from other origins are refused with 403, as are
+ * requests whose Host header is not a name of the server: a page whose
+ * domain an attacker rebinds to 127.0.0.1 still sends that domain as Host,
+ * so it cannot reach a server listening on localhost.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import type { ServerOptions } from './types.js';
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1', '[::1]'];
+
+/**
+ * Whether a host only accepts connections from the same machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host);
+}
+
+/**
+ * Host name of a Host header, without the port
+ */
+export function hostnameOf(host: string): string {
+  const hostname = host.startsWith('[') ? host.slice(0, host.indexOf(']') + 1) : host.split(':')[0]!;
+  return hostname.toLowerCase();
+}
+
+/**
+ * Host headers a server accepts, or undefined to accept any. Entries
+ * without a port match the host on any port.
+ */
+export function allowedHosts(options: ServerOptions): string[] | undefined {
+  const { allowedHosts: configured, dnsRebindingProtection } = config.mcp.cors;
+
+  if (!dnsRebindingProtection) {
+    return undefined;
+  }
+  if (configured) {
+    return configured.map(host => host.toLowerCase());
+  }
+  // A server listening on a public interface has names only its operator knows
+  return options.httpHost && isLoopbackHost(options.httpHost) ? ['localhost', '127.0.0.1', '[::1]'] : undefined;
+}
+
+/**
+ * CORS headers and origin and Host checks of an HTTP or SSE server
+ */
+export class OriginPolicy {
+  private readonly hosts: string[] | undefined;
+
+  /**
+   * @param exposedHeaders Response headers browsers may read
+   * @param methods Methods browsers may send
+   */
+  constructor(
+    options: ServerOptions,
+    private readonly exposedHeaders: string[],
+    private readonly methods: string[] = ['GET', 'POST', 'OPTIONS']
+  ) {
+    this.hosts = allowedHosts(options);
+  }
+
+  /**
+   * Set the CORS headers of a response and refuse requests of disallowed
+   * hosts and origins with 403. Preflight requests are answered here.
+   * Returns whether the request may proceed.
+   */
+  handle(req: IncomingMessage, res: ServerResponse): boolean {
+    const { origins, credentials, allowedHeaders } = config.mcp.cors;
+    const host = req.headers.host ?? '';
+    const origin = req.headers.origin;
+
+    if (this.hosts && !this.isAllowedHost(host)) {
+      logger.warn('Rejected request for a disallowed host', { host });
+      this.reject(res, `Host ${host || '(none)'} is not allowed`);
+      return false;
+    }
+
+    // Clients other than browsers send no Origin and are not subject to CORS
+    if (origin !== undefined && !origins.includes('*') && !origins.includes(origin)) {
+      logger.warn('Rejected request from a disallowed origin', { origin });
+      this.reject(res, `Origin ${origin} is not allowed`);
+      return false;
+    }
+
+    if (origins.includes('*') && !credentials) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+    } else if (origin !== undefined) {
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      if (credentials) {
+        res.setHeader('Access-Control-Allow-Credentials', 'true');
+      }
+    }
+    res.setHeader('Access-Control-Allow-Methods', this.methods.join(', '));
+    res.setHeader('Access-Control-Allow-Headers', allowedHeaders.join(', '));
+    res.setHeader('Access-Control-Expose-Headers', this.exposedHeaders.join(', '));
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(200);
+      res.end();
+      return false;
+    }
+
+    return true;
+  }
+
+  private isAllowedHost(host: string): boolean {
+    const normalized = host.toLowerCase();
+    return this.hosts!.some(allowed => allowed === normalized || allowed === hostnameOf(normalized));
+  }
+
+  private reject(res: ServerResponse, message: string): void {
+    res.writeHead(403, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: 'Forbidden', message }));
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Health report of the HTTP and SSE transports
+ */
+
+import { SprykerApiService } from '../services/spryker-api.js';
+import type { TransportType } from './types.js';
+
+/**
+ * Build the body of the health route. The server is reported as degraded
+ * while the circuit of any Glue upstream is open or half-open.
+ */
+export function healthReport(transport: TransportType) {
+  const circuits = SprykerApiService.getInstance().getCircuitStatuses();
+  const degraded = circuits?.some(circuit => circuit.state !== 'closed') ?? false;
+
+  return {
+    status: degraded ? 'degraded' : 'healthy',
+    transport,
+    ...(circuits ? { upstream: { circuits } } : {}),
+    timestamp: new Date().toISOString(),
+  };
+}
@@ -5,12 +5,26 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
 import { URL } from 'node:url';
 import { randomUUID } from 'node:crypto';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { validateEnvironment } from '../utils/validation.js';
+import { sessionVault } from '../services/session-vault.js';
+import { sprykerApi } from '../services/spryker-api.js';
+import { storeContext } from '../services/store-context.js';
+import { clientIdentities } from '../services/client-identity.js';
+import { registerResourceSubscriptions, ResourceSubscriptionManager } from '../resources/index.js';
+import { calledTools, enforceRateLimit } from './rate-limit.js';
+import { healthReport } from './health.js';
+import { auditRoute } from './audit.js';
+import { OriginPolicy } from './cors.js';
+import { clientIdentityOf, createTlsCertificates, type TlsCertificates } from './tls.js';
+import { createBearerAuth, principalOf, type AuthenticatedRequest, type BearerAuth } from './auth.js';
+import { METRICS_CONTENT_TYPE, metricsReport } from './metrics.js';
+import { activeSessions } from '../services/metrics.js';
 import { MCPServer, ServerOptions, HandlerRegistrar } from './types.js';
 
 export class HttpMCPServer implements MCPServer {
@@ -18,6 +32,14 @@ export class HttpMCPServer implements MCPServer {
   private options: ServerOptions;
   private registerHandlers: HandlerRegistrar;
   private transports: Map<string, StreamableHTTPServerTransport> = new Map();
+  private subscriptions: Map<string, ResourceSubscriptionManager> = new Map();
+  private auth: BearerAuth | undefined;
+  private originPolicy: OriginPolicy;
+  private tls: TlsCertificates | undefined;
+  /**
+   * Client and user each session was opened by, so others cannot use it
+   */
+  private sessionPrincipals: Map<string, string | undefined> = new Map();
 
   constructor(options: ServerOptions, registerHandlers: HandlerRegistrar) {
     this.options = {
@@ -27,6 +49,16 @@ export class HttpMCPServer implements MCPServer {
       httpEndpoint: options.httpEndpoint || config.mcp.http.endpoint,
     };
     this.registerHandlers = registerHandlers;
+    this.auth = createBearerAuth(this.options);
+    this.tls = createTlsCertificates();
+    this.originPolicy = new OriginPolicy(this.options, ['mcp-session-id', 'WWW-Authenticate'], ['GET', 'POST', 'DELETE', 'OPTIONS']);
+  }
+
+  /**
+   * Scheme clients reach the server with
+   */
+  private get scheme(): string {
+    return this.tls ? 'https' : 'http';
   }
 
   async start(): Promise<void> {
@@ -44,7 +76,7 @@ export class HttpMCPServer implements MCPServer {
       logger.info(`Server Name: ${config.server.name}`);
       logger.info(`Server Version: ${config.server.version}`);
       logger.info(`API Base URL: ${config.api.baseUrl}`);
-      logger.info(`HTTP Server: http://${this.options.httpHost}:${this.options.httpPort}`);
+      logger.info(`HTTP Server: ${this.scheme}://${this.options.httpHost}:${this.options.httpPort}`);
       logger.info(`MCP Endpoint: ${this.options.httpEndpoint}`);
 
     } catch (error) {
@@ -56,7 +88,7 @@ export class HttpMCPServer implements MCPServer {
 
   private async initializeHttpServer(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
+      const handleRequest = (req: IncomingMessage, res: ServerResponse) => {
         // Wrap the handler in a try-catch to prevent unhandled promise rejections
         this.handleHttpRequest(req, res).catch((error) => {
           logger.error('HTTP request handler error:',
@@ -76,11 +108,15 @@ export class HttpMCPServer implements MCPServer {
             }
           }
         });
-      });
+      };
+
+      // HTTPS when a certificate is configured, reloaded whenever its files change
+      this.httpServer = this.tls ? createHttpsServer(this.tls.serverOptions(), handleRequest) : createServer(handleRequest);
+      this.tls?.watch(this.httpServer);
 
       this.httpServer.listen(this.options.httpPort, this.options.httpHost, () => {
         logger.info(`HTTP server listening on ${this.options.httpHost}:${this.options.httpPort}`);
-        logger.info(`MCP endpoint available at: http://${this.options.httpHost}:${this.options.httpPort}${this.options.httpEndpoint}`);
+        logger.info(`MCP endpoint available at: ${this.scheme}://${this.options.httpHost}:${this.options.httpPort}${this.options.httpEndpoint}`);
         resolve();
       });
 
@@ -93,21 +129,27 @@ export class HttpMCPServer implements MCPServer {
 
   private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
     try {
-      // Enable CORS
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, mcp-session-id');
-      res.setHeader('Access-Control-Expose-Headers', 'mcp-session-id');
-
-      if (req.method === 'OPTIONS') {
-        res.writeHead(200);
-        res.end();
+      // CORS headers, and refusal of other origins and hosts (DNS rebinding)
+      if (!this.originPolicy.handle(req, res)) {
         return;
       }
 
       const url = new URL(req.url || '/', `http://${req.headers.host}`);
 
+      // Protected resource metadata, and the development issuer when enabled
+      const authRoute = await this.auth?.route(req, url);
+      if (authRoute) {
+        res.writeHead(authRoute.status, { 'Content-Type': 'application/json', ...authRoute.headers });
+        res.end(JSON.stringify(authRoute.body));
+        return;
+      }
+
       if (url.pathname === this.options.httpEndpoint) {
+        // Every request to the MCP endpoint needs an access token when authorization is enabled
+        if (this.auth && !(await this.auth.authenticate(req, res))) {
+          return;
+        }
+
         if (req.method === 'POST') {
           // Handle MCP JSON-RPC messages via POST
           try {
@@ -118,6 +160,23 @@ export class HttpMCPServer implements MCPServer {
                 const message = JSON.parse(body);
                 logger.debug('Received MCP message via POST:', message);
 
+                // Only sessions of this server get their own budget, so made-up session IDs
+                // are counted against the client IP alone
+                const sessionId = req.headers['mcp-session-id'] as string | undefined;
+                const rateLimited = !enforceRateLimit(req, res, {
+                  sessionId: sessionId && this.transports.has(sessionId) ? sessionId : undefined,
+                  tools: calledTools(message),
+                  id: Array.isArray(message) ? null : message?.id ?? null,
+                });
+                if (rateLimited) {
+                  return;
+                }
+
+                // Tools the access token has no scope for are refused before reaching the session
+                if (this.auth && !this.auth.authorizeTools(req, res, calledTools(message))) {
+                  return;
+                }
+
                 // Handle MCP requests using StreamableHTTPServerTransport
                 await this.handleMCPRequest(req, res, message);
               } catch (parseError) {
@@ -147,6 +206,12 @@ export class HttpMCPServer implements MCPServer {
               id: null
             }));
           }
+        } else if (req.method === 'GET' && req.headers.accept?.includes('text/event-stream')) {
+          // Stream of the session's notifications, such as resource updates
+          await this.handleStreamRequest(req, res);
+        } else if (req.method === 'DELETE') {
+          // Clients end their session, which drops its credentials and tokens
+          await this.handleTerminationRequest(req, res);
         } else if (req.method === 'GET') {
           // For GET requests, provide information about the MCP endpoint
           res.writeHead(200, { 'Content-Type': 'application/json' });
@@ -168,13 +233,18 @@ export class HttpMCPServer implements MCPServer {
           }));
         }
       } else if (url.pathname === '/health') {
-        // Health check endpoint
+        // Health check endpoint, including the state of the Glue upstreams
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          status: 'healthy',
-          transport: this.options.transport,
-          timestamp: new Date().toISOString()
-        }));
+        res.end(JSON.stringify(healthReport(this.options.transport)));
+      } else if (url.pathname === '/audit') {
+        // Audit trail of state-changing tool calls, for administrators
+        const audit = await auditRoute(req, url);
+        res.writeHead(audit.status, { 'Content-Type': 'application/json', ...audit.headers });
+        res.end(JSON.stringify(audit.body));
+      } else if (url.pathname === '/metrics' && req.method === 'GET') {
+        // Prometheus scrape endpoint
+        res.writeHead(200, { 'Content-Type': METRICS_CONTENT_TYPE });
+        res.end(metricsReport());
       } else {
         res.writeHead(404, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({
@@ -204,13 +274,26 @@ export class HttpMCPServer implements MCPServer {
     }
   }
 
-  private async handleMCPRequest(req: IncomingMessage, res: ServerResponse, message: any): Promise<void> {
+  private async handleMCPRequest(req: AuthenticatedRequest, res: ServerResponse, message: any): Promise<void> {
     try {
       // Check for existing session ID in headers
       const sessionId = req.headers['mcp-session-id'] as string;
       let transport: StreamableHTTPServerTransport;
 
-      if (sessionId && this.transports.has(sessionId)) {
+      if (sessionId && this.transports.has(sessionId) && this.sessionPrincipals.get(sessionId) !== principalOf(req)) {
+        // Sessions only serve the client and user that opened them
+        logger.warn(`Rejected request for session ${sessionId} of another client`, { clientId: req.auth?.clientId });
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          jsonrpc: '2.0',
+          error: {
+            code: -32001,
+            message: 'Session not found',
+          },
+          id: message?.id ?? null,
+        }));
+        return;
+      } else if (sessionId && this.transports.has(sessionId)) {
         // Reuse existing transport
         transport = this.transports.get(sessionId)!;
         logger.debug(`Reusing transport for session: ${sessionId}`);
@@ -224,9 +307,33 @@ export class HttpMCPServer implements MCPServer {
           onsessioninitialized: (newSessionId: string) => {
             logger.info(`MCP session initialized with ID: ${newSessionId}`);
             this.transports.set(newSessionId, transport);
+            this.subscriptions.set(newSessionId, subscriptions);
+            this.sessionPrincipals.set(newSessionId, principalOf(req));
+            const identity = clientIdentityOf(req);
+            if (identity) {
+              clientIdentities.setIdentity(newSessionId, identity);
+            }
+            this.updateSessionMetrics();
           }
         });
 
+        // Drop the session's transport, stored credentials and store selection once it closes
+        transport.onclose = () => {
+          const closedSessionId = transport.sessionId;
+          if (closedSessionId) {
+            this.transports.delete(closedSessionId);
+            this.subscriptions.get(closedSessionId)?.stop();
+            this.subscriptions.delete(closedSessionId);
+            this.sessionPrincipals.delete(closedSessionId);
+            sessionVault.clearSession(closedSessionId);
+            sprykerApi.clearSession(closedSessionId);
+            storeContext.clearSession(closedSessionId);
+            clientIdentities.clearSession(closedSessionId);
+            this.updateSessionMetrics();
+            logger.info(`MCP session closed: ${closedSessionId}`);
+          }
+        };
+
         // Create a new server instance for this session
         const server = new Server(
           {
@@ -237,6 +344,7 @@ export class HttpMCPServer implements MCPServer {
             capabilities: {
               tools: {},
               prompts: {},
+              resources: { subscribe: true },
               logging: {},
             },
           }
@@ -244,6 +352,7 @@ export class HttpMCPServer implements MCPServer {
 
         // Register all handlers for this server instance
         this.registerHandlers(server);
+        const subscriptions = registerResourceSubscriptions(server);
 
         // Connect the transport to the server BEFORE handling the request
         await server.connect(transport as any);
@@ -308,6 +417,76 @@ export class HttpMCPServer implements MCPServer {
     }
   }
 
+  /**
+   * Open the standalone SSE stream of a session. Notifications that answer no
+   * request, like `notifications/resources/updated`, only reach the client
+   * through this stream.
+   */
+  private async handleStreamRequest(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const transport = this.sessionTransport(req, res, 'notification stream');
+    if (transport) {
+      logger.debug(`Opening notification stream for session: ${transport.sessionId}`);
+      await transport.handleRequest(req, res);
+    }
+  }
+
+  /**
+   * Terminate a session at the request of its client. The transport closes,
+   * which clears the session's state.
+   */
+  private async handleTerminationRequest(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    const transport = this.sessionTransport(req, res, 'session termination');
+    if (transport) {
+      logger.debug(`Terminating session: ${transport.sessionId}`);
+      await transport.handleRequest(req, res);
+    }
+  }
+
+  /**
+   * Transport of the session a request names. Requests without a session ID,
+   * or for sessions of another client and user, are answered here.
+   */
+  private sessionTransport(req: AuthenticatedRequest, res: ServerResponse, purpose: string): StreamableHTTPServerTransport | undefined {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const transport = sessionId ? this.transports.get(sessionId) : undefined;
+
+    if (!sessionId) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: `Bad Request: Missing session ID for ${purpose}`,
+        },
+        id: null,
+      }));
+      return undefined;
+    }
+
+    // Sessions only serve the client and user that opened them
+    if (!transport || this.sessionPrincipals.get(sessionId) !== principalOf(req)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        jsonrpc: '2.0',
+        error: {
+          code: -32001,
+          message: 'Session not found',
+        },
+        id: null,
+      }));
+      return undefined;
+    }
+
+    return transport;
+  }
+
+  /**
+   * Report the number of open sessions on the metrics route
+   */
+  private updateSessionMetrics(): void {
+    activeSessions.set({ transport: this.options.transport }, this.transports.size);
+  }
+
   async shutdown(): Promise<void> {
     logger.info('Shutting down HTTP MCP Server...');
 
@@ -316,6 +495,11 @@ export class HttpMCPServer implements MCPServer {
       for (const [sessionId, transport] of this.transports) {
         try {
           await transport.close();
+          this.subscriptions.get(sessionId)?.stop();
+          sessionVault.clearSession(sessionId);
+          sprykerApi.clearSession(sessionId);
+          storeContext.clearSession(sessionId);
+          clientIdentities.clearSession(sessionId);
           logger.debug(`Closed transport for session: ${sessionId}`);
         } catch (error) {
           logger.error(`Error closing transport for session ${sessionId}:`,
@@ -323,6 +507,11 @@ export class HttpMCPServer implements MCPServer {
         }
       }
       this.transports.clear();
+      this.subscriptions.clear();
+      this.sessionPrincipals.clear();
+      this.updateSessionMetrics();
+
+      this.tls?.close();
 
       // Close HTTP server if it exists
       if (this.httpServer) {
@@ -0,0 +1,56 @@
+/**
+ * Metrics route of the HTTP transport
+ */
+
+import { SprykerApiService } from '../services/spryker-api.js';
+import { metrics } from '../services/metrics.js';
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const cacheLookups = metrics.counter(
+  'spryker_cache_lookups_total',
+  'Response cache lookups by result, hit or miss',
+  ['result'],
+  () => {
+    const stats = SprykerApiService.getInstance().getCacheStats();
+    if (stats) {
+      cacheLookups.set({ result: 'hit' }, stats.hits);
+      cacheLookups.set({ result: 'miss' }, stats.misses);
+    }
+  }
+);
+
+const cacheRevalidations = metrics.counter(
+  'spryker_cache_revalidations_total',
+  'Expired cached responses revalidated with Glue',
+  [],
+  () => {
+    const stats = SprykerApiService.getInstance().getCacheStats();
+    if (stats) {
+      cacheRevalidations.set({}, stats.revalidations);
+    }
+  }
+);
+
+const cacheHitRatio = metrics.gauge(
+  'spryker_cache_hit_ratio',
+  'Share of response cache lookups answered from the cache',
+  [],
+  () => {
+    const stats = SprykerApiService.getInstance().getCacheStats();
+    if (stats) {
+      const lookups = stats.hits + stats.misses;
+      cacheHitRatio.set({}, lookups > 0 ? stats.hits / lookups : 0);
+    }
+  }
+);
+
+/**
+ * Build the body of the metrics route
+ */
+export function metricsReport(): string {
+  return metrics.render();
+}
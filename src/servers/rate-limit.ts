@@ -0,0 +1,129 @@
+/**
+ * HTTP rate limiting
+ *
+ * Counts requests of the HTTP and SSE transports against the configured
+ * budgets per client IP or client certificate, per MCP session and per
+ * tool, and answers limited requests with 429, a Retry-After header and a
+ * JSON-RPC error.
+ */
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from '../config/index.js';
+import { rateLimiter, type RateLimitCheck } from '../services/rate-limiter.js';
+import { logger } from '../utils/logger.js';
+import { clientIdentityOf } from './tls.js';
+
+/**
+ * What a request is counted against besides the client IP
+ */
+export interface RateLimitOptions {
+  sessionId?: string | undefined;
+  tools?: string[];
+  /**
+   * JSON-RPC id of the request, echoed in the error response
+   */
+  id?: string | number | null;
+}
+
+/**
+ * Address of the client; the first X-Forwarded-For entry when behind a
+ * trusted proxy
+ */
+export function clientAddress(req: IncomingMessage): string {
+  if (config.rateLimit.trustProxy) {
+    const header = req.headers['x-forwarded-for'];
+    const forwarded = (Array.isArray(header) ? header[0] : header)?.split(',')[0]?.trim();
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+
+  return req.socket?.remoteAddress || 'unknown';
+}
+
+/**
+ * Names of the tools called by a JSON-RPC message or batch
+ */
+export function calledTools(message: unknown): string[] {
+  const messages: unknown[] = Array.isArray(message) ? message : [message];
+
+  return messages.flatMap(item => {
+    const request = item as { method?: unknown; params?: { name?: unknown } } | null;
+    return request?.method === 'tools/call' && typeof request.params?.name === 'string' ? [request.params.name] : [];
+  });
+}
+
+/**
+ * Build the budgets a request is counted against. Clients with a TLS client
+ * certificate are counted by its identity instead of their IP, for their
+ * own budget as well as for the tool budgets.
+ */
+export function rateLimitChecks(req: IncomingMessage, options: RateLimitOptions = {}): RateLimitCheck[] {
+  const { windowMs, maxRequests, ipMaxRequests, tools } = config.rateLimit;
+  const identity = clientIdentityOf(req);
+  const client = identity ?? clientAddress(req);
+
+  const clientKey = identity ? `client:${identity}` : `ip:${client}`;
+
+  const checks: RateLimitCheck[] = [{ key: clientKey, maxRequests: ipMaxRequests, windowMs }];
+
+  if (options.sessionId) {
+    checks.push({ key: `session:${options.sessionId}`, maxRequests, windowMs });
+  }
+
+  // Tools without an override are only limited by the IP and session budgets.
+  // Tool budgets belong to the client, so opening another session does not
+  // renew them. Every call of a tool in a batch counts against its budget.
+  const calls = new Map<string, number>();
+  for (const tool of options.tools ?? []) {
+    calls.set(tool, (calls.get(tool) ?? 0) + 1);
+  }
+  for (const [tool, cost] of calls) {
+    const limit = tools[tool];
+    if (limit) {
+      checks.push({
+        key: `tool:${tool}:${clientKey}`,
+        maxRequests: limit.maxRequests,
+        windowMs: limit.windowMs ?? windowMs,
+        ...(cost > 1 ? { cost } : {}),
+      });
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Count a request against the rate limits, answering it with 429 when a
+ * budget is exhausted. Returns whether the request may proceed.
+ */
+export function enforceRateLimit(req: IncomingMessage, res: ServerResponse, options: RateLimitOptions = {}): boolean {
+  if (!config.rateLimit.enabled) {
+    return true;
+  }
+
+  const result = rateLimiter.consume(rateLimitChecks(req, options));
+  if (result.allowed) {
+    return true;
+  }
+
+  const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+  const [scope, tool] = result.limitedBy?.split(':') ?? [];
+  logger.warn('Rate limit exceeded', { limitedBy: result.limitedBy, retryAfter });
+
+  res.writeHead(429, {
+    'Content-Type': 'application/json',
+    'Retry-After': String(retryAfter),
+  });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: {
+      code: -32000,
+      message: `Rate limit exceeded, retry after ${retryAfter} seconds`,
+      data: { scope, retryAfter, ...(scope === 'tool' ? { tool } : {}) },
+    },
+    id: options.id ?? null,
+  }));
+
+  return false;
+}
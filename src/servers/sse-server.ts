@@ -5,16 +5,55 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
 import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createServer as createHttpsServer } from 'node:https';
 import { URL } from 'node:url';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { validateEnvironment } from '../utils/validation.js';
+import { sessionVault } from '../services/session-vault.js';
+import { sprykerApi } from '../services/spryker-api.js';
+import { storeContext } from '../services/store-context.js';
+import { clientIdentities } from '../services/client-identity.js';
+import { registerResourceSubscriptions } from '../resources/index.js';
+import { calledTools, enforceRateLimit } from './rate-limit.js';
+import { healthReport } from './health.js';
+import { auditRoute } from './audit.js';
+import { OriginPolicy } from './cors.js';
+import { clientIdentityOf, createTlsCertificates, type TlsCertificates } from './tls.js';
+import { createBearerAuth, principalOf, type AuthenticatedRequest, type BearerAuth } from './auth.js';
 import { MCPServer, ServerOptions, HandlerRegistrar } from './types.js';
 
+/**
+ * Largest message a client may post, as the SDK transport accepts
+ */
+const MAXIMUM_MESSAGE_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Read the JSON-RPC message a client posted
+ */
+async function readMessage(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let body = '';
+  for await (const chunk of req) {
+    body += String(chunk);
+    if (body.length > MAXIMUM_MESSAGE_SIZE) {
+      throw new Error('Message too large');
+    }
+  }
+  return JSON.parse(body);
+}
+
 export class SSEMCPServer implements MCPServer {
   private httpServer: any = null;
   private options: ServerOptions;
   private registerHandlers: HandlerRegistrar;
+  private auth: BearerAuth | undefined;
+  private originPolicy: OriginPolicy;
+  private tls: TlsCertificates | undefined;
+  private transports: Map<string, SSEServerTransport> = new Map();
+  /**
+   * Client and user each connection was opened by, so others cannot post to it
+   */
+  private sessionPrincipals: Map<string, string | undefined> = new Map();
 
   constructor(options: ServerOptions, registerHandlers: HandlerRegistrar) {
     this.options = {
@@ -24,6 +63,16 @@ export class SSEMCPServer implements MCPServer {
       httpEndpoint: options.httpEndpoint || config.mcp.http.endpoint,
     };
     this.registerHandlers = registerHandlers;
+    this.auth = createBearerAuth(this.options);
+    this.tls = createTlsCertificates();
+    this.originPolicy = new OriginPolicy(this.options, ['WWW-Authenticate']);
+  }
+
+  /**
+   * Scheme clients reach the server with
+   */
+  private get scheme(): string {
+    return this.tls ? 'https' : 'http';
   }
 
   async start(): Promise<void> {
@@ -41,7 +90,7 @@ export class SSEMCPServer implements MCPServer {
       logger.info(`Server Name: ${config.server.name}`);
       logger.info(`Server Version: ${config.server.version}`);
       logger.info(`API Base URL: ${config.api.baseUrl}`);
-      logger.info(`HTTP Server: http://${this.options.httpHost}:${this.options.httpPort}`);
+      logger.info(`HTTP Server: ${this.scheme}://${this.options.httpHost}:${this.options.httpPort}`);
       logger.info(`MCP Endpoint: ${this.options.httpEndpoint}`);
       
     } catch (error) {
@@ -53,7 +102,7 @@ export class SSEMCPServer implements MCPServer {
 
   private async initializeHttpServer(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
+      const handleRequest = (req: IncomingMessage, res: ServerResponse) => {
         // Wrap the handler in a try-catch to prevent unhandled promise rejections
         this.handleHttpRequest(req, res).catch((error) => {
           logger.error('HTTP request handler error:', 
@@ -73,11 +122,15 @@ export class SSEMCPServer implements MCPServer {
             }
           }
         });
-      });
+      };
+
+      // HTTPS when a certificate is configured, reloaded whenever its files change
+      this.httpServer = this.tls ? createHttpsServer(this.tls.serverOptions(), handleRequest) : createServer(handleRequest);
+      this.tls?.watch(this.httpServer);
 
       this.httpServer.listen(this.options.httpPort, this.options.httpHost, () => {
         logger.info(`HTTP server listening on ${this.options.httpHost}:${this.options.httpPort}`);
-        logger.info(`MCP endpoint available at: http://${this.options.httpHost}:${this.options.httpPort}${this.options.httpEndpoint}`);
+        logger.info(`MCP endpoint available at: ${this.scheme}://${this.options.httpHost}:${this.options.httpPort}${this.options.httpEndpoint}`);
         resolve();
       });
 
@@ -90,21 +143,33 @@ export class SSEMCPServer implements MCPServer {
 
   private async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
     try {
-      // Enable CORS
-      res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-
-      if (req.method === 'OPTIONS') {
-        res.writeHead(200);
-        res.end();
+      // CORS headers, and refusal of other origins and hosts (DNS rebinding)
+      if (!this.originPolicy.handle(req, res)) {
         return;
       }
 
       const url = new URL(req.url || '/', `http://${req.headers.host}`);
+
+      // Protected resource metadata, and the development issuer when enabled
+      const authRoute = await this.auth?.route(req, url);
+      if (authRoute) {
+        res.writeHead(authRoute.status, { 'Content-Type': 'application/json', ...authRoute.headers });
+        res.end(JSON.stringify(authRoute.body));
+        return;
+      }
       
       if (url.pathname === this.options.httpEndpoint) {
+        // Connections and their messages need an access token when authorization is enabled
+        if (this.auth && !(await this.auth.authenticate(req, res))) {
+          return;
+        }
+
         if (req.method === 'GET') {
+          // New connections are counted against the client IP
+          if (!enforceRateLimit(req, res)) {
+            return;
+          }
+
           // For SSE transport, create and manage the connection
           try {
             logger.info('Creating SSE connection for client');
@@ -119,6 +184,7 @@ export class SSEMCPServer implements MCPServer {
                 capabilities: {
                   tools: {},
                   prompts: {},
+                  resources: { subscribe: true },
                   logging: {},
                 },
               }
@@ -126,14 +192,34 @@ export class SSEMCPServer implements MCPServer {
             
             // Register all handlers for this SSE server instance
             this.registerHandlers(sseServer);
+            const subscriptions = registerResourceSubscriptions(sseServer);
             
             // Create SSE transport for this specific response
             const sseTransport = new SSEServerTransport(this.options.httpEndpoint!, res);
+
+            // Stop watching resources and forget stored credentials and store selection once the connection closes
+            sseServer.onclose = () => {
+              this.transports.delete(sseTransport.sessionId);
+              this.sessionPrincipals.delete(sseTransport.sessionId);
+              subscriptions.stop();
+              sessionVault.clearSession(sseTransport.sessionId);
+              sprykerApi.clearSession(sseTransport.sessionId);
+              storeContext.clearSession(sseTransport.sessionId);
+              clientIdentities.clearSession(sseTransport.sessionId);
+            };
+
+            const identity = clientIdentityOf(req);
+            if (identity) {
+              clientIdentities.setIdentity(sseTransport.sessionId, identity);
+            }
             
             logger.info('Connecting SSE server to transport');
             
-            // Connect the SSE server to the transport
+            // Connect the SSE server to the transport, which tells the client
+            // to post its messages to the endpoint with the session ID
             await sseServer.connect(sseTransport);
+            this.transports.set(sseTransport.sessionId, sseTransport);
+            this.sessionPrincipals.set(sseTransport.sessionId, principalOf(req));
             
             logger.info('SSE connection established and server connected');
             
@@ -149,18 +235,21 @@ export class SSEMCPServer implements MCPServer {
               res.end(JSON.stringify({ error: 'Failed to establish SSE connection' }));
             }
           }
+        } else if (req.method === 'POST') {
+          await this.handlePostMessage(req, res, url);
         } else {
           res.writeHead(405, { 'Content-Type': 'application/json' });
           res.end(JSON.stringify({ error: 'Method not allowed' }));
         }
       } else if (url.pathname === '/health') {
-        // Health check endpoint
+        // Health check endpoint, including the state of the Glue upstreams
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ 
-          status: 'healthy', 
-          transport: this.options.transport,
-          timestamp: new Date().toISOString()
-        }));
+        res.end(JSON.stringify(healthReport(this.options.transport)));
+      } else if (url.pathname === '/audit') {
+        // Audit trail of state-changing tool calls, for administrators
+        const audit = await auditRoute(req, url);
+        res.writeHead(audit.status, { 'Content-Type': 'application/json', ...audit.headers });
+        res.end(JSON.stringify(audit.body));
       } else {
         res.writeHead(404, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: 'Not found' }));
@@ -179,10 +268,77 @@ export class SSEMCPServer implements MCPServer {
     }
   }
 
+  /**
+   * Pass a message the client posted to the SSE connection of its session.
+   * Only the client and user that opened the connection can post to it, and
+   * only calls of tools its access token grants and the rate limits allow.
+   */
+  private async handlePostMessage(req: AuthenticatedRequest, res: ServerResponse, url: URL): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') ?? '';
+    const transport = this.transports.get(sessionId);
+
+    if (!transport || this.sessionPrincipals.get(sessionId) !== principalOf(req)) {
+      if (transport) {
+        logger.warn(`Rejected message for session ${sessionId} of another client`, { clientId: req.auth?.clientId });
+      }
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Session not found' }));
+      return;
+    }
+
+    let message: Record<string, unknown>;
+    try {
+      message = await readMessage(req);
+    } catch (parseError) {
+      logger.error('Failed to parse POST body:',
+        parseError instanceof Error ? parseError : new Error(String(parseError)));
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        error: 'Bad Request',
+        message: parseError instanceof Error ? parseError.message : 'Invalid message'
+      }));
+      return;
+    }
+
+    logger.debug('Received MCP message via POST:', message);
+
+    // Messages are counted against the budgets of the client, the session and the tools they call
+    const rateLimited = !enforceRateLimit(req, res, {
+      sessionId,
+      tools: calledTools(message),
+      id: (message.id as string | number | undefined) ?? null,
+    });
+    if (rateLimited) {
+      return;
+    }
+
+    // Tools the access token has no scope for are refused before reaching the session
+    if (this.auth && !this.auth.authorizeTools(req, res, calledTools(message))) {
+      return;
+    }
+
+    await transport.handlePostMessage(req, res, message);
+  }
+
   async shutdown(): Promise<void> {
     logger.info('Shutting down SSE MCP Server...');
     
     try {
+      // Close all open connections
+      for (const [sessionId, transport] of this.transports) {
+        try {
+          await transport.close();
+          logger.debug(`Closed transport for session: ${sessionId}`);
+        } catch (error) {
+          logger.error(`Error closing transport for session ${sessionId}:`,
+            error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+      this.transports.clear();
+      this.sessionPrincipals.clear();
+
+      this.tls?.close();
+
       // Close HTTP server if it exists
       if (this.httpServer) {
         await new Promise<void>((resolve, reject) => {
@@ -28,6 +28,7 @@ export class StdioMCPServer implements MCPServer {
         capabilities: {
           tools: {},
           prompts: {},
+          resources: {},
           logging: {},
         },
       }
@@ -0,0 +1,147 @@
+/**
+ * HTTPS and client certificates of the HTTP and SSE transports
+ *
+ * Servers deployed without a reverse proxy serve HTTPS with the configured
+ * certificate and key. The files are checked for changes and reloaded
+ * without a restart, so rotated certificates take effect for new
+ * connections. With client authentication, clients present a certificate of
+ * the configured CA, and its subject identifies the client to the rate
+ * limiter and the audit trail.
+ */
+
+import { readFileSync, unwatchFile, watchFile, type Stats } from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import type { ServerOptions as HttpsServerOptions } from 'node:https';
+import type { PeerCertificate, SecureContextOptions, Server as TlsServer, TLSSocket } from 'node:tls';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Subject of a certificate in the form O=Acme,CN=assistant, in the order of
+ * the certificate
+ */
+export function subjectOf(certificate: PeerCertificate): string {
+  return Object.entries(certificate.subject ?? {})
+    .flatMap(([attribute, value]) => (Array.isArray(value) ? value : [value]).map(entry => `${attribute}=${entry}`))
+    .join(',');
+}
+
+/**
+ * Identity of the client of a request, from its verified TLS client
+ * certificate: the identity MCP_TLS_CLIENT_IDENTITIES maps its subject or
+ * common name to, or else its common name. Undefined for requests without
+ * a verified certificate.
+ */
+export function clientIdentityOf(req: IncomingMessage): string | undefined {
+  const socket = req.socket as Partial<TLSSocket> | undefined;
+  if (!socket?.authorized || typeof socket.getPeerCertificate !== 'function') {
+    return undefined;
+  }
+
+  const certificate = socket.getPeerCertificate();
+  const subject = subjectOf(certificate);
+  const commonName = [certificate.subject?.CN ?? []].flat()[0];
+  const { clientIdentities } = config.mcp.tls;
+
+  return clientIdentities[subject] ?? (commonName ? clientIdentities[commonName] ?? commonName : subject || undefined);
+}
+
+/**
+ * Read a PEM file of the TLS configuration
+ */
+function readPem(file: string, description: string): Buffer {
+  try {
+    return readFileSync(file);
+  } catch (error) {
+    throw new Error(`Cannot read TLS ${description} ${file}: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+}
+
+/**
+ * Certificate, key and CA of an HTTPS server, reloaded when their files
+ * change
+ */
+export class TlsCertificates {
+  private server: TlsServer | undefined;
+  private readonly onChange = (current: Stats, previous: Stats): void => {
+    if (current.mtimeMs !== previous.mtimeMs) {
+      this.reload();
+    }
+  };
+
+  constructor(private readonly settings: typeof config.mcp.tls) {}
+
+  /**
+   * Options of an HTTPS server with the current certificate, key and CA
+   */
+  serverOptions(): HttpsServerOptions {
+    const { clientAuth } = this.settings;
+
+    return {
+      ...this.secureContextOptions(),
+      requestCert: clientAuth !== 'none',
+      rejectUnauthorized: clientAuth === 'required',
+    };
+  }
+
+  /**
+   * Reload the certificate, key and CA of a server whenever one of their
+   * files changes
+   */
+  watch(server: TlsServer): void {
+    this.server = server;
+    for (const file of this.files()) {
+      watchFile(file, { persistent: false, interval: this.settings.reloadInterval }, this.onChange);
+    }
+  }
+
+  /**
+   * Load the files again for new connections. A certificate that cannot be
+   * loaded, e.g. while only the certificate and not yet the key has been
+   * replaced, leaves the previous one in use. Returns whether it was loaded.
+   */
+  reload(): boolean {
+    try {
+      this.server?.setSecureContext(this.secureContextOptions());
+      logger.info('Reloaded TLS certificate', { certFile: this.settings.certFile });
+      return true;
+    } catch (error) {
+      logger.error('Failed to reload TLS certificate, keeping the previous one',
+        error instanceof Error ? error : new Error(String(error)));
+      return false;
+    }
+  }
+
+  /**
+   * Stop watching the files
+   */
+  close(): void {
+    for (const file of this.files()) {
+      unwatchFile(file, this.onChange);
+    }
+    this.server = undefined;
+  }
+
+  private secureContextOptions(): SecureContextOptions {
+    const { certFile, keyFile, keyPassphrase, caFile } = this.settings;
+
+    return {
+      cert: readPem(certFile!, 'certificate file'),
+      key: readPem(keyFile!, 'key file'),
+      ...(keyPassphrase ? { passphrase: keyPassphrase } : {}),
+      ...(caFile ? { ca: readPem(caFile, 'CA file') } : {}),
+    };
+  }
+
+  private files(): string[] {
+    const { certFile, keyFile, caFile } = this.settings;
+    return [certFile, keyFile, caFile].filter((file): file is string => Boolean(file));
+  }
+}
+
+/**
+ * Certificates of a server, or undefined when it serves plain HTTP
+ */
+export function createTlsCertificates(): TlsCertificates | undefined {
+  return config.mcp.tls.enabled ? new TlsCertificates(config.mcp.tls) : undefined;
+}
@@ -0,0 +1,476 @@
+/**
+ * Audit Trail
+ *
+ * Append-only record of every state-changing tool call: who called which
+ * tool with which arguments, how Glue answered and which order, cart or
+ * other resources the call produced. Entries are written as JSON lines to a
+ * rotating file and chained by their hashes, so removing or changing an
+ * entry breaks the chain of all entries after it.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { createHash } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir, open, rename, stat } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { createInterface } from 'node:readline';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { Redactor } from '../utils/redaction.js';
+import { getAuthInfo, getSessionId } from './session-context.js';
+import { clientIdentities } from './client-identity.js';
+import { customerReferenceOf, sessionVault } from './session-vault.js';
+
+/**
+ * Hash the first entry of the trail is chained to
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Glue request sent during a tool call, without its query string
+ */
+export interface GlueRequestRecord {
+  method: string;
+  endpoint: string;
+  /**
+   * HTTP status of the response, missing when no response arrived
+   */
+  status?: number;
+}
+
+/**
+ * Resources a tool call created or changed
+ */
+export interface AuditResources {
+  orderReference?: string;
+  cartId?: string;
+  itemId?: string;
+  wishlistId?: string;
+  addressId?: string;
+}
+
+/**
+ * Tool call to record
+ */
+export interface AuditEvent {
+  tool: string;
+  args: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  outcome: 'success' | 'error';
+  errorCode?: string;
+  glueRequests: GlueRequestRecord[];
+}
+
+export interface AuditEntry {
+  sequence: number;
+  timestamp: string;
+  sessionId: string;
+  /**
+   * Client of the call: the identity of its TLS client certificate, or the
+   * client its access token was issued to
+   */
+  clientId?: string;
+  customerReference?: string;
+  tool: string;
+  /**
+   * Arguments with secrets and personal data redacted
+   */
+  arguments: Record<string, unknown>;
+  outcome: 'success' | 'error';
+  errorCode?: string;
+  /**
+   * HTTP status of the last Glue request of the call
+   */
+  glueStatus?: number;
+  glueRequests: GlueRequestRecord[];
+  resources: AuditResources;
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  sessionId?: string;
+  clientId?: string;
+  customerReference?: string;
+  tool?: string;
+  /**
+   * Only entries at or after this time, in milliseconds since the epoch
+   */
+  since?: number;
+  /**
+   * Only entries before this time, in milliseconds since the epoch
+   */
+  until?: number;
+  limit?: number;
+}
+
+/**
+ * Result of checking the hash chain
+ */
+export interface AuditVerification {
+  valid: boolean;
+  entries: number;
+  /**
+   * Sequence number of the first entry whose hash or link is wrong, or the
+   * one expected at the first unreadable line
+   */
+  brokenAt?: number;
+  /**
+   * File and number of the first line that is not an entry
+   */
+  unreadable?: { file: string; line: number };
+}
+
+export interface AuditTrailOptions {
+  enabled: boolean;
+  /**
+   * File the trail is appended to, required when it is enabled
+   */
+  file?: string | undefined;
+  /**
+   * Size in bytes at which the file is rotated
+   */
+  maxSize: number;
+  /**
+   * Number of rotated files kept next to the current one
+   */
+  maxFiles: number;
+}
+
+type Chain = { sequence: number; hash: string };
+
+/**
+ * Line of an audit file, with its entry unless the line is not one, e.g.
+ * after a crash in the middle of writing it
+ */
+interface AuditLine {
+  file: string;
+  line: number;
+  entry?: AuditEntry;
+}
+
+const glueRequests = new AsyncLocalStorage<GlueRequestRecord[]>();
+
+/**
+ * Run a tool implementation and collect the Glue requests it sends
+ */
+export function collectGlueRequests<T>(requests: GlueRequestRecord[], fn: () => T): T {
+  return glueRequests.run(requests, fn);
+}
+
+/**
+ * Record a Glue request of the tool call currently being handled
+ */
+export function recordGlueRequest(request: GlueRequestRecord): void {
+  glueRequests.getStore()?.push(request);
+}
+
+/**
+ * Hash of an entry, over all its fields but the hash itself
+ */
+function hashEntry(entry: Omit<AuditEntry, 'hash'>): string {
+  return createHash('sha256').update(JSON.stringify(entry)).digest('hex');
+}
+
+function stringAt(value: unknown, ...path: string[]): string | undefined {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null) {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === 'string' && current ? current : undefined;
+}
+
+function parseEntry(text: string): AuditEntry | undefined {
+  try {
+    const entry = JSON.parse(text) as Partial<AuditEntry> | null;
+    return typeof entry?.sequence === 'number' && typeof entry.hash === 'string' ? entry as AuditEntry : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lines of a file, oldest first, read one by one. A missing file has no
+ * lines.
+ */
+async function* readFileLines(file: string): AsyncGenerator<AuditLine> {
+  const input = createReadStream(file, 'utf8');
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let line = 0;
+  try {
+    for await (const text of lines) {
+      line++;
+      if (text) {
+        const entry = parseEntry(text);
+        yield entry ? { file, line, entry } : { file, line };
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
+
+async function endsWithNewline(file: string, size: number): Promise<boolean> {
+  const handle = await open(file, 'r');
+  try {
+    const { buffer } = await handle.read(Buffer.alloc(1), 0, 1, size - 1);
+    return buffer[0] === 0x0a;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Resources of a tool call, from its arguments and result
+ */
+function resourcesOf(event: AuditEvent): AuditResources {
+  const { args, result } = event;
+  const resources = {
+    orderReference: stringAt(result, 'order', 'orderReference'),
+    cartId: stringAt(result, 'cartId') ?? stringAt(args, 'cartId') ?? stringAt(result, 'cart', 'data', 'id'),
+    itemId: stringAt(result, 'removedItemId') ?? stringAt(result, 'updatedItem', 'itemId') ?? stringAt(args, 'itemId'),
+    wishlistId: stringAt(result, 'wishlistUuid') ?? stringAt(args, 'wishlistId') ?? stringAt(result, 'wishlist', 'data', 'id'),
+    addressId: stringAt(args, 'addressId') ?? stringAt(result, 'address', 'data', 'id'),
+  };
+
+  return Object.fromEntries(Object.entries(resources).filter(([, value]) => value !== undefined)) as AuditResources;
+}
+
+/**
+ * Hash-chained audit trail in a rotating JSON lines file
+ */
+export class AuditTrail {
+  private chain: Promise<Chain> | undefined;
+  private writing: Promise<unknown> = Promise.resolve();
+  private redactor?: Redactor;
+
+  constructor(
+    private readonly options: AuditTrailOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  get enabled(): boolean {
+    return this.options.enabled && Boolean(this.options.file);
+  }
+
+  /**
+   * Append an entry for a tool call. Entries are written one after another,
+   * each chained to the one before.
+   */
+  record(event: AuditEvent, sessionId: string = getSessionId()): Promise<AuditEntry> {
+    const clientId = clientIdentities.getIdentity(sessionId) ?? getAuthInfo()?.clientId;
+    const customerReference = this.customerReferenceOf(event, sessionId);
+    const glueStatus = event.glueRequests.at(-1)?.status;
+
+    const written = this.writing.then(async () => {
+      const previous = await this.lastEntry();
+      const unhashed: Omit<AuditEntry, 'hash'> = {
+        sequence: previous.sequence + 1,
+        timestamp: new Date(this.now()).toISOString(),
+        sessionId,
+        ...(clientId ? { clientId } : {}),
+        ...(customerReference ? { customerReference } : {}),
+        tool: event.tool,
+        arguments: this.sanitize(event),
+        outcome: event.outcome,
+        ...(event.errorCode ? { errorCode: event.errorCode } : {}),
+        ...(glueStatus !== undefined ? { glueStatus } : {}),
+        glueRequests: event.glueRequests,
+        resources: resourcesOf(event),
+        previousHash: previous.hash,
+      };
+      const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed) };
+
+      await this.append(`${JSON.stringify(entry)}\n`);
+      this.chain = Promise.resolve({ sequence: entry.sequence, hash: entry.hash });
+      return entry;
+    });
+
+    // A failed write must not keep later entries from being written
+    this.writing = written.catch(() => undefined);
+    return written;
+  }
+
+  /**
+   * Entries matching a query, newest first. Files are read newest first and
+   * reading stops once the limit is reached.
+   */
+  async query(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const limit = query.limit ?? 100;
+    const matches = (entry: AuditEntry): boolean =>
+      (!query.sessionId || entry.sessionId === query.sessionId) &&
+      (!query.clientId || entry.clientId === query.clientId) &&
+      (!query.customerReference || entry.customerReference === query.customerReference) &&
+      (!query.tool || entry.tool === query.tool) &&
+      (query.since === undefined || Date.parse(entry.timestamp) >= query.since) &&
+      (query.until === undefined || Date.parse(entry.timestamp) < query.until);
+
+    await this.writing;
+    const results: AuditEntry[] = [];
+    for (const file of this.files().reverse()) {
+      if (results.length >= limit) {
+        break;
+      }
+
+      // Only the newest matches of a file are kept while it is read
+      const remaining = limit - results.length;
+      const newest: AuditEntry[] = [];
+      for await (const { entry } of readFileLines(file)) {
+        if (entry && matches(entry)) {
+          newest.push(entry);
+          if (newest.length > remaining) {
+            newest.shift();
+          }
+        }
+      }
+      results.push(...newest.reverse());
+    }
+    return results;
+  }
+
+  /**
+   * Check the hash chain of the entries still on disk. The oldest entry
+   * links to a rotated file that may have been dropped, so the chain is
+   * checked from there on. Lines that are not entries break the chain too.
+   */
+  async verify(): Promise<AuditVerification> {
+    await this.writing;
+    let entries = 0;
+    let previous: AuditEntry | undefined;
+    let broken: Omit<AuditVerification, 'valid' | 'entries'> | undefined;
+
+    for (const file of this.files()) {
+      for await (const { line, entry } of readFileLines(file)) {
+        if (!entry) {
+          broken ??= { ...(previous ? { brokenAt: previous.sequence + 1 } : {}), unreadable: { file, line } };
+          continue;
+        }
+
+        entries++;
+        const { hash, ...unhashed } = entry;
+        if (hash !== hashEntry(unhashed) || (previous && (entry.previousHash !== previous.hash || entry.sequence !== previous.sequence + 1))) {
+          broken ??= { brokenAt: entry.sequence };
+        }
+        previous = entry;
+      }
+    }
+
+    return broken ? { valid: false, entries, ...broken } : { valid: true, entries };
+  }
+
+  /**
+   * Files of the trail, oldest first
+   */
+  private files(): string[] {
+    const { file, maxFiles } = this.options;
+    if (!file) {
+      return [];
+    }
+    const rotated = Array.from({ length: maxFiles }, (_, index) => `${file}.${maxFiles - index}`);
+    return [...rotated, file];
+  }
+
+  /**
+   * Sequence number and hash of the last entry, read from the newest file
+   * once, so the chain continues across restarts. Unreadable lines are
+   * skipped, so the chain continues from the last valid entry.
+   */
+  private lastEntry(): Promise<Chain> {
+    this.chain ??= this.readLastEntry().then(
+      last => last ? { sequence: last.sequence, hash: last.hash } : { sequence: 0, hash: GENESIS_HASH },
+      error => {
+        this.chain = undefined;
+        throw error;
+      }
+    );
+    return this.chain;
+  }
+
+  private async readLastEntry(): Promise<AuditEntry | undefined> {
+    for (const file of this.files().reverse()) {
+      let last: AuditEntry | undefined;
+      const unreadable: number[] = [];
+      for await (const { line, entry } of readFileLines(file)) {
+        if (entry) {
+          last = entry;
+        } else {
+          unreadable.push(line);
+        }
+      }
+
+      if (unreadable.length > 0) {
+        logger.error(`Audit log ${file} has unreadable lines, the chain continues from the last valid entry`, {
+          file,
+          lines: unreadable,
+          sequence: last?.sequence,
+        });
+      }
+      if (last) {
+        return last;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Append a line, rotating the file first when the line would not fit
+   */
+  private async append(line: string): Promise<void> {
+    const { file, maxSize, maxFiles } = this.options;
+    if (!file) {
+      throw new Error('AUDIT_LOG_FILE is not set');
+    }
+    await mkdir(dirname(file), { recursive: true });
+
+    let text = line;
+    const size = await stat(file).then(stats => stats.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > maxSize) {
+      for (let index = maxFiles - 1; index >= 1; index--) {
+        await rename(`${file}.${index}`, `${file}.${index + 1}`).catch(() => undefined);
+      }
+      await rename(file, `${file}.1`);
+      logger.info('Rotated audit log', { file });
+    } else if (size > 0 && !(await endsWithNewline(file, size))) {
+      // A line cut off by a crash must not swallow the entry written after it
+      text = `\n${line}`;
+    }
+
+    await appendFile(file, text, { mode: 0o600 });
+  }
+
+  private sanitize(event: AuditEvent): Record<string, unknown> {
+    this.redactor ??= new Redactor(config.server.redaction);
+    return this.redactor.redactMetadata({ tool: event.tool, args: event.args }).args as Record<string, unknown>;
+  }
+
+  /**
+   * Customer reference of a tool call, from its arguments or result, or the
+   * access token of the customer it acts for
+   */
+  private customerReferenceOf(event: AuditEvent, sessionId: string): string | undefined {
+    const reference = stringAt(event.args, 'customerReference') ?? stringAt(event.result, 'customer', 'data', 'id');
+    if (reference) {
+      return reference;
+    }
+
+    try {
+      const credentials = sessionVault.resolve(stringAt(event.args, 'session'), sessionId);
+      return credentials.userType === 'customer' ? customerReferenceOf(credentials.accessToken) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Global audit trail instance
+ */
+export const auditTrail = new AuditTrail(config.audit);
@@ -0,0 +1,97 @@
+/**
+ * Development issuer
+ *
+ * Minimal authorization server for trying the authorization of the HTTP and
+ * SSE transports locally. It signs access tokens with a key generated at
+ * startup for any client that asks, through the client credentials grant,
+ * so it must never be reachable from other machines.
+ */
+
+import { generateKeyPairSync, randomUUID, type KeyObject } from 'node:crypto';
+import { signJwt } from './jwt.js';
+import { TOOL_SCOPES } from './scopes.js';
+import type { JwkSet, KeySet, VerificationKey } from './types.js';
+
+/**
+ * Lifetime of issued access tokens, in seconds
+ */
+const TOKEN_LIFETIME = 3600;
+
+/**
+ * Token endpoint response (RFC 6749 section 5)
+ */
+export type TokenResponse =
+  | { access_token: string; token_type: 'Bearer'; expires_in: number; scope: string }
+  | { error: 'unsupported_grant_type' | 'invalid_scope'; error_description: string };
+
+export class DevIssuer implements KeySet {
+  private readonly kid = randomUUID();
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+
+  constructor(
+    readonly issuer: string,
+    private readonly audience: string,
+    private readonly now: () => number = Date.now
+  ) {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' }));
+  }
+
+  async getKeys(kid?: string): Promise<VerificationKey[]> {
+    return !kid || kid === this.kid ? [{ kid: this.kid, alg: 'ES256', key: this.publicKey }] : [];
+  }
+
+  /**
+   * Public key of the issuer as a JSON Web Key Set
+   */
+  jwks(): JwkSet {
+    return { keys: [{ ...this.publicKey.export({ format: 'jwk' }), kty: 'EC', kid: this.kid, alg: 'ES256', use: 'sig' }] };
+  }
+
+  /**
+   * Authorization server metadata (RFC 8414)
+   */
+  metadata(): Record<string, unknown> {
+    return {
+      issuer: this.issuer,
+      token_endpoint: `${this.issuer}/oauth/token`,
+      jwks_uri: `${this.issuer}/oauth/jwks`,
+      grant_types_supported: ['client_credentials'],
+      token_endpoint_auth_methods_supported: ['none'],
+      response_types_supported: [],
+      scopes_supported: [...TOOL_SCOPES],
+    };
+  }
+
+  /**
+   * Answer a token request. Without a scope parameter the token grants all
+   * scopes.
+   */
+  issueToken(params: URLSearchParams): TokenResponse {
+    if (params.get('grant_type') !== 'client_credentials') {
+      return { error: 'unsupported_grant_type', error_description: 'Only the client_credentials grant is supported' };
+    }
+
+    const requested = params.get('scope')?.split(' ').filter(Boolean) ?? [...TOOL_SCOPES];
+    const unknown = requested.filter(scope => !(TOOL_SCOPES as readonly string[]).includes(scope));
+    if (unknown.length > 0) {
+      return { error: 'invalid_scope', error_description: `Unknown scopes: ${unknown.join(' ')}` };
+    }
+
+    const clientId = params.get('client_id') || 'developer';
+    const issuedAt = Math.floor(this.now() / 1000);
+    const scope = requested.join(' ');
+    const accessToken = signJwt({
+      iss: this.issuer,
+      sub: clientId,
+      aud: this.audience,
+      client_id: clientId,
+      scope,
+      iat: issuedAt,
+      exp: issuedAt + TOKEN_LIFETIME,
+      jti: randomUUID(),
+    }, this.privateKey, { alg: 'ES256', kid: this.kid, typ: 'at+jwt' });
+
+    return { access_token: accessToken, token_type: 'Bearer', expires_in: TOKEN_LIFETIME, scope };
+  }
+}
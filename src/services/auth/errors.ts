@@ -0,0 +1,19 @@
+/**
+ * Authorization errors
+ */
+
+/**
+ * Error codes of bearer token authorization (RFC 6750)
+ */
+export type AuthErrorCode = 'invalid_token' | 'insufficient_scope';
+
+/**
+ * Authorization error class for rejected access tokens and calls the token
+ * does not grant
+ */
+export class AuthError extends Error {
+  constructor(message: string, public readonly code: AuthErrorCode, public readonly scope?: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
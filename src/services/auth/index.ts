@@ -0,0 +1,28 @@
+/**
+ * Authorization
+ *
+ * OAuth 2.1 bearer token authorization of the HTTP and SSE transports, as
+ * the MCP authorization spec describes for resource servers: access tokens
+ * are JWTs of an external authorization server, verified with its published
+ * keys, and their scopes decide which tools a client may call.
+ */
+
+import { config } from '../../config/index.js';
+import { RemoteKeySet, StaticKeySet } from './key-sets.js';
+import type { KeySet } from './types.js';
+
+export { AuthError, type AuthErrorCode } from './errors.js';
+export { DevIssuer, type TokenResponse } from './dev-issuer.js';
+export { TOOL_SCOPES, grantsScope, requireScope, type ToolScope } from './scopes.js';
+export { TokenVerifier } from './token-verifier.js';
+export type { AccessTokenClaims, Jwk, JwkSet, KeySet, TokenVerifierOptions, VerificationKey } from './types.js';
+
+/**
+ * Keys of the authorization server: its JWKS endpoint, or the key set
+ * configured with the server
+ */
+export function createKeySet(): KeySet {
+  const { jwksUrl, jwks, jwksCacheTtl } = config.mcp.auth;
+
+  return jwksUrl ? new RemoteKeySet(jwksUrl, jwksCacheTtl) : new StaticKeySet(jwks ?? { keys: [] });
+}
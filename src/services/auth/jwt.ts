@@ -0,0 +1,147 @@
+/**
+ * JSON Web Tokens
+ *
+ * Signing and verification of compact JWS tokens with the asymmetric
+ * algorithms of RFC 7518 and RFC 8037. Symmetric algorithms and unsigned
+ * tokens are not accepted, so a public key can never be used as a shared
+ * secret.
+ */
+
+import { constants, sign, verify, type KeyObject } from 'node:crypto';
+import { AuthError } from './errors.js';
+import type { VerificationKey } from './types.js';
+
+interface Algorithm {
+  hash: string | null;
+  /**
+   * Key types the algorithm signs with, as reported by KeyObject
+   */
+  keyTypes: string[];
+  pss?: boolean;
+  /**
+   * Curve of ECDSA keys, whose signatures are the raw r and s values
+   */
+  curve?: string;
+}
+
+const ALGORITHMS: Record<string, Algorithm> = {
+  RS256: { hash: 'sha256', keyTypes: ['rsa'] },
+  RS384: { hash: 'sha384', keyTypes: ['rsa'] },
+  RS512: { hash: 'sha512', keyTypes: ['rsa'] },
+  PS256: { hash: 'sha256', keyTypes: ['rsa', 'rsa-pss'], pss: true },
+  PS384: { hash: 'sha384', keyTypes: ['rsa', 'rsa-pss'], pss: true },
+  PS512: { hash: 'sha512', keyTypes: ['rsa', 'rsa-pss'], pss: true },
+  ES256: { hash: 'sha256', keyTypes: ['ec'], curve: 'prime256v1' },
+  ES384: { hash: 'sha384', keyTypes: ['ec'], curve: 'secp384r1' },
+  ES512: { hash: 'sha512', keyTypes: ['ec'], curve: 'secp521r1' },
+  EdDSA: { hash: null, keyTypes: ['ed25519', 'ed448'] },
+};
+
+/**
+ * Algorithms tokens may be signed with
+ */
+export const SUPPORTED_ALGORITHMS = Object.keys(ALGORITHMS);
+
+/**
+ * Header of a compact JWS
+ */
+export interface JwsHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decode(segment: string | undefined): Record<string, unknown> {
+  try {
+    const value: unknown = JSON.parse(Buffer.from(segment ?? '', 'base64url').toString());
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      return value as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new AuthError('Malformed access token', 'invalid_token');
+}
+
+/**
+ * Whether a key can check signatures of an algorithm
+ */
+function fits(algorithm: Algorithm, key: KeyObject): boolean {
+  return algorithm.keyTypes.includes(key.asymmetricKeyType ?? '') &&
+    (!algorithm.curve || key.asymmetricKeyDetails?.namedCurve === algorithm.curve);
+}
+
+function signatureOptions(algorithm: Algorithm, key: KeyObject) {
+  return {
+    key,
+    ...(algorithm.pss ? { padding: constants.RSA_PKCS1_PSS_PADDING, saltLength: constants.RSA_PSS_SALTLEN_DIGEST } : {}),
+    ...(algorithm.curve ? { dsaEncoding: 'ieee-p1363' as const } : {}),
+  };
+}
+
+/**
+ * Sign claims with a private key
+ */
+export function signJwt(claims: Record<string, unknown>, key: KeyObject, header: JwsHeader): string {
+  const algorithm = ALGORITHMS[header.alg];
+  if (!algorithm || !fits(algorithm, key)) {
+    throw new Error(`Cannot sign ${header.alg} tokens with a ${key.asymmetricKeyType} key`);
+  }
+
+  const input = `${encode({ typ: 'JWT', ...header })}.${encode(claims)}`;
+  const signature = sign(algorithm.hash, Buffer.from(input), signatureOptions(algorithm, key));
+  return `${input}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Decode the header of a token, rejecting algorithms that are not supported
+ */
+export function decodeJwtHeader(token: string): JwsHeader {
+  const header = decode(token.split('.')[0]);
+  if (typeof header.alg !== 'string' || !ALGORITHMS[header.alg]) {
+    throw new AuthError(`Unsupported token algorithm: ${String(header.alg)}`, 'invalid_token');
+  }
+
+  return {
+    alg: header.alg,
+    ...(typeof header.kid === 'string' ? { kid: header.kid } : {}),
+    ...(typeof header.typ === 'string' ? { typ: header.typ } : {}),
+  };
+}
+
+/**
+ * Verify the signature of a token with one of the given keys and return its
+ * claims. Keys of another type, curve or algorithm are not tried.
+ */
+export function verifyJwt(token: string, keys: VerificationKey[]): Record<string, unknown> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new AuthError('Malformed access token', 'invalid_token');
+  }
+
+  const header = decodeJwtHeader(token);
+  const algorithm = ALGORITHMS[header.alg]!;
+  const claims = decode(segments[1]);
+  const input = Buffer.from(`${segments[0]}.${segments[1]}`);
+  const signature = Buffer.from(segments[2]!, 'base64url');
+
+  const verified = keys
+    .filter(candidate => (!candidate.alg || candidate.alg === header.alg) && fits(algorithm, candidate.key))
+    .some(candidate => {
+      try {
+        return verify(algorithm.hash, input, signatureOptions(algorithm, candidate.key), signature);
+      } catch {
+        // Signatures of the wrong length throw instead of failing
+        return false;
+      }
+    });
+  if (!verified) {
+    throw new AuthError('Invalid access token signature', 'invalid_token');
+  }
+
+  return claims;
+}
@@ -0,0 +1,124 @@
+/**
+ * Key sets
+ *
+ * Keys access tokens are verified with: a static JSON Web Key Set from the
+ * configuration, or the JWKS endpoint of the authorization server, which is
+ * cached and fetched again when a token names a key it does not know, as
+ * after a key rotation.
+ */
+
+import { createPublicKey, type JsonWebKeyInput } from 'node:crypto';
+import { logger } from '../../utils/logger.js';
+import type { Jwk, JwkSet, KeySet, VerificationKey } from './types.js';
+
+const FETCH_TIMEOUT = 5000;
+
+/**
+ * Shortest time between two fetches for unknown key ids, so tokens with
+ * made-up key ids cannot make the server hammer the authorization server
+ */
+const REFETCH_COOLDOWN = 30000;
+
+/**
+ * Import the signing keys of a key set, skipping keys meant for encryption
+ * and keys that cannot be imported
+ */
+export function importKeys(jwks: JwkSet): VerificationKey[] {
+  return jwks.keys
+    .filter(jwk => !jwk.use || jwk.use === 'sig')
+    .flatMap((jwk: Jwk) => {
+      try {
+        return [{
+          ...(jwk.kid ? { kid: jwk.kid } : {}),
+          ...(jwk.alg ? { alg: jwk.alg } : {}),
+          key: createPublicKey({ key: jwk, format: 'jwk' } as JsonWebKeyInput),
+        }];
+      } catch (error) {
+        logger.warn('Skipping JSON web key that cannot be imported', { kid: jwk.kid, kty: jwk.kty, error: (error as Error).message });
+        return [];
+      }
+    });
+}
+
+function select(keys: VerificationKey[], kid?: string): VerificationKey[] {
+  return kid ? keys.filter(key => key.kid === kid) : keys;
+}
+
+/**
+ * Keys configured with the server
+ */
+export class StaticKeySet implements KeySet {
+  private readonly keys: VerificationKey[];
+
+  constructor(jwks: JwkSet) {
+    this.keys = importKeys(jwks);
+  }
+
+  async getKeys(kid?: string): Promise<VerificationKey[]> {
+    return select(this.keys, kid);
+  }
+}
+
+/**
+ * Keys published at the JWKS endpoint of an authorization server
+ */
+export class RemoteKeySet implements KeySet {
+  private keys: VerificationKey[] = [];
+  private fetchedAt = -Infinity;
+  private fetching: Promise<void> | undefined;
+
+  constructor(
+    private readonly url: string,
+    private readonly cacheTtl: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async getKeys(kid?: string): Promise<VerificationKey[]> {
+    if (this.now() - this.fetchedAt >= this.cacheTtl) {
+      await this.refresh();
+    }
+
+    const keys = select(this.keys, kid);
+    if (keys.length === 0 && kid && this.now() - this.fetchedAt >= REFETCH_COOLDOWN) {
+      await this.refresh();
+      return select(this.keys, kid);
+    }
+
+    return keys;
+  }
+
+  /**
+   * Fetch the key set, sharing one request between concurrent callers. A
+   * failed fetch keeps the previous keys.
+   */
+  private refresh(): Promise<void> {
+    this.fetching ??= this.fetchKeys().finally(() => {
+      this.fetching = undefined;
+    });
+    return this.fetching;
+  }
+
+  private async fetchKeys(): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT),
+      });
+      if (!response.ok) {
+        throw new Error(`JWKS request failed with HTTP ${response.status}`);
+      }
+
+      const jwks = await response.json() as Partial<JwkSet>;
+      if (!Array.isArray(jwks.keys)) {
+        throw new Error('JWKS response has no keys');
+      }
+
+      this.keys = importKeys(jwks as JwkSet);
+      logger.debug('Fetched JSON web key set', { url: this.url, keys: this.keys.length });
+    } catch (error) {
+      logger.error('Failed to fetch JSON web key set', error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      this.fetchedAt = this.now();
+    }
+  }
+}
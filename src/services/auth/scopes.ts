@@ -0,0 +1,42 @@
+/**
+ * Tool scopes
+ *
+ * Every tool requires one OAuth scope of the access token it is called
+ * with. Calls without an access token, as over stdio or with authorization
+ * disabled, are not limited by scopes.
+ */
+
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { getAuthInfo } from '../session-context.js';
+import { AuthError } from './errors.js';
+
+/**
+ * Scopes tools require, from browsing the catalog to placing orders
+ */
+export const TOOL_SCOPES = [
+  'catalog:read',
+  'cart:read',
+  'cart:write',
+  'checkout',
+  'customer:read',
+  'customer:write',
+  'audit:read',
+] as const;
+
+export type ToolScope = typeof TOOL_SCOPES[number];
+
+/**
+ * Whether an access token grants a scope; everything is granted without one
+ */
+export function grantsScope(auth: AuthInfo | undefined, scope: ToolScope): boolean {
+  return !auth || auth.scopes.includes(scope);
+}
+
+/**
+ * Fail unless the access token of the request being handled grants a scope
+ */
+export function requireScope(scope: ToolScope, action: string): void {
+  if (!grantsScope(getAuthInfo(), scope)) {
+    throw new AuthError(`Insufficient scope: ${action} requires the ${scope} scope`, 'insufficient_scope', scope);
+  }
+}
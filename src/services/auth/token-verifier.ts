@@ -0,0 +1,70 @@
+/**
+ * Access token verification
+ *
+ * Checks that a bearer token is a JWT signed by the authorization server,
+ * issued for this MCP server and not expired, and returns the client and
+ * scopes it was issued for.
+ */
+
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { AuthError } from './errors.js';
+import { decodeJwtHeader, verifyJwt } from './jwt.js';
+import type { AccessTokenClaims, KeySet, TokenVerifierOptions } from './types.js';
+
+/**
+ * Scopes of a token, from its space-separated scope claim or scp list
+ */
+function scopesOf(claims: AccessTokenClaims): string[] {
+  if (typeof claims.scope === 'string') {
+    return claims.scope.split(' ').filter(Boolean);
+  }
+  return Array.isArray(claims.scp) ? claims.scp.filter((scope): scope is string => typeof scope === 'string') : [];
+}
+
+export class TokenVerifier {
+  constructor(
+    private readonly keySet: KeySet,
+    private readonly options: TokenVerifierOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Verify an access token, failing with an invalid_token AuthError
+   */
+  async verify(token: string): Promise<AuthInfo> {
+    const { kid } = decodeJwtHeader(token);
+    const claims = verifyJwt(token, await this.keySet.getKeys(kid)) as AccessTokenClaims;
+    const { issuer, audience, clockTolerance } = this.options;
+    const now = this.now();
+
+    if (issuer && claims.iss !== issuer) {
+      throw new AuthError('Access token was issued by another authorization server', 'invalid_token');
+    }
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(audience)) {
+      throw new AuthError('Access token was issued for another resource', 'invalid_token');
+    }
+
+    if (typeof claims.exp !== 'number') {
+      throw new AuthError('Access token does not expire', 'invalid_token');
+    }
+    if (claims.exp * 1000 + clockTolerance <= now) {
+      throw new AuthError('Access token expired', 'invalid_token');
+    }
+    if (typeof claims.nbf === 'number' && claims.nbf * 1000 - clockTolerance > now) {
+      throw new AuthError('Access token is not valid yet', 'invalid_token');
+    }
+
+    return {
+      token,
+      clientId: claims.client_id ?? claims.azp ?? claims.sub ?? 'unknown',
+      scopes: scopesOf(claims),
+      expiresAt: claims.exp,
+      extra: {
+        ...(claims.sub ? { subject: claims.sub } : {}),
+        ...(claims.iss ? { issuer: claims.iss } : {}),
+      },
+    };
+  }
+}
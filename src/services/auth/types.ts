@@ -0,0 +1,82 @@
+/**
+ * Authorization types
+ */
+
+import type { KeyObject } from 'node:crypto';
+
+/**
+ * Public key of a JSON Web Key Set, as published by an authorization server
+ */
+export interface Jwk {
+  kty: string;
+  kid?: string | undefined;
+  alg?: string | undefined;
+  use?: string | undefined;
+  [parameter: string]: unknown;
+}
+
+/**
+ * JSON Web Key Set (RFC 7517)
+ */
+export interface JwkSet {
+  keys: Jwk[];
+}
+
+/**
+ * Verification key of a key set
+ */
+export interface VerificationKey {
+  kid?: string;
+  alg?: string;
+  key: KeyObject;
+}
+
+/**
+ * Source of the keys access tokens are verified with
+ */
+export interface KeySet {
+  /**
+   * Keys that may have signed a token with the given key id, or all keys
+   * when the token names none
+   */
+  getKeys(kid?: string): Promise<VerificationKey[]>;
+}
+
+/**
+ * Claims of an access token (RFC 9068) the server looks at
+ */
+export interface AccessTokenClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  client_id?: string;
+  azp?: string;
+  /**
+   * Space-separated scopes
+   */
+  scope?: string;
+  /**
+   * Scopes as a list, as issued by some authorization servers instead of scope
+   */
+  scp?: string[];
+  [claim: string]: unknown;
+}
+
+export interface TokenVerifierOptions {
+  /**
+   * Issuer tokens must name in their iss claim, when set
+   */
+  issuer?: string;
+  /**
+   * Audience tokens must name in their aud claim, usually the URL of the
+   * MCP endpoint
+   */
+  audience: string;
+  /**
+   * Leeway for the expiry and not-before times, in milliseconds
+   */
+  clockTolerance: number;
+}
@@ -0,0 +1,74 @@
+/**
+ * File cache backend
+ *
+ * Stores one JSON file per cached response so the cache survives restarts
+ * and can be shared by server processes on the same host.
+ */
+
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CacheBackend, CachedResponse } from './types.js';
+
+interface FileEntry {
+  value: CachedResponse;
+  evictAt: number;
+}
+
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    let entry: FileEntry;
+    try {
+      entry = JSON.parse(await readFile(this.pathFor(key), 'utf8')) as FileEntry;
+    } catch {
+      // Missing or unreadable entries are cache misses
+      return undefined;
+    }
+
+    if (entry.evictAt <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedResponse, ttl: number): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const entry: FileEntry = { value, evictAt: Date.now() + ttl };
+    const path = this.pathFor(key);
+    const temporaryPath = `${path}.${randomUUID()}.tmp`;
+
+    // Write to a temporary file first so readers never see a partial entry
+    await writeFile(temporaryPath, JSON.stringify(entry), 'utf8');
+    await rename(temporaryPath, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch {
+      return;
+    }
+
+    await Promise.all(
+      files
+        .filter(file => file.endsWith('.json'))
+        .map(file => rm(join(this.directory, file), { force: true }))
+    );
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * Response Cache
+ *
+ * Caches anonymous GET responses of read-only catalog endpoints. Each
+ * endpoint type has its own TTL; `Cache-Control: no-store` and `max-age`
+ * sent by Glue are honoured, and responses with an `ETag` are revalidated
+ * with `If-None-Match` once they expire.
+ */
+
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { FileCacheBackend } from './file-backend.js';
+import { MemoryCacheBackend } from './memory-backend.js';
+import { RedisCacheBackend } from './redis-backend.js';
+import type { CacheBackend, CachedResponse } from './types.js';
+
+/**
+ * Default TTLs in milliseconds by Glue resource type
+ */
+export const DEFAULT_CACHE_TTLS: Readonly<Record<string, number>> = {
+  'category-trees': 60 * 60 * 1000,
+  'category-nodes': 60 * 60 * 1000,
+  'abstract-products': 5 * 60 * 1000,
+  'concrete-products': 5 * 60 * 1000,
+  'catalog-search': 60 * 1000,
+  'catalog-search-suggestions': 60 * 1000,
+};
+
+/**
+ * Resource types holding customer data, which are never cached whatever
+ * the configured TTLs
+ */
+const UNCACHEABLE_RESOURCES = new Set([
+  'access-tokens',
+  'refresh-tokens',
+  'carts',
+  'guest-carts',
+  'orders',
+  'checkout',
+  'checkout-data',
+  'customers',
+]);
+
+/**
+ * Response fields the cache needs
+ */
+interface CacheableResponse {
+  data: unknown;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * Cache hit and miss counters
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  revalidations: number;
+}
+
+/**
+ * Options of the response cache
+ */
+export interface ResponseCacheOptions {
+  ttls: Record<string, number>;
+  /**
+   * How long expired responses with an ETag are kept for revalidation
+   */
+  staleTtl: number;
+}
+
+/**
+ * Get the resource type an endpoint returns, e.g. `abstract-product-prices`
+ * for `abstract-products/001/abstract-product-prices?currency=EUR`
+ */
+export function resourceTypeOf(endpoint: string): string {
+  const segments = endpoint.split('?')[0]!.split('/').filter(Boolean);
+
+  // Resource types and ids alternate; an even number of segments ends with an id
+  const index = segments.length % 2 === 1 ? segments.length - 1 : segments.length - 2;
+  return segments[Math.max(index, 0)] || '';
+}
+
+/**
+ * Read the max-age from a Cache-Control header, preferring s-maxage as
+ * the cache is shared by all sessions
+ */
+function parseCacheControl(header: string | undefined): { noStore: boolean; maxAge?: number } {
+  const directives = (header || '').toLowerCase().split(',').map(directive => directive.trim());
+  const maxAge = directives.find(directive => directive.startsWith('s-maxage='))
+    || directives.find(directive => directive.startsWith('max-age='));
+
+  const result: { noStore: boolean; maxAge?: number } = { noStore: directives.includes('no-store') };
+  if (maxAge) {
+    const seconds = Number(maxAge.split('=')[1]);
+    if (Number.isFinite(seconds)) {
+      result.maxAge = seconds * 1000;
+    }
+  }
+  return result;
+}
+
+export class ResponseCache {
+  private stats: CacheStats = { hits: 0, misses: 0, revalidations: 0 };
+
+  constructor(
+    private readonly backend: CacheBackend,
+    private readonly options: ResponseCacheOptions
+  ) {}
+
+  /**
+   * Get the configured TTL of an endpoint; 0 when it must not be cached
+   */
+  ttlFor(endpoint: string): number {
+    const segments = endpoint.split('?')[0]!.split('/').filter(Boolean);
+    if (segments.some(segment => UNCACHEABLE_RESOURCES.has(segment))) {
+      return 0;
+    }
+
+    return this.options.ttls[resourceTypeOf(endpoint)] || 0;
+  }
+
+  /**
+   * Build the cache key of a request; the locale is sent as a header and
+   * therefore not part of the URL
+   */
+  keyFor(url: string, locale: string): string {
+    return `GET ${locale} ${url}`;
+  }
+
+  /**
+   * Look up a cached response. Backend failures are treated as misses.
+   */
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      const cached = await this.backend.get(key);
+      if (cached && this.isFresh(cached)) {
+        this.stats.hits++;
+      } else {
+        this.stats.misses++;
+      }
+      return cached;
+    } catch (error) {
+      this.stats.misses++;
+      logger.warn('Response cache lookup failed', {
+        backend: this.backend.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether a cached response can be used without revalidation
+   */
+  isFresh(cached: CachedResponse): boolean {
+    return cached.expiresAt > Date.now();
+  }
+
+  /**
+   * Store a response of an endpoint, unless Glue forbids it
+   */
+  async set(key: string, endpoint: string, response: CacheableResponse): Promise<void> {
+    const cacheControl = parseCacheControl(response.headers['cache-control']);
+    if (cacheControl.noStore) {
+      return;
+    }
+
+    const ttl = Math.min(this.ttlFor(endpoint), cacheControl.maxAge ?? Infinity);
+    const etag = response.headers['etag'];
+    if (ttl <= 0 && !etag) {
+      return;
+    }
+
+    const cached: CachedResponse = {
+      data: response.data,
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      expiresAt: Date.now() + Math.max(ttl, 0),
+    };
+    if (etag) {
+      cached.etag = etag;
+    }
+
+    await this.write(key, cached);
+  }
+
+  /**
+   * Extend a cached response after Glue confirmed it with a 304
+   */
+  async revalidated(key: string, endpoint: string, cached: CachedResponse, headers: Record<string, string>): Promise<CachedResponse> {
+    this.stats.revalidations++;
+
+    const cacheControl = parseCacheControl(headers['cache-control'] ?? cached.headers['cache-control']);
+    const ttl = Math.min(this.ttlFor(endpoint), cacheControl.maxAge ?? Infinity);
+    const refreshed: CachedResponse = { ...cached, expiresAt: Date.now() + Math.max(ttl, 0) };
+
+    await this.write(key, refreshed);
+    return refreshed;
+  }
+
+  /**
+   * Remove all cached responses
+   */
+  async clear(): Promise<void> {
+    await this.backend.clear();
+  }
+
+  /**
+   * Get cache hit and miss counters
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  async close(): Promise<void> {
+    await this.backend.close?.();
+  }
+
+  private async write(key: string, cached: CachedResponse): Promise<void> {
+    // Responses with an ETag outlive their TTL so they can be revalidated cheaply
+    const storageTtl = cached.expiresAt - Date.now() + (cached.etag ? this.options.staleTtl : 0);
+
+    try {
+      await this.backend.set(key, cached, storageTtl);
+    } catch (error) {
+      logger.warn('Response cache write failed', {
+        backend: this.backend.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+}
+
+/**
+ * Create the response cache for the configured backend, or null when
+ * caching is disabled
+ */
+export function createResponseCache(): ResponseCache | null {
+  const { backend, maxEntries, fileDirectory, redisUrl, redisKeyPrefix, ttls, staleTtl } = config.cache;
+  const options = { ttls: { ...DEFAULT_CACHE_TTLS, ...ttls }, staleTtl };
+
+  switch (backend) {
+    case 'memory':
+      return new ResponseCache(new MemoryCacheBackend(maxEntries), options);
+    case 'file':
+      return new ResponseCache(new FileCacheBackend(fileDirectory), options);
+    case 'redis':
+      return new ResponseCache(new RedisCacheBackend(redisUrl, redisKeyPrefix, config.api.timeout), options);
+    default:
+      return null;
+  }
+}
+
+export { MemoryCacheBackend, FileCacheBackend, RedisCacheBackend };
+export type { CacheBackend, CachedResponse };
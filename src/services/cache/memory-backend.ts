@@ -0,0 +1,62 @@
+/**
+ * In-memory LRU cache backend
+ */
+
+import type { CacheBackend, CachedResponse } from './types.js';
+
+interface MemoryEntry {
+  value: CachedResponse;
+  evictAt: number;
+}
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory';
+  private entries: Map<string, MemoryEntry> = new Map();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.evictAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Move the entry to the end so the least recently used entry is evicted first
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: CachedResponse, ttl: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, evictAt: Date.now() + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries currently held
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,244 @@
+/**
+ * Redis cache backend
+ *
+ * Talks the Redis serialization protocol (RESP) directly over TCP, so any
+ * Redis-compatible server (Redis, Valkey, KeyDB, Dragonfly) can be used
+ * without an additional client dependency.
+ */
+
+import { connect, Socket } from 'node:net';
+import { logger } from '../../utils/logger.js';
+import type { CacheBackend, CachedResponse } from './types.js';
+
+type RespValue = string | number | null | RespValue[];
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Error reply sent by the Redis server
+ */
+export class RedisReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisReplyError';
+  }
+}
+
+/**
+ * Parse one RESP value from the buffer. Returns undefined while the buffer
+ * does not yet hold a complete value.
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RespValue | RedisReplyError; offset: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) {
+    return undefined;
+  }
+
+  const type = String.fromCharCode(buffer[offset]!);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RedisReplyError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return undefined;
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) {
+        return { value: null, offset: next };
+      }
+
+      const values: RespValue[] = [];
+      let position = next;
+      for (let index = 0; index < count; index++) {
+        const item = parseReply(buffer, position);
+        if (!item) {
+          return undefined;
+        }
+        if (item.value instanceof RedisReplyError) {
+          return item;
+        }
+        values.push(item.value);
+        position = item.offset;
+      }
+      return { value: values, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected RESP reply type: ${type}`);
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n${args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('')}`;
+}
+
+/**
+ * Minimal pipelining RESP client
+ */
+class RespClient {
+  private socket: Socket | null = null;
+  private connecting: Promise<Socket> | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingReply[] = [];
+
+  constructor(private readonly url: URL, private readonly timeout: number) {}
+
+  async command(...args: string[]): Promise<RespValue> {
+    const socket = await this.connection();
+
+    return new Promise<RespValue>((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket) {
+      return;
+    }
+
+    await this.command('QUIT').catch(() => undefined);
+    socket.destroy();
+  }
+
+  private async connection(): Promise<Socket> {
+    if (this.socket) {
+      return this.socket;
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    return this.connecting;
+  }
+
+  private async open(): Promise<Socket> {
+    const socket = await new Promise<Socket>((resolve, reject) => {
+      const candidate = connect({
+        host: this.url.hostname || 'localhost',
+        port: Number(this.url.port) || 6379,
+      });
+
+      candidate.setTimeout(this.timeout, () => {
+        candidate.destroy(new Error(`Redis connection to ${this.url.host} timed out`));
+      });
+      candidate.once('connect', () => resolve(candidate));
+      candidate.once('error', reject);
+    });
+
+    socket.setTimeout(0);
+    socket.on('data', (chunk: Buffer) => this.receive(chunk));
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('Redis connection closed')));
+    this.socket = socket;
+
+    // Authenticate and select the database from the URL, e.g. redis://:secret@host:6379/2
+    if (this.url.password) {
+      const username = decodeURIComponent(this.url.username);
+      const password = decodeURIComponent(this.url.password);
+      await this.command(...(username ? ['AUTH', username, password] : ['AUTH', password]));
+    }
+
+    const database = this.url.pathname.replace('/', '');
+    if (database) {
+      await this.command('SELECT', database);
+    }
+
+    return socket;
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+
+    let offset = 0;
+    for (;;) {
+      const reply = parseReply(this.buffer, offset);
+      if (!reply) {
+        break;
+      }
+
+      offset = reply.offset;
+      const pending = this.pending.shift();
+      if (reply.value instanceof RedisReplyError) {
+        pending?.reject(reply.value);
+      } else {
+        pending?.resolve(reply.value);
+      }
+    }
+
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private fail(error: Error): void {
+    this.socket?.destroy();
+    this.socket = null;
+    this.buffer = Buffer.alloc(0);
+
+    const pending = this.pending.splice(0);
+    pending.forEach(reply => reply.reject(error));
+  }
+}
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis';
+  private client: RespClient;
+
+  constructor(url: string, private readonly keyPrefix: string, timeout: number) {
+    this.client = new RespClient(new URL(url), timeout);
+  }
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const value = await this.client.command('GET', this.keyPrefix + key);
+    return typeof value === 'string' ? JSON.parse(value) as CachedResponse : undefined;
+  }
+
+  async set(key: string, value: CachedResponse, ttl: number): Promise<void> {
+    await this.client.command('SET', this.keyPrefix + key, JSON.stringify(value), 'PX', String(Math.max(1, Math.ceil(ttl))));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.command('DEL', this.keyPrefix + key);
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const reply = await this.client.command('SCAN', cursor, 'MATCH', `${this.keyPrefix}*`, 'COUNT', '100');
+      const [nextCursor, keys] = reply as [string, string[]];
+
+      if (keys.length > 0) {
+        await this.client.command('DEL', ...keys);
+      }
+      cursor = nextCursor;
+    } while (cursor !== '0');
+
+    logger.debug('Cleared Redis response cache', { keyPrefix: this.keyPrefix });
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Types for the response cache
+ */
+
+/**
+ * A cached Glue response
+ */
+export interface CachedResponse {
+  data: unknown;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  etag?: string;
+  /**
+   * Time after which the response has to be revalidated, in epoch milliseconds
+   */
+  expiresAt: number;
+}
+
+/**
+ * Storage for cached responses
+ */
+export interface CacheBackend {
+  readonly name: string;
+  get(key: string): Promise<CachedResponse | undefined>;
+  /**
+   * Store a response; the backend may drop it after `ttl` milliseconds
+   */
+  set(key: string, value: CachedResponse, ttl: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  close?(): Promise<void>;
+}
@@ -0,0 +1,59 @@
+/**
+ * Cart Snapshot
+ *
+ * A cart of the current session's customer or guest with its items and
+ * vouchers, and a fingerprint of the parts that change what an order would
+ * contain and cost, to tell whether the cart changed between two reads.
+ */
+
+import {
+  JsonApiResolver,
+  type CartItemResource,
+  type CartResource,
+  type JsonApiDocument,
+  type VoucherResource,
+} from './json-api/index.js';
+import { SprykerApiService } from './spryker-api.js';
+import { sessionVault, type SessionCredentials } from './session-vault.js';
+
+export interface CartSnapshot {
+  cart: CartResource | undefined;
+  items: CartItemResource[];
+  vouchers: VoucherResource[];
+  /**
+   * Items, vouchers, totals and discounts of the cart
+   */
+  fingerprint: string;
+}
+
+/**
+ * Read a cart with its items and vouchers
+ */
+export async function loadCartSnapshot(
+  cartId: string,
+  credentials: SessionCredentials = sessionVault.resolve()
+): Promise<CartSnapshot> {
+  const apiService = SprykerApiService.getInstance();
+
+  const endpoint = credentials.userType === 'guest'
+    ? `guest-carts/${cartId}?include=guest-cart-items,vouchers`
+    : `carts/${cartId}?include=items,vouchers`;
+
+  const response = await apiService.get<JsonApiDocument<CartResource>>(endpoint, credentials.accessToken);
+  const document = new JsonApiResolver(response.data);
+  const cart = document.primary()[0];
+  const items = [...document.ofType<CartItemResource>('items'), ...document.ofType<CartItemResource>('guest-cart-items')];
+  const vouchers = document.ofType<VoucherResource>('vouchers');
+
+  return {
+    cart,
+    items,
+    vouchers,
+    fingerprint: JSON.stringify({
+      items: items.map(item => [item.id, item.attributes?.sku, item.attributes?.quantity]).sort(),
+      vouchers: vouchers.map(voucher => voucher.attributes?.code || voucher.id).sort(),
+      totals: cart?.attributes?.totals,
+      discounts: cart?.attributes?.discounts,
+    }),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Checkout Confirmations
+ *
+ * Short-lived tokens issued by checkout-preview that checkout requires.
+ * A token is bound to the MCP session, the cart, the checkout details and
+ * the state of the cart shown in the preview, so an order is only placed
+ * for what the user saw.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { config } from '../config/index.js';
+import { getSessionId } from './session-context.js';
+
+/**
+ * Checkout previewed with a token
+ */
+export interface CheckoutPreview {
+  token: string;
+  sessionId: string;
+  cartId: string;
+  /**
+   * Checkout details sent to Glue: customer, addresses, payment and shipment
+   */
+  request: string;
+  /**
+   * Fingerprint of the cart when it was previewed
+   */
+  cartFingerprint: string;
+  expiresAt: number;
+}
+
+/**
+ * Checkout error class for missing, invalid or outdated confirmation tokens
+ * and checkout details Glue cannot fulfil
+ */
+export class CheckoutError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+export class CheckoutConfirmations {
+  private previews: Map<string, CheckoutPreview> = new Map();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Issue a token for a previewed checkout
+   */
+  issue(
+    preview: Omit<CheckoutPreview, 'token' | 'sessionId' | 'expiresAt'>,
+    sessionId: string = getSessionId()
+  ): { token: string; expiresAt: number } {
+    this.prune();
+    const token = `confirm-${randomUUID()}`;
+    const expiresAt = this.now() + this.ttlMs;
+    this.previews.set(token, { ...preview, token, sessionId, expiresAt });
+    return { token, expiresAt };
+  }
+
+  /**
+   * Get the preview of a token, checking that it was issued to this session
+   * for the same cart and checkout details
+   */
+  verify(
+    token: string | undefined,
+    checkout: { cartId: string; request: string },
+    sessionId: string = getSessionId()
+  ): CheckoutPreview {
+    if (!token) {
+      throw new CheckoutError(
+        'Checkout requires a confirmation token. Call checkout-preview first.',
+        'CONFIRMATION_REQUIRED'
+      );
+    }
+
+    this.prune();
+    const preview = this.previews.get(token);
+    if (!preview || preview.sessionId !== sessionId) {
+      throw new CheckoutError('Unknown or expired confirmation token.', 'CONFIRMATION_INVALID');
+    }
+    if (preview.cartId !== checkout.cartId || preview.request !== checkout.request) {
+      throw new CheckoutError(
+        'The checkout details differ from the preview the confirmation token was issued for.',
+        'CONFIRMATION_INVALID'
+      );
+    }
+
+    return preview;
+  }
+
+  /**
+   * Invalidate a token once its order was placed
+   */
+  consume(token: string): void {
+    this.previews.delete(token);
+  }
+
+  clear(): void {
+    this.previews.clear();
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [token, preview] of this.previews) {
+      if (preview.expiresAt <= now) {
+        this.previews.delete(token);
+      }
+    }
+  }
+}
+
+/**
+ * Global checkout confirmations instance
+ */
+export const checkoutConfirmations = new CheckoutConfirmations(config.checkout.confirmationTtl);
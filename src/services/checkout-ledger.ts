@@ -0,0 +1,214 @@
+/**
+ * Checkout Ledger
+ *
+ * Remembers the checkouts of each customer's carts, so a checkout repeated
+ * after a client-side timeout joins the one still in flight or returns the
+ * order already placed instead of placing a second one, also when the retry
+ * arrives in a new MCP session after the client reconnected. When
+ * a checkout fails without a clear answer from Glue, e.g. a timeout or a
+ * server error, the order may have been placed anyway; the ledger then
+ * looks for it in the customer's orders before submitting again.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { isUpstreamFailure } from './circuit-breaker.js';
+
+/**
+ * Order placed by a checkout
+ */
+export interface PlacedOrder {
+  orderReference: string;
+  redirectUrl?: string;
+  isExternalRedirect?: boolean;
+}
+
+/**
+ * Order of a checkout, and whether it was placed by an earlier call
+ */
+export interface CheckoutOutcome {
+  order: PlacedOrder;
+  /**
+   * The order was placed by an earlier checkout of the cart, not this call
+   */
+  replayed: boolean;
+  /**
+   * The order was found in the customer's orders after a checkout failed
+   * without a clear answer
+   */
+  reconciled: boolean;
+}
+
+/**
+ * A checkout of a cart with its key and the functions to place the order
+ * and to find it after an ambiguous failure
+ */
+export interface CheckoutAttempt {
+  /**
+   * Customer placing the order: the customer reference, or the anonymous ID
+   * of a guest
+   */
+  customer: string;
+  cartId: string;
+  idempotencyKey?: string;
+  submit: () => Promise<PlacedOrder>;
+  /**
+   * Find an order placed since the given time, or null when there is none
+   * or it cannot be known, e.g. for guests who cannot list their orders
+   */
+  findPlacedOrder: (since: number) => Promise<PlacedOrder | null>;
+}
+
+/**
+ * Whether a failed checkout may have placed the order anyway: Glue did not
+ * answer or answered with a server error. Errors of this server carry a
+ * code and are raised before the checkout is sent.
+ */
+function isAmbiguous(error: unknown): boolean {
+  return typeof (error as { code?: unknown } | null)?.code !== 'string' && isUpstreamFailure(error);
+}
+
+interface CheckoutEntry {
+  idempotencyKey?: string;
+  startedAt: number;
+  pending?: Promise<CheckoutOutcome>;
+  order?: PlacedOrder;
+  /**
+   * The last checkout failed without a clear answer from Glue
+   */
+  ambiguous?: boolean;
+}
+
+export class CheckoutLedger {
+  private entries: Map<string, CheckoutEntry> = new Map();
+
+  constructor(
+    private readonly windowMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Check out a cart at most once per idempotency key. A repeated checkout
+   * joins the one in flight, or returns the order placed for the same key,
+   * or for any key when the repeated call has none. A different key asks
+   * for a new checkout of the cart.
+   */
+  async checkout(attempt: CheckoutAttempt): Promise<CheckoutOutcome> {
+    this.prune();
+    const key = `${attempt.customer} ${attempt.cartId}`;
+    const entry = this.entries.get(key);
+
+    if (entry?.pending) {
+      logger.info('Joining checkout in flight', { cartId: attempt.cartId });
+      return { ...(await entry.pending), replayed: true };
+    }
+
+    if (entry?.order && (!attempt.idempotencyKey || attempt.idempotencyKey === entry.idempotencyKey)) {
+      logger.info('Cart already checked out, returning the placed order', {
+        cartId: attempt.cartId,
+        orderReference: entry.order.orderReference,
+      });
+      return { order: entry.order, replayed: true, reconciled: false };
+    }
+
+    const next: CheckoutEntry = {
+      ...(attempt.idempotencyKey ? { idempotencyKey: attempt.idempotencyKey } : {}),
+      startedAt: entry?.ambiguous ? entry.startedAt : this.now(),
+      ...(entry?.ambiguous ? { ambiguous: true } : {}),
+    };
+    next.pending = this.place(key, attempt, next).finally(() => {
+      delete next.pending;
+    });
+    this.entries.set(key, next);
+
+    return next.pending;
+  }
+
+  /**
+   * Number of checkouts remembered
+   */
+  get size(): number {
+    this.prune();
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private async place(key: string, attempt: CheckoutAttempt, entry: CheckoutEntry): Promise<CheckoutOutcome> {
+    // An earlier checkout may have placed the order although it failed
+    if (entry.ambiguous) {
+      const order = await this.reconcile(attempt, entry);
+      if (order) {
+        return { order, replayed: true, reconciled: true };
+      }
+    }
+
+    try {
+      entry.order = await attempt.submit();
+      delete entry.ambiguous;
+      return { order: entry.order, replayed: false, reconciled: false };
+    } catch (error) {
+      if (!isAmbiguous(error)) {
+        // Glue rejected the checkout, so it is safe to submit it again
+        if (this.entries.get(key) === entry) {
+          this.entries.delete(key);
+        }
+        throw error;
+      }
+
+      entry.ambiguous = true;
+      logger.warn('Checkout failed without a clear answer, looking for the order', {
+        cartId: attempt.cartId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+
+      const order = await this.reconcile(attempt, entry);
+      if (order) {
+        return { order, replayed: false, reconciled: true };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Look for the order of an ambiguous checkout, remembering it when found
+   */
+  private async reconcile(attempt: CheckoutAttempt, entry: CheckoutEntry): Promise<PlacedOrder | null> {
+    let order: PlacedOrder | null;
+    try {
+      order = await attempt.findPlacedOrder(entry.startedAt);
+    } catch (error) {
+      logger.warn('Failed to look for the order of an ambiguous checkout', {
+        cartId: attempt.cartId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
+    if (order) {
+      logger.info('Found the order of an ambiguous checkout', { cartId: attempt.cartId, orderReference: order.orderReference });
+      entry.order = order;
+      delete entry.ambiguous;
+    }
+    return order;
+  }
+
+  /**
+   * Forget checkouts started before the window, except those in flight
+   */
+  private prune(): void {
+    const start = this.now() - this.windowMs;
+    for (const [key, entry] of this.entries) {
+      if (!entry.pending && entry.startedAt < start) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Global checkout ledger instance
+ */
+export const checkoutLedger = new CheckoutLedger(config.checkout.idempotencyWindow);
@@ -0,0 +1,209 @@
+/**
+ * Circuit Breaker
+ *
+ * Tracks the health of the Glue API per upstream host, or per host and
+ * endpoint family. After consecutive server errors or timeouts a circuit
+ * opens and requests fail fast instead of waiting for retries against a
+ * degraded backend. Once the reset timeout has passed, a limited number of
+ * probe requests decide whether the circuit closes again.
+ */
+
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * State of a circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Options of the circuit breakers
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that open a circuit
+   */
+  failureThreshold: number;
+  /**
+   * Milliseconds a circuit stays open before probe requests are let through
+   */
+  resetTimeout: number;
+  /**
+   * Probe requests allowed at the same time while half-open
+   */
+  halfOpenProbes: number;
+}
+
+/**
+ * Snapshot of a circuit, as reported on the health route
+ */
+export interface CircuitStatus {
+  key: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailure?: string;
+  openedAt?: string;
+  retryAt?: string;
+}
+
+/**
+ * Circuit breaker error class for requests rejected by an open circuit
+ */
+export class CircuitOpenError extends Error {
+  constructor(message: string, public readonly code: string, public readonly retryAfterMs: number) {
+    super(message);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Circuit of a single upstream
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probes = 0;
+  private lastFailure: string | undefined;
+
+  constructor(
+    readonly key: string,
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Let a request through, or throw a CircuitOpenError when the circuit is
+   * open or all probes of a half-open circuit are in flight
+   */
+  acquire(): void {
+    if (this.state === 'open') {
+      const remaining = this.openedAt + this.options.resetTimeout - this.now();
+      if (remaining > 0) {
+        throw new CircuitOpenError(
+          `Spryker API ${this.key} is unavailable after ${this.consecutiveFailures} consecutive failures, retry in ${Math.ceil(remaining / 1000)} seconds`,
+          'CIRCUIT_OPEN',
+          remaining
+        );
+      }
+
+      logger.info('Circuit half-open, probing upstream', { circuit: this.key });
+      this.state = 'half-open';
+      this.probes = 0;
+    }
+
+    if (this.state === 'half-open') {
+      if (this.probes >= this.options.halfOpenProbes) {
+        throw new CircuitOpenError(
+          `Spryker API ${this.key} is recovering from failures, retry shortly`,
+          'CIRCUIT_HALF_OPEN',
+          1000
+        );
+      }
+      this.probes++;
+    }
+  }
+
+  /**
+   * Record a response of the upstream; a successful probe closes the circuit
+   */
+  recordSuccess(): void {
+    if (this.state === 'open') {
+      // Response to a request sent before the circuit opened
+      return;
+    }
+
+    if (this.state === 'half-open') {
+      logger.info('Circuit closed, upstream recovered', { circuit: this.key });
+    }
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probes = 0;
+  }
+
+  /**
+   * Record a server error or timeout; a failed probe or reaching the
+   * failure threshold opens the circuit
+   */
+  recordFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.lastFailure = error.message;
+
+    if (this.state === 'half-open' || (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)) {
+      logger.warn('Circuit opened, failing fast', {
+        circuit: this.key,
+        consecutiveFailures: this.consecutiveFailures,
+        error: error.message,
+      });
+      this.state = 'open';
+      this.openedAt = this.now();
+      this.probes = 0;
+    }
+  }
+
+  /**
+   * Get a snapshot of the circuit
+   */
+  status(): CircuitStatus {
+    return {
+      key: this.key,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.lastFailure ? { lastFailure: this.lastFailure } : {}),
+      ...(this.state !== 'closed' ? {
+        openedAt: new Date(this.openedAt).toISOString(),
+        retryAt: new Date(this.openedAt + this.options.resetTimeout).toISOString(),
+      } : {}),
+    };
+  }
+}
+
+/**
+ * Circuit breakers by upstream
+ */
+export class CircuitBreakerRegistry {
+  private breakers: Map<string, CircuitBreaker> = new Map();
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Get the circuit breaker of an upstream, creating a closed one
+   */
+  get(key: string): CircuitBreaker {
+    let breaker = this.breakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(key, this.options, this.now);
+      this.breakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Get snapshots of all circuits
+   */
+  getStatuses(): CircuitStatus[] {
+    return Array.from(this.breakers.values()).map(breaker => breaker.status());
+  }
+}
+
+/**
+ * Whether an error means the upstream is degraded: a server error, a
+ * timeout or a failed connection. Client errors are answers of a healthy
+ * upstream.
+ */
+export function isUpstreamFailure(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status >= 500 : !(error instanceof CircuitOpenError);
+}
+
+/**
+ * Create the circuit breakers, or null when circuit breaking is disabled
+ */
+export function createCircuitBreakers(): CircuitBreakerRegistry | null {
+  const { enabled, failureThreshold, resetTimeout, halfOpenProbes } = config.circuitBreaker;
+  return enabled ? new CircuitBreakerRegistry({ failureThreshold, resetTimeout, halfOpenProbes }) : null;
+}
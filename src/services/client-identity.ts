@@ -0,0 +1,38 @@
+/**
+ * Client Identities
+ *
+ * Remembers which client opened each MCP session, as identified by its TLS
+ * client certificate, so tool calls of the session can be attributed to it.
+ */
+
+import { getSessionId } from './session-context.js';
+
+/**
+ * Per-MCP-session client identities
+ */
+export class ClientIdentityRegistry {
+  private identities: Map<string, string> = new Map();
+
+  /**
+   * Remember the client of a session
+   */
+  setIdentity(sessionId: string, identity: string): void {
+    this.identities.set(sessionId, identity);
+  }
+
+  /**
+   * Get the client of a session, the current one by default
+   */
+  getIdentity(sessionId: string = getSessionId()): string | undefined {
+    return this.identities.get(sessionId);
+  }
+
+  /**
+   * Forget the client of a session that has ended
+   */
+  clearSession(sessionId: string): void {
+    this.identities.delete(sessionId);
+  }
+}
+
+export const clientIdentities = new ClientIdentityRegistry();
@@ -0,0 +1,277 @@
+/**
+ * Glue Errors
+ *
+ * Decodes the JSON:API `errors` of Glue responses and maps known Spryker
+ * error codes, and the errors of this server, to a small taxonomy: a
+ * machine-readable error code with a hint on how to recover.
+ */
+
+/**
+ * An entry of the `errors` array of a Glue response
+ */
+export interface GlueError {
+  code?: string;
+  status?: number;
+  detail?: string;
+  source?: {
+    pointer?: string;
+    parameter?: string;
+  };
+}
+
+/**
+ * Machine-readable error codes of failed tool calls
+ */
+export type ErrorCode =
+  | 'OUT_OF_STOCK'
+  | 'INVALID_VOUCHER'
+  | 'CART_NOT_FOUND'
+  | 'CART_EMPTY'
+  | 'PRODUCT_NOT_FOUND'
+  | 'ORDER_NOT_FOUND'
+  | 'CHECKOUT_DATA_MISSING'
+  | 'CONFIRMATION_REQUIRED'
+  | 'CONFIRMATION_DECLINED'
+  | 'CONFIRMATION_UNAVAILABLE'
+  | 'CART_CHANGED'
+  | 'TOKEN_EXPIRED'
+  | 'INVALID_CREDENTIALS'
+  | 'AUTHENTICATION_REQUIRED'
+  | 'FORBIDDEN'
+  | 'UNKNOWN_STORE'
+  | 'VALIDATION_FAILED'
+  | 'NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_ERROR'
+  | 'UNKNOWN_ERROR';
+
+/**
+ * What went wrong and how to recover
+ */
+export interface ErrorDescription {
+  errorCode: ErrorCode;
+  hint: string;
+  /**
+   * Decoded Glue errors, empty when the error did not come from Glue
+   */
+  errors: GlueError[];
+}
+
+/**
+ * Known Glue errors, matched by Spryker error code or by their detail
+ */
+interface GlueErrorRule {
+  errorCode: ErrorCode;
+  codes?: string[];
+  detail?: RegExp;
+  hint: string;
+}
+
+/**
+ * Rules in order of precedence: a checkout failing for an item out of
+ * stock is reported as out of stock, not as invalid checkout data
+ */
+const GLUE_ERROR_RULES: GlueErrorRule[] = [
+  {
+    errorCode: 'OUT_OF_STOCK',
+    detail: /is not available|out of stock|only has availability|insufficient stock/i,
+    hint: 'The product is not available in the requested quantity. Check get-product-availability for the SKU, then lower the quantity or offer an alternative product.',
+  },
+  {
+    errorCode: 'INVALID_VOUCHER',
+    codes: ['3301', '3302', '3303'],
+    detail: /voucher|cart code/i,
+    hint: 'The voucher code was rejected. Ask the customer to check the code; it may be mistyped, expired, already used, or not applicable to the cart contents.',
+  },
+  {
+    errorCode: 'CART_EMPTY',
+    codes: ['1104'],
+    hint: 'The cart has no items. Add products with add-to-cart before checking out.',
+  },
+  {
+    errorCode: 'CART_NOT_FOUND',
+    codes: ['101', '1103'],
+    hint: 'The cart does not exist or belongs to another customer. Call get-cart to find the ID of the current cart and retry with it.',
+  },
+  {
+    errorCode: 'PRODUCT_NOT_FOUND',
+    codes: ['301', '302'],
+    hint: 'No product has this SKU. Use product-search to find the correct SKU.',
+  },
+  {
+    errorCode: 'ORDER_NOT_FOUND',
+    codes: ['1001'],
+    hint: 'No order of the customer has this reference. Call get-order without a reference to list the customer\'s orders.',
+  },
+  {
+    errorCode: 'CHECKOUT_DATA_MISSING',
+    codes: ['1101'],
+    detail: /customer\.|billingAddress|shippingAddress|shipment|payment/,
+    hint: 'Checkout data is missing or invalid. Call get-checkout-data for the cart to get the available addresses, shipment methods and payment methods, then retry checkout with the missing fields.',
+  },
+  {
+    errorCode: 'TOKEN_EXPIRED',
+    codes: ['001'],
+    hint: 'The access token is invalid or expired. Call refresh-token, or authenticate again if refreshing fails.',
+  },
+  {
+    errorCode: 'AUTHENTICATION_REQUIRED',
+    codes: ['002', '1105'],
+    hint: 'This operation needs a customer or guest session. Call authenticate first.',
+  },
+  {
+    errorCode: 'INVALID_CREDENTIALS',
+    codes: ['003'],
+    hint: 'The username or password is wrong. Ask the customer to check their credentials; do not retry with the same ones.',
+  },
+];
+
+/**
+ * Error codes of this server's own errors
+ */
+const SERVER_ERROR_CODES: Record<string, ErrorCode> = {
+  SESSION_NOT_AUTHENTICATED: 'AUTHENTICATION_REQUIRED',
+  SESSION_UNKNOWN_HANDLE: 'AUTHENTICATION_REQUIRED',
+  UNKNOWN_STORE: 'UNKNOWN_STORE',
+  CIRCUIT_OPEN: 'UPSTREAM_UNAVAILABLE',
+  CIRCUIT_HALF_OPEN: 'UPSTREAM_UNAVAILABLE',
+  CONFIRMATION_REQUIRED: 'CONFIRMATION_REQUIRED',
+  CONFIRMATION_INVALID: 'CONFIRMATION_REQUIRED',
+  CONFIRMATION_DECLINED: 'CONFIRMATION_DECLINED',
+  CONFIRMATION_UNAVAILABLE: 'CONFIRMATION_UNAVAILABLE',
+  CART_CHANGED: 'CART_CHANGED',
+  CART_EMPTY: 'CART_EMPTY',
+  CHECKOUT_DATA_INVALID: 'CHECKOUT_DATA_MISSING',
+};
+
+const HINTS: Record<ErrorCode, string> = {
+  ...Object.fromEntries(GLUE_ERROR_RULES.map(rule => [rule.errorCode, rule.hint])) as Record<ErrorCode, string>,
+  CONFIRMATION_REQUIRED: 'The action needs a valid confirmation token. For checkout, call checkout-preview with the checkout details; for other tools, use the confirmationToken returned with this error. Show the summary to the user, and repeat the call with the same arguments and the confirmationToken once they confirm.',
+  CONFIRMATION_DECLINED: 'The user did not confirm the action. Do not repeat it unless the user asks for it again.',
+  CONFIRMATION_UNAVAILABLE: 'The server only performs this action after the user confirmed it, and this client cannot ask the user. Tell the user to perform the action in the shop instead.',
+  CART_CHANGED: 'The cart changed since the preview. Call checkout-preview again and confirm the new summary with the user before checking out.',
+  FORBIDDEN: 'The session is not allowed to access this resource. Make sure it belongs to the authenticated customer.',
+  UNKNOWN_STORE: 'The store is not configured. Call select-store without a store to list the available stores.',
+  VALIDATION_FAILED: 'Glue rejected the request. Fix the invalid fields and retry.',
+  NOT_FOUND: 'The resource does not exist. Check the ID, or list the resources first to find a valid one.',
+  RATE_LIMITED: 'Glue is rate limiting requests. Wait a moment before retrying.',
+  UPSTREAM_UNAVAILABLE: 'The Spryker API is temporarily unavailable. Retry later instead of immediately.',
+  UPSTREAM_ERROR: 'The Spryker API failed to process the request. Retry once; if it fails again, tell the user the shop is having problems.',
+  UNKNOWN_ERROR: 'The operation failed unexpectedly. Check the arguments and retry once; if it fails again, report the error to the user.',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Decode the `errors` array of a Glue JSON:API error document, skipping
+ * entries that are not error objects
+ */
+export function parseGlueErrors(responseData: unknown): GlueError[] {
+  const errors = isRecord(responseData) ? responseData['errors'] : undefined;
+  if (!Array.isArray(errors)) {
+    return [];
+  }
+
+  return errors.filter(isRecord).map(entry => {
+    const status = Number(entry['status']);
+    const source = isRecord(entry['source']) ? entry['source'] : undefined;
+    return {
+      ...(entry['code'] !== undefined && entry['code'] !== null ? { code: String(entry['code']) } : {}),
+      ...(Number.isFinite(status) && entry['status'] !== undefined ? { status } : {}),
+      ...(typeof entry['detail'] === 'string' ? { detail: entry['detail'] } : {}),
+      ...(source ? {
+        source: {
+          ...(typeof source['pointer'] === 'string' ? { pointer: source['pointer'] } : {}),
+          ...(typeof source['parameter'] === 'string' ? { parameter: source['parameter'] } : {}),
+        },
+      } : {}),
+    };
+  });
+}
+
+/**
+ * Get the fields Glue reported as invalid, from the source of an error or
+ * a validation detail such as `shippingAddress.zipCode => This value should not be blank.`
+ */
+function invalidFields(errors: GlueError[]): string[] {
+  const fields = errors.map(error =>
+    error.source?.pointer?.replace(/^\/data\/attributes\//, '').replace(/\//g, '.')
+    ?? error.source?.parameter
+    ?? /^([\w.[\]]+) =>/.exec(error.detail ?? '')?.[1]
+  );
+  return [...new Set(fields.filter((field): field is string => Boolean(field)))];
+}
+
+function errorCodeOfStatus(status: number | undefined): ErrorCode {
+  if (status === undefined) {
+    return 'UNKNOWN_ERROR';
+  }
+  if (status === 400 || status === 422) {
+    return 'VALIDATION_FAILED';
+  }
+  if (status === 401) {
+    return 'AUTHENTICATION_REQUIRED';
+  }
+  if (status === 403) {
+    return 'FORBIDDEN';
+  }
+  if (status === 404) {
+    return 'NOT_FOUND';
+  }
+  if (status === 429) {
+    return 'RATE_LIMITED';
+  }
+  return status >= 500 ? 'UPSTREAM_ERROR' : 'UNKNOWN_ERROR';
+}
+
+/**
+ * Describe a failed Glue response by its first known error, falling back
+ * to its HTTP status
+ */
+export function describeGlueFailure(status: number | undefined, errors: GlueError[]): ErrorDescription {
+  const rule = GLUE_ERROR_RULES.find(candidate => errors.some(error =>
+    (error.code !== undefined && candidate.codes?.includes(error.code)) || (error.detail && candidate.detail?.test(error.detail))
+  ));
+  const errorCode = rule?.errorCode ?? errorCodeOfStatus(status);
+
+  let hint = HINTS[errorCode];
+  const fields = invalidFields(errors);
+  if ((errorCode === 'CHECKOUT_DATA_MISSING' || errorCode === 'VALIDATION_FAILED') && fields.length > 0) {
+    hint = `${hint} Invalid fields: ${fields.join(', ')}.`;
+  }
+
+  return { errorCode, hint, errors };
+}
+
+/**
+ * Describe any error a tool caught: a failed Glue response, an error of
+ * this server with its own code, or a failed connection
+ */
+export function describeError(error: unknown): ErrorDescription {
+  if (error instanceof Error && 'responseData' in error) {
+    const { status, responseData, retryAfterMs } = error as Error & { status?: unknown; responseData?: unknown; retryAfterMs?: unknown };
+    const description = describeGlueFailure(typeof status === 'number' ? status : undefined, parseGlueErrors(responseData));
+    return typeof retryAfterMs === 'number'
+      ? { ...description, hint: `${description.hint} Glue asked to retry in ${Math.ceil(retryAfterMs / 1000)} seconds.` }
+      : description;
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  const serverErrorCode = typeof code === 'string' ? SERVER_ERROR_CODES[code] : undefined;
+  if (serverErrorCode) {
+    const retryAfterMs = (error as { retryAfterMs?: unknown }).retryAfterMs;
+    const hint = serverErrorCode === 'UPSTREAM_UNAVAILABLE' && typeof retryAfterMs === 'number'
+      ? `The Spryker API is temporarily unavailable. Retry in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+      : HINTS[serverErrorCode];
+    return { errorCode: serverErrorCode, hint, errors: [] };
+  }
+
+  if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError' || /fetch failed|ECONNREFUSED|ENOTFOUND|socket hang up/i.test(error.message))) {
+    return { errorCode: 'UPSTREAM_UNAVAILABLE', hint: HINTS.UPSTREAM_UNAVAILABLE, errors: [] };
+  }
+
+  return { errorCode: 'UNKNOWN_ERROR', hint: HINTS.UNKNOWN_ERROR, errors: [] };
+}
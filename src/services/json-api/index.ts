@@ -0,0 +1,7 @@
+/**
+ * JSON:API document model for Glue responses
+ */
+
+export { JsonApiResolver, relationshipProperty } from './resolver.js';
+export type * from './types.js';
+export type * from './resources.js';
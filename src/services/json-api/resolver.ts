@@ -0,0 +1,127 @@
+/**
+ * JSON:API relationship resolver
+ *
+ * Indexes the primary and included resources of a Glue document and stitches
+ * `relationships` to the resources they reference, so tools can return
+ * denormalized objects instead of filtering `included` by hand.
+ */
+
+import type {
+  AnyJsonApiResource,
+  Denormalized,
+  JsonApiDocument,
+  JsonApiResource,
+  Relationship,
+  ResourceIdentifier,
+} from './types.js';
+
+/**
+ * Maximum relationship depth resolved by default; related resources deeper
+ * than this are left out
+ */
+const DEFAULT_DEPTH = 3;
+
+/**
+ * Convert a Glue relationship name to a property name, e.g.
+ * `concrete-product-prices` to `concreteProductPrices`
+ */
+export function relationshipProperty(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+export class JsonApiResolver<TPrimary extends AnyJsonApiResource = JsonApiResource> {
+  private readonly primaryResources: TPrimary[];
+  private readonly index: Map<string, AnyJsonApiResource> = new Map();
+
+  constructor(document: JsonApiDocument<TPrimary | TPrimary[]> | undefined | null) {
+    const data = document?.data;
+    this.primaryResources = Array.isArray(data) ? data : data ? [data] : [];
+
+    for (const resource of [...this.primaryResources, ...(document?.included || [])]) {
+      this.index.set(this.keyOf(resource), resource);
+    }
+  }
+
+  /**
+   * Get the primary resources, whether the document holds one or many
+   */
+  primary(): TPrimary[] {
+    return this.primaryResources;
+  }
+
+  /**
+   * Find a primary or included resource by type and id
+   */
+  find<TResource extends AnyJsonApiResource = JsonApiResource>(type: TResource['type'], id: string): TResource | undefined {
+    return this.index.get(`${type}:${id}`) as TResource | undefined;
+  }
+
+  /**
+   * Get all included resources of a type, for documents with a single
+   * primary resource where everything included belongs to it
+   */
+  ofType<TResource extends AnyJsonApiResource = JsonApiResource>(type: TResource['type']): TResource[] {
+    return Array.from(this.index.values()).filter(
+      (resource): resource is TResource => resource.type === type && !this.primaryResources.includes(resource as TPrimary)
+    );
+  }
+
+  /**
+   * Get the resources a relationship of a resource references. Referenced
+   * resources that were not included are skipped.
+   */
+  related<TResource extends AnyJsonApiResource = JsonApiResource>(resource: AnyJsonApiResource, relationship: string): TResource[] {
+    return this.identifiersOf(resource.relationships?.[relationship])
+      .map(identifier => this.find<TResource>(identifier.type, identifier.id))
+      .filter((related): related is TResource => related !== undefined);
+  }
+
+  /**
+   * Flatten a resource into its id and attributes and resolve its
+   * relationships, up to `depth` levels deep. Resources already being
+   * resolved higher up are not expanded again, so cyclic relationships
+   * such as abstract to concrete products and back terminate.
+   */
+  denormalize<TResource extends AnyJsonApiResource>(
+    resource: TResource,
+    depth: number = DEFAULT_DEPTH,
+    ancestors: Set<string> = new Set()
+  ): Denormalized<TResource> {
+    const result: Record<string, unknown> = { id: resource.id, ...resource.attributes };
+    if (depth <= 0) {
+      return result as Denormalized<TResource>;
+    }
+
+    const path = new Set(ancestors).add(this.keyOf(resource));
+
+    for (const [name, relationship] of Object.entries(resource.relationships || {})) {
+      const related = this.related(resource, name)
+        .filter(candidate => !path.has(this.keyOf(candidate)))
+        .map(candidate => this.denormalize(candidate, depth - 1, path));
+
+      result[relationshipProperty(name)] = Array.isArray(relationship.data) ? related : related[0] ?? null;
+    }
+
+    return result as Denormalized<TResource>;
+  }
+
+  /**
+   * Denormalize the resources a relationship of a resource references
+   */
+  denormalizeRelated<TResource extends AnyJsonApiResource = JsonApiResource>(
+    resource: AnyJsonApiResource,
+    relationship: string,
+    depth: number = DEFAULT_DEPTH
+  ): Denormalized<TResource>[] {
+    return this.related<TResource>(resource, relationship).map(related => this.denormalize(related, depth));
+  }
+
+  private identifiersOf(relationship: Relationship | undefined): ResourceIdentifier[] {
+    const data = relationship?.data;
+    return Array.isArray(data) ? data : data ? [data] : [];
+  }
+
+  private keyOf(resource: ResourceIdentifier): string {
+    return `${resource.type}:${resource.id}`;
+  }
+}
@@ -0,0 +1,205 @@
+/**
+ * Glue resource definitions
+ *
+ * Attributes of the Glue resources the tools work with. Fields Glue only
+ * returns with certain modules or features enabled are optional.
+ */
+
+import type { JsonApiResource } from './types.js';
+
+/**
+ * Monetary totals of a cart
+ */
+export interface CartTotals {
+  expenseTotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  subtotal: number;
+  grandTotal: number;
+  priceToPay?: number;
+}
+
+/**
+ * Discount applied to a cart
+ */
+export interface CartDiscount {
+  displayName: string;
+  amount: number;
+  code?: string | null;
+}
+
+export interface CartAttributes {
+  name?: string;
+  isDefault?: boolean;
+  priceMode: string;
+  currency: string;
+  store: string;
+  totals: CartTotals;
+  discounts: CartDiscount[];
+  thresholds?: unknown[];
+}
+
+export type CartResource = JsonApiResource<'carts' | 'guest-carts', CartAttributes>;
+
+/**
+ * Prices of a cart item, in cents
+ */
+export interface CartItemCalculations {
+  unitPrice: number;
+  sumPrice: number;
+  unitPriceToPayAggregation: number;
+  sumPriceToPayAggregation: number;
+  unitGrossPrice?: number;
+  sumGrossPrice?: number;
+  unitNetPrice?: number;
+  sumNetPrice?: number;
+  unitTaxAmountFullAggregation?: number;
+  sumTaxAmountFullAggregation?: number;
+  unitDiscountAmountAggregation?: number;
+  sumDiscountAmountAggregation?: number;
+}
+
+export interface CartItemAttributes {
+  sku: string;
+  quantity: number;
+  groupKey: string;
+  abstractSku?: string;
+  amount?: number | null;
+  productOfferReference?: string | null;
+  merchantReference?: string | null;
+  calculations?: CartItemCalculations;
+  selectedProductOptions?: unknown[];
+}
+
+export type CartItemResource = JsonApiResource<'items' | 'guest-cart-items', CartItemAttributes>;
+
+export interface VoucherAttributes {
+  code: string;
+  displayName: string;
+  amount: number;
+  discountType?: string;
+  isExclusive?: boolean;
+  expirationDateTime?: string;
+}
+
+export type VoucherResource = JsonApiResource<'vouchers', VoucherAttributes>;
+
+/**
+ * Monetary totals of an order
+ */
+export interface OrderTotals {
+  expenseTotal: number;
+  discountTotal: number;
+  taxTotal: number;
+  subtotal: number;
+  grandTotal: number;
+  canceledTotal?: number;
+  remunerationTotal?: number;
+}
+
+/**
+ * Item of an order as embedded in the order's attributes
+ */
+export interface OrderItem {
+  name: string;
+  sku: string;
+  quantity: number;
+  sumPrice?: number;
+  unitGrossPrice?: number;
+  sumGrossPrice?: number;
+  state?: string;
+  uuid?: string;
+  [attribute: string]: unknown;
+}
+
+export interface OrderAttributes {
+  orderReference?: string;
+  createdAt: string;
+  currencyIsoCode?: string;
+  priceMode?: string;
+  itemStates?: string[];
+  totals: OrderTotals;
+  billingAddress: Record<string, unknown> | null;
+  shippingAddress: Record<string, unknown> | null;
+  items: OrderItem[];
+  expenses?: unknown[];
+  payments?: unknown[];
+  shipments?: unknown[];
+}
+
+export type OrderResource = JsonApiResource<'orders', OrderAttributes>;
+
+export type OrderItemResource = JsonApiResource<'order-items', OrderItem>;
+
+export interface AbstractProductAttributes {
+  sku: string;
+  name: string;
+  description: string;
+  attributes: Record<string, unknown>;
+  superAttributesDefinition: string[];
+  superAttributes?: Record<string, unknown>;
+  attributeMap: Record<string, unknown>;
+  metaTitle: string;
+  metaKeywords: string;
+  metaDescription: string;
+  attributeNames: Record<string, string>;
+  url: string;
+  averageRating?: number | null;
+  reviewCount?: number;
+}
+
+export type AbstractProductResource = JsonApiResource<'abstract-products', AbstractProductAttributes>;
+
+export interface ConcreteProductAttributes {
+  sku: string;
+  name: string;
+  description: string;
+  attributes: Record<string, unknown>;
+  superAttributesDefinition?: string[];
+  superAttributes?: Record<string, unknown>;
+  productAbstractSku?: string;
+  metaTitle?: string;
+  metaKeywords?: string;
+  metaDescription?: string;
+  attributeNames?: Record<string, string>;
+  isDiscontinued?: boolean;
+  discontinuedNote?: string | null;
+  averageRating?: number | null;
+  reviewCount?: number;
+}
+
+export type ConcreteProductResource = JsonApiResource<'concrete-products', ConcreteProductAttributes>;
+
+export interface AddressAttributes {
+  salutation: string;
+  firstName: string;
+  lastName: string;
+  address1: string;
+  address2: string;
+  address3?: string | null;
+  zipCode: string;
+  city: string;
+  iso2Code: string;
+  country?: string;
+  company?: string | null;
+  phone?: string | null;
+  isDefaultShipping?: boolean;
+  isDefaultBilling?: boolean;
+}
+
+export type AddressResource = JsonApiResource<'addresses', AddressAttributes>;
+
+export interface WishlistAttributes {
+  name: string;
+  numberOfItems?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type WishlistResource = JsonApiResource<'wishlists', WishlistAttributes>;
+
+export interface WishlistItemAttributes {
+  sku: string;
+}
+
+export type WishlistItemResource = JsonApiResource<'wishlist-items', WishlistItemAttributes>;
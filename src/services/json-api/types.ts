@@ -0,0 +1,66 @@
+/**
+ * JSON:API document types as returned by the Glue API
+ */
+
+/**
+ * Reference to a resource by type and id
+ */
+export interface ResourceIdentifier<TType extends string = string> {
+  type: TType;
+  id: string;
+}
+
+/**
+ * Relationship of a resource to one or many other resources
+ */
+export interface Relationship {
+  data?: ResourceIdentifier | ResourceIdentifier[] | null;
+  links?: Record<string, string>;
+}
+
+/**
+ * A resource object with typed attributes
+ */
+export interface JsonApiResource<TType extends string = string, TAttributes = Record<string, unknown>>
+  extends ResourceIdentifier<TType> {
+  attributes: TAttributes;
+  relationships?: Record<string, Relationship>;
+  links?: Record<string, string>;
+}
+
+/**
+ * Any resource, whatever its attributes
+ */
+export type AnyJsonApiResource = JsonApiResource<string, object>;
+
+/**
+ * A document with one or many primary resources and the resources they include
+ */
+export interface JsonApiDocument<TData extends AnyJsonApiResource | AnyJsonApiResource[] = JsonApiResource | JsonApiResource[]> {
+  data: TData | null;
+  included?: JsonApiResource[];
+  links?: Record<string, string>;
+}
+
+/**
+ * Error object of a Glue error response
+ */
+export interface JsonApiError {
+  status?: number | string;
+  code?: string;
+  detail?: string;
+}
+
+/**
+ * Glue error response
+ */
+export interface JsonApiErrorDocument {
+  errors: JsonApiError[];
+}
+
+/**
+ * A resource flattened into its id and attributes, with its relationships
+ * resolved into camelCased properties holding the related resources
+ */
+export type Denormalized<TResource extends AnyJsonApiResource = JsonApiResource> =
+  { id: string } & TResource['attributes'] & { [relationship: string]: unknown };
@@ -0,0 +1,216 @@
+/**
+ * Metrics
+ *
+ * Counters, gauges and histograms rendered in the Prometheus text
+ * exposition format, and the metrics of tool calls, Glue requests and MCP
+ * sessions.
+ */
+
+/**
+ * Label values of a sample by label name
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * Default histogram buckets in seconds, as used by Prometheus clients
+ */
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  return Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+}
+
+/**
+ * A metric with one series per combination of label values
+ */
+abstract class Metric<S> {
+  protected series: Map<string, { labels: Labels; value: S }> = new Map();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly labelNames: readonly string[],
+    /**
+     * Called before rendering, to update metrics read from elsewhere
+     */
+    private readonly collect?: () => void
+  ) {}
+
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  protected seriesOf(labels: Labels, initial: () => S): S {
+    const ordered = Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? '']));
+    const key = JSON.stringify(ordered);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: initial() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  protected abstract samples(labels: Labels, value: S): string[];
+
+  render(): string {
+    this.collect?.();
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.samples(labels, value));
+    }
+    return lines.join('\n');
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+export class Counter extends Metric<{ value: number }> {
+  readonly type = 'counter';
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.seriesOf(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  /**
+   * Set the total of a counter kept elsewhere
+   */
+  set(labels: Labels, total: number): void {
+    this.seriesOf(labels, () => ({ value: 0 })).value = total;
+  }
+
+  protected samples(labels: Labels, series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(series.value)}`];
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = 'gauge';
+
+  set(labels: Labels, value: number): void {
+    this.seriesOf(labels, () => ({ value: 0 })).value = value;
+  }
+
+  protected samples(labels: Labels, series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(series.value)}`];
+  }
+}
+
+interface HistogramSeries {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = 'histogram';
+
+  constructor(name: string, help: string, labelNames: readonly string[], private readonly buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.seriesOf(labels, () => ({ counts: this.buckets.map(() => 0), sum: 0, count: 0 }));
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.counts[index]!++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected samples(labels: Labels, series: HistogramSeries): string[] {
+    const bucketLines = this.buckets.map((bound, index) =>
+      `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${series.counts[index]}`
+    );
+    return [
+      ...bucketLines,
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${series.count}`,
+    ];
+  }
+}
+
+/**
+ * Metrics exposed on the metrics route
+ */
+export class MetricsRegistry {
+  private metrics: Array<Metric<any>> = [];
+
+  counter(name: string, help: string, labelNames: readonly string[] = [], collect?: () => void): Counter {
+    return this.register(new Counter(name, help, labelNames, collect));
+  }
+
+  gauge(name: string, help: string, labelNames: readonly string[] = [], collect?: () => void): Gauge {
+    return this.register(new Gauge(name, help, labelNames, collect));
+  }
+
+  histogram(name: string, help: string, labelNames: readonly string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    return `${this.metrics.map(metric => metric.render()).join('\n')}\n`;
+  }
+
+  /**
+   * Clear all series
+   */
+  reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+  }
+
+  private register<M extends Metric<any>>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+/**
+ * Global metrics registry instance
+ */
+export const metrics = new MetricsRegistry();
+
+export const toolCalls = metrics.counter(
+  'mcp_tool_calls_total',
+  'Tool calls by tool name and outcome, success or error',
+  ['tool', 'outcome']
+);
+
+export const toolCallDuration = metrics.histogram(
+  'mcp_tool_call_duration_seconds',
+  'Duration of tool calls in seconds',
+  ['tool']
+);
+
+export const glueRequestDuration = metrics.histogram(
+  'spryker_glue_request_duration_seconds',
+  'Duration of Glue API requests in seconds by method, endpoint template and response status',
+  ['method', 'endpoint', 'status']
+);
+
+export const glueRetries = metrics.counter(
+  'spryker_glue_request_retries_total',
+  'Retried Glue API requests by method and endpoint template',
+  ['method', 'endpoint']
+);
+
+export const activeSessions = metrics.gauge(
+  'mcp_sessions_active',
+  'Active MCP sessions by transport',
+  ['transport']
+);
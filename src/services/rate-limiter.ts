@@ -0,0 +1,135 @@
+/**
+ * Rate Limiter
+ *
+ * Sliding window rate limiter for the HTTP and SSE transports. Every key,
+ * such as a client IP, an MCP session or a tool called within a session,
+ * remembers the times of its requests within the window, so a burst at the
+ * end of one window cannot be followed by a full budget at the start of
+ * the next.
+ */
+
+/**
+ * Budget of a key: at most `maxRequests` requests within `windowMs`
+ */
+export interface RateLimit {
+  maxRequests: number;
+  windowMs: number;
+}
+
+/**
+ * A key to count a request against, with its budget
+ */
+export interface RateLimitCheck extends RateLimit {
+  key: string;
+  /**
+   * Requests to count, e.g. the calls of one tool in a JSON-RPC batch; 1 by
+   * default
+   */
+  cost?: number;
+}
+
+/**
+ * Outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /**
+   * Key whose budget is exhausted, when the request is not allowed
+   */
+  limitedBy?: string;
+  /**
+   * Milliseconds until the request would be allowed, 0 when it is
+   */
+  retryAfterMs: number;
+}
+
+interface Window {
+  windowMs: number;
+  timestamps: number[];
+}
+
+export class RateLimiter {
+  private windows: Map<string, Window> = new Map();
+  private lastSweep: number;
+
+  constructor(private readonly now: () => number = Date.now) {
+    this.lastSweep = now();
+  }
+
+  /**
+   * Count a request against all keys, or against none of them if the
+   * budget of any key is exhausted. Limited requests do not use up budget.
+   */
+  consume(checks: RateLimitCheck[]): RateLimitResult {
+    const now = this.now();
+    this.sweep(now);
+
+    for (const check of checks) {
+      const timestamps = this.recent(check, now);
+      const cost = check.cost ?? 1;
+      if (timestamps.length + cost > check.maxRequests) {
+        // The oldest requests have to leave the window before the new ones
+        // fit; more than the budget at once never fits in an empty window
+        const oldest = timestamps[timestamps.length + cost - check.maxRequests - 1] ?? now;
+        return {
+          allowed: false,
+          limitedBy: check.key,
+          retryAfterMs: Math.max(oldest + check.windowMs - now, 1),
+        };
+      }
+    }
+
+    for (const check of checks) {
+      this.recent(check, now).push(...Array<number>(check.cost ?? 1).fill(now));
+    }
+
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  /**
+   * Forget all recorded requests
+   */
+  reset(): void {
+    this.windows.clear();
+  }
+
+  /**
+   * Get the requests of a key within its window, dropping older ones
+   */
+  private recent(check: RateLimitCheck, now: number): number[] {
+    let window = this.windows.get(check.key);
+    if (!window) {
+      window = { windowMs: check.windowMs, timestamps: [] };
+      this.windows.set(check.key, window);
+    }
+
+    window.windowMs = check.windowMs;
+    const start = now - check.windowMs;
+    const expired = window.timestamps.findIndex(timestamp => timestamp > start);
+    window.timestamps.splice(0, expired === -1 ? window.timestamps.length : expired);
+
+    return window.timestamps;
+  }
+
+  /**
+   * Drop keys without requests in their window, at most once a minute
+   */
+  private sweep(now: number): void {
+    if (now - this.lastSweep < 60000) {
+      return;
+    }
+
+    this.lastSweep = now;
+    for (const [key, window] of this.windows) {
+      const last = window.timestamps[window.timestamps.length - 1];
+      if (last === undefined || last <= now - window.windowMs) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Global rate limiter instance
+ */
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,84 @@
+/**
+ * Retry Budget
+ *
+ * Limits retries of Glue requests across the whole server to a share of
+ * the requests sent within a sliding window. While Glue is healthy almost
+ * no request is retried; when it degrades, every request would be retried,
+ * and the budget keeps those retries from multiplying the load.
+ */
+
+/**
+ * At most `minRetries` plus `ratio` retries per request within `windowMs`
+ */
+export interface RetryBudgetOptions {
+  ratio: number;
+  minRetries: number;
+  windowMs: number;
+}
+
+/**
+ * Requests and retries within the window, and the retries still allowed
+ */
+export interface RetryBudgetStatus {
+  requests: number;
+  retries: number;
+  available: number;
+}
+
+export class RetryBudget {
+  private requests: number[] = [];
+  private retries: number[] = [];
+
+  constructor(
+    private readonly options: RetryBudgetOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Count a request sent for the first time
+   */
+  recordRequest(): void {
+    const now = this.now();
+    this.prune(now);
+    this.requests.push(now);
+  }
+
+  /**
+   * Take a retry from the budget, returning false when it is exhausted
+   */
+  tryAcquire(): boolean {
+    const now = this.now();
+    this.prune(now);
+
+    if (this.available() < 1) {
+      return false;
+    }
+
+    this.retries.push(now);
+    return true;
+  }
+
+  getStatus(): RetryBudgetStatus {
+    this.prune(this.now());
+    return {
+      requests: this.requests.length,
+      retries: this.retries.length,
+      available: Math.max(Math.floor(this.available()), 0),
+    };
+  }
+
+  private available(): number {
+    return this.options.minRetries + this.options.ratio * this.requests.length - this.retries.length;
+  }
+
+  private prune(now: number): void {
+    // Timestamps are pushed in order, so the expired ones are at the front
+    const start = now - this.options.windowMs;
+    while (this.requests.length > 0 && this.requests[0]! <= start) {
+      this.requests.shift();
+    }
+    while (this.retries.length > 0 && this.retries[0]! <= start) {
+      this.retries.shift();
+    }
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * MCP Session Context
+ *
+ * Tracks which MCP session the current request belongs to across async
+ * boundaries, so services can look up per-session state without the
+ * session id being threaded through every tool signature.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+
+/**
+ * Session id used when no transport session is available (stdio runs a
+ * single session for the lifetime of the process)
+ */
+export const PROCESS_SESSION_ID = 'process';
+
+/**
+ * State carried along with every request handled within a session
+ */
+interface SessionContext {
+  sessionId: string;
+  /**
+   * Access token the request was authorized with, on the HTTP and SSE
+   * transports with authorization enabled
+   */
+  auth?: AuthInfo | undefined;
+}
+
+const storage = new AsyncLocalStorage<SessionContext>();
+
+/**
+ * Run a function within the context of an MCP session
+ */
+export function runInSession<T>(sessionId: string | undefined, fn: () => T, auth?: AuthInfo): T {
+  return storage.run({ sessionId: sessionId || PROCESS_SESSION_ID, auth }, fn);
+}
+
+/**
+ * Get the MCP session id of the request currently being handled
+ */
+export function getSessionId(): string {
+  return storage.getStore()?.sessionId ?? PROCESS_SESSION_ID;
+}
+
+/**
+ * Get the access token the request currently being handled was authorized
+ * with, if any
+ */
+export function getAuthInfo(): AuthInfo | undefined {
+  return storage.getStore()?.auth;
+}
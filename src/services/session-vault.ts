@@ -0,0 +1,144 @@
+/**
+ * Session Vault
+ *
+ * Server-side storage for customer and guest credentials, scoped to the MCP
+ * session that created them. Tools resolve credentials from the vault by an
+ * opaque session handle, so access and refresh tokens never have to pass
+ * through the model's context.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { logger } from '../utils/logger.js';
+import { getSessionId } from './session-context.js';
+
+/**
+ * Kind of identity a set of credentials belongs to
+ */
+export type SessionUserType = 'customer' | 'guest';
+
+/**
+ * Credentials stored for a session handle
+ */
+export interface SessionCredentials {
+  accessToken: string;
+  tokenType: string;
+  userType: SessionUserType;
+  refreshToken?: string;
+  expiresIn?: number;
+  createdAt: number;
+}
+
+/**
+ * Session error class for missing or unknown session handles
+ */
+export class SessionError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+/**
+ * Customer reference in the claims of a Glue access token, which carry it
+ * in the JSON encoded subject
+ */
+export function customerReferenceOf(accessToken: string): string | undefined {
+  try {
+    const payload = JSON.parse(Buffer.from(accessToken.split('.')[1] ?? '', 'base64url').toString()) as { sub?: unknown };
+    const subject = (typeof payload.sub === 'string' ? JSON.parse(payload.sub) : payload.sub) as { customer_reference?: unknown } | null;
+    const reference = subject?.customer_reference;
+    return typeof reference === 'string' && reference ? reference : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Per-MCP-session credential vault
+ */
+export class SessionVault {
+  private sessions: Map<string, Map<string, SessionCredentials>> = new Map();
+  private activeHandles: Map<string, string> = new Map();
+
+  /**
+   * Store credentials and make them the active identity of the session.
+   * Returns the opaque handle the credentials can be resolved by.
+   */
+  store(credentials: Omit<SessionCredentials, 'createdAt'>, sessionId: string = getSessionId()): string {
+    const handle = `session-${randomUUID()}`;
+
+    let handles = this.sessions.get(sessionId);
+    if (!handles) {
+      handles = new Map();
+      this.sessions.set(sessionId, handles);
+    }
+
+    handles.set(handle, { ...credentials, createdAt: Date.now() });
+    this.activeHandles.set(sessionId, handle);
+
+    logger.debug('Stored session credentials', { sessionId, handle, userType: credentials.userType });
+    return handle;
+  }
+
+  /**
+   * Resolve credentials by handle, or the active credentials of the session
+   * when no handle is given
+   */
+  resolve(handle?: string, sessionId: string = getSessionId()): SessionCredentials {
+    const handles = this.sessions.get(sessionId);
+    const resolvedHandle = handle || this.activeHandles.get(sessionId);
+
+    if (!resolvedHandle || !handles) {
+      throw new SessionError(
+        'No authenticated session. Call the authenticate tool first.',
+        'SESSION_NOT_AUTHENTICATED'
+      );
+    }
+
+    const credentials = handles.get(resolvedHandle);
+    if (!credentials) {
+      throw new SessionError(
+        `Unknown session handle: ${resolvedHandle}. Call the authenticate tool to start a new session.`,
+        'SESSION_UNKNOWN_HANDLE'
+      );
+    }
+
+    return credentials;
+  }
+
+  /**
+   * Replace stored tokens for a handle, e.g. after a token refresh
+   */
+  update(
+    handle: string | undefined,
+    updates: Partial<Omit<SessionCredentials, 'createdAt' | 'userType'>>,
+    sessionId: string = getSessionId()
+  ): SessionCredentials {
+    const credentials = this.resolve(handle, sessionId);
+    Object.assign(credentials, updates);
+    return credentials;
+  }
+
+  /**
+   * Forget all credentials of an MCP session
+   */
+  clearSession(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      logger.debug('Cleared session credentials', { sessionId });
+    }
+    this.activeHandles.delete(sessionId);
+  }
+
+  /**
+   * Forget all credentials of all sessions
+   */
+  clear(): void {
+    this.sessions.clear();
+    this.activeHandles.clear();
+  }
+}
+
+/**
+ * Global session vault instance
+ */
+export const sessionVault = new SessionVault();
@@ -2,27 +2,104 @@
  * Spryker API Service
  * 
  * Centralized HTTP client for Spryker API interactions with proper
- * error handling, retry logic, and response formatting.
+ * error handling, retry logic, automatic access token refresh, and
+ * response formatting.
  */
 
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { storeContext, type ResolvedStoreContext } from './store-context.js';
+import { getSessionId } from './session-context.js';
+import { createResponseCache, type ResponseCache, type CacheStats } from './cache/index.js';
+import {
+  CircuitOpenError,
+  createCircuitBreakers,
+  isUpstreamFailure,
+  type CircuitBreakerRegistry,
+  type CircuitStatus,
+} from './circuit-breaker.js';
+import { tracer, type Span } from './tracing/index.js';
+import { glueRequestDuration, glueRetries } from './metrics.js';
+import { describeError, type ErrorCode, type GlueError } from './glue-errors.js';
+import { RetryBudget } from './retry-budget.js';
+import { recordGlueRequest } from './audit-trail.js';
 
 /**
  * HTTP methods supported by the API service
  */
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
 
+/**
+ * Methods whose requests can be repeated without changing the outcome,
+ * and are therefore retried by default
+ */
+const IDEMPOTENT_METHODS: ReadonlySet<HttpMethod> = new Set(['GET', 'PUT', 'DELETE']);
+
+/**
+ * Statuses whose `Retry-After` header says when to retry
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Parse a `Retry-After` header, either delay seconds or an HTTP date, into
+ * milliseconds from now
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Get the template of a Glue endpoint, with the IDs that follow resource
+ * types replaced, e.g. `carts/{id}/items/{id}` for `carts/abc/items/001_1`
+ */
+export function endpointTemplate(endpoint: string | undefined): string {
+  if (!endpoint) {
+    return 'unknown';
+  }
+  return endpoint.split('?')[0]!.split('/').filter(Boolean)
+    .map((segment, index) => index % 2 === 1 ? '{id}' : segment)
+    .join('/');
+}
+
 /**
  * API request configuration
  */
 interface ApiRequestConfig {
   method: HttpMethod;
   url: string;
+  /**
+   * Endpoint the URL was built from, to find the circuit of its family
+   */
+  endpoint?: string;
   headers?: Record<string, string>;
   body?: unknown;
   timeout?: number;
   retryAttempts?: number;
+  /**
+   * Retry the request although its method is not idempotent
+   */
+  idempotent?: boolean;
+}
+
+/**
+ * Options for requests made through the general request method
+ */
+interface RequestOptions {
+  data?: unknown;
+  token?: string;
+  params?: Record<string, string>;
+  /**
+   * The request is safe to repeat, so it is retried after a failure even
+   * if its method is not idempotent, e.g. a POST that only reads data
+   */
+  idempotent?: boolean;
 }
 
 /**
@@ -35,18 +112,60 @@ interface ApiResponse<T = unknown> {
   headers: Record<string, string>;
 }
 
+/**
+ * Tokens returned by Glue's access-tokens and refresh-tokens endpoints
+ */
+export interface AccessTokenSet {
+  tokenType: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Customer token tracked for automatic refresh
+ */
+interface TrackedToken {
+  tokenType: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+  /**
+   * When the refresh token can no longer be used and the token is forgotten
+   */
+  refreshExpiresAt: number;
+  baseUrl: string;
+  /**
+   * MCP session the token was issued in
+   */
+  sessionId: string;
+  refreshing?: Promise<AccessTokenSet>;
+}
+
 /**
  * API error class with additional context
  */
 export class ApiError extends Error {
+  /**
+   * Decoded JSON:API errors of the response
+   */
+  public readonly errors: GlueError[];
+  public readonly errorCode: ErrorCode;
+  public readonly hint: string;
+
   constructor(
     message: string,
     public readonly status?: number,
     public readonly statusText?: string,
-    public readonly responseData?: unknown
+    public readonly responseData?: unknown,
+    /**
+     * Milliseconds Glue asked to wait before retrying, from `Retry-After`
+     */
+    public readonly retryAfterMs?: number
   ) {
     super(message);
     this.name = 'ApiError';
+    ({ errors: this.errors, errorCode: this.errorCode, hint: this.hint } = describeError(this));
   }
 }
 
@@ -56,16 +175,40 @@ export class ApiError extends Error {
 export class SprykerApiService {
   private static instance: SprykerApiService;
   
-  private readonly baseUrl: string;
   private readonly defaultTimeout: number;
   private readonly defaultRetryAttempts: number;
   private readonly retryDelay: number;
+  private readonly retryMaxDelay: number;
+  private readonly tokenRefreshMargin: number;
+  private readonly refreshTokenTtl: number;
+
+  // Customer tokens by every access token issued for them, so requests made
+  // with an earlier access token transparently use the refreshed one
+  private tokens: Map<string, TrackedToken> = new Map();
+  private lastTokenSweep = Date.now();
+
+  // Cache for anonymous catalog responses, null when caching is disabled
+  private readonly cache: ResponseCache | null;
+
+  // GET requests currently in flight, so identical concurrent GETs share one
+  private inFlight: Map<string, Promise<ApiResponse<unknown>>> = new Map();
+
+  // Circuit breakers by upstream, null when circuit breaking is disabled
+  private readonly circuitBreakers: CircuitBreakerRegistry | null;
+
+  // Retries of all requests, limited to a share of the requests sent
+  private readonly retryBudget: RetryBudget;
 
   constructor() {
-    this.baseUrl = config.api.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.defaultTimeout = config.api.timeout;
     this.defaultRetryAttempts = config.api.retryAttempts;
     this.retryDelay = config.api.retryDelay;
+    this.retryMaxDelay = config.api.retryMaxDelay;
+    this.tokenRefreshMargin = config.api.tokenRefreshMargin;
+    this.refreshTokenTtl = config.api.refreshTokenTtl;
+    this.cache = createResponseCache();
+    this.circuitBreakers = createCircuitBreakers();
+    this.retryBudget = new RetryBudget(config.api.retryBudget);
   }
 
   /**
@@ -81,12 +224,12 @@ export class SprykerApiService {
   /**
    * Build headers for API requests
    */
-  private buildHeaders(token?: string, additionalHeaders?: Record<string, string>): Record<string, string> {
+  private buildHeaders(token?: string, locale: string = config.api.locale): Record<string, string> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
       'access-control-allow-origin': '*',
-      'content-language': 'en_US',
+      'content-language': locale,
       'User-Agent': `${config.server.name}/${config.server.version}`,
     };
 
@@ -99,15 +242,15 @@ export class SprykerApiService {
       }
     }
 
-    return { ...headers, ...additionalHeaders };
+    return headers;
   }
 
   /**
    * Build full URL for API endpoints
    */
-  private buildUrl(endpoint: string): string {
+  private buildUrl(endpoint: string, baseUrl: string): string {
     const cleanEndpoint = endpoint.startsWith('/') ? endpoint.slice(1) : endpoint;
-    return `${this.baseUrl}/${cleanEndpoint}`;
+    return `${baseUrl.replace(/\/$/, '')}/${cleanEndpoint}`;
   }
 
   /**
@@ -118,15 +261,75 @@ export class SprykerApiService {
   }
 
   /**
-   * Execute HTTP request with retry logic
+   * Get the delay before retrying a failed attempt: the `Retry-After` Glue
+   * sent with a 429 or 503, or else a random delay of up to the exponential
+   * backoff ("full jitter"), so clients that failed together do not retry
+   * together. Returns null when Glue asked to wait longer than the maximum.
+   */
+  private retryDelayFor(attempt: number, error: unknown): number | null {
+    if (error instanceof ApiError && error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= this.retryMaxDelay ? error.retryAfterMs : null;
+    }
+    const backoff = Math.min(this.retryDelay * Math.pow(2, attempt), this.retryMaxDelay);
+    return Math.round(Math.random() * backoff);
+  }
+
+  /**
+   * Get the circuit key of a request: the upstream host, followed by the
+   * endpoint family, e.g. `abstract-products`, with endpoint scope
+   */
+  private circuitKey(url: string, endpoint: string | undefined): string {
+    const host = new URL(url).host;
+    const family = endpoint?.split('?')[0]!.split('/').find(Boolean);
+    return config.circuitBreaker.scope === 'endpoint' && family ? `${host}/${family}` : host;
+  }
+
+  /**
+   * Execute HTTP request within a client span, which carries the retries as
+   * events and whose trace context is sent to Glue. The request and its
+   * status are recorded for the audit trail of the tool call sending it.
    */
   private async executeRequest<T>(config: ApiRequestConfig): Promise<ApiResponse<T>> {
-    const { method, url, headers, body, timeout = this.defaultTimeout, retryAttempts = this.defaultRetryAttempts } = config;
+    const { method, url } = config;
+    const endpoint = config.endpoint?.split('?')[0] ?? new URL(url).pathname;
+
+    try {
+      const response = await tracer.startActiveSpan(method, {
+        kind: 'client',
+        attributes: {
+          'http.request.method': method,
+          'url.full': url,
+          'server.address': new URL(url).hostname,
+        },
+      }, span => this.executeAttempts<T>(config, span));
+      recordGlueRequest({ method, endpoint, status: response.status });
+      return response;
+    } catch (error) {
+      recordGlueRequest({ method, endpoint, ...(error instanceof ApiError && error.status ? { status: error.status } : {}) });
+      throw error;
+    }
+  }
+
+  /**
+   * Execute HTTP request with retry logic. Only idempotent requests are
+   * retried, and only while the retry budget lasts. Every attempt goes
+   * through the circuit of its upstream, so retries stop as soon as the
+   * circuit opens.
+   */
+  private async executeAttempts<T>(config: ApiRequestConfig, span: Span): Promise<ApiResponse<T>> {
+    const { method, url, endpoint, headers, body, timeout = this.defaultTimeout, retryAttempts = this.defaultRetryAttempts } = config;
+    const circuit = this.circuitBreakers?.get(this.circuitKey(url, endpoint));
+    const template = endpointTemplate(endpoint);
+    const retryable = config.idempotent || IDEMPOTENT_METHODS.has(method);
+
+    this.retryBudget.recordRequest();
     
     let lastError: Error | null = null;
     
     for (let attempt = 0; attempt <= retryAttempts; attempt++) {
       try {
+        circuit?.acquire();
+
         logger.debug(`API request attempt ${attempt + 1}/${retryAttempts + 1}`, {
           method,
           url,
@@ -146,16 +349,29 @@ export class SprykerApiService {
           signal: controller.signal,
         };
 
-        if (headers) {
-          fetchConfig.headers = headers;
+        const tracedHeaders = tracer.inject(headers ?? {});
+        if (Object.keys(tracedHeaders).length > 0) {
+          fetchConfig.headers = tracedHeaders;
         }
 
         if (body) {
           fetchConfig.body = JSON.stringify(body);
         }
 
-        const response = await fetch(url, fetchConfig);
-        clearTimeout(timeoutId);
+        const sentAt = performance.now();
+        let response: Response;
+        try {
+          response = await fetch(url, fetchConfig);
+        } catch (error) {
+          clearTimeout(timeoutId);
+          glueRequestDuration.observe({ method, endpoint: template, status: 'error' }, (performance.now() - sentAt) / 1000);
+          throw error;
+        }
+        glueRequestDuration.observe({ method, endpoint: template, status: String(response.status) }, (performance.now() - sentAt) / 1000);
+        span.setAttributes({
+          'http.response.status_code': response.status,
+          'http.request.resend_count': attempt > 0 ? attempt : undefined,
+        });
 
         // Parse response
         const responseHeaders: Record<string, string> = {};
@@ -168,32 +384,43 @@ export class SprykerApiService {
         
         logger.info('Response content type', { contentType });
         
-        // Check for JSON content types (including application/vnd.api+json)
-        if (contentType?.includes('application/json') || contentType?.includes('application/vnd.api+json')) {
-          responseData = await response.json() as T;
-          logger.info('Parsed JSON response', { 
-            type: typeof responseData,
-            isArray: Array.isArray(responseData),
-            keys: responseData ? Object.keys(responseData as any).slice(0, 5) : []
-          });
-        } else {
-          responseData = await response.text() as unknown as T;
-          logger.info('Got text response', { 
-            type: typeof responseData,
-            length: (responseData as any)?.length 
-          });
+        // The timeout also aborts reading the body, so a backend that sends
+        // the headers and then stalls fails like one that never answers
+        try {
+          if (response.status === 304) {
+            // Not Modified responses to conditional requests have no body
+            responseData = undefined as T;
+          } else if (contentType?.includes('application/json') || contentType?.includes('application/vnd.api+json')) {
+            responseData = await response.json() as T;
+            logger.info('Parsed JSON response', { 
+              type: typeof responseData,
+              isArray: Array.isArray(responseData),
+              keys: responseData ? Object.keys(responseData as any).slice(0, 5) : []
+            });
+          } else {
+            responseData = await response.text() as unknown as T;
+            logger.info('Got text response', { 
+              type: typeof responseData,
+              length: (responseData as any)?.length 
+            });
+          }
+        } finally {
+          clearTimeout(timeoutId);
         }
 
         // Check for HTTP errors
-        if (!response.ok) {
+        if (!response.ok && response.status !== 304) {
           throw new ApiError(
             `HTTP ${response.status}: ${response.statusText}`,
             response.status,
             response.statusText,
-            responseData
+            responseData,
+            RETRY_AFTER_STATUSES.includes(response.status) ? parseRetryAfter(response.headers.get('retry-after')) : undefined
           );
         }
 
+        circuit?.recordSuccess();
+
         logger.debug('API request successful', {
           method,
           url,
@@ -210,27 +437,62 @@ export class SprykerApiService {
 
       } catch (error) {
         lastError = error as Error;
+
+        if (error instanceof CircuitOpenError) {
+          logger.warn('Circuit open, not sending request', { method, url, circuit: circuit?.key });
+          throw error;
+        }
+
+        if (isUpstreamFailure(error)) {
+          circuit?.recordFailure(lastError);
+        } else {
+          circuit?.recordSuccess();
+        }
         
         if (error instanceof ApiError) {
-          // Don't retry client errors (4xx)
-          if (error.status && error.status >= 400 && error.status < 500) {
+          // Don't retry client errors (4xx), except for rate limiting
+          if (error.status && error.status >= 400 && error.status < 500 && error.status !== 429) {
             throw error;
           }
         }
 
+        if (!retryable) {
+          logger.debug('Not retrying request that is not idempotent', { method, url });
+          throw error;
+        }
+
         // If this was the last attempt, throw the error
         if (attempt === retryAttempts) {
           break;
         }
 
-        // Wait before retrying
-        const delay = this.retryDelay * Math.pow(2, attempt); // Exponential backoff
+        const delay = this.retryDelayFor(attempt, error);
+        if (delay === null) {
+          logger.warn('Glue asked to retry later than the maximum retry delay, not retrying', {
+            method,
+            url,
+            retryAfterMs: (error as ApiError).retryAfterMs,
+          });
+          throw error;
+        }
+
+        if (!this.retryBudget.tryAcquire()) {
+          logger.warn('Retry budget exhausted, not retrying', { method, url, ...this.retryBudget.getStatus() });
+          throw error;
+        }
+
         logger.warn(`API request failed, retrying in ${delay}ms`, {
           method,
           url,
           attempt,
           error: lastError.message,
         });
+        glueRetries.inc({ method, endpoint: template });
+        span.addEvent('retry', {
+          'http.request.resend_count': attempt + 1,
+          'retry.delay_ms': delay,
+          'error.message': lastError.message,
+        });
         
         await this.sleep(delay);
       }
@@ -251,73 +513,40 @@ export class SprykerApiService {
    * Make a GET request
    */
   async get<T = unknown>(endpoint: string, token?: string): Promise<ApiResponse<T>> {
-    const url = this.buildUrl(endpoint);
-    const headers = this.buildHeaders(token);
-
-    return this.executeRequest<T>({
-      method: 'GET',
-      url,
-      headers,
-    });
+    return this.send<T>('GET', endpoint, token ? { token } : {});
   }
 
   /**
    * Make a POST request
    */
-  async post<T = unknown>(endpoint: string, data?: unknown, token?: string): Promise<ApiResponse<T>> {
-    const url = this.buildUrl(endpoint);
-    const headers = this.buildHeaders(token);
-
-    return this.executeRequest<T>({
-      method: 'POST',
-      url,
-      headers,
-      body: data,
-    });
+  async post<T = unknown>(
+    endpoint: string,
+    data?: unknown,
+    token?: string,
+    options: Pick<RequestOptions, 'idempotent'> = {}
+  ): Promise<ApiResponse<T>> {
+    return this.send<T>('POST', endpoint, { ...options, data, ...(token ? { token } : {}) });
   }
 
   /**
    * Make a PUT request
    */
   async put<T = unknown>(endpoint: string, data?: unknown, token?: string): Promise<ApiResponse<T>> {
-    const url = this.buildUrl(endpoint);
-    const headers = this.buildHeaders(token);
-
-    return this.executeRequest<T>({
-      method: 'PUT',
-      url,
-      headers,
-      body: data,
-    });
+    return this.send<T>('PUT', endpoint, { data, ...(token ? { token } : {}) });
   }
 
   /**
    * Make a PATCH request
    */
   async patch<T = unknown>(endpoint: string, data?: unknown, token?: string): Promise<ApiResponse<T>> {
-    const url = this.buildUrl(endpoint);
-    const headers = this.buildHeaders(token);
-
-    return this.executeRequest<T>({
-      method: 'PATCH',
-      url,
-      headers,
-      body: data,
-    });
+    return this.send<T>('PATCH', endpoint, { data, ...(token ? { token } : {}) });
   }
 
   /**
    * Make a DELETE request
    */
   async delete<T = unknown>(endpoint: string, token?: string): Promise<ApiResponse<T>> {
-    const url = this.buildUrl(endpoint);
-    const headers = this.buildHeaders(token);
-
-    return this.executeRequest<T>({
-      method: 'DELETE',
-      url,
-      headers,
-    });
+    return this.send<T>('DELETE', endpoint, token ? { token } : {});
   }
 
   /**
@@ -326,32 +555,324 @@ export class SprykerApiService {
   async request<T = unknown>(
     method: HttpMethod,
     endpoint: string,
-    options?: {
-      data?: unknown;
-      token?: string;
-      params?: Record<string, string>;
-    }
+    options?: RequestOptions
   ): Promise<ApiResponse<T>> {
-    let url = this.buildUrl(endpoint);
-    
+    return this.send<T>(method, endpoint, options || {});
+  }
+
+  /**
+   * Exchange the refresh token of a tracked customer token for a new access
+   * token. Concurrent callers share a single in-flight refresh.
+   */
+  async refreshAccessToken(token: string): Promise<AccessTokenSet> {
+    const tracked = this.tokens.get(token);
+
+    if (!tracked) {
+      throw new Error('Access token is not tracked and cannot be refreshed. Authenticate again.');
+    }
+
+    if (!tracked.refreshing) {
+      tracked.refreshing = this.executeTokenRefresh(tracked).finally(() => {
+        delete tracked.refreshing;
+      });
+    }
+
+    return tracked.refreshing;
+  }
+
+  /**
+   * Stop tracking the customer tokens issued in an MCP session that has ended
+   */
+  clearSession(sessionId: string): void {
+    for (const [key, tracked] of this.tokens) {
+      if (tracked.sessionId === sessionId) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Get hit and miss counters of the response cache, or null when caching
+   * is disabled
+   */
+  getCacheStats(): CacheStats | null {
+    return this.cache?.getStats() ?? null;
+  }
+
+  /**
+   * Get the state of the circuit of every upstream called so far, or null
+   * when circuit breaking is disabled
+   */
+  getCircuitStatuses(): CircuitStatus[] | null {
+    return this.circuitBreakers?.getStatuses() ?? null;
+  }
+
+  /**
+   * Build the URL for the current store and execute a request. Identical
+   * GETs, i.e. same URL, locale and token, made while one is in flight share
+   * its response instead of hitting Glue again.
+   */
+  private async send<T>(method: HttpMethod, endpoint: string, options: RequestOptions): Promise<ApiResponse<T>> {
+    const context = storeContext.resolve();
+    let url = this.buildUrl(endpoint, context.baseUrl);
+
     // Add query parameters
-    if (options?.params) {
+    if (options.params) {
       const searchParams = new URLSearchParams(options.params);
       url += `?${searchParams.toString()}`;
     }
-    
-    const headers = this.buildHeaders(options?.token);
-    
-    return this.executeRequest<T>({
-      method,
-      url,
-      headers,
-      body: options?.data,
+
+    if (method !== 'GET') {
+      return this.dispatch<T>(method, endpoint, url, context, options);
+    }
+
+    const key = `${context.locale} ${options.token || ''} ${url}`;
+    const inFlight = this.inFlight.get(key);
+    if (inFlight) {
+      logger.debug('Joining in-flight request', { url });
+      return inFlight as Promise<ApiResponse<T>>;
+    }
+
+    const request = this.dispatch<T>(method, endpoint, url, context, options).finally(() => {
+      this.inFlight.delete(key);
     });
+    this.inFlight.set(key, request);
+
+    return request;
+  }
+
+  /**
+   * Resolve the token and execute a request, refreshing a tracked customer
+   * token once and replaying the request after a 401
+   */
+  private async dispatch<T>(
+    method: HttpMethod,
+    endpoint: string,
+    url: string,
+    context: ResolvedStoreContext,
+    options: RequestOptions
+  ): Promise<ApiResponse<T>> {
+    // Anonymous GETs of catalog endpoints are served from the response cache
+    if (this.cache && method === 'GET' && !options.token && this.cache.ttlFor(endpoint) > 0) {
+      return this.sendCached<T>(this.cache, url, endpoint, context.locale);
+    }
+
+    const token = options.token ? await this.resolveAccessToken(options.token) : undefined;
+    let response: ApiResponse<T>;
+
+    try {
+      response = await this.executeRequest<T>({
+        method,
+        url,
+        endpoint,
+        headers: this.buildHeaders(token, context.locale),
+        body: options.data,
+        ...(options.idempotent ? { idempotent: true } : {}),
+      });
+    } catch (error) {
+      if (!(error instanceof ApiError) || error.status !== 401 || !token || !this.tokens.has(token)) {
+        throw error;
+      }
+
+      logger.info('Access token rejected, refreshing and replaying request', { method, url });
+
+      let refreshed: AccessTokenSet;
+      try {
+        refreshed = await this.refreshAccessToken(token);
+      } catch (refreshError) {
+        logger.warn('Access token refresh failed', {
+          error: refreshError instanceof Error ? refreshError.message : String(refreshError),
+        });
+        throw error;
+      }
+
+      response = await this.executeRequest<T>({
+        method,
+        url,
+        endpoint,
+        headers: this.buildHeaders(refreshed.accessToken, context.locale),
+        body: options.data,
+        ...(options.idempotent ? { idempotent: true } : {}),
+      });
+    }
+
+    if (method === 'POST' && endpoint.replace(/^\//, '') === 'access-tokens') {
+      this.trackAccessTokens(response.data, context.baseUrl);
+    }
+
+    return response;
+  }
+
+  /**
+   * Execute an anonymous GET through the response cache, revalidating
+   * expired responses that carry an ETag
+   */
+  private async sendCached<T>(cache: ResponseCache, url: string, endpoint: string, locale: string): Promise<ApiResponse<T>> {
+    const key = cache.keyFor(url, locale);
+    const cached = await cache.get(key);
+
+    if (cached && cache.isFresh(cached)) {
+      logger.debug('Serving response from cache', { url });
+      return {
+        data: cached.data as T,
+        status: cached.status,
+        statusText: cached.statusText,
+        headers: cached.headers,
+      };
+    }
+
+    const headers = this.buildHeaders(undefined, locale);
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+
+    const response = await this.executeRequest<T>({ method: 'GET', url, endpoint, headers });
+
+    if (response.status === 304 && cached) {
+      logger.debug('Cached response revalidated', { url });
+      const refreshed = await cache.revalidated(key, endpoint, cached, response.headers);
+      return {
+        data: refreshed.data as T,
+        status: refreshed.status,
+        statusText: refreshed.statusText,
+        headers: refreshed.headers,
+      };
+    }
+
+    await cache.set(key, endpoint, response);
+    return response;
+  }
+
+  /**
+   * Get the current access token for a token, refreshing it first when it
+   * is tracked and about to expire
+   */
+  private async resolveAccessToken(token: string): Promise<string> {
+    this.sweepTokens(Date.now());
+    const tracked = this.tokens.get(token);
+
+    if (!tracked) {
+      return token;
+    }
+
+    if (tracked.expiresAt - Date.now() > this.tokenRefreshMargin) {
+      return tracked.accessToken;
+    }
+
+    try {
+      const refreshed = await this.refreshAccessToken(token);
+      return refreshed.accessToken;
+    } catch (error) {
+      // Fall back to the current token; Glue decides whether it is still valid
+      logger.warn('Proactive access token refresh failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return tracked.accessToken;
+    }
+  }
+
+  /**
+   * Start tracking the tokens of an access-tokens response, remembering the
+   * store they were issued by
+   */
+  private trackAccessTokens(responseData: unknown, baseUrl: string): void {
+    const attributes = (responseData as { data?: { attributes?: Partial<AccessTokenSet> } } | undefined)
+      ?.data?.attributes;
+
+    if (!attributes?.accessToken || !attributes.refreshToken) {
+      return;
+    }
+
+    const now = Date.now();
+    this.sweepTokens(now);
+    this.tokens.set(attributes.accessToken, {
+      tokenType: attributes.tokenType || 'Bearer',
+      accessToken: attributes.accessToken,
+      refreshToken: attributes.refreshToken,
+      expiresAt: now + (attributes.expiresIn || 0) * 1000,
+      refreshExpiresAt: now + this.refreshTokenTtl,
+      baseUrl,
+      sessionId: getSessionId(),
+    });
+  }
+
+  /**
+   * Stop tracking a customer token under all of its access tokens
+   */
+  private untrackToken(tracked: TrackedToken): void {
+    for (const [key, value] of this.tokens) {
+      if (value === tracked) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Forget tokens whose refresh token has expired, at most once a minute
+   */
+  private sweepTokens(now: number): void {
+    if (now - this.lastTokenSweep < 60000) {
+      return;
+    }
+
+    this.lastTokenSweep = now;
+    for (const [key, tracked] of this.tokens) {
+      if (tracked.refreshExpiresAt <= now) {
+        this.tokens.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Call Glue's refresh-tokens endpoint and update the tracked token
+   */
+  private async executeTokenRefresh(tracked: TrackedToken): Promise<AccessTokenSet> {
+    logger.info('Refreshing access token');
+
+    let response: ApiResponse<{ data: { attributes: AccessTokenSet } }>;
+    try {
+      response = await this.executeRequest<{ data: { attributes: AccessTokenSet } }>({
+        method: 'POST',
+        url: this.buildUrl('refresh-tokens', tracked.baseUrl),
+        endpoint: 'refresh-tokens',
+        headers: this.buildHeaders(),
+        body: {
+          data: {
+            type: 'refresh-tokens',
+            attributes: { refreshToken: tracked.refreshToken },
+          },
+        },
+      });
+    } catch (error) {
+      // Glue refused the refresh token, so it is no longer usable; after a
+      // timeout or server error the next request tries again
+      if (error instanceof ApiError && (error.status === 400 || error.status === 401)) {
+        this.untrackToken(tracked);
+      }
+      throw error;
+    }
+
+    const attributes = response.data.data.attributes;
+    const now = Date.now();
+    tracked.tokenType = attributes.tokenType || tracked.tokenType;
+    tracked.accessToken = attributes.accessToken;
+    tracked.refreshToken = attributes.refreshToken;
+    tracked.expiresAt = now + attributes.expiresIn * 1000;
+    tracked.refreshExpiresAt = now + this.refreshTokenTtl;
+
+    // Requests made with any earlier access token now use the refreshed one
+    this.tokens.set(attributes.accessToken, tracked);
+
+    return {
+      tokenType: tracked.tokenType,
+      accessToken: tracked.accessToken,
+      refreshToken: tracked.refreshToken,
+      expiresIn: attributes.expiresIn,
+    };
   }
 }
 
 /**
- * Singleton instance of the Spryker API service
+ * Singleton instance of the Spryker API service, the one the tools use
  */
-export const sprykerApi = new SprykerApiService();
+export const sprykerApi = SprykerApiService.getInstance();
@@ -0,0 +1,168 @@
+/**
+ * Store Context
+ *
+ * Resolves the store, locale, currency and price mode API requests are made
+ * for. Selections can be made per MCP session and overridden per tool call;
+ * anything left unselected falls back to the store's and then the server's
+ * configured defaults.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { config, type PriceMode } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { getSessionId } from './session-context.js';
+
+/**
+ * Store, locale, currency and price mode selection
+ */
+export interface StoreSelection {
+  store?: string | undefined;
+  locale?: string | undefined;
+  currency?: string | undefined;
+  priceMode?: PriceMode | undefined;
+}
+
+/**
+ * Fully resolved context of an API request
+ */
+export interface ResolvedStoreContext {
+  store?: string;
+  baseUrl: string;
+  locale: string;
+  currency?: string;
+  priceMode?: PriceMode;
+}
+
+/**
+ * Store context error class for unknown stores
+ */
+export class StoreContextError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'StoreContextError';
+  }
+}
+
+const callSelection = new AsyncLocalStorage<StoreSelection>();
+
+/**
+ * Run a function with store selections that apply to this call only
+ */
+export function runWithStoreSelection<T>(selection: StoreSelection, fn: () => T): T {
+  return callSelection.run(selection, fn);
+}
+
+/**
+ * Drop unset values so they do not override other selections
+ */
+function compact(selection: StoreSelection): StoreSelection {
+  return Object.fromEntries(
+    Object.entries(selection).filter(([, value]) => value !== undefined)
+  ) as StoreSelection;
+}
+
+/**
+ * Per-MCP-session store selections
+ */
+export class StoreContextManager {
+  private selections: Map<string, StoreSelection> = new Map();
+
+  /**
+   * Get the configured store codes
+   */
+  listStores(): string[] {
+    return Object.keys(config.stores.definitions);
+  }
+
+  /**
+   * Select store, locale, currency or price mode for the session. Switching
+   * to another store drops the locale, currency and price mode selected
+   * for the previous one.
+   */
+  select(selection: StoreSelection, sessionId: string = getSessionId()): ResolvedStoreContext {
+    const updates = compact(selection);
+    if (updates.store) {
+      this.assertStore(updates.store);
+    }
+
+    const current = this.selections.get(sessionId) || {};
+    const next = updates.store && updates.store !== current.store
+      ? updates
+      : { ...current, ...updates };
+
+    this.selections.set(sessionId, next);
+    logger.debug('Updated session store selection', { sessionId, ...next });
+
+    return this.resolve({}, sessionId);
+  }
+
+  /**
+   * Get the selection made for the session
+   */
+  getSelection(sessionId: string = getSessionId()): StoreSelection {
+    return { ...this.selections.get(sessionId) };
+  }
+
+  /**
+   * Resolve the context of a request from the call's selection, the
+   * session's selection and the configured defaults
+   */
+  resolve(
+    overrides: StoreSelection = callSelection.getStore() || {},
+    sessionId: string = getSessionId()
+  ): ResolvedStoreContext {
+    const call = compact(overrides);
+    const session = this.selections.get(sessionId) || {};
+
+    // Session locale, currency and price mode only apply to the session's store
+    const sessionApplies = !call.store || call.store === session.store;
+    const selected = sessionApplies ? { ...session, ...call } : call;
+
+    const store = selected.store || config.stores.defaultStore;
+    const definition = store ? this.assertStore(store) : undefined;
+
+    const context: ResolvedStoreContext = {
+      baseUrl: definition?.baseUrl || config.api.baseUrl,
+      locale: selected.locale || definition?.locale || config.api.locale,
+    };
+
+    const currency = selected.currency || definition?.currency || config.api.currency;
+    const priceMode = selected.priceMode || definition?.priceMode || config.api.priceMode;
+
+    if (store) {
+      context.store = store;
+    }
+    if (currency) {
+      context.currency = currency;
+    }
+    if (priceMode) {
+      context.priceMode = priceMode;
+    }
+
+    return context;
+  }
+
+  /**
+   * Forget the selection of an MCP session
+   */
+  clearSession(sessionId: string): void {
+    this.selections.delete(sessionId);
+  }
+
+  private assertStore(store: string) {
+    const definition = config.stores.definitions[store];
+    if (!definition) {
+      const available = this.listStores();
+      throw new StoreContextError(
+        `Unknown store: ${store}. ${available.length > 0 ? `Available stores: ${available.join(', ')}` : 'No stores are configured.'}`,
+        'UNKNOWN_STORE'
+      );
+    }
+    return definition;
+  }
+}
+
+/**
+ * Global store context instance
+ */
+export const storeContext = new StoreContextManager();
@@ -0,0 +1,131 @@
+/**
+ * Span exporters
+ *
+ * OTLP/HTTP with the JSON encoding for collectors, and a JSON Lines file
+ * for inspecting traces locally without one.
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { AttributeValue, FinishedSpan, SpanExporter, SpanKind } from './types.js';
+
+/**
+ * Service the spans are reported for
+ */
+export interface TraceResource {
+  serviceName: string;
+  serviceVersion: string;
+}
+
+const OTLP_SPAN_KINDS: Record<SpanKind, number> = {
+  internal: 1,
+  server: 2,
+  client: 3,
+};
+
+const OTLP_STATUS_CODES = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+} as const;
+
+/**
+ * How long an export may take before it is abandoned
+ */
+const EXPORT_TIMEOUT = 10000;
+
+function unixNano(milliseconds: number): string {
+  return (BigInt(Math.round(milliseconds * 1000)) * 1000n).toString();
+}
+
+function otlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'boolean'
+      ? { boolValue: value }
+      : typeof value === 'number'
+        ? Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value }
+        : { stringValue: value },
+  }));
+}
+
+/**
+ * Exports spans to an OpenTelemetry collector over OTLP/HTTP
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  constructor(
+    private readonly endpoint: string,
+    private readonly headers: Record<string, string>,
+    private readonly resource: TraceResource
+  ) {}
+
+  async export(spans: FinishedSpan[]): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(this.toOtlp(spans)),
+      signal: AbortSignal.timeout(EXPORT_TIMEOUT),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OTLP export failed with HTTP ${response.status}`);
+    }
+  }
+
+  /**
+   * Build an ExportTraceServiceRequest in the OTLP JSON encoding
+   */
+  toOtlp(spans: FinishedSpan[]) {
+    return {
+      resourceSpans: [{
+        resource: {
+          attributes: otlpAttributes({
+            'service.name': this.resource.serviceName,
+            'service.version': this.resource.serviceVersion,
+          }),
+        },
+        scopeSpans: [{
+          scope: { name: this.resource.serviceName, version: this.resource.serviceVersion },
+          spans: spans.map(span => ({
+            traceId: span.traceId,
+            spanId: span.spanId,
+            ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+            name: span.name,
+            kind: OTLP_SPAN_KINDS[span.kind],
+            startTimeUnixNano: unixNano(span.startTime),
+            endTimeUnixNano: unixNano(span.endTime),
+            attributes: otlpAttributes(span.attributes),
+            events: span.events.map(event => ({
+              name: event.name,
+              timeUnixNano: unixNano(event.time),
+              attributes: otlpAttributes(event.attributes),
+            })),
+            status: {
+              code: OTLP_STATUS_CODES[span.status.code],
+              ...(span.status.message ? { message: span.status.message } : {}),
+            },
+          })),
+        }],
+      }],
+    };
+  }
+}
+
+/**
+ * Appends spans to a file, one JSON object per line
+ */
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly path: string) {}
+
+  async export(spans: FinishedSpan[]): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const lines = spans.map(span => JSON.stringify({
+      ...span,
+      startTime: new Date(span.startTime).toISOString(),
+      endTime: new Date(span.endTime).toISOString(),
+      durationMs: Math.round((span.endTime - span.startTime) * 1000) / 1000,
+      events: span.events.map(event => ({ ...event, time: new Date(event.time).toISOString() })),
+    }));
+    await appendFile(this.path, `${lines.join('\n')}\n`);
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Tracing
+ *
+ * Spans for MCP requests, tool calls and Glue requests, following the
+ * OpenTelemetry conventions. Trace context arrives as a W3C traceparent in
+ * the request `_meta` or the HTTP headers and is propagated to Glue. Spans
+ * are exported over OTLP/HTTP or appended to a local JSON Lines file.
+ */
+
+import { config } from '../../config/index.js';
+import { FileSpanExporter, OtlpHttpSpanExporter } from './exporters.js';
+import { BatchSpanProcessor, Span, Tracer, formatTraceparent, parseTraceparent } from './tracer.js';
+import type { SpanExporter } from './types.js';
+
+/**
+ * Request context the MCP SDK hands to request handlers
+ */
+interface HandlerExtra {
+  sessionId?: string;
+  requestId?: string | number;
+  requestInfo?: { headers?: Record<string, string | string[] | undefined> };
+}
+
+/**
+ * Create the tracer, which records nothing when no exporter is configured
+ */
+export function createTracer(): Tracer {
+  const { exporter, otlpEndpoint, otlpHeaders, file, serviceName } = config.tracing;
+  const resource = { serviceName, serviceVersion: config.server.version };
+
+  let spanExporter: SpanExporter;
+  switch (exporter) {
+    case 'otlp':
+      spanExporter = new OtlpHttpSpanExporter(otlpEndpoint, otlpHeaders, resource);
+      break;
+    case 'file':
+      spanExporter = new FileSpanExporter(file);
+      break;
+    default:
+      return new Tracer(null);
+  }
+
+  return new Tracer(new BatchSpanProcessor(spanExporter));
+}
+
+/**
+ * Global tracer instance
+ */
+export const tracer = createTracer();
+
+/**
+ * Wrap an MCP request handler in a server span named after the JSON-RPC
+ * method, continuing the trace of the client when it sent a traceparent
+ */
+export function traceRequestHandler<R extends { method: string }, E, T>(
+  handler: (request: R, extra: E) => Promise<T>
+): (request: R, extra: E) => Promise<T> {
+  return (request, extra) => {
+    const { sessionId, requestId, requestInfo } = (extra ?? {}) as HandlerExtra;
+    const params = (request as { params?: { name?: unknown; _meta?: { traceparent?: unknown } } }).params;
+    const header = requestInfo?.headers?.['traceparent'];
+    const target = typeof params?.name === 'string' ? ` ${params.name}` : '';
+
+    return tracer.startActiveSpan(`${request.method}${target}`, {
+      kind: 'server',
+      parent: parseTraceparent(params?._meta?.traceparent) ?? parseTraceparent(Array.isArray(header) ? header[0] : header),
+      attributes: {
+        'mcp.method.name': request.method,
+        'mcp.session.id': sessionId,
+        'jsonrpc.request.id': requestId !== undefined ? String(requestId) : undefined,
+      },
+    }, () => handler(request, extra));
+  };
+}
+
+export { BatchSpanProcessor, FileSpanExporter, OtlpHttpSpanExporter, Span, Tracer, formatTraceparent, parseTraceparent };
+export type { FinishedSpan, SpanContext, SpanExporter, SpanKind } from './types.js';
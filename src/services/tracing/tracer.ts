@@ -0,0 +1,294 @@
+/**
+ * Tracer
+ *
+ * Creates spans, keeps the active span across async boundaries and batches
+ * finished spans for an exporter. Trace context is read from and written to
+ * W3C traceparent headers.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomBytes } from 'node:crypto';
+import { logger } from '../../utils/logger.js';
+import type {
+  AttributeValue,
+  FinishedSpan,
+  SpanAttributes,
+  SpanContext,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanStatus,
+} from './types.js';
+
+/**
+ * Context of non-recording spans, which is never propagated
+ */
+const INVALID_SPAN_CONTEXT: SpanContext = {
+  traceId: '0'.repeat(32),
+  spanId: '0'.repeat(16),
+};
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/**
+ * Options of a new span
+ */
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /**
+   * Remote parent, e.g. from an incoming traceparent; defaults to the
+   * active span
+   */
+  parent?: SpanContext | undefined;
+}
+
+/**
+ * Options of the batch span processor
+ */
+export interface BatchOptions {
+  maxBatchSize: number;
+  maxQueueSize: number;
+  /**
+   * Milliseconds finished spans wait for more before being exported
+   */
+  scheduleDelay: number;
+}
+
+const DEFAULT_BATCH_OPTIONS: BatchOptions = {
+  maxBatchSize: 64,
+  maxQueueSize: 2048,
+  scheduleDelay: 5000,
+};
+
+/**
+ * Read a W3C traceparent header, ignoring malformed and all-zero ids
+ */
+export function parseTraceparent(value: unknown): SpanContext | undefined {
+  const match = typeof value === 'string' ? TRACEPARENT_PATTERN.exec(value.trim().toLowerCase()) : null;
+  if (!match || /^0+$/.test(match[1]!) || /^0+$/.test(match[2]!)) {
+    return undefined;
+  }
+  return { traceId: match[1]!, spanId: match[2]! };
+}
+
+/**
+ * Write a W3C traceparent header for a sampled span
+ */
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+function currentTime(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function definedAttributes(attributes: SpanAttributes): Record<string, AttributeValue> {
+  return Object.fromEntries(
+    Object.entries(attributes).filter((entry): entry is [string, AttributeValue] => entry[1] !== undefined)
+  );
+}
+
+export class Span {
+  readonly context: SpanContext;
+  private readonly startTime = currentTime();
+  private attributes: Record<string, AttributeValue> = {};
+  private events: SpanEvent[] = [];
+  private status: SpanStatus = { code: 'unset' };
+  private ended = false;
+
+  /**
+   * Spans without an end callback are not recording: they cost next to
+   * nothing and are never exported
+   */
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    private readonly parent: SpanContext | undefined,
+    private readonly onEnd: ((span: FinishedSpan) => void) | null
+  ) {
+    this.context = onEnd ? {
+      traceId: parent?.traceId ?? randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+    } : INVALID_SPAN_CONTEXT;
+  }
+
+  get recording(): boolean {
+    return this.onEnd !== null && !this.ended;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    if (this.recording) {
+      Object.assign(this.attributes, definedAttributes(attributes));
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    if (this.recording) {
+      this.events.push({ name, time: currentTime(), attributes: definedAttributes(attributes) });
+    }
+    return this;
+  }
+
+  setStatus(status: SpanStatus): this {
+    if (this.recording) {
+      this.status = status;
+    }
+    return this;
+  }
+
+  /**
+   * Record an error as an exception event and mark the span as failed
+   */
+  recordException(error: unknown): this {
+    const exception = error instanceof Error ? error : new Error(String(error));
+    this.addEvent('exception', {
+      'exception.type': exception.name,
+      'exception.message': exception.message,
+    });
+    return this.setStatus({ code: 'error', message: exception.message });
+  }
+
+  end(): void {
+    if (!this.recording) {
+      return;
+    }
+
+    this.ended = true;
+    this.onEnd!({
+      ...this.context,
+      ...(this.parent ? { parentSpanId: this.parent.spanId } : {}),
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime: currentTime(),
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+    });
+  }
+}
+
+/**
+ * Queues finished spans and exports them in batches, once enough spans
+ * are queued or shortly after the first one
+ */
+export class BatchSpanProcessor {
+  private queue: FinishedSpan[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private exporting: Promise<void> = Promise.resolve();
+  private readonly options: BatchOptions;
+
+  constructor(private readonly exporter: SpanExporter, options: Partial<BatchOptions> = {}) {
+    this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  }
+
+  onEnd(span: FinishedSpan): void {
+    if (this.queue.length >= this.options.maxQueueSize) {
+      logger.debug('Span queue full, dropping span', { name: span.name });
+      return;
+    }
+
+    this.queue.push(span);
+
+    if (this.queue.length >= this.options.maxBatchSize) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), this.options.scheduleDelay);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Export all queued spans. Exports run one after another, so spans are
+   * written in the order they ended.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.queue.splice(0);
+    if (batch.length > 0) {
+      this.exporting = this.exporting
+        .then(() => this.exporter.export(batch))
+        .catch(error => {
+          logger.warn('Failed to export spans', {
+            count: batch.length,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+    }
+
+    return this.exporting;
+  }
+}
+
+/**
+ * Span handed to traced functions while tracing is disabled
+ */
+const NON_RECORDING_SPAN = new Span('non-recording', 'internal', undefined, null);
+
+export class Tracer {
+  private readonly storage = new AsyncLocalStorage<Span>();
+
+  /**
+   * A tracer without a processor records nothing
+   */
+  constructor(private readonly processor: BatchSpanProcessor | null) {}
+
+  get enabled(): boolean {
+    return this.processor !== null;
+  }
+
+  /**
+   * Get the span of the code currently running
+   */
+  activeSpan(): Span | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Run a function within a new span, which becomes the parent of spans
+   * started by the function. The span ends when the function settles and
+   * records the error when it fails.
+   */
+  async startActiveSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    const processor = this.processor;
+    if (!processor) {
+      return fn(NON_RECORDING_SPAN);
+    }
+
+    const parent = options.parent ?? this.activeSpan()?.context;
+    const span = new Span(name, options.kind ?? 'internal', parent, finished => processor.onEnd(finished));
+    span.setAttributes(options.attributes ?? {});
+
+    return this.storage.run(span, async () => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        span.recordException(error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  /**
+   * Add the traceparent of the active span to outgoing request headers
+   */
+  inject(headers: Record<string, string>): Record<string, string> {
+    const span = this.activeSpan();
+    return span?.recording ? { ...headers, traceparent: formatTraceparent(span.context) } : headers;
+  }
+
+  /**
+   * Export all spans that ended so far
+   */
+  async flush(): Promise<void> {
+    await this.processor?.flush();
+  }
+}
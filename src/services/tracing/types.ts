@@ -0,0 +1,70 @@
+/**
+ * Tracing types, following the OpenTelemetry span model
+ */
+
+/**
+ * Role of a span: handling a request, calling another service, or neither
+ */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+/**
+ * Value of a span or event attribute
+ */
+export type AttributeValue = string | number | boolean;
+
+/**
+ * Attributes of a span; undefined values are left out
+ */
+export type SpanAttributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * Identifies a span within a trace, as carried by the W3C traceparent header
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+/**
+ * Something that happened at a point in time during a span
+ */
+export interface SpanEvent {
+  name: string;
+  /**
+   * Milliseconds since the epoch
+   */
+  time: number;
+  attributes: Record<string, AttributeValue>;
+}
+
+/**
+ * Outcome of a span
+ */
+export interface SpanStatus {
+  code: 'unset' | 'ok' | 'error';
+  message?: string;
+}
+
+/**
+ * A span that has ended, as handed to exporters
+ */
+export interface FinishedSpan extends SpanContext {
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  /**
+   * Milliseconds since the epoch, with sub-millisecond precision
+   */
+  startTime: number;
+  endTime: number;
+  attributes: Record<string, AttributeValue>;
+  events: SpanEvent[];
+  status: SpanStatus;
+}
+
+/**
+ * Destination of finished spans
+ */
+export interface SpanExporter {
+  export(spans: FinishedSpan[]): Promise<void>;
+}
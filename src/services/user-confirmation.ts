@@ -0,0 +1,200 @@
+/**
+ * User Confirmation
+ *
+ * Asks the human user to confirm destructive actions through MCP elicitation
+ * (`elicitation/create`), showing a summary of what will happen. Clients
+ * that cannot elicit input fall back to the configured policy: deny the
+ * action, allow it, or require a confirmation token that a first call
+ * returns and a second call passes back once the user confirmed in the
+ * conversation.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { ElicitRequestFormParams, ElicitResult, RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { config, type ConfirmationFallback } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { getSessionId } from './session-context.js';
+
+/**
+ * Sends an elicitation request to the client of the current MCP request
+ */
+export type Elicit = (params: ElicitRequestFormParams) => Promise<ElicitResult>;
+
+/**
+ * An action waiting for the user's confirmation
+ */
+export interface PendingAction {
+  /**
+   * Tool performing the action
+   */
+  tool: string;
+  /**
+   * What will happen, as shown to the user
+   */
+  summary: string;
+  /**
+   * Arguments a confirmation token is bound to
+   */
+  request: Record<string, unknown>;
+}
+
+/**
+ * Whether an action was confirmed, or the token to confirm it with
+ */
+export type ConfirmationOutcome =
+  | { confirmed: true }
+  | { confirmed: false; token: string; expiresAt: number };
+
+interface IssuedToken {
+  sessionId: string;
+  tool: string;
+  request: string;
+  expiresAt: number;
+}
+
+/**
+ * Confirmation error class for actions the user declined or the server
+ * cannot ask the user about
+ */
+export class ConfirmationError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = 'ConfirmationError';
+  }
+}
+
+/**
+ * Humans take longer to answer than the SDK's default request timeout
+ */
+const ELICITATION_TIMEOUT = 5 * 60 * 1000;
+
+const CONFIRM_SCHEMA: ElicitRequestFormParams['requestedSchema'] = {
+  type: 'object',
+  properties: {
+    confirm: {
+      type: 'boolean',
+      title: 'Confirm',
+      description: 'Go ahead with this action',
+      default: false,
+    },
+  },
+  required: ['confirm'],
+};
+
+const elicitation = new AsyncLocalStorage<Elicit | undefined>();
+
+/**
+ * Run a function that may ask the user of the current MCP request for input
+ */
+export function runWithElicitation<T>(elicit: Elicit | undefined, fn: () => T): T {
+  return elicitation.run(elicit, fn);
+}
+
+/**
+ * Elicit input from the client of a request, if it supports form elicitation
+ */
+export function elicitationFor(server: Server, requestId?: RequestId): Elicit | undefined {
+  if (!server.getClientCapabilities()?.elicitation?.form) {
+    return undefined;
+  }
+
+  return params => server.elicitInput(params, {
+    timeout: ELICITATION_TIMEOUT,
+    ...(requestId !== undefined ? { relatedRequestId: requestId } : {}),
+  });
+}
+
+export class UserConfirmation {
+  private tokens: Map<string, IssuedToken> = new Map();
+
+  constructor(
+    private readonly fallback: ConfirmationFallback,
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Ask the user to confirm an action. Resolves to `token` when the client
+   * cannot ask the user and the fallback requires a confirmation token.
+   */
+  async ask(summary: string): Promise<'confirmed' | 'token'> {
+    const elicit = elicitation.getStore();
+
+    if (elicit) {
+      const result = await elicit({ message: summary, requestedSchema: CONFIRM_SCHEMA });
+      if (result.action === 'accept' && result.content?.['confirm'] === true) {
+        return 'confirmed';
+      }
+      throw new ConfirmationError(
+        result.action === 'cancel' ? 'The user dismissed the confirmation.' : 'The user did not confirm the action.',
+        'CONFIRMATION_DECLINED'
+      );
+    }
+
+    switch (this.fallback) {
+      case 'allow':
+        logger.warn('Client cannot confirm actions with the user, allowing action', { summary });
+        return 'confirmed';
+      case 'deny':
+        throw new ConfirmationError(
+          'The client cannot ask the user to confirm this action, and the server does not allow it without confirmation.',
+          'CONFIRMATION_UNAVAILABLE'
+        );
+      case 'token':
+        return 'token';
+    }
+  }
+
+  /**
+   * Confirm an action by asking the user, or with a token issued by an
+   * earlier call of the same tool with the same arguments. Without a token,
+   * issues one for the caller to return once the user confirmed.
+   */
+  async confirm(
+    action: PendingAction,
+    token: string | undefined,
+    sessionId: string = getSessionId()
+  ): Promise<ConfirmationOutcome> {
+    if (await this.ask(action.summary) === 'confirmed') {
+      return { confirmed: true };
+    }
+
+    this.prune();
+    const request = JSON.stringify(action.request);
+
+    if (!token) {
+      const issued = `confirm-${randomUUID()}`;
+      const expiresAt = this.now() + this.ttlMs;
+      this.tokens.set(issued, { sessionId, tool: action.tool, request, expiresAt });
+      return { confirmed: false, token: issued, expiresAt };
+    }
+
+    const issued = this.tokens.get(token);
+    if (!issued || issued.sessionId !== sessionId || issued.tool !== action.tool || issued.request !== request) {
+      throw new ConfirmationError('Unknown or expired confirmation token, or issued for another action.', 'CONFIRMATION_INVALID');
+    }
+
+    this.tokens.delete(token);
+    return { confirmed: true };
+  }
+
+  clear(): void {
+    this.tokens.clear();
+  }
+
+  private prune(): void {
+    const now = this.now();
+    for (const [token, issued] of this.tokens) {
+      if (issued.expiresAt <= now) {
+        this.tokens.delete(token);
+      }
+    }
+  }
+}
+
+/**
+ * Global user confirmation instance
+ */
+export const userConfirmation = new UserConfirmation(config.confirmation.fallback, config.confirmation.tokenTtl);
@@ -5,27 +5,38 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { sessionVault, type SessionCredentials } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, JsonApiDocumentSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const AddCartVoucherSchema = z.object({
-  token: z.string().describe('Customer access token or guest customer unique ID'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   cartId: z.string().describe('ID of the cart to apply the voucher to'),
   code: z.string().describe('Voucher / discount code to apply'),
 });
 
-function isGuest(token: string): boolean {
-  return token.startsWith('guest-');
+const AddCartVoucherOutputSchema = ToolResultSchema.extend({
+  cartId: z.string(),
+  code: z.string(),
+  cart: JsonApiDocumentSchema.optional().describe('Cart with the voucher applied'),
+});
+
+function isGuest(credentials: SessionCredentials): boolean {
+  return credentials.userType === 'guest';
 }
 
 async function addCartVoucher(args: z.infer<typeof AddCartVoucherSchema>) {
   const apiService = SprykerApiService.getInstance();
 
   try {
+    const credentials = sessionVault.resolve(args.session);
+
     logger.info('Applying voucher to cart', { cartId: args.cartId });
 
-    const guest = isGuest(args.token);
+    const guest = isGuest(credentials);
     const endpoint = guest
       ? `guest-carts/${args.cartId}/vouchers`
       : `carts/${args.cartId}/vouchers`;
@@ -39,7 +50,7 @@ async function addCartVoucher(args: z.infer<typeof AddCartVoucherSchema>) {
           attributes: { code: args.code },
         },
       },
-      args.token
+      credentials.accessToken
     );
 
     return {
@@ -57,27 +68,23 @@ async function addCartVoucher(args: z.infer<typeof AddCartVoucherSchema>) {
   } catch (error) {
     logger.error('Apply voucher failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to apply voucher',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          cartId: args.cartId,
-          code: args.code,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to apply voucher', error, { cartId: args.cartId, code: args.code });
   }
 }
 
 export const addCartVoucherTool: SprykerTool = {
   name: 'add-cart-voucher',
   description: 'Apply a discount/voucher code to a registered or guest cart.',
+  annotations: {
+    title: 'Add Cart Voucher',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scope: 'cart:write',
   inputSchema: z.toJSONSchema(AddCartVoucherSchema) as any,
+  outputSchema: z.toJSONSchema(AddCartVoucherOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = AddCartVoucherSchema.parse(args);
     return await addCartVoucher(validatedArgs);
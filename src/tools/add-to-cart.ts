@@ -5,8 +5,13 @@
  */
 
 import { z } from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
+import { storeContext } from '../services/store-context.js';
 import { logger } from '../utils/logger.js';
+import { StoreSelectionSchema, withStoreSelection } from './store-selection.js';
+import { ToolResultSchema, JsonApiDocumentSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 /**
@@ -16,7 +21,16 @@ const AddToCartSchema = z.object({
   sku: z.string().describe('Product Concrete SKU to add to cart'),
   quantity: z.number().min(1).default(1).describe('Quantity to add'),
   cartId: z.string().optional().describe('Cart ID to add the item to (optional, will create a new cart if not provided)'),
-  token: z.string().describe('Customer authentication token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
+}).extend(StoreSelectionSchema.shape);
+
+const AddToCartOutputSchema = ToolResultSchema.extend({
+  cartId: z.string().optional().describe('ID of the cart the item was added to'),
+  cart: JsonApiDocumentSchema.optional(),
+  addedItem: z.looseObject({
+    sku: z.string(),
+    quantity: z.number(),
+  }),
 });
 
 type AddToCartInput = z.infer<typeof AddToCartSchema>;
@@ -28,13 +42,28 @@ async function addToCart(args: AddToCartInput) {
   const apiService = SprykerApiService.getInstance();
   
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
+
     logger.info('Adding product to cart', { sku: args.sku, quantity: args.quantity });
+
+    // New carts are created for the selected store, currency and price mode
+    const { store, currency, priceMode } = storeContext.resolve();
+    const newCart = {
+      data: {
+        type: 'carts',
+        attributes: {
+          ...(store ? { store } : {}),
+          ...(currency ? { currency } : {}),
+          ...(priceMode ? { priceMode } : {}),
+        }
+      }
+    };
     
     // First, create a cart if one doesn't exist or get existing cart (matching JavaScript version)
     let cartResponse;
     try {
       // Try to get existing cart
-      const cartsResponse = await apiService.get('carts', args.token);
+      const cartsResponse = await apiService.get('carts', accessToken);
 
       // Handle case where response.data might have nested data property (Spryker API format)
       let cartData = cartsResponse.data;
@@ -46,22 +75,12 @@ async function addToCart(args: AddToCartInput) {
         cartResponse = cartData[0]; // Use first available cart
       } else {
         // Create new cart if none exists
-        const newCartResponse = await apiService.post('carts', {
-          data: {
-            type: 'carts',
-            attributes: {}
-          }
-        }, args.token);
+        const newCartResponse = await apiService.post('carts', newCart, accessToken);
         cartResponse = newCartResponse.data;
       }
     } catch {
       // If cart retrieval fails, try to create a new one
-      const newCartResponse = await apiService.post('carts', {
-        data: {
-          type: 'carts',
-          attributes: {}
-        }
-      }, args.token);
+      const newCartResponse = await apiService.post('carts', newCart, accessToken);
       cartResponse = newCartResponse.data;
     }
 
@@ -79,7 +98,7 @@ async function addToCart(args: AddToCartInput) {
           }
         }
       },
-      args.token
+      accessToken
     );
 
     return {
@@ -100,17 +119,7 @@ async function addToCart(args: AddToCartInput) {
   } catch (error: unknown) {
     logger.error('Failed to add product to cart', { error, sku: args.sku });
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : 'adding item to cart',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2)
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to add item to cart', error);
   }
 }
 /**
@@ -119,9 +128,18 @@ async function addToCart(args: AddToCartInput) {
 export const addToCartTool: SprykerTool = {
   name: 'add-to-cart',
   description: 'Add a concrete product to the logged in customer\'s shopping cart',
+  annotations: {
+    title: 'Add to Cart',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'cart:write',
   inputSchema: z.toJSONSchema(AddToCartSchema) as any,
+  outputSchema: z.toJSONSchema(AddToCartOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = AddToCartSchema.parse(args);
-    return await addToCart(validatedArgs);
+    return await withStoreSelection(validatedArgs, () => addToCart(validatedArgs));
   },
 };
@@ -5,20 +5,31 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, JsonApiDocumentSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const AddToWishlistSchema = z.object({
-  token: z.string().describe('Customer access token (wishlists require a registered customer)'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   wishlistUuid: z.string().describe('UUID of the wishlist to add the item to'),
   sku: z.string().describe('Concrete product SKU to add to the wishlist'),
 });
 
+const AddToWishlistOutputSchema = ToolResultSchema.extend({
+  wishlistUuid: z.string(),
+  sku: z.string(),
+  wishlistItem: JsonApiDocumentSchema.optional(),
+});
+
 async function addToWishlist(args: z.infer<typeof AddToWishlistSchema>) {
   const apiService = SprykerApiService.getInstance();
 
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
+
     logger.info('Adding item to wishlist', { wishlistUuid: args.wishlistUuid, sku: args.sku });
 
     const response = await apiService.post(
@@ -29,7 +40,7 @@ async function addToWishlist(args: z.infer<typeof AddToWishlistSchema>) {
           attributes: { sku: args.sku },
         },
       },
-      args.token
+      accessToken
     );
 
     return {
@@ -47,27 +58,23 @@ async function addToWishlist(args: z.infer<typeof AddToWishlistSchema>) {
   } catch (error) {
     logger.error('Add to wishlist failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to add item to wishlist',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          wishlistUuid: args.wishlistUuid,
-          sku: args.sku,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to add item to wishlist', error, { wishlistUuid: args.wishlistUuid, sku: args.sku });
   }
 }
 
 export const addToWishlistTool: SprykerTool = {
   name: 'add-to-wishlist',
   description: 'Add a concrete product to a registered customer\'s wishlist.',
+  annotations: {
+    title: 'Add to Wishlist',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'customer:write',
   inputSchema: z.toJSONSchema(AddToWishlistSchema) as any,
+  outputSchema: z.toJSONSchema(AddToWishlistOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = AddToWishlistSchema.parse(args);
     return await addToWishlist(validatedArgs);
@@ -3,8 +3,11 @@
  */
 
 import { z } from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const AuthenticateSchema = z.object({
@@ -12,6 +15,13 @@ const AuthenticateSchema = z.object({
   password: z.string().optional().describe('Customer password'),
 });
 
+const AuthenticateOutputSchema = ToolResultSchema.extend({
+  session: z.string().describe('Opaque session handle for the other tools'),
+  tokenType: z.string(),
+  user_type: z.string(),
+  expiresIn: z.number().optional().describe('Seconds until the access token expires'),
+});
+
 async function authenticate(args: z.infer<typeof AuthenticateSchema>) {
   const apiService = SprykerApiService.getInstance();
   
@@ -19,8 +29,13 @@ async function authenticate(args: z.infer<typeof AuthenticateSchema>) {
     // For guest checkout, simply generate a guest customer unique ID
     if (!args.username || !args.password) {
       const guestId = `guest-${  Math.random().toString(36).substr(2, 9)  }-${  Date.now()}`;
+      const session = sessionVault.store({
+        accessToken: guestId,
+        tokenType: 'Guest',
+        userType: 'guest',
+      });
       
-      logger.info('Creating guest session', { guestId });
+      logger.info('Creating guest session', { session });
       
       return {
         content: [{
@@ -28,9 +43,9 @@ async function authenticate(args: z.infer<typeof AuthenticateSchema>) {
           text: JSON.stringify({
             success: true,
             tokenType: 'Guest',
-            accessToken: guestId,
+            session,
             user_type: 'guest',
-            message: 'Guest session created. Use this ID for cart and checkout operations.'
+            message: 'Guest session created. It is used automatically for cart and checkout operations.'
           }, null, 2),
         }],
       };
@@ -67,16 +82,22 @@ async function authenticate(args: z.infer<typeof AuthenticateSchema>) {
     }
 
     const tokenData = response.data.data.attributes;
+    const session = sessionVault.store({
+      accessToken: tokenData.accessToken,
+      tokenType: tokenData.tokenType,
+      userType: 'customer',
+      refreshToken: tokenData.refreshToken,
+      expiresIn: tokenData.expiresIn,
+    });
     
     return {
       content: [{
         type: 'text' as const,
         text: JSON.stringify({
           success: true,
-          message: 'Authentication successful',
+          message: 'Authentication successful. The session is used automatically for cart, checkout, order and wishlist operations.',
           tokenType: tokenData.tokenType,
-          accessToken: tokenData.accessToken,
-          refreshToken: tokenData.refreshToken,
+          session,
           expiresIn: tokenData.expiresIn,
           user_type: 'LoggedIn customer',
         }, null, 2),
@@ -86,25 +107,24 @@ async function authenticate(args: z.infer<typeof AuthenticateSchema>) {
   } catch (error) {
     logger.error('Authentication failed', error as Error);
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Authentication failed',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Authentication failed', error);
   }
 }
 
 export const authenticateTool: SprykerTool = {
   name: 'authenticate',
-  description: 'Authenticate a customer and get access token. Generate a guest token if no credentials are provided.',
+  description: 'Authenticate a customer and start a server-side session. Starts a guest session if no credentials are provided.',
+  annotations: {
+    title: 'Authentication',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(AuthenticateSchema) as any,
+  outputSchema: z.toJSONSchema(AuthenticateOutputSchema) as any,
+  sensitiveFields: ['username', 'password'],
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = AuthenticateSchema.parse(args);
     return await authenticate(validatedArgs);
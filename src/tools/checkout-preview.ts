@@ -0,0 +1,174 @@
+/**
+ * Checkout Preview Tool
+ */
+
+import { z } from 'zod';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
+import { loadCartSnapshot } from '../services/cart-snapshot.js';
+import { CheckoutError, checkoutConfirmations } from '../services/checkout-confirmations.js';
+import { JsonApiResolver, type JsonApiDocument, type JsonApiResource } from '../services/json-api/index.js';
+import { logger } from '../utils/logger.js';
+import { withStoreSelection } from './store-selection.js';
+import { CheckoutDetailsSchema, buildCheckoutAttributes } from './checkout-request.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
+import type { SprykerTool } from './types.js';
+
+type ShipmentMethodResource = JsonApiResource<'shipment-methods', {
+  name?: string;
+  carrierName?: string;
+  deliveryTime?: number | null;
+  price?: number;
+  currencyIsoCode?: string;
+}>;
+
+type PaymentMethodResource = JsonApiResource<'payment-methods', {
+  paymentMethodName?: string;
+  paymentProviderName?: string;
+}>;
+
+const CheckoutPreviewOutputSchema = ToolResultSchema.extend({
+  cartId: z.string(),
+  currency: z.string().optional(),
+  priceMode: z.string().optional(),
+  items: z.array(z.looseObject({
+    sku: z.string(),
+    quantity: z.number(),
+    unitPrice: z.number().optional(),
+    sumPrice: z.number().optional(),
+  })),
+  vouchers: z.array(z.string()),
+  totals: z.unknown().describe('Totals of the cart in cents: subtotal, discountTotal, expenseTotal, taxTotal, grandTotal and priceToPay'),
+  taxTotal: z.number().optional(),
+  shipping: z.looseObject({
+    id: z.number(),
+    name: z.string().optional(),
+    carrierName: z.string().optional(),
+    price: z.number().optional(),
+  }),
+  payment: z.looseObject({
+    provider: z.string(),
+    method: z.string(),
+  }),
+  billingAddress: z.unknown(),
+  shippingAddress: z.unknown(),
+  confirmationToken: z.string().describe('Token to pass to checkout once the user confirmed this summary'),
+  expiresAt: z.string().describe('When the confirmation token expires'),
+  nextStep: z.string(),
+});
+
+async function checkoutPreview(args: z.infer<typeof CheckoutDetailsSchema>) {
+  const apiService = SprykerApiService.getInstance();
+
+  try {
+    const credentials = sessionVault.resolve(args.session);
+
+    logger.info('Previewing checkout', { cartId: args.cartId });
+
+    const attributes = buildCheckoutAttributes(args);
+
+    // Glue validates the addresses, shipment and payment of the checkout
+    // data; the POST only reads data, so it is safe to retry
+    const response = await apiService.post<JsonApiDocument<JsonApiResource<'checkout-data'>>>(
+      'checkout-data?include=shipments,shipment-methods,payment-methods',
+      { data: { type: 'checkout-data', attributes } },
+      credentials.accessToken,
+      { idempotent: true }
+    );
+    const document = new JsonApiResolver(response.data);
+
+    const shipmentMethods = document.ofType<ShipmentMethodResource>('shipment-methods');
+    const shipmentMethod = shipmentMethods.find(method => method.id === String(args.shipmentMethod.id));
+    if (shipmentMethods.length > 0 && !shipmentMethod) {
+      throw new CheckoutError(
+        `Shipment method ${args.shipmentMethod.id} is not available for this cart. Available: ${shipmentMethods.map(method => `${method.id} (${method.attributes?.name ?? 'unnamed'})`).join(', ')}.`,
+        'CHECKOUT_DATA_INVALID'
+      );
+    }
+
+    const payment = attributes.payments[0]!;
+    const paymentMethods = document.ofType<PaymentMethodResource>('payment-methods');
+    const paymentAvailable = paymentMethods.some(method =>
+      method.attributes?.paymentMethodName?.toLowerCase() === payment.paymentMethodName.toLowerCase()
+      && method.attributes?.paymentProviderName === payment.paymentProviderName
+    );
+    if (paymentMethods.length > 0 && !paymentAvailable) {
+      throw new CheckoutError(
+        `Payment method ${payment.paymentMethodName} of ${payment.paymentProviderName} is not available for this cart. Available: ${paymentMethods.map(method => `${method.attributes?.paymentMethodName} (${method.attributes?.paymentProviderName})`).join(', ')}.`,
+        'CHECKOUT_DATA_INVALID'
+      );
+    }
+
+    const snapshot = await loadCartSnapshot(args.cartId, credentials);
+    if (snapshot.items.length === 0) {
+      throw new CheckoutError('The cart has no items.', 'CART_EMPTY');
+    }
+
+    const { token, expiresAt } = checkoutConfirmations.issue({
+      cartId: args.cartId,
+      request: JSON.stringify(attributes),
+      cartFingerprint: snapshot.fingerprint,
+    });
+    const totals = snapshot.cart?.attributes?.totals;
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          message: 'Checkout validated, no order was placed yet',
+          cartId: args.cartId,
+          currency: snapshot.cart?.attributes?.currency,
+          priceMode: snapshot.cart?.attributes?.priceMode,
+          items: snapshot.items.map(item => ({
+            sku: item.attributes.sku,
+            quantity: item.attributes.quantity,
+            unitPrice: item.attributes.calculations?.unitPriceToPayAggregation,
+            sumPrice: item.attributes.calculations?.sumPriceToPayAggregation,
+          })),
+          vouchers: snapshot.vouchers.map(voucher => voucher.attributes?.code ?? voucher.id),
+          totals,
+          taxTotal: totals?.taxTotal,
+          shipping: {
+            id: args.shipmentMethod.id,
+            name: shipmentMethod?.attributes?.name,
+            carrierName: shipmentMethod?.attributes?.carrierName,
+            price: shipmentMethod?.attributes?.price ?? totals?.expenseTotal,
+          },
+          payment: {
+            provider: payment.paymentProviderName,
+            method: payment.paymentMethodName,
+          },
+          billingAddress: attributes.billingAddress,
+          shippingAddress: attributes.shippingAddress,
+          confirmationToken: token,
+          expiresAt: new Date(expiresAt).toISOString(),
+          nextStep: 'Show this summary to the user. Once they confirm, call checkout with the same details and the confirmationToken',
+        }, null, 2),
+      }],
+    };
+  } catch (error) {
+    logger.error('Checkout preview failed', error as Error);
+
+    return errorResult('Checkout preview failed', error);
+  }
+}
+
+export const checkoutPreviewTool: SprykerTool = {
+  name: 'checkout-preview',
+  description: 'Validate the checkout of a cart without placing the order: returns items, totals, taxes, shipping cost and a short-lived confirmation token that checkout requires',
+  annotations: {
+    title: 'Checkout Preview',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'cart:read',
+  inputSchema: z.toJSONSchema(CheckoutDetailsSchema) as any,
+  outputSchema: z.toJSONSchema(CheckoutPreviewOutputSchema) as any,
+  sensitiveFields: ['customerData', 'billingAddress', 'shippingAddress'],
+  handler: async (args: Record<string, unknown>) => {
+    const validatedArgs = CheckoutDetailsSchema.parse(args);
+    return await withStoreSelection(validatedArgs, () => checkoutPreview(validatedArgs));
+  },
+};
@@ -0,0 +1,132 @@
+/**
+ * Checkout request
+ *
+ * Checkout details shared by checkout-preview and checkout: the customer,
+ * addresses, payment and shipment of a cart, and the attributes sent to
+ * Glue's checkout and checkout-data endpoints.
+ */
+
+import { z } from 'zod';
+import type { CartSnapshot } from '../services/cart-snapshot.js';
+import { StoreSelectionSchema } from './store-selection.js';
+
+export const CheckoutDetailsSchema = z.object({
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
+  cartId: z.string().describe('ID of the cart to checkout'),
+  customerData: z.object({
+    email: z.email().describe('Customer email address (important to have proper data to get order confirmation email)'),
+    firstName: z.string().describe('Customer first name'),
+    lastName: z.string().describe('Customer last name'),
+    salutation: z.string().optional().describe('Customer salutation (Mr, Mrs, Ms)'),
+  }).describe('Customer data for authenticated checkout (optional for guest checkout)'),
+  billingAddress: z.object({
+    salutation: z.string().optional().describe('Salutation (Mr, Mrs, Ms)'),
+    firstName: z.string().describe('First name'),
+    lastName: z.string().describe('Last name'),
+    address1: z.string().describe('Primary address line'),
+    address2: z.string().describe('Secondary address line'),
+    zipCode: z.string().describe('ZIP/Postal code'),
+    city: z.string().describe('City'),
+    country: z.string().optional().describe('Country ISO2 code (default: DE)'),
+    company: z.string().optional().describe('Company name'),
+    phone: z.string().optional().describe('Phone number')
+  }).describe('Billing address information'),
+  shippingAddress: z.object({
+    salutation: z.string().optional().describe('Salutation (Mr, Mrs, Ms)'),
+    firstName: z.string().describe('First name'),
+    lastName: z.string().describe('Last name'),
+    address1: z.string().describe('Primary address line'),
+    address2: z.string().describe('Secondary address line'),
+    zipCode: z.string().describe('ZIP/Postal code'),
+    city: z.string().describe('City'),
+    country: z.string().optional().describe('Country ISO2 code'),
+    company: z.string().optional().describe('Company name'),
+    phone: z.string().optional().describe('Phone number')
+  }).describe('Shipping address information'),
+  paymentMethod: z.object({
+    provider: z.string().optional().describe('Payment provider name (default: DummyPayment)'),
+    method: z.string().optional().describe('Payment method (default: invoice)')
+  }).describe('Payment method information'),
+  shipmentMethod: z.object({
+    id: z.number().describe('Shipment method ID')
+  }).describe('Shipment method information')
+}).extend(StoreSelectionSchema.pick({ store: true, locale: true }).shape);
+
+export type CheckoutDetails = z.infer<typeof CheckoutDetailsSchema>;
+
+/**
+ * Build the attributes of a checkout with provided or default payment and
+ * shipment methods
+ */
+export function buildCheckoutAttributes(args: CheckoutDetails) {
+  const billingAddress = {
+    salutation: args.shippingAddress.salutation,
+    firstName: args.shippingAddress.firstName,
+    lastName: args.shippingAddress.lastName,
+    address1: args.shippingAddress.address1,
+    address2: args.shippingAddress.address2,
+    zipCode: args.shippingAddress.zipCode,
+    city: args.shippingAddress.city,
+    iso2Code: args.shippingAddress.country || 'DE',
+    company: args.shippingAddress.company,
+    phone: args.shippingAddress.phone
+  };
+  const shippingAddress = {
+    salutation: args.billingAddress.salutation,
+    firstName: args.billingAddress.firstName,
+    lastName: args.billingAddress.lastName,
+    address1: args.billingAddress.address1,
+    address2: args.billingAddress.address2,
+    zipCode: args.billingAddress.zipCode,
+    city: args.billingAddress.city,
+    iso2Code: args.billingAddress.country || 'DE',
+    company: args.billingAddress.company,
+    phone: args.billingAddress.phone
+  };
+
+  return {
+    customer: args.customerData,
+    idCart: args.cartId,
+    billingAddress,
+    shippingAddress,
+    payments: [
+      {
+        paymentMethodName: args.paymentMethod.method || 'invoice',
+        paymentProviderName: args.paymentMethod.provider || 'DummyPayment'
+      },
+    ],
+    shipment: {
+      idShipmentMethod: args.shipmentMethod.id,
+    },
+  };
+}
+
+/**
+ * Format an amount in cents, e.g. `14.90 EUR`
+ */
+function formatAmount(cents: number | undefined, currency: string | undefined): string {
+  return cents === undefined ? 'unknown' : `${(cents / 100).toFixed(2)}${currency ? ` ${currency}` : ''}`;
+}
+
+/**
+ * Summarize the order a checkout would place, for the user to confirm
+ */
+export function describeCheckout(attributes: ReturnType<typeof buildCheckoutAttributes>, snapshot: CartSnapshot): string {
+  const currency = snapshot.cart?.attributes?.currency;
+  const totals = snapshot.cart?.attributes?.totals;
+  const payment = attributes.payments[0]!;
+  const address = attributes.shippingAddress;
+
+  return [
+    `Place the order for cart ${attributes.idCart}:`,
+    ...snapshot.items.map(item =>
+      `- ${item.attributes.quantity} x ${item.attributes.sku}: ${formatAmount(item.attributes.calculations?.sumPriceToPayAggregation, currency)}`
+    ),
+    ...(snapshot.vouchers.length > 0
+      ? [`Vouchers: ${snapshot.vouchers.map(voucher => voucher.attributes?.code ?? voucher.id).join(', ')}`]
+      : []),
+    `Total: ${formatAmount(totals?.priceToPay ?? totals?.grandTotal, currency)}, including ${formatAmount(totals?.taxTotal, currency)} tax and ${formatAmount(totals?.expenseTotal, currency)} shipping`,
+    `Payment: ${payment.paymentMethodName} (${payment.paymentProviderName})`,
+    `Shipping to: ${address.firstName} ${address.lastName}, ${[address.address1, address.address2].filter(Boolean).join(' ')}, ${address.zipCode} ${address.city}, ${address.iso2Code}`,
+  ].join('\n');
+}
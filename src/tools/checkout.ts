@@ -3,135 +3,158 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { customerReferenceOf, sessionVault } from '../services/session-vault.js';
+import { loadCartSnapshot } from '../services/cart-snapshot.js';
+import { CheckoutError, checkoutConfirmations } from '../services/checkout-confirmations.js';
+import { checkoutLedger, type CheckoutOutcome, type PlacedOrder } from '../services/checkout-ledger.js';
+import { userConfirmation } from '../services/user-confirmation.js';
+import { JsonApiResolver, type JsonApiDocument, type OrderResource } from '../services/json-api/index.js';
 import { logger } from '../utils/logger.js';
+import { withStoreSelection } from './store-selection.js';
+import { CheckoutDetailsSchema, buildCheckoutAttributes, describeCheckout } from './checkout-request.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
-const CheckoutSchema = z.object({
-  token: z.string().describe('Authentication token for the customer'),
-  cartId: z.string().describe('ID of the cart to checkout'),
-  customerData: z.object({
-    email: z.email().describe('Customer email address (important to have proper data to get order confirmation email)'),
-    firstName: z.string().describe('Customer first name'),
-    lastName: z.string().describe('Customer last name'),
-    salutation: z.string().optional().describe('Customer salutation (Mr, Mrs, Ms)'),
-  }).describe('Customer data for authenticated checkout (optional for guest checkout)'),
-  billingAddress: z.object({
-    salutation: z.string().optional().describe('Salutation (Mr, Mrs, Ms)'),
-    firstName: z.string().describe('First name'),
-    lastName: z.string().describe('Last name'),
-    address1: z.string().describe('Primary address line'),
-    address2: z.string().describe('Secondary address line'),
-    zipCode: z.string().describe('ZIP/Postal code'),
-    city: z.string().describe('City'),
-    country: z.string().optional().describe('Country ISO2 code (default: DE)'),
-    company: z.string().optional().describe('Company name'),
-    phone: z.string().optional().describe('Phone number')
-  }).describe('Billing address information'),
-  shippingAddress: z.object({
-    salutation: z.string().optional().describe('Salutation (Mr, Mrs, Ms)'),
-    firstName: z.string().describe('First name'),
-    lastName: z.string().describe('Last name'),
-    address1: z.string().describe('Primary address line'),
-    address2: z.string().describe('Secondary address line'),
-    zipCode: z.string().describe('ZIP/Postal code'),
-    city: z.string().describe('City'),
-    country: z.string().optional().describe('Country ISO2 code'),
-    company: z.string().optional().describe('Company name'),
-    phone: z.string().optional().describe('Phone number')
-  }).describe('Shipping address information'),
-  paymentMethod: z.object({
-    provider: z.string().optional().describe('Payment provider name (default: DummyPayment)'),
-    method: z.string().optional().describe('Payment method (default: invoice)')
-  }).describe('Payment method information'),
-  shipmentMethod: z.object({
-    id: z.number().describe('Shipment method ID')
-  }).describe('Shipment method information')
+const CheckoutSchema = CheckoutDetailsSchema.extend({
+  confirmationToken: z.string().optional().describe('Confirmation token returned by checkout-preview for the same checkout details, after the user confirmed the summary (required)'),
+  idempotencyKey: z.string().min(1).optional().describe('Key generated once per checkout of a cart, e.g. a UUID. Send the same key when repeating a checkout that timed out or failed, so the order is placed only once; a new key asks for a new checkout of the cart'),
 });
 
+const CheckoutOutputSchema = ToolResultSchema.extend({
+  order: z.looseObject({
+    orderReference: z.string(),
+    redirectUrl: z.string().nullable().optional(),
+    paymentUrl: z.string().nullable().optional(),
+    requiresImmediatePayment: z.boolean().optional(),
+  }),
+  paymentInstructions: z.looseObject({
+    action: z.string(),
+    url: z.string().nullable().optional(),
+    timeout: z.number(),
+  }).optional(),
+  nextStep: z.string().optional(),
+  replayed: z.boolean().optional().describe('The order was placed by an earlier checkout of the cart, not by this call'),
+  reconciled: z.boolean().optional().describe('The checkout request failed, but the order was found in the customer\'s orders'),
+  alerts: z.array(z.looseObject({ type: z.string(), message: z.string() })).optional(),
+});
+
+/**
+ * Orders created this long before a checkout started still count as placed
+ * by it, as the clocks of Glue and this server may differ
+ */
+const CLOCK_SKEW_TOLERANCE = 60 * 1000;
+
+/**
+ * Parse a Glue timestamp such as `2024-01-01 10:00:00.000000`, which is
+ * UTC without a time zone
+ */
+function parseGlueDate(value: string): number {
+  const iso = value.trim().replace(' ', 'T');
+  return Date.parse(/(Z|[+-]\d\d:?\d\d)$/i.test(iso) ? iso : `${iso}Z`);
+}
+
+/**
+ * Find the newest order of the customer created since a checkout started
+ */
+async function findPlacedOrder(accessToken: string, since: number): Promise<PlacedOrder | null> {
+  const response = await SprykerApiService.getInstance().get<JsonApiDocument<OrderResource[]>>('orders', accessToken);
+  const [newest] = new JsonApiResolver(response.data).primary()
+    .map(order => ({ orderReference: order.attributes.orderReference ?? order.id, createdAt: parseGlueDate(order.attributes.createdAt) }))
+    .filter(order => order.createdAt >= since - CLOCK_SKEW_TOLERANCE)
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  return newest ? { orderReference: newest.orderReference } : null;
+}
+
+/**
+ * Message and flags telling how the order of a checkout was obtained
+ */
+function outcomeFields({ replayed, reconciled }: CheckoutOutcome, message: string) {
+  if (replayed) {
+    return { message: 'Order was already placed for this cart; returning it instead of placing it again', replayed, ...(reconciled ? { reconciled } : {}) };
+  }
+  if (reconciled) {
+    return { message: 'The checkout request failed, but the order was found in the customer\'s orders', reconciled };
+  }
+  return { message };
+}
+
 async function checkout(args: z.infer<typeof CheckoutSchema>) {
   const apiService = SprykerApiService.getInstance();
 
   try {
-    logger.info('Processing checkout');
+    const credentials = sessionVault.resolve(args.session);
+    const { accessToken, userType } = credentials;
 
-    // Step 1: Create checkout request with provided or default payment/shipping methods
-    const billingAddress = {
-        salutation: args.shippingAddress.salutation,
-        firstName: args.shippingAddress.firstName,
-        lastName: args.shippingAddress.lastName,
-        address1: args.shippingAddress.address1,
-        address2: args.shippingAddress.address2,
-        zipCode: args.shippingAddress.zipCode,
-        city: args.shippingAddress.city,
-        iso2Code: args.shippingAddress.country || 'DE',
-        company: args.shippingAddress.company,
-        phone: args.shippingAddress.phone
-    };
-    const shippingAddress = {
-        salutation: args.billingAddress.salutation,
-        firstName: args.billingAddress.firstName,
-        lastName: args.billingAddress.lastName,
-        address1: args.billingAddress.address1,
-        address2: args.billingAddress.address2,
-        zipCode: args.billingAddress.zipCode,
-        city: args.billingAddress.city,
-        iso2Code: args.billingAddress.country || 'DE',
-        company: args.billingAddress.company,
-        phone: args.billingAddress.phone
-    };
+    logger.info('Processing checkout');
 
+    const attributes = buildCheckoutAttributes(args);
     const checkoutRequest = {
       data: {
         type: 'checkout',
-        attributes: {
-          customer: args.customerData,
-          idCart: args.cartId,
-          billingAddress,
-          shippingAddress,
-          payments: [
-            {
-              paymentMethodName: args.paymentMethod.method || 'invoice',
-              paymentProviderName: args.paymentMethod.provider || "DummyPayment"
-            },
-          ],
-          shipment: {
-            idShipmentMethod: args.shipmentMethod.id,
-          },
-        },
+        attributes,
       },
     };
 
-    // Step 2: Process the checkout
-    const checkoutResponse = await apiService.post<{
-      data: {
-        type: string;
-        id: string;
-        attributes: {
-          orderReference: string;
-          redirectUrl?: string;
-          isExternalRedirect?: boolean;
+    // Process the checkout, at most once per cart and idempotency key, and
+    // only as previewed with the same details and an unchanged cart. Clients
+    // that can ask the user have them confirm the order once more.
+    const submit = async (): Promise<PlacedOrder> => {
+      const snapshot = await loadCartSnapshot(args.cartId, credentials);
+      const preview = checkoutConfirmations.verify(args.confirmationToken, {
+        cartId: args.cartId,
+        request: JSON.stringify(attributes),
+      });
+      if (snapshot.fingerprint !== preview.cartFingerprint) {
+        throw new CheckoutError('The cart changed since the checkout preview.', 'CART_CHANGED');
+      }
+      await userConfirmation.ask(describeCheckout(attributes, snapshot));
+
+      const checkoutResponse = await apiService.post<{
+        data: {
+          type: string;
+          id: string;
+          attributes: {
+            orderReference: string;
+            redirectUrl?: string;
+            isExternalRedirect?: boolean;
+          };
         };
-      };
-    }>('checkout', checkoutRequest, args.token);
+      }>('checkout', checkoutRequest, accessToken);
 
-    const orderData = checkoutResponse.data.data;
+      checkoutConfirmations.consume(preview.token);
+      return checkoutResponse.data.data.attributes;
+    };
 
-    if (orderData.attributes.isExternalRedirect) {
+    const outcome = await checkoutLedger.checkout({
+      // A customer who reconnects signs in with a new token, a guest keeps
+      // the anonymous ID
+      customer: (userType === 'customer' ? customerReferenceOf(accessToken) : undefined) ?? accessToken,
+      cartId: args.cartId,
+      ...(args.idempotencyKey ? { idempotencyKey: args.idempotencyKey } : {}),
+      submit,
+      // Guests cannot list their orders
+      findPlacedOrder: since => userType === 'customer' ? findPlacedOrder(accessToken, since) : Promise.resolve(null),
+    });
+    const { order } = outcome;
+
+    if (order.isExternalRedirect) {
       return {
         content: [{
           type: 'text' as const,
           text: JSON.stringify({
             success: true,
-            message: 'Order created successfully, but requires external payment',
+            ...outcomeFields(outcome, 'Order created successfully, but requires external payment'),
             order: {
-              orderReference: orderData.attributes.orderReference,
-              paymentUrl: orderData.attributes.redirectUrl,
+              orderReference: order.orderReference,
+              paymentUrl: order.redirectUrl,
               requiresImmediatePayment: true,
             },
             paymentInstructions: {
               action: 'REDIRECT_NOW',
-              url: orderData.attributes.redirectUrl,
+              url: order.redirectUrl,
               timeout: 30 * 60 * 1000, // 30 minutes in milliseconds
             },
             nextStep: 'Please complete your payment to finalize the order',
@@ -162,10 +185,10 @@ async function checkout(args: z.infer<typeof CheckoutSchema>) {
         type: 'text' as const,
         text: JSON.stringify({
           success: true,
-          message: 'Order created successfully',
+          ...outcomeFields(outcome, 'Order created successfully'),
           order: {
-            orderReference: orderData.attributes.orderReference,
-            redirectUrl: orderData.attributes.redirectUrl,
+            orderReference: order.orderReference,
+            redirectUrl: order.redirectUrl,
           }
         }, null, 2),
       }],
@@ -174,27 +197,26 @@ async function checkout(args: z.infer<typeof CheckoutSchema>) {
   } catch (error) {
     logger.error('Checkout failed', error as Error);
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Checkout failed',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Checkout failed', error);
   }
 }
 
 export const checkoutTool: SprykerTool = {
   name: 'checkout',
-  description: 'Process checkout for customer\'s cart',
+  description: 'Place the order for a customer\'s cart once the user confirmed it. Requires the confirmationToken of a checkout-preview with the same details, which the user confirmed; clients that can ask the user also have them confirm the order',
+  annotations: {
+    title: 'Checkout',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scope: 'checkout',
   inputSchema: z.toJSONSchema(CheckoutSchema) as any,
+  outputSchema: z.toJSONSchema(CheckoutOutputSchema) as any,
+  sensitiveFields: ['customerData', 'billingAddress', 'shippingAddress'],
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = CheckoutSchema.parse(args);
-    return await checkout(validatedArgs);
+    return await withStoreSelection(validatedArgs, () => checkout(validatedArgs));
   },
 };
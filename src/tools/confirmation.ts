@@ -0,0 +1,42 @@
+/**
+ * Confirmation of destructive tool calls
+ *
+ * Shared input field and wrapper that let the user confirm what a tool call
+ * will do before it is done.
+ */
+
+import { z } from 'zod';
+import { ConfirmationError, userConfirmation, type PendingAction } from '../services/user-confirmation.js';
+import { errorResult } from './error-result.js';
+import type { SprykerTool } from './types.js';
+
+type ToolResult = Awaited<ReturnType<SprykerTool['handler']>>;
+
+export const ConfirmationTokenSchema = z.string().optional().describe('Confirmation token returned by a previous call with the same arguments, once the user confirmed its summary (only needed when the client cannot ask the user)');
+
+/**
+ * Run a tool implementation once the user confirmed its action. When the
+ * action needs a confirmation token, the result carries the summary to
+ * show the user and the token to repeat the call with.
+ */
+export async function withConfirmation(
+  action: PendingAction,
+  token: string | undefined,
+  fn: () => Promise<ToolResult>
+): Promise<ToolResult> {
+  const outcome = await userConfirmation.confirm(action, token);
+
+  if (!outcome.confirmed) {
+    return errorResult(
+      'Confirmation required',
+      new ConfirmationError('The user has to confirm this action. Nothing was changed yet.', 'CONFIRMATION_REQUIRED'),
+      {
+        summary: action.summary,
+        confirmationToken: outcome.token,
+        expiresAt: new Date(outcome.expiresAt).toISOString(),
+      }
+    );
+  }
+
+  return fn();
+}
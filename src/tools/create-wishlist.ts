@@ -5,19 +5,28 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, JsonApiDocumentSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const CreateWishlistSchema = z.object({
-  token: z.string().describe('Customer access token (wishlists require a registered customer)'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   name: z.string().describe('Name of the new wishlist'),
 });
 
+const CreateWishlistOutputSchema = ToolResultSchema.extend({
+  wishlist: JsonApiDocumentSchema.optional(),
+});
+
 async function createWishlist(args: z.infer<typeof CreateWishlistSchema>) {
   const apiService = SprykerApiService.getInstance();
 
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
+
     logger.info('Creating wishlist', { name: args.name });
 
     const response = await apiService.post(
@@ -28,7 +37,7 @@ async function createWishlist(args: z.infer<typeof CreateWishlistSchema>) {
           attributes: { name: args.name },
         },
       },
-      args.token
+      accessToken
     );
 
     return {
@@ -44,26 +53,23 @@ async function createWishlist(args: z.infer<typeof CreateWishlistSchema>) {
   } catch (error) {
     logger.error('Create wishlist failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to create wishlist',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          name: args.name,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to create wishlist', error, { name: args.name });
   }
 }
 
 export const createWishlistTool: SprykerTool = {
   name: 'create-wishlist',
   description: 'Create a new wishlist for a registered customer.',
+  annotations: {
+    title: 'Create Wishlist',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'customer:write',
   inputSchema: z.toJSONSchema(CreateWishlistSchema) as any,
+  outputSchema: z.toJSONSchema(CreateWishlistOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = CreateWishlistSchema.parse(args);
     return await createWishlist(validatedArgs);
@@ -5,8 +5,13 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
+import type { AddressResource, JsonApiDocument } from '../services/json-api/index.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, AttributedResourceSchema, JsonApiDocumentSchema } from './output-schemas.js';
+import { ConfirmationTokenSchema, withConfirmation } from './confirmation.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const AddressAttributesSchema = z.object({
@@ -25,36 +30,25 @@ const AddressAttributesSchema = z.object({
   isDefaultBilling: z.boolean().optional().describe('Set as default billing address'),
 });
 
-function errorResponse(action: string, error: unknown, extra: Record<string, unknown> = {}) {
-  return {
-    content: [{
-      type: 'text' as const,
-      text: JSON.stringify({
-        success: false,
-        error: `Failed to ${action}`,
-        message: error instanceof Error ? error.message : 'Unknown error occurred',
-        responseData: error instanceof ApiError ? error.responseData : [],
-        ...extra,
-      }, null, 2),
-    }],
-    isError: true,
-  };
-}
-
 // --- Get addresses ---
 
 const GetAddressesSchema = z.object({
-  token: z.string().describe('Customer access token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   customerReference: z.string().describe('Customer reference the addresses belong to'),
 });
 
+const GetAddressesOutputSchema = ToolResultSchema.extend({
+  addresses: z.array(AttributedResourceSchema),
+});
+
 async function getAddresses(args: z.infer<typeof GetAddressesSchema>) {
   const apiService = SprykerApiService.getInstance();
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
     logger.info('Retrieving customer addresses', { customerReference: args.customerReference });
     const response = await apiService.get<{
       data: Array<{ type: string; id: string; attributes: Record<string, unknown> }>;
-    }>(`customers/${args.customerReference}/addresses`, args.token);
+    }>(`customers/${args.customerReference}/addresses`, accessToken);
     const data = response.data.data;
     const addresses = Array.isArray(data) ? data : data ? [data] : [];
     return {
@@ -69,35 +63,47 @@ async function getAddresses(args: z.infer<typeof GetAddressesSchema>) {
     };
   } catch (error) {
     logger.error('Get addresses failed', error as Error);
-    return errorResponse('retrieve addresses', error, { customerReference: args.customerReference });
+    return errorResult('Failed to retrieve addresses', error, { customerReference: args.customerReference });
   }
 }
 
 export const getAddressesTool: SprykerTool = {
   name: 'get-addresses',
   description: 'List a registered customer\'s saved addresses.',
+  annotations: {
+    title: 'Get Addresses',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'customer:read',
   inputSchema: z.toJSONSchema(GetAddressesSchema) as any,
+  outputSchema: z.toJSONSchema(GetAddressesOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => getAddresses(GetAddressesSchema.parse(args)),
 };
 
 // --- Add address ---
 
 const AddAddressSchema = z.object({
-  token: z.string().describe('Customer access token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   customerReference: z.string().describe('Customer reference to add the address to'),
   address: AddressAttributesSchema.extend({
     iso2Code: z.string().default('DE').describe('Country ISO2 code'),
   }).describe('Address details'),
 });
 
+const AddAddressOutputSchema = ToolResultSchema.extend({
+  address: JsonApiDocumentSchema.optional(),
+});
+
 async function addAddress(args: z.infer<typeof AddAddressSchema>) {
   const apiService = SprykerApiService.getInstance();
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
     logger.info('Adding customer address', { customerReference: args.customerReference });
     const response = await apiService.post(
       `customers/${args.customerReference}/addresses`,
       { data: { type: 'addresses', attributes: args.address } },
-      args.token
+      accessToken
     );
     return {
       content: [{
@@ -111,34 +117,49 @@ async function addAddress(args: z.infer<typeof AddAddressSchema>) {
     };
   } catch (error) {
     logger.error('Add address failed', error as Error);
-    return errorResponse('add address', error, { customerReference: args.customerReference });
+    return errorResult('Failed to add address', error, { customerReference: args.customerReference });
   }
 }
 
 export const addAddressTool: SprykerTool = {
   name: 'add-address',
   description: 'Add a new address to a registered customer\'s address book.',
+  annotations: {
+    title: 'Add Address',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'customer:write',
   inputSchema: z.toJSONSchema(AddAddressSchema) as any,
+  outputSchema: z.toJSONSchema(AddAddressOutputSchema) as any,
+  sensitiveFields: ['address'],
   handler: async (args: Record<string, unknown>) => addAddress(AddAddressSchema.parse(args)),
 };
 
 // --- Update address ---
 
 const UpdateAddressSchema = z.object({
-  token: z.string().describe('Customer access token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   customerReference: z.string().describe('Customer reference the address belongs to'),
   addressId: z.string().describe('ID (uuid) of the address to update'),
   address: AddressAttributesSchema.partial().describe('Address fields to update'),
 });
 
+const UpdateAddressOutputSchema = ToolResultSchema.extend({
+  address: JsonApiDocumentSchema.optional(),
+});
+
 async function updateAddress(args: z.infer<typeof UpdateAddressSchema>) {
   const apiService = SprykerApiService.getInstance();
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
     logger.info('Updating customer address', { customerReference: args.customerReference, addressId: args.addressId });
     const response = await apiService.patch(
       `customers/${args.customerReference}/addresses/${args.addressId}`,
       { data: { type: 'addresses', attributes: args.address } },
-      args.token
+      accessToken
     );
     return {
       content: [{
@@ -152,49 +173,89 @@ async function updateAddress(args: z.infer<typeof UpdateAddressSchema>) {
     };
   } catch (error) {
     logger.error('Update address failed', error as Error);
-    return errorResponse('update address', error, { addressId: args.addressId });
+    return errorResult('Failed to update address', error, { addressId: args.addressId });
   }
 }
 
 export const updateAddressTool: SprykerTool = {
   name: 'update-address',
   description: 'Update an existing address in a registered customer\'s address book.',
+  annotations: {
+    title: 'Update Address',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scope: 'customer:write',
   inputSchema: z.toJSONSchema(UpdateAddressSchema) as any,
+  outputSchema: z.toJSONSchema(UpdateAddressOutputSchema) as any,
+  sensitiveFields: ['address'],
   handler: async (args: Record<string, unknown>) => updateAddress(UpdateAddressSchema.parse(args)),
 };
 
 // --- Delete address ---
 
 const DeleteAddressSchema = z.object({
-  token: z.string().describe('Customer access token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   customerReference: z.string().describe('Customer reference the address belongs to'),
   addressId: z.string().describe('ID (uuid) of the address to delete'),
+  confirmationToken: ConfirmationTokenSchema,
+});
+
+const DeleteAddressOutputSchema = ToolResultSchema.extend({
+  addressId: z.string(),
 });
 
 async function deleteAddress(args: z.infer<typeof DeleteAddressSchema>) {
   const apiService = SprykerApiService.getInstance();
   try {
-    logger.info('Deleting customer address', { customerReference: args.customerReference, addressId: args.addressId });
-    await apiService.delete(`customers/${args.customerReference}/addresses/${args.addressId}`, args.token);
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: true,
-          message: 'Address deleted successfully',
-          addressId: args.addressId,
-        }, null, 2),
-      }],
-    };
+    const { accessToken } = sessionVault.resolve(args.session);
+    const endpoint = `customers/${args.customerReference}/addresses/${args.addressId}`;
+
+    // Show the user which address goes, not its uuid
+    const response = await apiService.get<JsonApiDocument<AddressResource>>(endpoint, accessToken);
+    const address = response.data.data?.attributes;
+    const summary = `Delete the address ${address ? [
+      `${address.firstName} ${address.lastName}`,
+      [address.address1, address.address2].filter(Boolean).join(' '),
+      `${address.zipCode} ${address.city}`,
+      address.iso2Code,
+    ].filter(Boolean).join(', ') : args.addressId} from the address book.`;
+    const request = { customerReference: args.customerReference, addressId: args.addressId };
+
+    return await withConfirmation({ tool: 'delete-address', summary, request }, args.confirmationToken, async () => {
+      logger.info('Deleting customer address', { customerReference: args.customerReference, addressId: args.addressId });
+      await apiService.delete(endpoint, accessToken);
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            success: true,
+            message: 'Address deleted successfully',
+            addressId: args.addressId,
+          }, null, 2),
+        }],
+      };
+    });
   } catch (error) {
     logger.error('Delete address failed', error as Error);
-    return errorResponse('delete address', error, { addressId: args.addressId });
+    return errorResult('Failed to delete address', error, { addressId: args.addressId });
   }
 }
 
 export const deleteAddressTool: SprykerTool = {
   name: 'delete-address',
-  description: 'Delete an address from a registered customer\'s address book.',
+  description: 'Delete an address from a registered customer\'s address book, once the user confirmed it.',
+  annotations: {
+    title: 'Delete Address',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scope: 'customer:write',
   inputSchema: z.toJSONSchema(DeleteAddressSchema) as any,
+  outputSchema: z.toJSONSchema(DeleteAddressOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => deleteAddress(DeleteAddressSchema.parse(args)),
 };
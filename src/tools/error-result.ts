@@ -0,0 +1,56 @@
+/**
+ * Error results
+ *
+ * The result of a failed tool call: what failed, a machine-readable error
+ * code, the decoded Glue errors and a hint on how to recover.
+ */
+
+import { describeError, type ErrorCode, type GlueError } from '../services/glue-errors.js';
+import type { SprykerTool } from './types.js';
+
+type ToolResult = Awaited<ReturnType<SprykerTool['handler']>>;
+
+/**
+ * Fields describing the error of a failed tool call
+ */
+export interface ErrorFields {
+  errorCode: ErrorCode;
+  message: string;
+  hint: string;
+  errors?: GlueError[];
+  responseData: unknown;
+}
+
+/**
+ * Describe a caught error as the fields of a tool result
+ */
+export function errorFields(error: unknown): ErrorFields {
+  const { errorCode, hint, errors } = describeError(error);
+
+  return {
+    errorCode,
+    message: error instanceof Error ? error.message : 'Unknown error occurred',
+    hint,
+    ...(errors.length > 0 ? { errors } : {}),
+    responseData: error instanceof Error && 'responseData' in error ? error.responseData : [],
+  };
+}
+
+/**
+ * Build the result of a failed tool call from a summary of what failed,
+ * e.g. `Failed to add item to cart`, and the arguments worth echoing back
+ */
+export function errorResult(summary: string, error: unknown, extra: Record<string, unknown> = {}): ToolResult {
+  return {
+    content: [{
+      type: 'text' as const,
+      text: JSON.stringify({
+        success: false,
+        error: summary,
+        ...errorFields(error),
+        ...extra,
+      }, null, 2),
+    }],
+    isError: true,
+  };
+}
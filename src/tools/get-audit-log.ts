@@ -0,0 +1,98 @@
+/**
+ * Get Audit Log Tool
+ *
+ * Admin tool to query the audit trail of state-changing tool calls. Only
+ * registered with AUDIT_LOG_TOOL=true, on servers used by administrators.
+ */
+
+import { z } from 'zod';
+import { auditTrail } from '../services/audit-trail.js';
+import { logger } from '../utils/logger.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
+import type { SprykerTool } from './types.js';
+
+export const AuditLogQuerySchema = z.object({
+  sessionId: z.string().optional().describe('Only calls of this MCP session'),
+  clientId: z.string().optional().describe('Only calls of this client, by TLS client certificate or access token'),
+  customerReference: z.string().optional().describe('Only calls for this customer'),
+  tool: z.string().optional().describe('Only calls of this tool, e.g. checkout'),
+  since: z.iso.datetime({ offset: true }).optional().describe('Only calls at or after this time (ISO 8601)'),
+  until: z.iso.datetime({ offset: true }).optional().describe('Only calls before this time (ISO 8601)'),
+  limit: z.number().int().min(1).max(500).default(50).describe('Maximum number of entries, newest first'),
+  verify: z.boolean().default(false).describe('Also check the hash chain of the audit trail for tampering'),
+});
+
+const GetAuditLogOutputSchema = ToolResultSchema.extend({
+  entries: z.array(z.looseObject({
+    sequence: z.number(),
+    timestamp: z.string(),
+    sessionId: z.string(),
+    tool: z.string(),
+    outcome: z.string(),
+    hash: z.string(),
+  })),
+  count: z.number(),
+  integrity: z.looseObject({
+    valid: z.boolean(),
+    entries: z.number(),
+    brokenAt: z.number().optional(),
+    unreadable: z.object({ file: z.string(), line: z.number() }).optional().describe('First line that is not an entry'),
+  }).optional().describe('Result of the hash chain check, when requested'),
+});
+
+/**
+ * Query the audit trail, optionally checking its hash chain
+ */
+export async function queryAuditLog(args: z.infer<typeof AuditLogQuerySchema>) {
+  const entries = await auditTrail.query({
+    ...(args.sessionId ? { sessionId: args.sessionId } : {}),
+    ...(args.clientId ? { clientId: args.clientId } : {}),
+    ...(args.customerReference ? { customerReference: args.customerReference } : {}),
+    ...(args.tool ? { tool: args.tool } : {}),
+    ...(args.since ? { since: Date.parse(args.since) } : {}),
+    ...(args.until ? { until: Date.parse(args.until) } : {}),
+    limit: args.limit,
+  });
+
+  return {
+    success: true,
+    entries,
+    count: entries.length,
+    ...(args.verify ? { integrity: await auditTrail.verify() } : {}),
+  };
+}
+
+async function getAuditLog(args: z.infer<typeof AuditLogQuerySchema>) {
+  try {
+    logger.info('Querying audit log', { limit: args.limit, verify: args.verify });
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify(await queryAuditLog(args), null, 2),
+      }],
+    };
+  } catch (error) {
+    logger.error('Failed to query audit log', error as Error);
+
+    return errorResult('Failed to query audit log', error);
+  }
+}
+
+export const getAuditLogTool: SprykerTool = {
+  name: 'get-audit-log',
+  description: 'Admin only: query the audit trail of state-changing tool calls, such as cart edits, checkouts and address changes, newest first',
+  annotations: {
+    title: 'Audit Log',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'audit:read',
+  inputSchema: z.toJSONSchema(AuditLogQuerySchema) as any,
+  outputSchema: z.toJSONSchema(GetAuditLogOutputSchema) as any,
+  handler: async (args: Record<string, unknown>) => {
+    const validatedArgs = AuditLogQuerySchema.parse(args);
+    return await getAuditLog(validatedArgs);
+  },
+};
@@ -3,31 +3,42 @@
  */
 
 import { z } from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetCartSchema = z.object({
-  token: z.string().describe('Customer authentication token or guest customer unique ID'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   cartId: z.string().optional().describe('Specific cart ID to retrieve. If not provided, returns all carts or the first available cart'),
 });
 
+const GetCartOutputSchema = ToolResultSchema.extend({
+  cart: z.unknown().optional().describe('The requested cart, or the first cart when no ID was given'),
+  totalCarts: z.number().optional(),
+  carts: z.array(z.unknown()).optional(),
+});
+
 async function getCart(args: z.infer<typeof GetCartSchema>) {
   const apiService = SprykerApiService.getInstance();
   
   try {
+    const credentials = sessionVault.resolve(args.session);
+
     logger.info('Retrieving cart');
     
     let endpoint;
     
     // Determine if this is a guest or authenticated request (matching JavaScript version)
-    if (args.token && args.token.startsWith('guest-')) {
+    if (credentials.userType === 'guest') {
       endpoint = args.cartId ? `guest-carts/${args.cartId}` : 'guest-carts';
     } else {
       endpoint = args.cartId ? `carts/${args.cartId}` : 'carts';
     }
 
-    const response = await apiService.get(endpoint, args.token);
+    const response = await apiService.get(endpoint, credentials.accessToken);
 
     // Handle case where response.data might have nested data property (Spryker API format)
     let cartData = response.data;
@@ -73,24 +84,21 @@ async function getCart(args: z.infer<typeof GetCartSchema>) {
   } catch (error: unknown) {
     logger.error('Failed to retrieve cart', { error });
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : 'retrieving cart',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2)
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve cart', error);
   }
 }
 
 export const getCartTool: SprykerTool = {
   name: 'get-cart',
   description: 'Get customer\'s shopping cart contents',
+  annotations: {
+    title: 'Get Cart',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'cart:read',
   inputSchema: z.toJSONSchema(GetCartSchema) as any,
+  outputSchema: z.toJSONSchema(GetCartOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetCartSchema.parse(args);
     return await getCart(validatedArgs);
@@ -5,12 +5,18 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, AttributedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetCategoryTreeSchema = z.object({});
 
+const GetCategoryTreeOutputSchema = ToolResultSchema.extend({
+  categories: z.array(AttributedResourceSchema),
+});
+
 async function getCategoryTree(_args: z.infer<typeof GetCategoryTreeSchema>) {
   const apiService = SprykerApiService.getInstance();
 
@@ -37,25 +43,21 @@ async function getCategoryTree(_args: z.infer<typeof GetCategoryTreeSchema>) {
   } catch (error) {
     logger.error('Get category tree failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve category tree',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve category tree', error);
   }
 }
 
 export const getCategoryTreeTool: SprykerTool = {
   name: 'get-category-tree',
   description: 'Get the full catalog category tree for navigation and browsing.',
+  annotations: {
+    title: 'Category Tree',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(GetCategoryTreeSchema) as any,
+  outputSchema: z.toJSONSchema(GetCategoryTreeOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetCategoryTreeSchema.parse(args);
     return await getCategoryTree(validatedArgs);
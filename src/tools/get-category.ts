@@ -5,14 +5,21 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, AttributedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetCategorySchema = z.object({
   categoryNodeId: z.string().describe('Category node ID to retrieve'),
 });
 
+const GetCategoryOutputSchema = ToolResultSchema.extend({
+  category: AttributedResourceSchema,
+  hint: z.string().optional(),
+});
+
 async function getCategory(args: z.infer<typeof GetCategorySchema>) {
   const apiService = SprykerApiService.getInstance();
 
@@ -39,26 +46,21 @@ async function getCategory(args: z.infer<typeof GetCategorySchema>) {
   } catch (error) {
     logger.error('Get category failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve category',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          categoryNodeId: args.categoryNodeId,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve category', error, { categoryNodeId: args.categoryNodeId });
   }
 }
 
 export const getCategoryTool: SprykerTool = {
   name: 'get-category',
   description: 'Get a category node by ID, including its attributes and child categories.',
+  annotations: {
+    title: 'Category',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(GetCategorySchema) as any,
+  outputSchema: z.toJSONSchema(GetCategoryOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetCategorySchema.parse(args);
     return await getCategory(validatedArgs);
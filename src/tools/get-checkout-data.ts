@@ -3,51 +3,71 @@
  */
 
 import { z } from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import {
+  JsonApiResolver,
+  type AddressResource,
+  type JsonApiDocument,
+  type JsonApiResource,
+} from '../services/json-api/index.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, DenormalizedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetCheckoutDataSchema = z.object({
-  token: z.string().describe('Customer access token or guest token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   cartId: z.string().describe('ID of the cart to get checkout data for'),
 });
 
+const GetCheckoutDataOutputSchema = ToolResultSchema.extend({
+  checkoutData: DenormalizedResourceSchema.optional(),
+  paymentMethods: z.array(DenormalizedResourceSchema),
+  shipmentMethods: z.array(DenormalizedResourceSchema),
+  customerAddresses: z.array(DenormalizedResourceSchema),
+  shipments: z.array(DenormalizedResourceSchema),
+  availableData: z.looseObject({
+    hasCheckoutData: z.boolean(),
+    paymentMethodsCount: z.number(),
+    shipmentMethodsCount: z.number(),
+    customerAddressesCount: z.number(),
+    shipmentsCount: z.number(),
+  }),
+});
+
 async function getCheckoutData(args: z.infer<typeof GetCheckoutDataSchema>) {
   const apiService = SprykerApiService.getInstance();
   
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
+
     logger.info('Retrieving checkout data', { cartId: args.cartId });
     
-    // Get checkout data with all related information
-    const response = await apiService.post<{
-      data: {
-        type: string;
-        id: string;
-        attributes: Record<string, unknown>;
-        relationships?: Record<string, unknown>;
-      };
-      included?: Array<{
-        type: string;
-        id: string;
-        attributes: Record<string, unknown>;
-      }>;
-    }>('checkout-data?include=payment-methods,shipments,shipment-methods,addresses', {
-      data: {
-        type: 'checkout-data',
-        attributes: {
-          idCart: args.cartId,
+    // Get checkout data with all related information. The POST only reads
+    // data, so it is safe to retry.
+    const response = await apiService.post<JsonApiDocument<JsonApiResource<'checkout-data'>>>(
+      'checkout-data?include=payment-methods,shipments,shipment-methods,addresses',
+      {
+        data: {
+          type: 'checkout-data',
+          attributes: {
+            idCart: args.cartId,
+          },
         },
       },
-    }, args.token);
+      accessToken,
+      { idempotent: true }
+    );
 
-    const checkoutData = response.data.data;
-    const included = response.data.included || [];
+    const document = new JsonApiResolver(response.data);
+    const checkoutData = document.primary()[0];
 
-    // Parse included data to extract different types
-    const paymentMethods = included.filter(item => item.type === 'payment-methods');
-    const shipmentMethods = included.filter(item => item.type === 'shipment-methods');
-    const customerAddresses = included.filter(item => item.type === 'addresses');
-    const shipments = included.filter(item => item.type === 'shipments');
+    // Everything included belongs to the one checkout-data resource
+    const paymentMethods = document.ofType('payment-methods').map(method => document.denormalize(method));
+    const shipmentMethods = document.ofType('shipment-methods').map(method => document.denormalize(method));
+    const customerAddresses = document.ofType<AddressResource>('addresses').map(address => document.denormalize(address));
+    const shipments = document.ofType('shipments').map(shipment => document.denormalize(shipment));
 
     return {
       content: [{
@@ -55,26 +75,11 @@ async function getCheckoutData(args: z.infer<typeof GetCheckoutDataSchema>) {
         text: JSON.stringify({
           success: true,
           message: 'Checkout data retrieved successfully',
-          checkoutData: {
-            ...checkoutData.attributes,
-            id: checkoutData.id,
-          },
-          paymentMethods: paymentMethods.map(method => ({
-            id: method.id,
-            ...method.attributes,
-          })),
-          shipmentMethods: shipmentMethods.map(method => ({
-            id: method.id,
-            ...method.attributes,
-          })),
-          customerAddresses: customerAddresses.map(address => ({
-            id: address.id,
-            ...address.attributes,
-          })),
-          shipments: shipments.map(shipment => ({
-            id: shipment.id,
-            ...shipment.attributes,
-          })),
+          checkoutData: checkoutData ? { ...checkoutData.attributes, id: checkoutData.id } : undefined,
+          paymentMethods,
+          shipmentMethods,
+          customerAddresses,
+          shipments,
           availableData: {
             hasCheckoutData: !!checkoutData,
             paymentMethodsCount: paymentMethods.length,
@@ -89,25 +94,21 @@ async function getCheckoutData(args: z.infer<typeof GetCheckoutDataSchema>) {
   } catch (error) {
     logger.error('Failed to retrieve checkout data', error as Error);
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve checkout data',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve checkout data', error);
   }
 }
 
 export const getCheckoutDataTool: SprykerTool = {
   name: 'get-checkout-data',
   description: 'Get checkout data including payment methods, shipment methods, and customer addresses',
+  annotations: {
+    title: 'Get Checkout Data',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'cart:read',
   inputSchema: z.toJSONSchema(GetCheckoutDataSchema) as any,
+  outputSchema: z.toJSONSchema(GetCheckoutDataOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetCheckoutDataSchema.parse(args);
     return await getCheckoutData(validatedArgs);
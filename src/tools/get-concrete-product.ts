@@ -7,51 +7,49 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { JsonApiResolver, type ConcreteProductResource, type JsonApiDocument } from '../services/json-api/index.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, DenormalizedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetConcreteProductSchema = z.object({
   sku: z.string().describe('Concrete product SKU (the orderable variant) to retrieve'),
 });
 
+const GetConcreteProductOutputSchema = ToolResultSchema.extend({
+  product: z.looseObject({
+    sku: z.string(),
+    name: z.string(),
+    description: z.string().nullable().optional(),
+    attributes: z.record(z.string(), z.unknown()).optional(),
+    productAbstractSku: z.string().optional(),
+  }),
+  images: z.array(DenormalizedResourceSchema),
+  availability: z.array(DenormalizedResourceSchema),
+  prices: z.array(DenormalizedResourceSchema),
+});
+
 async function getConcreteProduct(args: z.infer<typeof GetConcreteProductSchema>) {
   const apiService = SprykerApiService.getInstance();
 
   try {
     logger.info('Retrieving concrete product details', { sku: args.sku });
 
-    const response = await apiService.get<{
-      data: {
-        type: string;
-        id: string;
-        attributes: {
-          sku: string;
-          name: string;
-          description: string;
-          attributes: Record<string, unknown>;
-          superAttributesDefinition?: string[];
-          superAttributes?: Record<string, unknown>;
-          productAbstractSku?: string;
-          metaTitle?: string;
-          metaKeywords?: string;
-          metaDescription?: string;
-          attributeNames?: Record<string, string>;
-        };
-      };
-      included?: Array<{
-        type: string;
-        id: string;
-        attributes: unknown;
-      }>;
-    }>(`concrete-products/${args.sku}?include=concrete-product-image-sets,concrete-product-availabilities,concrete-product-prices`);
+    const response = await apiService.get<JsonApiDocument<ConcreteProductResource>>(
+      `concrete-products/${args.sku}?include=concrete-product-image-sets,concrete-product-availabilities,concrete-product-prices`
+    );
 
-    const product = response.data.data;
-    const included = response.data.included || [];
+    const document = new JsonApiResolver(response.data);
+    const product = document.primary()[0];
+    if (!product) {
+      throw new Error(`Concrete product not found: ${args.sku}`);
+    }
 
-    const images = included.filter(item => item.type === 'concrete-product-image-sets');
-    const availability = included.filter(item => item.type === 'concrete-product-availabilities');
-    const prices = included.filter(item => item.type === 'concrete-product-prices');
+    const images = document.ofType('concrete-product-image-sets');
+    const availability = document.ofType('concrete-product-availabilities');
+    const prices = document.ofType('concrete-product-prices');
 
     return {
       content: [{
@@ -71,35 +69,30 @@ async function getConcreteProduct(args: z.infer<typeof GetConcreteProductSchema>
             metaDescription: product.attributes.metaDescription,
             attributeNames: product.attributes.attributeNames,
           },
-          images: images.map(img => ({ id: img.id, attributes: img.attributes })),
-          availability: availability.map(avail => ({ id: avail.id, attributes: avail.attributes })),
-          prices: prices.map(price => ({ id: price.id, attributes: price.attributes })),
+          images: images.map(img => document.denormalize(img)),
+          availability: availability.map(avail => document.denormalize(avail)),
+          prices: prices.map(price => document.denormalize(price)),
         }, null, 2),
       }],
     };
   } catch (error) {
     logger.error('Get concrete product failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve concrete product',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          sku: args.sku,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve concrete product', error, { sku: args.sku });
   }
 }
 
 export const getConcreteProductTool: SprykerTool = {
   name: 'get-concrete-product',
   description: 'Get detailed concrete product (variant) information by SKU, including its abstract parent, super attributes, images, pricing, and availability. Concrete SKUs are what you add to a cart.',
+  annotations: {
+    title: 'Concrete Product',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(GetConcreteProductSchema) as any,
+  outputSchema: z.toJSONSchema(GetConcreteProductOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetConcreteProductSchema.parse(args);
     return await getConcreteProduct(validatedArgs);
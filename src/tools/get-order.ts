@@ -3,19 +3,45 @@
  */
 
 import { z } from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import {
+  JsonApiResolver,
+  type JsonApiDocument,
+  type OrderItemResource,
+  type OrderResource,
+} from '../services/json-api/index.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, DenormalizedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetOrderSchema = z.object({
-  token: z.string().describe('Customer access token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   orderReference: z.string().optional().describe('Specific order reference to retrieve. If not provided, returns all orders'),
 });
 
+const ProcessedOrderSchema = z.looseObject({
+  orderReference: z.string(),
+  createdAt: z.string().optional(),
+  totals: z.unknown().optional(),
+  billingAddress: z.unknown().optional(),
+  shippingAddress: z.unknown().optional(),
+  items: z.array(DenormalizedResourceSchema),
+});
+
+const GetOrderOutputSchema = ToolResultSchema.extend({
+  order: ProcessedOrderSchema.optional().describe('The requested order'),
+  orders: z.array(ProcessedOrderSchema).optional().describe('All orders when no reference was given'),
+  totalOrders: z.number().optional(),
+});
+
 async function getOrder(args: z.infer<typeof GetOrderSchema>) {
   const apiService = SprykerApiService.getInstance();
   
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
+
     logger.info('Retrieving order(s)', { 
       orderReference: args.orderReference || 'all orders' 
     });
@@ -26,40 +52,10 @@ async function getOrder(args: z.infer<typeof GetOrderSchema>) {
       : 'orders?include=order-items,product-concrete';
     
     // Get order(s) with included data
-    const response = await apiService.get<{
-      data: Array<{
-        type: string;
-        id: string;
-        attributes: {
-          orderReference: string;
-          createdAt: string;
-          totals: {
-            expenseTotal: number;
-            discountTotal: number;
-            taxTotal: number;
-            subtotal: number;
-            grandTotal: number;
-          };
-          billingAddress: Record<string, unknown>;
-          shippingAddress: Record<string, unknown>;
-          items: Array<Record<string, unknown>>;
-        };
-        relationships?: Record<string, unknown>;
-      }> | {
-        type: string;
-        id: string;
-        attributes: Record<string, unknown>;
-        relationships?: Record<string, unknown>;
-      };
-      included?: Array<{
-        type: string;
-        id: string;
-        attributes: Record<string, unknown>;
-      }>;
-    }>(endpoint, args.token);
+    const response = await apiService.get<JsonApiDocument<OrderResource | OrderResource[]>>(endpoint, accessToken);
 
-    const orders = Array.isArray(response.data.data) ? response.data.data : [response.data.data];
-    const included = response.data.included || [];
+    const document = new JsonApiResolver(response.data);
+    const orders = document.primary();
 
     if (orders.length === 0) {
       return {
@@ -74,33 +70,21 @@ async function getOrder(args: z.infer<typeof GetOrderSchema>) {
       };
     }
 
-    // Process orders with included data
-    const processedOrders = orders.map(order => {
-      const orderRelationships = order.relationships as Record<string, any> | undefined;
-      const orderItems = included.filter(item => {
-        if (item.type !== 'order-items') {return false;}
-        if (!orderRelationships?.['order-items']?.data) {return false;}
-        const relationshipData = orderRelationships['order-items'].data;
-        if (!Array.isArray(relationshipData)) {return false;}
-        return relationshipData.some((rel: any) => rel.id === item.id);
-      });
-      
-      const products = included.filter(item => 
-        item.type === 'product-concrete'
-      );
-
-      return {
-        orderReference: order.attributes.orderReference,
-        createdAt: order.attributes.createdAt,
-        totals: order.attributes.totals,
-        billingAddress: order.attributes.billingAddress,
-        shippingAddress: order.attributes.shippingAddress,
-        items: orderItems.map(item => ({
-          ...item.attributes,
-          product: products.find(p => p.id === item.attributes.sku),
-        })),
-      };
-    });
+    // Process orders with their related order items
+    const processedOrders = orders.map(order => ({
+      orderReference: order.attributes.orderReference ?? order.id,
+      createdAt: order.attributes.createdAt,
+      totals: order.attributes.totals,
+      billingAddress: order.attributes.billingAddress,
+      shippingAddress: order.attributes.shippingAddress,
+      items: document.related<OrderItemResource>(order, 'order-items').map(item => {
+        const product = document.find('product-concrete', item.attributes.sku);
+        return {
+          ...document.denormalize(item),
+          product: product ? document.denormalize(product) : undefined,
+        };
+      }),
+    }));
 
     if (args.orderReference) {
       return {
@@ -128,25 +112,21 @@ async function getOrder(args: z.infer<typeof GetOrderSchema>) {
   } catch (error) {
     logger.error('Failed to retrieve order(s)', error as Error);
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve order(s)',
-          message: (error as any)?.message || 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve order(s)', error);
   }
 }
 
 export const getOrderTool: SprykerTool = {
   name: 'get-order',
   description: 'Retrieve order details and history',
+  annotations: {
+    title: 'Get Order',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'customer:read',
   inputSchema: z.toJSONSchema(GetOrderSchema) as any,
+  outputSchema: z.toJSONSchema(GetOrderOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetOrderSchema.parse(args);
     return await getOrder(validatedArgs);
@@ -5,8 +5,10 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, AttributedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetProductAvailabilitySchema = z.object({
@@ -17,6 +19,12 @@ const GetProductAvailabilitySchema = z.object({
     .describe('Whether the SKU is an abstract or concrete product'),
 });
 
+const GetProductAvailabilityOutputSchema = ToolResultSchema.extend({
+  sku: z.string(),
+  productType: z.enum(['abstract', 'concrete']),
+  availability: z.array(AttributedResourceSchema),
+});
+
 async function getProductAvailability(args: z.infer<typeof GetProductAvailabilitySchema>) {
   const apiService = SprykerApiService.getInstance();
 
@@ -54,26 +62,21 @@ async function getProductAvailability(args: z.infer<typeof GetProductAvailabilit
   } catch (error) {
     logger.error('Get product availability failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve product availability',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          sku: args.sku,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve product availability', error, { sku: args.sku });
   }
 }
 
 export const getProductAvailabilityTool: SprykerTool = {
   name: 'get-product-availability',
   description: 'Get stock availability for an abstract or concrete product by SKU.',
+  annotations: {
+    title: 'Product Availability',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(GetProductAvailabilitySchema) as any,
+  outputSchema: z.toJSONSchema(GetProductAvailabilityOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetProductAvailabilitySchema.parse(args);
     return await getProductAvailability(validatedArgs);
@@ -5,8 +5,12 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { storeContext } from '../services/store-context.js';
 import { logger } from '../utils/logger.js';
+import { StoreSelectionSchema, withStoreSelection } from './store-selection.js';
+import { ToolResultSchema, AttributedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetProductPricesSchema = z.object({
@@ -15,6 +19,14 @@ const GetProductPricesSchema = z.object({
     .enum(['abstract', 'concrete'])
     .default('abstract')
     .describe('Whether the SKU is an abstract or concrete product'),
+}).extend(StoreSelectionSchema.shape);
+
+const GetProductPricesOutputSchema = ToolResultSchema.extend({
+  sku: z.string(),
+  productType: z.enum(['abstract', 'concrete']),
+  currency: z.string().optional(),
+  priceMode: z.string().optional(),
+  prices: z.array(AttributedResourceSchema),
 });
 
 async function getProductPrices(args: z.infer<typeof GetProductPricesSchema>) {
@@ -23,10 +35,18 @@ async function getProductPrices(args: z.infer<typeof GetProductPricesSchema>) {
   try {
     logger.info('Retrieving product prices', { sku: args.sku, productType: args.productType });
 
-    const endpoint =
+    // Request prices in the currency and price mode of the selected store
+    const { currency, priceMode } = storeContext.resolve();
+    const query = new URLSearchParams({
+      ...(currency ? { currency } : {}),
+      ...(priceMode ? { priceMode } : {}),
+    }).toString();
+
+    const path =
       args.productType === 'concrete'
         ? `concrete-products/${args.sku}/concrete-product-prices`
         : `abstract-products/${args.sku}/abstract-product-prices`;
+    const endpoint = query ? `${path}?${query}` : path;
 
     const response = await apiService.get<{
       data: Array<{ type: string; id: string; attributes: Record<string, unknown> }> | {
@@ -47,6 +67,8 @@ async function getProductPrices(args: z.infer<typeof GetProductPricesSchema>) {
           message: 'Product prices retrieved successfully',
           sku: args.sku,
           productType: args.productType,
+          currency,
+          priceMode,
           prices: items.map(item => ({ id: item.id, attributes: item.attributes })),
         }, null, 2),
       }],
@@ -54,28 +76,23 @@ async function getProductPrices(args: z.infer<typeof GetProductPricesSchema>) {
   } catch (error) {
     logger.error('Get product prices failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve product prices',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          sku: args.sku,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve product prices', error, { sku: args.sku });
   }
 }
 
 export const getProductPricesTool: SprykerTool = {
   name: 'get-product-prices',
   description: 'Get prices, including volume prices, for an abstract or concrete product by SKU.',
+  annotations: {
+    title: 'Product Prices',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(GetProductPricesSchema) as any,
+  outputSchema: z.toJSONSchema(GetProductPricesOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetProductPricesSchema.parse(args);
-    return await getProductPrices(validatedArgs);
+    return await withStoreSelection(validatedArgs, () => getProductPrices(validatedArgs));
   },
 };
@@ -5,14 +5,22 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, AttributedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetProductReviewsSchema = z.object({
   sku: z.string().describe('Abstract product SKU to retrieve reviews for'),
 });
 
+const GetProductReviewsOutputSchema = ToolResultSchema.extend({
+  sku: z.string(),
+  count: z.number(),
+  reviews: z.array(AttributedResourceSchema),
+});
+
 async function getProductReviews(args: z.infer<typeof GetProductReviewsSchema>) {
   const apiService = SprykerApiService.getInstance();
 
@@ -41,26 +49,21 @@ async function getProductReviews(args: z.infer<typeof GetProductReviewsSchema>)
   } catch (error) {
     logger.error('Get product reviews failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve product reviews',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          sku: args.sku,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve product reviews', error, { sku: args.sku });
   }
 }
 
 export const getProductReviewsTool: SprykerTool = {
   name: 'get-product-reviews',
   description: 'Get customer reviews and ratings for an abstract product by SKU.',
+  annotations: {
+    title: 'Product Reviews',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(GetProductReviewsSchema) as any,
+  outputSchema: z.toJSONSchema(GetProductReviewsOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetProductReviewsSchema.parse(args);
     return await getProductReviews(validatedArgs);
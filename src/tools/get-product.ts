@@ -5,14 +5,37 @@
  */
 
 import { z } from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import {
+  JsonApiResolver,
+  type AbstractProductResource,
+  type ConcreteProductResource,
+  type JsonApiDocument,
+} from '../services/json-api/index.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, DenormalizedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetProductSchema = z.object({
   sku: z.string().describe('Product Abstract SKU to retrieve'),
 });
 
+const GetProductOutputSchema = ToolResultSchema.extend({
+  product: z.looseObject({
+    sku: z.string(),
+    name: z.string(),
+    description: z.string().nullable().optional(),
+    attributes: z.record(z.string(), z.unknown()).optional(),
+    url: z.string().optional(),
+  }),
+  concreteProducts: z.array(DenormalizedResourceSchema).describe('Variants of the product, the SKUs to add to a cart'),
+  images: z.array(DenormalizedResourceSchema),
+  availability: z.array(DenormalizedResourceSchema),
+  prices: z.array(DenormalizedResourceSchema),
+  categories: z.array(DenormalizedResourceSchema),
+});
+
 async function getProduct(args: z.infer<typeof GetProductSchema>) {
   const apiService = SprykerApiService.getInstance();
   
@@ -20,66 +43,22 @@ async function getProduct(args: z.infer<typeof GetProductSchema>) {
     logger.info('Retrieving product details', { sku: args.sku });
     
     // Get abstract product details
-    const response = await apiService.get<{
-      data: {
-        type: string;
-        id: string;
-        attributes: {
-          sku: string;
-          name: string;
-          description: string;
-          attributes: Record<string, any>;
-          superAttributesDefinition: string[];
-          attributeMap: Record<string, any>;
-          metaTitle: string;
-          metaKeywords: string;
-          metaDescription: string;
-          attributeNames: Record<string, string>;
-          url: string;
-        };
-        relationships?: {
-          'abstract-product-image-sets'?: {
-            data: Array<{
-              type: string;
-              id: string;
-            }>;
-          };
-          'abstract-product-availabilities'?: {
-            data: Array<{
-              type: string;
-              id: string;
-            }>;
-          };
-          'abstract-product-prices'?: {
-            data: Array<{
-              type: string;
-              id: string;
-            }>;
-          };
-          'category-nodes'?: {
-            data: Array<{
-              type: string;
-              id: string;
-            }>;
-          };
-        };
-      };
-      included?: Array<{
-        type: string;
-        id: string;
-        attributes: unknown;
-      }>;
-    }>(`abstract-products/${args.sku}?include=concrete-products,abstract-product-image-sets,abstract-product-availabilities,abstract-product-prices,category-nodes`);
+    const response = await apiService.get<JsonApiDocument<AbstractProductResource>>(
+      `abstract-products/${args.sku}?include=concrete-products,abstract-product-image-sets,abstract-product-availabilities,abstract-product-prices,category-nodes`
+    );
 
-    const product = response.data.data;
-    const included = response.data.included || [];
+    const document = new JsonApiResolver(response.data);
+    const product = document.primary()[0];
+    if (!product) {
+      throw new Error(`Product not found: ${args.sku}`);
+    }
 
     // Extract related data from included
-    const concreteProducts = included.filter(item => item.type === 'concrete-products');
-    const images = included.filter(item => item.type === 'abstract-product-image-sets');
-    const availability = included.filter(item => item.type === 'abstract-product-availabilities');
-    const prices = included.filter(item => item.type === 'abstract-product-prices');
-    const categories = included.filter(item => item.type === 'category-nodes');
+    const concreteProducts = document.ofType<ConcreteProductResource>('concrete-products');
+    const images = document.ofType('abstract-product-image-sets');
+    const availability = document.ofType('abstract-product-availabilities');
+    const prices = document.ofType('abstract-product-prices');
+    const categories = document.ofType('category-nodes');
 
     return {
       content: [{
@@ -100,26 +79,11 @@ async function getProduct(args: z.infer<typeof GetProductSchema>) {
             attributeMap: product.attributes.attributeMap,
             url: product.attributes.url,
           },
-          concreteProducts: concreteProducts.map(concrete => ({
-            id: concrete.id,
-            attributes: concrete.attributes,
-          })),
-          images: images.map(img => ({
-            id: img.id,
-            attributes: img.attributes,
-          })),
-          availability: availability.map(avail => ({
-            id: avail.id,
-            attributes: avail.attributes,
-          })),
-          prices: prices.map(price => ({
-            id: price.id,
-            attributes: price.attributes,
-          })),
-          categories: categories.map(cat => ({
-            id: cat.id,
-            attributes: cat.attributes,
-          })),
+          concreteProducts: concreteProducts.map(concrete => document.denormalize(concrete)),
+          images: images.map(img => document.denormalize(img)),
+          availability: availability.map(avail => document.denormalize(avail)),
+          prices: prices.map(price => document.denormalize(price)),
+          categories: categories.map(cat => document.denormalize(cat)),
         }, null, 2),
       }],
     };
@@ -127,26 +91,21 @@ async function getProduct(args: z.infer<typeof GetProductSchema>) {
   } catch (error) {
     logger.error('Get product failed', error as Error);
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve product',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          sku: args.sku,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve product', error, { sku: args.sku });
   }
 }
 
 export const getProductTool: SprykerTool = {
   name: 'get-product',
   description: 'Get detailed abstract product information by SKU including attributes, concrete products(to add to cart), images, pricing, and availability.',
+  annotations: {
+    title: 'Product Details',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(GetProductSchema) as any,
+  outputSchema: z.toJSONSchema(GetProductOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetProductSchema.parse(args);
     return await getProduct(validatedArgs);
@@ -0,0 +1,157 @@
+/**
+ * Get Products Batch Tool
+ *
+ * Retrieves several abstract or concrete products in one call. Lookups run
+ * with bounded concurrency through the single product tools, so every
+ * product has the same shape as in get-product or get-concrete-product.
+ */
+
+import { z } from 'zod';
+import { logger } from '../utils/logger.js';
+import { getProductTool } from './get-product.js';
+import { getConcreteProductTool } from './get-concrete-product.js';
+import { StoreSelectionSchema, withStoreSelection } from './store-selection.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorFields } from './error-result.js';
+import type { SprykerTool } from './types.js';
+
+const GetProductsBatchSchema = z.object({
+  skus: z.array(z.string().min(1)).min(1).max(50).describe('Product SKUs to retrieve (up to 50)'),
+  productType: z.enum(['abstract', 'concrete']).default('abstract').describe('Whether the SKUs are abstract products or concrete products (variants)'),
+  concurrency: z.number().int().min(1).max(10).default(5).describe('Maximum number of lookups running at the same time'),
+}).extend(StoreSelectionSchema.shape);
+
+const GetProductsBatchOutputSchema = ToolResultSchema.extend({
+  productType: z.enum(['abstract', 'concrete']),
+  requested: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  products: z.array(z.looseObject({ sku: z.string() })).describe('Products found, shaped like get-product or get-concrete-product results'),
+  errors: z.array(z.looseObject({
+    sku: z.string(),
+    error: z.string(),
+    errorCode: z.string().describe('Machine-readable error code, e.g. PRODUCT_NOT_FOUND'),
+    message: z.string(),
+    hint: z.string().describe('How to recover from the error'),
+    responseData: z.unknown().optional(),
+  })),
+});
+
+interface BatchError {
+  sku: string;
+  error: string;
+  errorCode: string;
+  message: string;
+  hint: string;
+  responseData: unknown;
+}
+
+/**
+ * Run a function for every item with at most `limit` calls in flight,
+ * returning the results in input order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Look up a single SKU, turning tool errors into a batch error entry
+ */
+async function lookup(tool: SprykerTool, sku: string): Promise<{ sku: string; data?: Record<string, unknown>; error?: BatchError }> {
+  try {
+    const result = await tool.handler({ sku });
+    const data = JSON.parse(result.content.map(item => item.text).join('\n')) as Record<string, unknown>;
+
+    if ('isError' in result && result.isError) {
+      return {
+        sku,
+        error: {
+          sku,
+          error: String(data['error'] || 'Failed to retrieve product'),
+          errorCode: String(data['errorCode'] || 'UNKNOWN_ERROR'),
+          message: String(data['message'] || 'Unknown error occurred'),
+          hint: String(data['hint'] || ''),
+          responseData: data['responseData'] ?? [],
+        },
+      };
+    }
+
+    delete data['success'];
+    delete data['message'];
+    return { sku, data };
+  } catch (error) {
+    return {
+      sku,
+      error: {
+        sku,
+        error: 'Failed to retrieve product',
+        ...errorFields(error),
+      },
+    };
+  }
+}
+
+async function getProductsBatch(args: z.infer<typeof GetProductsBatchSchema>) {
+  const tool = args.productType === 'concrete' ? getConcreteProductTool : getProductTool;
+  const skus = Array.from(new Set(args.skus));
+
+  logger.info('Retrieving products in batch', {
+    count: skus.length,
+    productType: args.productType,
+    concurrency: args.concurrency,
+  });
+
+  const results = await mapWithConcurrency(skus, args.concurrency, sku => lookup(tool, sku));
+
+  const products = results.flatMap(result => (result.data ? [{ sku: result.sku, ...result.data }] : []));
+  const errors = results.flatMap(result => (result.error ? [result.error] : []));
+
+  if (errors.length > 0) {
+    logger.warn('Some products could not be retrieved', { failed: errors.map(error => error.sku) });
+  }
+
+  return {
+    content: [{
+      type: 'text' as const,
+      text: JSON.stringify({
+        success: products.length > 0,
+        message: `Retrieved ${products.length} of ${skus.length} products`,
+        productType: args.productType,
+        requested: skus.length,
+        succeeded: products.length,
+        failed: errors.length,
+        products,
+        errors,
+      }, null, 2),
+    }],
+    ...(products.length === 0 ? { isError: true } : {}),
+  };
+}
+
+export const getProductsBatchTool: SprykerTool = {
+  name: 'get-products-batch',
+  description: 'Get several abstract or concrete products by SKU in one call. Returns the products found and a per-SKU error for each SKU that could not be retrieved. Prefer this over repeated get-product or get-concrete-product calls.',
+  annotations: {
+    title: 'Products Batch',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
+  inputSchema: z.toJSONSchema(GetProductsBatchSchema) as any,
+  outputSchema: z.toJSONSchema(GetProductsBatchOutputSchema) as any,
+  handler: async (args: Record<string, unknown>) => {
+    const validatedArgs = GetProductsBatchSchema.parse(args);
+    return await withStoreSelection(validatedArgs, () => getProductsBatch(validatedArgs));
+  },
+};
@@ -5,40 +5,49 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import {
+  JsonApiResolver,
+  type JsonApiDocument,
+  type WishlistItemResource,
+  type WishlistResource,
+} from '../services/json-api/index.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, DenormalizedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GetWishlistsSchema = z.object({
-  token: z.string().describe('Customer access token (wishlists require a registered customer)'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   wishlistUuid: z
     .string()
     .optional()
     .describe('Specific wishlist UUID to retrieve with its items. If omitted, all wishlists are returned.'),
 });
 
+const GetWishlistsOutputSchema = ToolResultSchema.extend({
+  wishlists: z.array(DenormalizedResourceSchema),
+  items: z.array(DenormalizedResourceSchema),
+});
+
 async function getWishlists(args: z.infer<typeof GetWishlistsSchema>) {
   const apiService = SprykerApiService.getInstance();
 
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
+
     logger.info('Retrieving wishlists', { wishlistUuid: args.wishlistUuid || 'all' });
 
     const endpoint = args.wishlistUuid
       ? `wishlists/${args.wishlistUuid}?include=wishlist-items`
       : 'wishlists';
 
-    const response = await apiService.get<{
-      data: Array<{ type: string; id: string; attributes: Record<string, unknown> }> | {
-        type: string;
-        id: string;
-        attributes: Record<string, unknown>;
-      };
-      included?: Array<{ type: string; id: string; attributes: unknown }>;
-    }>(endpoint, args.token);
+    const response = await apiService.get<JsonApiDocument<WishlistResource | WishlistResource[]>>(endpoint, accessToken);
 
-    const data = response.data.data;
-    const wishlists = Array.isArray(data) ? data : data ? [data] : [];
-    const items = (response.data.included || []).filter(item => item.type === 'wishlist-items');
+    const document = new JsonApiResolver(response.data);
+    const wishlists = document.primary();
+    const items = document.ofType<WishlistItemResource>('wishlist-items');
 
     return {
       content: [{
@@ -46,33 +55,29 @@ async function getWishlists(args: z.infer<typeof GetWishlistsSchema>) {
         text: JSON.stringify({
           success: response.status === 200,
           message: 'Wishlists retrieved successfully',
-          wishlists: wishlists.map(w => ({ id: w.id, attributes: w.attributes })),
-          items: items.map(i => ({ id: i.id, attributes: i.attributes })),
+          wishlists: wishlists.map(wishlist => document.denormalize(wishlist)),
+          items: items.map(item => document.denormalize(item)),
         }, null, 2),
       }],
     };
   } catch (error) {
     logger.error('Get wishlists failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve wishlists',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve wishlists', error);
   }
 }
 
 export const getWishlistsTool: SprykerTool = {
   name: 'get-wishlists',
   description: 'Get a registered customer\'s wishlists, or a single wishlist with its items when a UUID is given.',
+  annotations: {
+    title: 'Get Wishlists',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'customer:read',
   inputSchema: z.toJSONSchema(GetWishlistsSchema) as any,
+  outputSchema: z.toJSONSchema(GetWishlistsOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GetWishlistsSchema.parse(args);
     return await getWishlists(validatedArgs);
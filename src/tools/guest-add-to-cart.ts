@@ -5,21 +5,30 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, JsonApiDocumentSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const GuestAddToCartSchema = z.object({
   sku: z.string().describe('Product Concrete SKU to add to cart'),
   quantity: z.number().min(1).default(1).describe('Quantity to add'),
-  token: z.string().describe('Guest customer unique ID (token provide by authentication)'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
+});
+
+const GuestAddToCartOutputSchema = ToolResultSchema.extend({
+  cart: JsonApiDocumentSchema.optional(),
 });
 
 async function guestAddToCart(args: z.infer<typeof GuestAddToCartSchema>) {
   const apiService = SprykerApiService.getInstance();
   
   try {
-    logger.info('Adding product to guest cart', { sku: args.sku, quantity: args.quantity, token: args.token });
+    const { accessToken } = sessionVault.resolve(args.session);
+
+    logger.info('Adding product to guest cart', { sku: args.sku, quantity: args.quantity });
     
     // Use simple post method like JavaScript version
     const response = await apiService.post(
@@ -33,7 +42,7 @@ async function guestAddToCart(args: z.infer<typeof GuestAddToCartSchema>) {
           }
         }
       },
-      args.token
+      accessToken
     );
 
     return {
@@ -42,7 +51,6 @@ async function guestAddToCart(args: z.infer<typeof GuestAddToCartSchema>) {
         text: JSON.stringify({
           success: true,
           cart: response.data,
-          token: args.token,
           message: `Added ${args.quantity} x ${args.sku} to guest cart`
         }, null, 2)
       }]
@@ -50,24 +58,23 @@ async function guestAddToCart(args: z.infer<typeof GuestAddToCartSchema>) {
   } catch (error: unknown) {
     logger.error('Failed to add product to guest cart', { error, sku: args.sku });
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : 'Failed to add item to guest cart',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2)
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to add item to guest cart', error);
   }
 }
 
 export const guestAddToCartTool: SprykerTool = {
   name: 'guest-add-to-cart',
   description: 'Adds a Concrete Product to guest cart for anonymous checkout',
+  annotations: {
+    title: 'Guest Add to Cart',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'cart:write',
   inputSchema: z.toJSONSchema(GuestAddToCartSchema) as any,
+  outputSchema: z.toJSONSchema(GuestAddToCartOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = GuestAddToCartSchema.parse(args);
     return await guestAddToCart(validatedArgs);
@@ -7,8 +7,15 @@
  */
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { ListToolsRequestSchema, Tool } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { declareSensitiveFields } from '../utils/redaction.js';
+import { tracer, traceRequestHandler } from '../services/tracing/index.js';
+import { toolCallDuration, toolCalls } from '../services/metrics.js';
+import { auditTrail, collectGlueRequests, type GlueRequestRecord } from '../services/audit-trail.js';
+import { grantsScope, requireScope } from '../services/auth/scopes.js';
 
 // Import tool implementations
 import { productSearchTool } from './product-search.js';
@@ -16,6 +23,7 @@ import { addToCartTool } from './add-to-cart.js';
 import { guestAddToCartTool } from './guest-add-to-cart.js';
 import { getCartTool } from './get-cart.js';
 import { checkoutTool } from './checkout.js';
+import { checkoutPreviewTool } from './checkout-preview.js';
 import { authenticateTool } from './authenticate.js';
 import { getProductTool } from './get-product.js';
 import { removeFromCartTool } from './remove-from-cart.js';
@@ -23,6 +31,7 @@ import { updateCartItemTool } from './update-cart-item.js';
 import { getOrderTool } from './get-order.js';
 import { getCheckoutDataTool } from './get-checkout-data.js';
 import { getConcreteProductTool } from './get-concrete-product.js';
+import { getProductsBatchTool } from './get-products-batch.js';
 import { getProductAvailabilityTool } from './get-product-availability.js';
 import { getProductPricesTool } from './get-product-prices.js';
 import { getProductReviewsTool } from './get-product-reviews.js';
@@ -37,6 +46,8 @@ import { addToWishlistTool } from './add-to-wishlist.js';
 import { wishlistToCartTool } from './wishlist-to-cart.js';
 import { registerCustomerTool } from './register-customer.js';
 import { refreshTokenTool } from './refresh-token.js';
+import { selectStoreTool } from './select-store.js';
+import { getAuditLogTool } from './get-audit-log.js';
 import {
   getAddressesTool,
   addAddressTool,
@@ -45,6 +56,8 @@ import {
 } from './customer-addresses.js';
 
 import { SprykerTool } from './types.js';
+import { formatToolResult, splitResponseFormat, withResponseFormatProperties } from './response-format.js';
+import { withStructuredContent } from './output-schemas.js';
 
 /**
  * Tool registry class for managing MCP tools
@@ -61,17 +74,23 @@ export class ToolRegistry {
     }
     
     this.tools.set(tool.name, tool);
+    if (tool.sensitiveFields) {
+      declareSensitiveFields(tool.name, tool.sensitiveFields);
+    }
     logger.debug(`Registered tool: ${tool.name}`);
   }
 
   /**
-   * Get all registered tools
+   * Get all registered tools, or those an access token grants the scope of
    */
-  getTools(): Tool[] {
-    return Array.from(this.tools.values()).map(tool => ({
+  getTools(auth?: AuthInfo): Tool[] {
+    return Array.from(this.tools.values()).filter(tool => grantsScope(auth, tool.scope)).map(tool => ({
       name: tool.name,
       description: tool.description,
-      inputSchema: tool.inputSchema,
+      title: tool.annotations.title,
+      inputSchema: withResponseFormatProperties(tool.inputSchema),
+      ...(tool.outputSchema ? { outputSchema: tool.outputSchema } : {}),
+      annotations: tool.annotations,
     }));
   }
 
@@ -83,7 +102,11 @@ export class ToolRegistry {
   }
 
   /**
-   * Execute a tool with error handling and logging
+   * Execute a tool with error handling and logging. Results get structured
+   * content when the tool declares an output schema; the response format
+   * options of the arguments shape it like the text. Calls of tools that are
+   * not read-only are recorded in the audit trail. The access token of the
+   * call must grant the scope of the tool.
    */
   async callTool(name: string, args: Record<string, unknown>) {
     const tool = this.getTool(name);
@@ -91,21 +114,93 @@ export class ToolRegistry {
     if (!tool) {
       throw new Error(`Unknown tool: ${name}`);
     }
+    requireScope(tool.scope, `Tool ${name}`);
     
-    logger.debug(`Executing tool: ${name}`, { args });
-    
-    const startTime = Date.now();
-    const result = await tool.handler(args);
-    const duration = Date.now() - startTime;
+    logger.debug(`Executing tool: ${name}`, { tool: name, args });
     
-    logger.info(`Tool ${name} executed successfully`, { duration });
-    return result;
+    const { format, toolArgs } = splitResponseFormat(tool, args);
+
+    return tracer.startActiveSpan(`execute_tool ${name}`, {
+      attributes: {
+        'gen_ai.operation.name': 'execute_tool',
+        'gen_ai.tool.name': name,
+      },
+    }, async span => {
+      const startTime = Date.now();
+      let outcome = 'error';
+      const glueRequests: GlueRequestRecord[] = [];
+      let result: Awaited<ReturnType<SprykerTool['handler']>> | undefined;
+      let thrown: unknown;
+      try {
+        result = await collectGlueRequests(glueRequests, () => tool.handler(toolArgs));
+        const duration = Date.now() - startTime;
+
+        if (result.isError) {
+          span.setStatus({ code: 'error', message: 'Tool returned an error result' });
+        } else {
+          outcome = 'success';
+        }
+        span.setAttributes({ 'mcp.tool.is_error': result.isError === true });
+
+        logger.info(`Tool ${name} executed successfully`, { duration });
+        return formatToolResult(withStructuredContent(tool, result, format), format);
+      } catch (error) {
+        thrown = error;
+        throw error;
+      } finally {
+        toolCalls.inc({ tool: name, outcome });
+        toolCallDuration.observe({ tool: name }, (Date.now() - startTime) / 1000);
+        if (!tool.annotations.readOnlyHint) {
+          await this.audit(name, toolArgs, result, thrown, glueRequests);
+        }
+      }
+    });
   }
 
   /**
-   * Register all tools with the MCP server
+   * Record the call of a state-changing tool in the audit trail. A failed
+   * write is logged; the result of the call is returned anyway.
    */
-  registerAll(server: Server): void {
+  private async audit(
+    name: string,
+    args: Record<string, unknown>,
+    result: Awaited<ReturnType<SprykerTool['handler']>> | undefined,
+    thrown: unknown,
+    glueRequests: GlueRequestRecord[]
+  ): Promise<void> {
+    if (!auditTrail.enabled) {
+      return;
+    }
+
+    let parsed: Record<string, unknown> | undefined;
+    try {
+      const json: unknown = result ? JSON.parse(result.content.map(item => item.text).join('\n')) : undefined;
+      parsed = typeof json === 'object' && json !== null && !Array.isArray(json) ? json as Record<string, unknown> : undefined;
+    } catch {
+      // Results that are not JSON only tell the outcome
+    }
+    const errorCode = parsed?.errorCode ?? (thrown as { code?: unknown } | undefined)?.code;
+
+    try {
+      await auditTrail.record({
+        tool: name,
+        args,
+        ...(parsed ? { result: parsed } : {}),
+        outcome: result && !result.isError && parsed?.success !== false ? 'success' : 'error',
+        ...(typeof errorCode === 'string' ? { errorCode } : {}),
+        glueRequests,
+      });
+    } catch (error) {
+      logger.error(`Failed to record ${name} in the audit trail`, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Register all tools with the MCP server. In read-only mode only tools
+   * that change nothing in the shop are registered, so the others can
+   * neither be listed nor called.
+   */
+  registerAll(server: Server, readOnly = config.mcp.readOnly): void {
     logger.info('Registering MCP tools...');
     
     // Register individual tools
@@ -114,6 +209,7 @@ export class ToolRegistry {
       addToCartTool,
       guestAddToCartTool,
       getCartTool,
+      checkoutPreviewTool,
       checkoutTool,
       authenticateTool,
       getProductTool,
@@ -122,6 +218,7 @@ export class ToolRegistry {
       getOrderTool,
       getCheckoutDataTool,
       getConcreteProductTool,
+      getProductsBatchTool,
       getProductAvailabilityTool,
       getProductPricesTool,
       getProductReviewsTool,
@@ -136,22 +233,26 @@ export class ToolRegistry {
       wishlistToCartTool,
       registerCustomerTool,
       refreshTokenTool,
+      selectStoreTool,
       getAddressesTool,
       addAddressTool,
       updateAddressTool,
       deleteAddressTool,
+      ...(config.audit.tool ? [getAuditLogTool] : []),
     ];
     
-    tools.forEach(tool => this.registerTool(tool));
+    tools
+      .filter(tool => !readOnly || tool.annotations.readOnlyHint)
+      .forEach(tool => this.registerTool(tool));
     
     // Set up MCP server handlers
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      const tools = this.getTools();
+    server.setRequestHandler(ListToolsRequestSchema, traceRequestHandler(async (_request, extra) => {
+      const tools = this.getTools(extra?.authInfo);
       logger.debug(`Returning ${tools.length} tools`);
       return { tools };
-    });
+    }));
     
-    logger.info(`Successfully registered ${this.tools.size} tools`);
+    logger.info(`Successfully registered ${this.tools.size} tools${readOnly ? ' (read-only mode)' : ''}`);
   }
 }
 
@@ -0,0 +1,100 @@
+/**
+ * Output schemas
+ *
+ * Shared building blocks of the tools' output schemas, and the structured
+ * content returned next to the JSON text of tools that declare one.
+ */
+
+import { z } from 'zod';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import type { JsonSchemaType, JsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/types.js';
+import { logger } from '../utils/logger.js';
+import { shapeResult, type ResponseFormat } from './response-format.js';
+import type { SprykerTool } from './types.js';
+
+type ToolResult = Awaited<ReturnType<SprykerTool['handler']>>;
+
+const validator = new AjvJsonSchemaValidator();
+
+/**
+ * Compiled output schemas, by the schema of the tool
+ */
+const validators = new WeakMap<object, JsonSchemaValidator<unknown>>();
+
+/**
+ * Fields of every tool result
+ */
+export const ToolResultSchema = z.looseObject({
+  success: z.boolean().describe('Whether the operation succeeded'),
+  message: z.string().optional().describe('Outcome of the operation'),
+});
+
+/**
+ * A Glue resource with its raw attributes
+ */
+export const AttributedResourceSchema = z.looseObject({
+  id: z.string().nullable(),
+  attributes: z.unknown().optional(),
+});
+
+/**
+ * A Glue resource flattened into its id, attributes and related resources
+ */
+export const DenormalizedResourceSchema = z.looseObject({
+  id: z.string(),
+});
+
+/**
+ * A Glue JSON:API document as returned by the API
+ */
+export const JsonApiDocumentSchema = z.looseObject({
+  data: z.unknown().optional(),
+  included: z.array(AttributedResourceSchema).optional(),
+});
+
+/**
+ * Whether a value conforms to the output schema of a tool
+ */
+function conformsToOutputSchema(outputSchema: NonNullable<SprykerTool['outputSchema']>, value: unknown): boolean {
+  let validate = validators.get(outputSchema);
+  if (!validate) {
+    validate = validator.getValidator(outputSchema as JsonSchemaType);
+    validators.set(outputSchema, validate);
+  }
+  return validate(value).valid;
+}
+
+/**
+ * Add the parsed JSON text of a successful result as structured content,
+ * for tools that declare an output schema, shaped by the verbosity and
+ * fields of the response format like the text. A shaped result that no
+ * longer matches the output schema, e.g. because a required field was
+ * projected away, is added complete instead. Error results carry no
+ * structured content, as they do not follow the output schema.
+ */
+export function withStructuredContent(tool: SprykerTool, result: ToolResult, format: ResponseFormat = { verbosity: 'full' }): ToolResult {
+  const { outputSchema } = tool;
+  if (!outputSchema || result.isError || result.structuredContent) {
+    return result;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(result.content.map(item => item.text).join('\n'));
+  } catch {
+    // Tools declaring an output schema return JSON; anything else stays text only
+    return result;
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return result;
+  }
+
+  const shaped = shapeResult(parsed, format);
+  if (shaped !== parsed && !conformsToOutputSchema(outputSchema, shaped)) {
+    logger.debug(`Shaped result of ${tool.name} does not match its output schema, returning complete structured content`, { tool: tool.name });
+    return { ...result, structuredContent: parsed as Record<string, unknown> };
+  }
+
+  return { ...result, structuredContent: shaped as Record<string, unknown> };
+}
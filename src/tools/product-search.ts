@@ -6,8 +6,11 @@
  */
 
 import { z} from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import { storeContext } from '../services/store-context.js';
 import { logger } from '../utils/logger.js';
+import { StoreSelectionSchema, withStoreSelection } from './store-selection.js';
+import { errorFields } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 /**
@@ -31,6 +34,30 @@ const ProductSearchSchema = z.object({
   sort: z.string().describe('Sort parameter name to use for sorting results').optional(),
   ipp: z.number().min(1).max(100).default(20).describe('Number of results to return'),
   page: z.number().min(0).default(0).describe('Result offset for pagination'),
+}).extend(StoreSelectionSchema.shape);
+
+const ProductSearchOutputSchema = z.looseObject({
+  products: z.array(z.looseObject({
+    sku: z.string(),
+    name: z.string(),
+    price: z.number().nullable().optional(),
+    priceFormatted: z.string().optional(),
+    images: z.array(z.unknown()).optional(),
+  })),
+  pagination: z.looseObject({
+    total: z.number(),
+    count: z.number(),
+    ipp: z.number().optional(),
+    page: z.number().optional(),
+    currentPage: z.number().optional(),
+    maxPage: z.number().optional(),
+  }),
+  sort: z.unknown().optional(),
+  valueFacets: z.array(z.unknown()).optional(),
+  rangeFacets: z.array(z.unknown()).optional(),
+  query: z.record(z.string(), z.unknown()).optional(),
+  error: z.string().optional().describe('Set when the search returned no results or failed'),
+  message: z.string().optional(),
 });
 
 type ProductSearchInput = z.infer<typeof ProductSearchSchema>;
@@ -60,6 +87,15 @@ async function searchProducts(args: ProductSearchInput) {
     queryParams['page[limit]'] = args.ipp.toString();
     queryParams['page[offset]'] = (args.page * args.ipp).toString();
 
+    // Add currency and price mode of the selected store
+    const { currency, priceMode } = storeContext.resolve();
+    if (currency) {
+      queryParams['currency'] = currency;
+    }
+    if (priceMode) {
+      queryParams['priceMode'] = priceMode;
+    }
+
     // Add sorting parameter if specified
     if (args.sort) {
       queryParams['sort'] = args.sort.toString();
@@ -242,8 +278,7 @@ async function searchProducts(args: ProductSearchInput) {
         type: 'text' as const,
         text: JSON.stringify({
           error: 'Product search failed',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
+          ...errorFields(error),
           products: [],
           pagination: { total: 0, count: 0, ipp: args.ipp, page: args.page },
           sort: [],
@@ -262,9 +297,16 @@ async function searchProducts(args: ProductSearchInput) {
 export const productSearchTool: SprykerTool = {
   name: 'product-search',
   description: 'Search for abstract products catalog with filters and pagination',
+  annotations: {
+    title: 'Product Search',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(ProductSearchSchema) as any,
+  outputSchema: z.toJSONSchema(ProductSearchOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = ProductSearchSchema.parse(args);
-    return await searchProducts(validatedArgs);
+    return await withStoreSelection(validatedArgs, () => searchProducts(validatedArgs));
   },
 };
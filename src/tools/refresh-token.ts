@@ -1,16 +1,25 @@
 /**
  * Refresh Token Tool
  *
- * Exchanges a refresh token for a new access token.
+ * Exchanges the session's refresh token for a new access token. Tokens are
+ * also refreshed automatically by the API service; this tool forces it.
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const RefreshTokenSchema = z.object({
-  refreshToken: z.string().describe('Refresh token obtained from a previous authentication'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
+});
+
+const RefreshTokenOutputSchema = ToolResultSchema.extend({
+  tokenType: z.string(),
+  expiresIn: z.number(),
 });
 
 async function refreshToken(args: z.infer<typeof RefreshTokenSchema>) {
@@ -19,25 +28,20 @@ async function refreshToken(args: z.infer<typeof RefreshTokenSchema>) {
   try {
     logger.info('Refreshing access token');
 
-    const response = await apiService.post<{
-      data: {
-        type: string;
-        id: string;
-        attributes: {
-          tokenType: string;
-          expiresIn: number;
-          accessToken: string;
-          refreshToken: string;
-        };
-      };
-    }>('refresh-tokens', {
-      data: {
-        type: 'refresh-tokens',
-        attributes: { refreshToken: args.refreshToken },
-      },
-    });
+    const credentials = sessionVault.resolve(args.session);
 
-    const tokenData = response.data.data.attributes;
+    if (!credentials.refreshToken) {
+      throw new Error('The session has no refresh token. Call the authenticate tool with customer credentials.');
+    }
+
+    // Refresh through the API service so its automatic refresh tracking stays in sync
+    const tokenData = await apiService.refreshAccessToken(credentials.accessToken);
+    sessionVault.update(args.session, {
+      accessToken: tokenData.accessToken,
+      tokenType: tokenData.tokenType,
+      refreshToken: tokenData.refreshToken,
+      expiresIn: tokenData.expiresIn,
+    });
 
     return {
       content: [{
@@ -46,8 +50,6 @@ async function refreshToken(args: z.infer<typeof RefreshTokenSchema>) {
           success: true,
           message: 'Access token refreshed successfully',
           tokenType: tokenData.tokenType,
-          accessToken: tokenData.accessToken,
-          refreshToken: tokenData.refreshToken,
           expiresIn: tokenData.expiresIn,
         }, null, 2),
       }],
@@ -55,25 +57,23 @@ async function refreshToken(args: z.infer<typeof RefreshTokenSchema>) {
   } catch (error) {
     logger.error('Refresh token failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to refresh access token',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to refresh access token', error);
   }
 }
 
 export const refreshTokenTool: SprykerTool = {
   name: 'refresh-token',
-  description: 'Exchange a refresh token for a new access token.',
+  description: 'Refresh the access token of an authenticated customer session.',
+  annotations: {
+    title: 'Refresh Token',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(RefreshTokenSchema) as any,
+  outputSchema: z.toJSONSchema(RefreshTokenOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = RefreshTokenSchema.parse(args);
     return await refreshToken(validatedArgs);
@@ -5,8 +5,10 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, JsonApiDocumentSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const RegisterCustomerSchema = z.object({
@@ -20,6 +22,10 @@ const RegisterCustomerSchema = z.object({
   acceptedTerms: z.boolean().default(true).describe('Whether the customer accepted the terms and conditions'),
 });
 
+const RegisterCustomerOutputSchema = ToolResultSchema.extend({
+  customer: JsonApiDocumentSchema.optional(),
+});
+
 async function registerCustomer(args: z.infer<typeof RegisterCustomerSchema>) {
   const apiService = SprykerApiService.getInstance();
 
@@ -55,25 +61,24 @@ async function registerCustomer(args: z.infer<typeof RegisterCustomerSchema>) {
   } catch (error) {
     logger.error('Register customer failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to register customer',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to register customer', error);
   }
 }
 
 export const registerCustomerTool: SprykerTool = {
   name: 'register-customer',
   description: 'Register a new customer account.',
+  annotations: {
+    title: 'Register Customer',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'customer:write',
   inputSchema: z.toJSONSchema(RegisterCustomerSchema) as any,
+  outputSchema: z.toJSONSchema(RegisterCustomerOutputSchema) as any,
+  sensitiveFields: ['email', 'password', 'confirmPassword', 'firstName', 'lastName', 'salutation', 'gender'],
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = RegisterCustomerSchema.parse(args);
     return await registerCustomer(validatedArgs);
@@ -5,66 +5,78 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import { sessionVault, type SessionCredentials } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { ConfirmationTokenSchema, withConfirmation } from './confirmation.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const RemoveCartVoucherSchema = z.object({
-  token: z.string().describe('Customer access token or guest customer unique ID'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   cartId: z.string().describe('ID of the cart to remove the voucher from'),
   code: z.string().describe('Voucher / discount code to remove'),
+  confirmationToken: ConfirmationTokenSchema,
 });
 
-function isGuest(token: string): boolean {
-  return token.startsWith('guest-');
+const RemoveCartVoucherOutputSchema = ToolResultSchema.extend({
+  cartId: z.string(),
+  code: z.string(),
+});
+
+function isGuest(credentials: SessionCredentials): boolean {
+  return credentials.userType === 'guest';
 }
 
 async function removeCartVoucher(args: z.infer<typeof RemoveCartVoucherSchema>) {
   const apiService = SprykerApiService.getInstance();
 
   try {
-    logger.info('Removing voucher from cart', { cartId: args.cartId, code: args.code });
+    const credentials = sessionVault.resolve(args.session);
 
-    const base = isGuest(args.token) ? 'guest-carts' : 'carts';
+    const base = isGuest(credentials) ? 'guest-carts' : 'carts';
     const endpoint = `${base}/${args.cartId}/vouchers/${encodeURIComponent(args.code)}`;
+    const summary = `Remove the voucher ${args.code} from cart ${args.cartId}; its discount no longer applies.`;
+    const request = { cartId: args.cartId, code: args.code };
 
-    await apiService.delete(endpoint, args.token);
+    return await withConfirmation({ tool: 'remove-cart-voucher', summary, request }, args.confirmationToken, async () => {
+      logger.info('Removing voucher from cart', { cartId: args.cartId, code: args.code });
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: true,
-          message: 'Voucher removed successfully',
-          cartId: args.cartId,
-          code: args.code,
-        }, null, 2),
-      }],
-    };
+      await apiService.delete(endpoint, credentials.accessToken);
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            success: true,
+            message: 'Voucher removed successfully',
+            cartId: args.cartId,
+            code: args.code,
+          }, null, 2),
+        }],
+      };
+    });
   } catch (error) {
     logger.error('Remove voucher failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to remove voucher',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          cartId: args.cartId,
-          code: args.code,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to remove voucher', error, { cartId: args.cartId, code: args.code });
   }
 }
 
 export const removeCartVoucherTool: SprykerTool = {
   name: 'remove-cart-voucher',
-  description: 'Remove a discount/voucher code from a registered or guest cart.',
+  description: 'Remove a discount/voucher code from a registered or guest cart, once the user confirmed it.',
+  annotations: {
+    title: 'Remove Cart Voucher',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scope: 'cart:write',
   inputSchema: z.toJSONSchema(RemoveCartVoucherSchema) as any,
+  outputSchema: z.toJSONSchema(RemoveCartVoucherOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = RemoveCartVoucherSchema.parse(args);
     return await removeCartVoucher(validatedArgs);
@@ -3,69 +3,85 @@
  */
 
 import { z } from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { ConfirmationTokenSchema, withConfirmation } from './confirmation.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const RemoveFromCartSchema = z.object({
-  token: z.string().describe('Customer access token or guest token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   cartId: z.string().describe('ID of the cart containing the item'),
   itemId: z.string().describe('ID of the item to remove from cart'),
+  confirmationToken: ConfirmationTokenSchema,
+});
+
+const RemoveFromCartOutputSchema = ToolResultSchema.extend({
+  cartId: z.string(),
+  removedItemId: z.string(),
+  cart: z.unknown().optional(),
 });
 
 async function removeFromCart(args: z.infer<typeof RemoveFromCartSchema>) {
   const apiService = SprykerApiService.getInstance();
   
   try {
-    logger.info('Removing item from cart', { 
-      cartId: args.cartId, 
-      itemId: args.itemId 
-    });
-    
-    // Remove item from cart
-    const response = await apiService.delete<{
-      data: {
-        type: string;
-        id: string;
-        attributes: Record<string, unknown>;
-      };
-    }>(`carts/${args.cartId}/items/${args.itemId}`, args.token);
+    const { accessToken } = sessionVault.resolve(args.session);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: true,
-          message: 'Item removed from cart successfully',
-          cartId: args.cartId,
-          removedItemId: args.itemId,
-          cart: response.data.data,
-        }, null, 2),
-      }],
-    };
+    const summary = `Remove item ${args.itemId} from cart ${args.cartId}.`;
+    const request = { cartId: args.cartId, itemId: args.itemId };
+
+    return await withConfirmation({ tool: 'remove-from-cart', summary, request }, args.confirmationToken, async () => {
+      logger.info('Removing item from cart', { 
+        cartId: args.cartId, 
+        itemId: args.itemId 
+      });
+      
+      // Remove item from cart
+      const response = await apiService.delete<{
+        data: {
+          type: string;
+          id: string;
+          attributes: Record<string, unknown>;
+        };
+      }>(`carts/${args.cartId}/items/${args.itemId}`, accessToken);
+
+      return {
+        content: [{
+          type: 'text' as const,
+          text: JSON.stringify({
+            success: true,
+            message: 'Item removed from cart successfully',
+            cartId: args.cartId,
+            removedItemId: args.itemId,
+            cart: response.data.data,
+          }, null, 2),
+        }],
+      };
+    });
     
   } catch (error) {
     logger.error('Failed to remove item from cart', error as Error);
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to remove item from cart',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to remove item from cart', error);
   }
 }
 
 export const removeFromCartTool: SprykerTool = {
   name: 'remove-from-cart',
-  description: 'Remove an item from the shopping cart',
+  description: 'Remove an item from the shopping cart, once the user confirmed it',
+  annotations: {
+    title: 'Remove from Cart',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scope: 'cart:write',
   inputSchema: z.toJSONSchema(RemoveFromCartSchema) as any,
+  outputSchema: z.toJSONSchema(RemoveFromCartOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = RemoveFromCartSchema.parse(args);
     return await removeFromCart(validatedArgs);
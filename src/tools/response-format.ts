@@ -0,0 +1,296 @@
+/**
+ * Response formatting
+ *
+ * Shapes the JSON results of tools to save tokens. `verbosity` drops empty
+ * and verbose fields, `fields` projects a result to the given paths and
+ * `format: markdown` renders listings such as products and cart items as
+ * tables. Results that are not JSON are passed through unchanged.
+ */
+
+import { z } from 'zod';
+import { config } from '../config/index.js';
+import type { SprykerTool } from './types.js';
+
+export const ResponseFormatSchema = z.object({
+  verbosity: z.enum(['minimal', 'standard', 'full']).optional().describe('Level of detail: minimal also drops verbose fields such as images, facets and descriptions, standard drops empty fields, full returns everything (defaults to the server setting)'),
+  fields: z.array(z.string().min(1)).optional().describe('Only return these fields, as dot-separated paths into the result, e.g. ["products.sku", "products.price", "pagination.total"]'),
+  format: z.enum(['json', 'markdown']).optional().describe('Return JSON, or Markdown with tables for listings such as products and cart items (default: json)'),
+});
+
+export type ResponseFormat = z.infer<typeof ResponseFormatSchema>;
+
+export type Verbosity = NonNullable<ResponseFormat['verbosity']>;
+
+type ToolResult = Awaited<ReturnType<SprykerTool['handler']>>;
+
+/**
+ * Fields dropped at minimal verbosity unless explicitly requested with `fields`
+ */
+const VERBOSE_FIELDS = new Set([
+  'images',
+  'imageSets',
+  'valueFacets',
+  'rangeFacets',
+  'categoryTreeFilter',
+  'sort',
+  'description',
+  'metaTitle',
+  'metaKeywords',
+  'metaDescription',
+  'attributeNames',
+  'attributeMap',
+  'superAttributesDefinition',
+  'query',
+  'links',
+]);
+
+/**
+ * Top-level fields kept by every projection so failures stay visible
+ */
+const ALWAYS_PROJECTED = ['success', 'error', 'message'];
+
+/**
+ * Listings wider than this are cut to the first columns
+ */
+const MAX_TABLE_COLUMNS = 10;
+
+const RESPONSE_FORMAT_PROPERTIES = (z.toJSONSchema(ResponseFormatSchema) as { properties: Record<string, object> }).properties;
+
+interface FieldTree {
+  [field: string]: FieldTree;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Add the response format options to the input schema of a tool, unless
+ * the tool defines an argument of the same name itself
+ */
+export function withResponseFormatProperties(inputSchema: SprykerTool['inputSchema']): SprykerTool['inputSchema'] {
+  return {
+    ...inputSchema,
+    properties: { ...RESPONSE_FORMAT_PROPERTIES, ...inputSchema.properties },
+  };
+}
+
+/**
+ * Split the response format options from the arguments meant for the tool
+ */
+export function splitResponseFormat(
+  tool: SprykerTool,
+  args: Record<string, unknown>
+): { format: ResponseFormat; toolArgs: Record<string, unknown> } {
+  const toolArgs: Record<string, unknown> = {};
+  const formatArgs: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(args)) {
+    if (key in RESPONSE_FORMAT_PROPERTIES && !(key in tool.inputSchema.properties)) {
+      formatArgs[key] = value;
+    } else {
+      toolArgs[key] = value;
+    }
+  }
+
+  return { format: ResponseFormatSchema.parse(formatArgs), toolArgs };
+}
+
+/**
+ * Recursively drop null, empty strings, empty lists and empty objects, and
+ * at minimal verbosity the verbose fields
+ */
+function prune(value: unknown, dropVerbose: boolean): unknown {
+  if (Array.isArray(value)) {
+    const items = value.map(item => prune(item, dropVerbose)).filter(item => item !== undefined);
+    return items.length > 0 ? items : undefined;
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+      .filter(([key]) => !(dropVerbose && VERBOSE_FIELDS.has(key)))
+      .map(([key, child]) => [key, prune(child, dropVerbose)] as const)
+      .filter(([, child]) => child !== undefined);
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+
+  return value === null || value === '' ? undefined : value;
+}
+
+function buildFieldTree(fields: string[]): FieldTree {
+  const tree: FieldTree = {};
+  for (const field of fields) {
+    let node = tree;
+    for (const segment of field.split('.').filter(Boolean)) {
+      node = node[segment] ??= {};
+    }
+  }
+  return tree;
+}
+
+/**
+ * Keep only the fields of the tree; lists are projected item by item
+ */
+function project(value: unknown, tree: FieldTree): unknown {
+  if (Object.keys(tree).length === 0) {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => project(item, tree));
+  }
+
+  if (!isPlainObject(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, subtree] of Object.entries(tree)) {
+    if (key in value) {
+      result[key] = project(value[key], subtree);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply verbosity and field projection to a parsed tool result
+ */
+export function shapeResponse(value: unknown, options: { verbosity: Verbosity; fields?: string[] | undefined }): unknown {
+  let shaped = value;
+
+  if (options.fields && options.fields.length > 0) {
+    const tree = buildFieldTree(options.fields);
+    if (isPlainObject(value)) {
+      ALWAYS_PROJECTED.forEach(field => {
+        tree[field] ??= {};
+      });
+    }
+    shaped = project(value, tree);
+  }
+
+  if (options.verbosity === 'full') {
+    return shaped;
+  }
+
+  // Explicitly requested fields are never dropped as verbose
+  const dropVerbose = options.verbosity === 'minimal' && !options.fields?.length;
+  return prune(shaped, dropVerbose) ?? (Array.isArray(shaped) ? [] : {});
+}
+
+/**
+ * Apply the verbosity and fields of a response format to a parsed tool
+ * result, at the server verbosity unless the format sets one
+ */
+export function shapeResult(value: unknown, format: ResponseFormat): unknown {
+  return shapeResponse(value, { verbosity: format.verbosity ?? config.mcp.responses.verbosity, fields: format.fields });
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatScalar(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.every(item => !isPlainObject(item) && !Array.isArray(item))
+      ? value.map(item => String(item)).join(', ')
+      : `${value.length} items`;
+  }
+  return value === null || value === undefined ? '' : String(value);
+}
+
+/**
+ * Flatten nested objects of a listing row into dot-separated columns
+ */
+function flattenRow(row: Record<string, unknown>, prefix = ''): Record<string, string> {
+  const cells: Record<string, string> = {};
+  for (const [key, value] of Object.entries(row)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      Object.assign(cells, flattenRow(value, column));
+    } else {
+      cells[column] = escapeCell(formatScalar(value));
+    }
+  }
+  return cells;
+}
+
+function renderTable(rows: Record<string, unknown>[]): string[] {
+  const flattened = rows.map(row => flattenRow(row));
+  const columns = Array.from(new Set(flattened.flatMap(row => Object.keys(row))));
+  const shown = columns.slice(0, MAX_TABLE_COLUMNS);
+
+  const lines = [
+    `| ${shown.join(' | ')} |`,
+    `| ${shown.map(() => '---').join(' | ')} |`,
+    ...flattened.map(row => `| ${shown.map(column => row[column] ?? '').join(' | ')} |`),
+  ];
+
+  if (columns.length > shown.length) {
+    lines.push('', `_Columns not shown: ${columns.slice(shown.length).join(', ')}_`);
+  }
+  return lines;
+}
+
+/**
+ * Render a parsed tool result as Markdown: lists of objects become tables,
+ * everything else becomes `- **path:** value` lines
+ */
+export function renderMarkdown(value: unknown): string {
+  const blocks: string[][] = [];
+  let bullets: string[] = [];
+
+  const flushBullets = () => {
+    if (bullets.length > 0) {
+      blocks.push(bullets);
+      bullets = [];
+    }
+  };
+
+  const walk = (node: unknown, path: string[]) => {
+    if (Array.isArray(node) && node.length > 0 && node.every(isPlainObject)) {
+      flushBullets();
+      blocks.push([...(path.length > 0 ? [`### ${path.join('.')}`, ''] : []), ...renderTable(node)]);
+    } else if (isPlainObject(node)) {
+      Object.entries(node).forEach(([key, child]) => walk(child, [...path, key]));
+    } else {
+      bullets.push(`- **${path.join('.') || 'result'}:** ${escapeCell(formatScalar(node)) || '(none)'}`);
+    }
+  };
+
+  walk(value, []);
+  flushBullets();
+
+  return blocks.map(block => block.join('\n')).join('\n\n');
+}
+
+/**
+ * Apply the response format to the JSON text content of a tool result
+ */
+export function formatToolResult(result: ToolResult, format: ResponseFormat): ToolResult {
+  const verbosity = format.verbosity ?? config.mcp.responses.verbosity;
+  const markdown = format.format === 'markdown';
+
+  if (verbosity === 'full' && !format.fields?.length && !markdown) {
+    return result;
+  }
+
+  return {
+    ...result,
+    content: result.content.map(item => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(item.text);
+      } catch {
+        return item;
+      }
+
+      if (typeof parsed !== 'object' || parsed === null) {
+        return item;
+      }
+
+      const shaped = shapeResponse(parsed, { verbosity, fields: format.fields });
+      return { ...item, text: markdown ? renderMarkdown(shaped) : JSON.stringify(shaped) };
+    }),
+  };
+}
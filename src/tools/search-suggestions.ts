@@ -6,14 +6,21 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema, AttributedResourceSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const SearchSuggestionsSchema = z.object({
   q: z.string().describe('Partial search query to get suggestions for'),
 });
 
+const SearchSuggestionsOutputSchema = ToolResultSchema.extend({
+  query: z.string(),
+  suggestions: z.array(AttributedResourceSchema),
+});
+
 async function searchSuggestions(args: z.infer<typeof SearchSuggestionsSchema>) {
   const apiService = SprykerApiService.getInstance();
 
@@ -43,26 +50,21 @@ async function searchSuggestions(args: z.infer<typeof SearchSuggestionsSchema>)
   } catch (error) {
     logger.error('Search suggestions failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to retrieve search suggestions',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          query: args.q,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to retrieve search suggestions', error, { query: args.q });
   }
 }
 
 export const searchSuggestionsTool: SprykerTool = {
   name: 'search-suggestions',
   description: 'Get autocomplete search suggestions (completion terms, products, categories) for a partial query.',
+  annotations: {
+    title: 'Search Suggestions',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
   inputSchema: z.toJSONSchema(SearchSuggestionsSchema) as any,
+  outputSchema: z.toJSONSchema(SearchSuggestionsOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = SearchSuggestionsSchema.parse(args);
     return await searchSuggestions(validatedArgs);
@@ -0,0 +1,77 @@
+/**
+ * Select Store Tool
+ *
+ * Selects the store, locale, currency and price mode used for the rest of
+ * the session.
+ */
+
+import { z } from 'zod';
+import { storeContext } from '../services/store-context.js';
+import { logger } from '../utils/logger.js';
+import { StoreSelectionSchema } from './store-selection.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
+import type { SprykerTool } from './types.js';
+
+const SelectStoreSchema = z.object({
+  store: z.string().optional().describe('Store code to switch the session to, e.g. DE'),
+  locale: z.string().optional().describe('Locale for the session, e.g. de_DE'),
+  currency: z.string().optional().describe('Currency ISO code for the session, e.g. EUR'),
+  priceMode: StoreSelectionSchema.shape.priceMode.describe('Price mode for the session'),
+});
+
+const SelectStoreOutputSchema = ToolResultSchema.extend({
+  context: z.looseObject({
+    store: z.string().optional(),
+    locale: z.string(),
+    currency: z.string().optional(),
+    priceMode: z.string().optional(),
+  }),
+  availableStores: z.array(z.string()),
+});
+
+async function selectStore(args: z.infer<typeof SelectStoreSchema>) {
+  try {
+    logger.info('Selecting store context', args);
+
+    const context = storeContext.select(args);
+
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify({
+          success: true,
+          message: 'Store context updated for this session',
+          context: {
+            store: context.store,
+            locale: context.locale,
+            currency: context.currency,
+            priceMode: context.priceMode,
+          },
+          availableStores: storeContext.listStores(),
+        }, null, 2),
+      }],
+    };
+  } catch (error) {
+    logger.error('Select store failed', error as Error);
+
+    return errorResult('Failed to select store', error, { availableStores: storeContext.listStores() });
+  }
+}
+
+export const selectStoreTool: SprykerTool = {
+  name: 'select-store',
+  description: 'Select the store, locale, currency and price mode for the session. Call without arguments to show the current selection and available stores.',
+  annotations: {
+    title: 'Select Store',
+    readOnlyHint: true,
+    openWorldHint: false,
+  },
+  scope: 'catalog:read',
+  inputSchema: z.toJSONSchema(SelectStoreSchema) as any,
+  outputSchema: z.toJSONSchema(SelectStoreOutputSchema) as any,
+  handler: async (args: Record<string, unknown>) => {
+    const validatedArgs = SelectStoreSchema.parse(args);
+    return await selectStore(validatedArgs);
+  },
+};
@@ -0,0 +1,24 @@
+/**
+ * Store selection for tool calls
+ *
+ * Shared input fields that select the store, locale, currency and price
+ * mode for a single tool call, overriding the session's selection.
+ */
+
+import { z } from 'zod';
+import { runWithStoreSelection, type StoreSelection } from '../services/store-context.js';
+
+export const StoreSelectionSchema = z.object({
+  store: z.string().optional().describe('Store code to use for this call, e.g. DE (defaults to the session store)'),
+  locale: z.string().optional().describe('Locale to use for this call, e.g. de_DE (defaults to the session locale)'),
+  currency: z.string().optional().describe('Currency ISO code to use for this call, e.g. EUR (defaults to the session currency)'),
+  priceMode: z.enum(['GROSS_MODE', 'NET_MODE']).optional().describe('Price mode to use for this call (defaults to the session price mode)'),
+});
+
+/**
+ * Run a tool implementation with the store selection of its arguments
+ */
+export function withStoreSelection<T>(args: StoreSelection, fn: () => Promise<T>): Promise<T> {
+  const { store, locale, currency, priceMode } = args;
+  return runWithStoreSelection({ store, locale, currency, priceMode }, fn);
+}
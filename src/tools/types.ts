@@ -2,18 +2,66 @@
  * Tool type definitions
  */
 
+import type { ToolScope } from '../services/auth/scopes.js';
+
+/**
+ * MCP tool annotations. Read-only tools change nothing in the shop; the
+ * other hints only describe tools that do.
+ */
+export type SprykerToolAnnotations = {
+  title: string;
+  /**
+   * Whether the tool reaches beyond the shop's Glue API
+   */
+  openWorldHint: boolean;
+} & (
+  | { readOnlyHint: true }
+  | {
+    readOnlyHint: false;
+    /**
+     * Whether the tool may delete or overwrite data, rather than only add to it
+     */
+    destructiveHint: boolean;
+    /**
+     * Whether repeating a call with the same arguments has no further effect
+     */
+    idempotentHint: boolean;
+  }
+);
+
 export interface SprykerTool {
   name: string;
   description: string;
+  annotations: SprykerToolAnnotations;
+  /**
+   * OAuth scope the access token of a call must grant
+   */
+  scope: ToolScope;
   inputSchema: {
     type: 'object';
     properties: Record<string, object>;
     required?: string[];
   };
+  /**
+   * JSON Schema of the structured content of successful results
+   */
+  outputSchema?: {
+    type: 'object';
+    properties?: Record<string, object>;
+    required?: string[];
+    [keyword: string]: unknown;
+  };
+  /**
+   * Argument fields holding secrets or personal data, as dot-separated
+   * paths, which are redacted when the arguments are logged
+   */
+  sensitiveFields?: string[];
   handler: (args: Record<string, unknown>) => Promise<{
     content: Array<{
       type: 'text';
       text: string;
     }>;
+    isError?: boolean;
+    structuredContent?: Record<string, unknown>;
   }>;
 }
@@ -3,21 +3,34 @@
  */
 
 import { z } from 'zod';
-import {ApiError, SprykerApiService} from '../services/spryker-api.js';
+import {SprykerApiService} from '../services/spryker-api.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const UpdateCartItemSchema = z.object({
-  token: z.string().describe('Customer access token or guest token'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   cartId: z.string().describe('ID of the cart containing the item'),
   itemId: z.string().describe('ID of the item to update'),
   quantity: z.number().min(1).describe('New quantity for the item'),
 });
 
+const UpdateCartItemOutputSchema = ToolResultSchema.extend({
+  cart: z.unknown().optional(),
+  updatedItem: z.looseObject({
+    itemId: z.string(),
+    quantity: z.number(),
+  }),
+});
+
 async function updateCartItem(args: z.infer<typeof UpdateCartItemSchema>) {
   const apiService = SprykerApiService.getInstance();
   
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
+
     logger.info('Updating cart item', { 
       cartId: args.cartId, 
       itemId: args.itemId,
@@ -38,7 +51,7 @@ async function updateCartItem(args: z.infer<typeof UpdateCartItemSchema>) {
           quantity: args.quantity,
         },
       },
-    }, args.token);
+    }, accessToken);
 
     return {
       content: [{
@@ -58,25 +71,23 @@ async function updateCartItem(args: z.infer<typeof UpdateCartItemSchema>) {
   } catch (error) {
     logger.error('Failed to update cart item', error as Error);
     
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to update cart item',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : []
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to update cart item', error);
   }
 }
 
 export const updateCartItemTool: SprykerTool = {
   name: 'update-cart-item',
   description: 'Update the quantity of an item in the shopping cart',
+  annotations: {
+    title: 'Update Cart Item',
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+  scope: 'cart:write',
   inputSchema: z.toJSONSchema(UpdateCartItemSchema) as any,
+  outputSchema: z.toJSONSchema(UpdateCartItemOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = UpdateCartItemSchema.parse(args);
     return await updateCartItem(validatedArgs);
@@ -6,27 +6,46 @@
  */
 
 import { z } from 'zod';
-import { ApiError, SprykerApiService } from '../services/spryker-api.js';
+import { SprykerApiService } from '../services/spryker-api.js';
+import {
+  JsonApiResolver,
+  type JsonApiDocument,
+  type WishlistItemResource,
+  type WishlistResource,
+} from '../services/json-api/index.js';
+import { sessionVault } from '../services/session-vault.js';
 import { logger } from '../utils/logger.js';
+import { ToolResultSchema } from './output-schemas.js';
+import { errorResult } from './error-result.js';
 import type { SprykerTool } from './types.js';
 
 const WishlistToCartSchema = z.object({
-  token: z.string().describe('Customer access token (wishlists require a registered customer)'),
+  session: z.string().optional().describe('Session handle returned by authenticate (defaults to the current session)'),
   wishlistUuid: z.string().describe('UUID of the wishlist to copy items from'),
   cartId: z.string().describe('ID of the cart to add the wishlist items to'),
 });
 
+const WishlistToCartOutputSchema = ToolResultSchema.extend({
+  wishlistUuid: z.string(),
+  cartId: z.string(),
+  added: z.array(z.string()).describe('SKUs added to the cart'),
+  failed: z.array(z.looseObject({ sku: z.string(), message: z.string() })),
+});
+
 async function wishlistToCart(args: z.infer<typeof WishlistToCartSchema>) {
   const apiService = SprykerApiService.getInstance();
 
   try {
+    const { accessToken } = sessionVault.resolve(args.session);
+
     logger.info('Moving wishlist items to cart', { wishlistUuid: args.wishlistUuid, cartId: args.cartId });
 
-    const wishlistResponse = await apiService.get<{
-      included?: Array<{ type: string; id: string; attributes: { sku?: string } }>;
-    }>(`wishlists/${args.wishlistUuid}?include=wishlist-items`, args.token);
+    const wishlistResponse = await apiService.get<JsonApiDocument<WishlistResource>>(
+      `wishlists/${args.wishlistUuid}?include=wishlist-items`,
+      accessToken
+    );
 
-    const items = (wishlistResponse.data.included || []).filter(item => item.type === 'wishlist-items');
+    const items = new JsonApiResolver(wishlistResponse.data).ofType<WishlistItemResource>('wishlist-items');
     const skus = items.map(item => item.attributes?.sku).filter((sku): sku is string => Boolean(sku));
 
     const added: string[] = [];
@@ -37,7 +56,7 @@ async function wishlistToCart(args: z.infer<typeof WishlistToCartSchema>) {
         await apiService.post(
           `carts/${args.cartId}/items`,
           { data: { type: 'items', attributes: { sku, quantity: 1 } } },
-          args.token
+          accessToken
         );
         added.push(sku);
       } catch (itemError) {
@@ -65,27 +84,23 @@ async function wishlistToCart(args: z.infer<typeof WishlistToCartSchema>) {
   } catch (error) {
     logger.error('Wishlist to cart failed', error as Error);
 
-    return {
-      content: [{
-        type: 'text' as const,
-        text: JSON.stringify({
-          success: false,
-          error: 'Failed to move wishlist items to cart',
-          message: error instanceof Error ? error.message : 'Unknown error occurred',
-          responseData: error instanceof ApiError ? error.responseData : [],
-          wishlistUuid: args.wishlistUuid,
-          cartId: args.cartId,
-        }, null, 2),
-      }],
-      isError: true,
-    };
+    return errorResult('Failed to move wishlist items to cart', error, { wishlistUuid: args.wishlistUuid, cartId: args.cartId });
   }
 }
 
 export const wishlistToCartTool: SprykerTool = {
   name: 'wishlist-to-cart',
   description: 'Move all items from a registered customer\'s wishlist into a cart.',
+  annotations: {
+    title: 'Wishlist to Cart',
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: false,
+  },
+  scope: 'cart:write',
   inputSchema: z.toJSONSchema(WishlistToCartSchema) as any,
+  outputSchema: z.toJSONSchema(WishlistToCartOutputSchema) as any,
   handler: async (args: Record<string, unknown>) => {
     const validatedArgs = WishlistToCartSchema.parse(args);
     return await wishlistToCart(validatedArgs);
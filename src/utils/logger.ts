@@ -6,6 +6,7 @@
  */
 
 import { config } from '../config/index.js';
+import { Redactor } from './redaction.js';
 
 /**
  * Log levels in order of severity
@@ -73,15 +74,22 @@ interface LogEntry {
 }
 
 /**
- * Logger class with structured logging capabilities
+ * Logger class with structured logging capabilities. Secrets and personal
+ * data are redacted from messages, metadata and errors before output.
  */
 class Logger {
   private readonly component: string;
   private minLevel: LogLevel; // Make this mutable for runtime changes
+  private readonly redactor: Redactor;
 
-  constructor(component = 'SprykerMCP', minLevel: LogLevel = config.server.logLevel as LogLevel) {
+  constructor(
+    component = 'SprykerMCP',
+    minLevel: LogLevel = config.server.logLevel as LogLevel,
+    redactor = new Redactor(config.server.redaction)
+  ) {
     this.component = component;
     this.minLevel = minLevel;
+    this.redactor = redactor;
   }
 
   /**
@@ -145,21 +153,21 @@ class Logger {
     const entry: LogEntry = {
       timestamp: new Date().toISOString(),
       level,
-      message,
+      message: this.redactor.redactText(message),
       component: this.component,
     };
 
     if (metadata) {
-      entry.metadata = metadata;
+      entry.metadata = this.redactor.redactMetadata(metadata);
     }
 
     if (error) {
       entry.error = {
         name: error.name,
-        message: error.message,
+        message: this.redactor.redactText(error.message),
       };
       if (error.stack) {
-        entry.error.stack = error.stack;
+        entry.error.stack = this.redactor.redactText(error.stack);
       }
     }
 
@@ -243,7 +251,7 @@ class Logger {
    * Create a child logger with a specific component name
    */
   child(component: string): Logger {
-    return new Logger(`${this.component}:${component}`, this.minLevel);
+    return new Logger(`${this.component}:${component}`, this.minLevel, this.redactor);
   }
 
   /**
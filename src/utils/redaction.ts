@@ -0,0 +1,232 @@
+/**
+ * Redaction of secrets and personal data
+ *
+ * Masks passwords, tokens and personal data such as emails, phone numbers
+ * and addresses before they reach the logs. Values are found by the name of
+ * their field, by the argument fields a tool declares sensitive, and by
+ * detectors that match tokens, emails and phone numbers in any text.
+ */
+
+import { createHash } from 'node:crypto';
+
+/**
+ * How personal data is masked: `mask` replaces it, `partial` keeps a hint
+ * such as the domain of an email, `hash` replaces it with a short digest
+ * that is the same for the same value. Secrets are always replaced.
+ */
+export type MaskingStrategy = 'mask' | 'partial' | 'hash';
+
+export interface RedactionOptions {
+  strategy: MaskingStrategy;
+  /**
+   * Names of further fields holding personal data
+   */
+  fields?: string[];
+}
+
+type Sensitivity = 'secret' | 'personal';
+
+type Detector = {
+  sensitivity: Sensitivity;
+  pattern: RegExp;
+  partial: (value: string) => string;
+};
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Fields holding credentials, matched anywhere in the field name
+ */
+const SECRET_FIELD = /pass(word|wd)|secret|token|authorization|cookie|api-?key/i;
+
+/**
+ * Fields holding personal data, by their lowercase name without dashes
+ * and underscores
+ */
+const PERSONAL_FIELDS = [
+  'email', 'username', 'firstname', 'lastname', 'phone', 'company',
+  'address1', 'address2', 'address3', 'zipcode', 'city', 'dateofbirth',
+];
+
+/**
+ * Keep the first character and the domain of an email
+ */
+const partialEmail = (value: string) => `${value[0]}***${value.slice(value.indexOf('@'))}`;
+
+/**
+ * Detectors of sensitive values in text, applied in order
+ */
+const DETECTORS: Detector[] = [
+  {
+    // Credentials of Authorization headers
+    sensitivity: 'secret',
+    pattern: /(?<=\b(?:Bearer|Basic)\s+)[\w\-.~+/]+=*/gi,
+    partial: () => REDACTED,
+  },
+  {
+    // JSON web tokens, such as Glue access tokens
+    sensitivity: 'secret',
+    pattern: /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g,
+    partial: () => REDACTED,
+  },
+  {
+    sensitivity: 'personal',
+    pattern: /[\w.%+-]+@[a-z\d.-]+\.[a-z]{2,}/gi,
+    partial: partialEmail,
+  },
+  {
+    // International numbers, e.g. +49 30 1234567
+    sensitivity: 'personal',
+    pattern: /(?<![\w+])\+[1-9](?:[\s./-]?\(?\d\)?){7,14}(?!\w)/g,
+    partial: value => `***${value.slice(-2)}`,
+  },
+  {
+    // National numbers with an area code, e.g. 030 1234567 or (0151) 123-4567
+    sensitivity: 'personal',
+    pattern: /(?<![\w.+-])\(?0\d{2,4}\)?[\s/-]\d{3,}(?:[\s-]\d{2,})*(?![\w.-])/g,
+    partial: value => `***${value.slice(-2)}`,
+  },
+];
+
+/**
+ * Sensitive argument fields declared by tools, as dot-separated paths
+ */
+const toolSensitiveFields = new Map<string, string[]>();
+
+/**
+ * Declare argument fields of a tool that hold secrets or personal data,
+ * e.g. `['customerData', 'shippingAddress.phone']`. Objects are redacted
+ * as a whole; paths apply to every entry of a list.
+ */
+export function declareSensitiveFields(tool: string, fields: string[]): void {
+  toolSensitiveFields.set(tool, fields);
+}
+
+function normalizeField(name: string): string {
+  return name.toLowerCase().replace(/[-_]/g, '');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Name, message, cause and own enumerable properties of an error, such as
+ * the response data of an API error
+ */
+function errorFields(error: Error): Record<string, unknown> {
+  return {
+    name: error.name,
+    message: error.message,
+    ...Object.fromEntries(Object.entries(error)),
+    ...(error.cause !== undefined ? { cause: error.cause } : {}),
+  };
+}
+
+/**
+ * Redacts log messages and metadata
+ */
+export class Redactor {
+  private readonly strategy: MaskingStrategy;
+  private readonly personalFields: Set<string>;
+
+  constructor(options: RedactionOptions) {
+    this.strategy = options.strategy;
+    this.personalFields = new Set([...PERSONAL_FIELDS, ...(options.fields ?? []).map(normalizeField)]);
+  }
+
+  /**
+   * Mask the tokens, emails and phone numbers in a text
+   */
+  redactText(text: string): string {
+    return DETECTORS.reduce(
+      (redacted, detector) => redacted.replace(detector.pattern, value => this.mask(value, detector.sensitivity, detector.partial)),
+      text
+    );
+  }
+
+  /**
+   * Redact log metadata. Metadata of a tool call, with the tool name in
+   * `tool` and its arguments in `args`, also has the argument fields the
+   * tool declared sensitive redacted.
+   */
+  redactMetadata(metadata: Record<string, unknown>): Record<string, unknown> {
+    const declared = typeof metadata.tool === 'string' ? toolSensitiveFields.get(metadata.tool) ?? [] : [];
+    const paths = new Set(declared.map(field => `args.${field}`));
+
+    return this.redactValue(metadata, '', paths, new Set()) as Record<string, unknown>;
+  }
+
+  /**
+   * Redact a value at a dot-separated path
+   */
+  private redactValue(value: unknown, path: string, declared: Set<string>, seen: Set<object>): unknown {
+    if (typeof value === 'string') {
+      return this.redactText(value);
+    }
+    if (typeof value !== 'object' || value === null) {
+      return value;
+    }
+    if (!Array.isArray(value) && !isPlainObject(value) && !(value instanceof Error)) {
+      return value;
+    }
+    if (seen.has(value)) {
+      return '[Circular]';
+    }
+
+    seen.add(value);
+    try {
+      // Errors are logged with their fields, which may hold Glue responses
+      if (value instanceof Error) {
+        return this.redactValue(errorFields(value), path, declared, seen);
+      }
+      if (Array.isArray(value)) {
+        return value.map(entry => this.redactValue(entry, path, declared, seen));
+      }
+
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => {
+        const entryPath = path ? `${path}.${key}` : key;
+        const sensitivity = SECRET_FIELD.test(key)
+          ? 'secret'
+          : this.personalFields.has(normalizeField(key)) || declared.has(entryPath) ? 'personal' : undefined;
+
+        return [key, sensitivity
+          ? this.maskAll(entry, sensitivity)
+          : this.redactValue(entry, entryPath, declared, seen)];
+      }));
+    } finally {
+      seen.delete(value);
+    }
+  }
+
+  /**
+   * Mask every value within a sensitive field
+   */
+  private maskAll(value: unknown, sensitivity: Sensitivity): unknown {
+    if (Array.isArray(value)) {
+      return value.map(entry => this.maskAll(entry, sensitivity));
+    }
+    if (isPlainObject(value)) {
+      return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, this.maskAll(entry, sensitivity)]));
+    }
+    if (value === null || value === undefined || typeof value === 'boolean') {
+      return value;
+    }
+
+    return this.mask(String(value), sensitivity, text => text.includes('@') ? partialEmail(text) : `${text[0] ?? ''}***`);
+  }
+
+  private mask(value: string, sensitivity: Sensitivity, partial: (value: string) => string): string {
+    if (sensitivity === 'secret' || this.strategy === 'mask') {
+      return REDACTED;
+    }
+    if (this.strategy === 'hash') {
+      return `[sha256:${createHash('sha256').update(value).digest('hex').slice(0, 12)}]`;
+    }
+    return partial(value);
+  }
+}
@@ -132,6 +132,64 @@ function validateServerConfig(): void {
     );
   }
   
+  // Validate multi-store configuration
+  const { defaultStore, definitions } = config.stores;
+  if (defaultStore && !definitions[defaultStore]) {
+    throw new ValidationError(
+      `Default store ${defaultStore} is not configured in STORES`,
+      'INVALID_DEFAULT_STORE'
+    );
+  }
+  
+  // Validate authorization of the HTTP and SSE transports
+  const auth = config.mcp.auth;
+  if (auth.devIssuer && !auth.enabled) {
+    throw new ValidationError(
+      'MCP_AUTH_DEV_ISSUER requires MCP_AUTH_ENABLED=true',
+      'INVALID_AUTH_CONFIG'
+    );
+  }
+
+  if (auth.enabled && !auth.devIssuer && (!auth.issuer || (!auth.jwksUrl && !auth.jwks))) {
+    throw new ValidationError(
+      'MCP_AUTH_ENABLED requires MCP_AUTH_ISSUER and MCP_AUTH_JWKS_URL or MCP_AUTH_JWKS',
+      'INVALID_AUTH_CONFIG'
+    );
+  }
+  
+  // Browsers refuse credentialed responses that allow any origin
+  const cors = config.mcp.cors;
+  if (cors.credentials && cors.origins.includes('*')) {
+    throw new ValidationError(
+      'MCP_CORS_CREDENTIALS requires MCP_CORS_ORIGINS to list the allowed origins instead of *',
+      'INVALID_CORS_CONFIG'
+    );
+  }
+  
+  // Validate HTTPS of the HTTP and SSE transports
+  const tls = config.mcp.tls;
+  if (tls.enabled && (!tls.certFile || !tls.keyFile)) {
+    throw new ValidationError(
+      'HTTPS requires both MCP_TLS_CERT_FILE and MCP_TLS_KEY_FILE',
+      'INVALID_TLS_CONFIG'
+    );
+  }
+
+  if (tls.clientAuth !== 'none' && (!tls.enabled || !tls.caFile)) {
+    throw new ValidationError(
+      'MCP_TLS_CLIENT_AUTH requires HTTPS and MCP_TLS_CA_FILE',
+      'INVALID_TLS_CONFIG'
+    );
+  }
+  
+  // The trail holds customer references, so it is never written to a default path
+  if (config.audit.enabled && !config.audit.file) {
+    throw new ValidationError(
+      'AUDIT_LOG_ENABLED requires AUDIT_LOG_FILE',
+      'INVALID_AUDIT_CONFIG'
+    );
+  }
+  
   logger.debug('Server configuration validation passed');
 }
 
@@ -177,7 +235,7 @@ export function validateToolArguments<T>(
   try {
     return schema.parse(args);
   } catch (error) {
-    logger.warn(`Invalid arguments for tool ${toolName}`, { args, error });
+    logger.warn(`Invalid arguments for tool ${toolName}`, { tool: toolName, args, error });
     throw new ValidationError(
       `Invalid arguments for tool ${toolName}: ${error instanceof Error ? error.message : 'Unknown error'}`,
       'INVALID_TOOL_ARGUMENTS'
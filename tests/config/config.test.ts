@@ -16,10 +16,34 @@ describe('Config module edge cases', () => {
     delete process.env.SPRYKER_API_RETRY_DELAY;
     delete process.env.RATE_LIMIT_WINDOW_MS;
     delete process.env.RATE_LIMIT_MAX_REQUESTS;
+    delete process.env.RATE_LIMIT_TOOLS;
+    delete process.env.RATE_LIMIT_ENABLED;
+    delete process.env.TRACING_EXPORTER;
+    delete process.env.TRACING_OTLP_HEADERS;
     delete process.env.MCP_HTTP_PORT;
     delete process.env.MCP_HTTP_HOST;
     delete process.env.MCP_HTTP_ENDPOINT;
+    delete process.env.MCP_READ_ONLY;
+    delete process.env.MCP_AUTH_ENABLED;
+    delete process.env.MCP_AUTH_ISSUER;
+    delete process.env.MCP_AUTH_JWKS;
+    delete process.env.MCP_AUTH_CLOCK_TOLERANCE;
+    delete process.env.MCP_CORS_ORIGINS;
+    delete process.env.MCP_CORS_CREDENTIALS;
+    delete process.env.MCP_ALLOWED_HOSTS;
+    delete process.env.MCP_TLS_CERT_FILE;
+    delete process.env.MCP_TLS_KEY_FILE;
+    delete process.env.MCP_TLS_CLIENT_AUTH;
+    delete process.env.MCP_TLS_CLIENT_IDENTITIES;
     delete process.env.LOG_LEVEL;
+    delete process.env.LOG_REDACTION_STRATEGY;
+    delete process.env.LOG_REDACTION_FIELDS;
+    delete process.env.CONFIRMATION_FALLBACK;
+    delete process.env.AUDIT_LOG_ENABLED;
+    delete process.env.AUDIT_LOG_FILE;
+    delete process.env.AUDIT_LOG_MAX_FILES;
+    delete process.env.AUDIT_LOG_TOOL;
+    delete process.env.AUDIT_ADMIN_TOKEN;
   });
 
   it('should use environment variables when provided', () => {
@@ -33,7 +57,10 @@ describe('Config module edge cases', () => {
     process.env.MCP_HTTP_PORT = '4000';
     process.env.MCP_HTTP_HOST = '0.0.0.0';
     process.env.MCP_HTTP_ENDPOINT = '/custom-mcp';
+    process.env.MCP_READ_ONLY = 'true';
     process.env.LOG_LEVEL = 'debug';
+    process.env.LOG_REDACTION_STRATEGY = 'hash';
+    process.env.LOG_REDACTION_FIELDS = 'customerReference, iban,';
 
     // Import config after setting environment variables
     const { config } = require('../../src/config/index.js');
@@ -47,7 +74,9 @@ describe('Config module edge cases', () => {
     expect(config.mcp.http.port).toBe(4000);
     expect(config.mcp.http.host).toBe('0.0.0.0');
     expect(config.mcp.http.endpoint).toBe('/custom-mcp');
+    expect(config.mcp.readOnly).toBe(true);
     expect(config.server.logLevel).toBe('debug');
+    expect(config.server.redaction).toEqual({ strategy: 'hash', fields: ['customerReference', 'iban'] });
   });
 
   it('should use default values when environment variables are not provided', () => {
@@ -58,12 +87,41 @@ describe('Config module edge cases', () => {
     expect(config.api.timeout).toBe(30000);
     expect(config.api.retryAttempts).toBe(3);
     expect(config.api.retryDelay).toBe(1000);
+    expect(config.api.retryMaxDelay).toBe(30000);
+    expect(config.api.retryBudget).toEqual({ ratio: 0.1, minRetries: 10, windowMs: 10000 });
+    expect(config.confirmation).toEqual({ fallback: 'token', tokenTtl: 300000 });
     expect(config.rateLimit.windowMs).toBe(60000);
     expect(config.rateLimit.maxRequests).toBe(100);
     expect(config.mcp.http.port).toBe(3000);
     expect(config.mcp.http.host).toBe('localhost');
     expect(config.mcp.http.endpoint).toBe('/mcp');
+    expect(config.mcp.readOnly).toBe(false);
+    expect(config.mcp.auth).toEqual({
+      enabled: false,
+      jwksCacheTtl: 600000,
+      clockTolerance: 30000,
+      devIssuer: false,
+    });
+    expect(config.mcp.cors).toEqual({
+      origins: ['*'],
+      credentials: false,
+      allowedHeaders: ['Content-Type', 'Authorization', 'mcp-protocol-version', 'mcp-session-id'],
+      dnsRebindingProtection: true,
+    });
+    expect(config.mcp.tls).toEqual({
+      enabled: false,
+      clientAuth: 'none',
+      clientIdentities: {},
+      reloadInterval: 30000,
+    });
     expect(config.server.logLevel).toBe('info');
+    expect(config.server.redaction).toEqual({ strategy: 'mask', fields: [] });
+    expect(config.audit).toEqual({
+      enabled: false,
+      maxSize: 10485760,
+      maxFiles: 10,
+      tool: false,
+    });
   });
 
   it('should handle invalid numeric environment variables', () => {
@@ -80,4 +138,123 @@ describe('Config module edge cases', () => {
       const { config } = require('../../src/config/index.js');
     }).toThrow(/expected number/i);
   });
+
+  it('should configure the audit trail', () => {
+    process.env.AUDIT_LOG_ENABLED = 'true';
+    process.env.AUDIT_LOG_FILE = '/var/log/spryker-mcp/audit.jsonl';
+    process.env.AUDIT_LOG_MAX_FILES = '3';
+    process.env.AUDIT_LOG_TOOL = 'true';
+    process.env.AUDIT_ADMIN_TOKEN = 'admin-token-0123456789';
+
+    const { config } = require('../../src/config/index.js');
+
+    expect(config.audit).toMatchObject({
+      enabled: true,
+      file: '/var/log/spryker-mcp/audit.jsonl',
+      maxFiles: 3,
+      tool: true,
+      adminToken: 'admin-token-0123456789',
+    });
+  });
+
+  it('should configure bearer authorization', () => {
+    process.env.MCP_AUTH_ENABLED = 'true';
+    process.env.MCP_AUTH_ISSUER = 'https://auth.example.com';
+    process.env.MCP_AUTH_JWKS = JSON.stringify({ keys: [{ kty: 'EC', kid: 'key-1', crv: 'P-256', x: 'x', y: 'y' }] });
+    process.env.MCP_AUTH_CLOCK_TOLERANCE = '5000';
+
+    const { config } = require('../../src/config/index.js');
+
+    expect(config.mcp.auth).toMatchObject({
+      enabled: true,
+      issuer: 'https://auth.example.com',
+      jwks: { keys: [expect.objectContaining({ kid: 'key-1' })] },
+      clockTolerance: 5000,
+    });
+  });
+
+  it('should reject invalid key sets', () => {
+    process.env.MCP_AUTH_JWKS = '{"keys": "none"}';
+
+    expect(() => require('../../src/config/index.js')).toThrow();
+  });
+
+  it('should configure cross-origin requests', () => {
+    process.env.MCP_CORS_ORIGINS = 'https://shop.example.com/, http://localhost:5173';
+    process.env.MCP_CORS_CREDENTIALS = 'true';
+    process.env.MCP_ALLOWED_HOSTS = 'mcp.example.com,localhost:3000';
+
+    const { config } = require('../../src/config/index.js');
+
+    expect(config.mcp.cors).toMatchObject({
+      origins: ['https://shop.example.com', 'http://localhost:5173'],
+      credentials: true,
+      allowedHosts: ['mcp.example.com', 'localhost:3000'],
+    });
+  });
+
+  it('should reject origins that are not HTTP URLs', () => {
+    process.env.MCP_CORS_ORIGINS = 'shop.example.com';
+
+    expect(() => require('../../src/config/index.js')).toThrow();
+  });
+
+  it('should configure HTTPS with client certificates', () => {
+    process.env.MCP_TLS_CERT_FILE = '/etc/spryker-mcp/cert.pem';
+    process.env.MCP_TLS_KEY_FILE = '/etc/spryker-mcp/key.pem';
+    process.env.MCP_TLS_CLIENT_AUTH = 'required';
+    process.env.MCP_TLS_CLIENT_IDENTITIES = '{"assistant.internal":"assistant"}';
+
+    const { config } = require('../../src/config/index.js');
+
+    expect(config.mcp.tls).toMatchObject({
+      enabled: true,
+      certFile: '/etc/spryker-mcp/cert.pem',
+      keyFile: '/etc/spryker-mcp/key.pem',
+      clientAuth: 'required',
+      clientIdentities: { 'assistant.internal': 'assistant' },
+    });
+  });
+
+  it('should reject short audit admin tokens', () => {
+    process.env.AUDIT_ADMIN_TOKEN = 'secret';
+
+    expect(() => require('../../src/config/index.js')).toThrow(/AUDIT_ADMIN_TOKEN/);
+  });
+
+  it('should reject unknown confirmation fallbacks', () => {
+    process.env.CONFIRMATION_FALLBACK = 'ask';
+
+    expect(() => require('../../src/config/index.js')).toThrow(/CONFIRMATION_FALLBACK/);
+  });
+
+  it('should parse per-tool rate limits', () => {
+    process.env.RATE_LIMIT_TOOLS = '{"checkout":5,"product-search":{"maxRequests":300,"windowMs":10000}}';
+    process.env.RATE_LIMIT_ENABLED = 'false';
+
+    const { config } = require('../../src/config/index.js');
+
+    expect(config.rateLimit.enabled).toBe(false);
+    expect(config.rateLimit.ipMaxRequests).toBe(100);
+    expect(config.rateLimit.tools).toEqual({
+      checkout: { maxRequests: 5 },
+      'product-search': { maxRequests: 300, windowMs: 10000 },
+    });
+  });
+
+  it('should reject invalid per-tool rate limits', () => {
+    process.env.RATE_LIMIT_TOOLS = '{"checkout":0}';
+
+    expect(() => require('../../src/config/index.js')).toThrow();
+  });
+
+  it('should parse tracing exporter headers', () => {
+    process.env.TRACING_EXPORTER = 'otlp';
+    process.env.TRACING_OTLP_HEADERS = 'authorization=Bearer a=b, x-tenant=shop,invalid';
+
+    const { config } = require('../../src/config/index.js');
+
+    expect(config.tracing.exporter).toBe('otlp');
+    expect(config.tracing.otlpHeaders).toEqual({ authorization: 'Bearer a=b', 'x-tenant': 'shop' });
+  });
 });
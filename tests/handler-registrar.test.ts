@@ -0,0 +1,100 @@
+/**
+ * Handler Registrar Tests
+ *
+ * Tests for the request handlers the transports register, called with the
+ * access token a transport verified
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { createHandlerRegistrar } from '../src/index.js';
+import { registerResourceSubscriptions, type ResourceSubscriptionManager } from '../src/resources/index.js';
+import * as cartSnapshot from '../src/services/cart-snapshot.js';
+import { getAuthInfo } from '../src/services/session-context.js';
+
+describe('Handler registrar', () => {
+  let server: Server;
+  let client: Client;
+  let subscriptions: ResourceSubscriptionManager;
+
+  /**
+   * Connect a client whose requests arrive with an access token of the scopes
+   */
+  const connect = async (scopes: string[]): Promise<void> => {
+    const authInfo: AuthInfo = { token: 'token', clientId: 'assistant', scopes };
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+
+    server = new Server(
+      { name: 'spryker-mcp-server', version: '1.0.0' },
+      { capabilities: { tools: {}, prompts: {}, resources: { subscribe: true }, logging: {} } }
+    );
+    createHandlerRegistrar()(server);
+    subscriptions = registerResourceSubscriptions(server);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+  };
+
+  afterEach(async () => {
+    subscriptions.stop();
+    jest.restoreAllMocks();
+    await client.close();
+    await server.close();
+  });
+
+  it('should only list the tools the access token grants', async () => {
+    await connect(['catalog:read']);
+
+    const { tools } = await client.listTools();
+
+    expect(tools.map(tool => tool.name)).toContain('product-search');
+    expect(tools.map(tool => tool.name)).not.toContain('checkout');
+    expect(tools.map(tool => tool.name)).not.toContain('get-cart');
+  });
+
+  it('should refuse calls of tools the access token does not grant', async () => {
+    await connect(['catalog:read']);
+
+    await expect(client.callTool({ name: 'checkout', arguments: {} }))
+      .rejects.toThrow('Insufficient scope: Tool checkout requires the checkout scope');
+  });
+
+  it.each([
+    ['spryker://cart/cart-1', 'get-cart', 'cart:read'],
+    ['spryker://order/DE--1', 'get-order', 'customer:read'],
+  ])('should refuse reading %s without the scope of its tool', async (uri, tool, scope) => {
+    await connect(['catalog:read']);
+
+    await expect(client.readResource({ uri }))
+      .rejects.toThrow(`Insufficient scope: Resource of ${tool} requires the ${scope} scope`);
+  });
+
+  it('should refuse subscriptions to carts without the scope of get-cart', async () => {
+    const load = jest.spyOn(cartSnapshot, 'loadCartSnapshot');
+    await connect(['catalog:read']);
+
+    await expect(client.subscribeResource({ uri: 'spryker://cart/cart-1' }))
+      .rejects.toThrow('Insufficient scope: Resource of get-cart requires the cart:read scope');
+    expect(load).not.toHaveBeenCalled();
+    expect(subscriptions.list()).toEqual([]);
+  });
+
+  it('should poll subscribed carts with the access token of the subscriber', async () => {
+    const scopes: (string[] | undefined)[] = [];
+    jest.spyOn(cartSnapshot, 'loadCartSnapshot').mockImplementation(async () => {
+      scopes.push(getAuthInfo()?.scopes);
+      return { fingerprint: `v${scopes.length}` } as cartSnapshot.CartSnapshot;
+    });
+    await connect(['cart:read']);
+
+    await client.subscribeResource({ uri: 'spryker://cart/cart-1' });
+    await subscriptions.poll();
+
+    expect(scopes).toEqual([['cart:read'], ['cart:read']]);
+  });
+});
@@ -0,0 +1,17 @@
+/**
+ * User confirmation helpers for tool tests
+ */
+
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { runWithElicitation } from '../../src/services/user-confirmation.js';
+
+/**
+ * Run a tool call for a client that asks the user, who answers with the
+ * given elicitation result (confirming by default)
+ */
+export function asUser<T>(
+  fn: () => Promise<T>,
+  answer: ElicitResult = { action: 'accept', content: { confirm: true } }
+): Promise<T> {
+  return runWithElicitation(async () => answer, fn);
+}
@@ -0,0 +1,19 @@
+/**
+ * Session vault helpers for tool tests
+ */
+
+import { sessionVault } from '../../src/services/session-vault.js';
+
+/**
+ * Store a token in the session vault and return its session handle.
+ * Tokens prefixed with `guest-` are stored as guest sessions.
+ */
+export function withSession(accessToken: string): string {
+  const guest = accessToken.startsWith('guest-');
+
+  return sessionVault.store({
+    accessToken,
+    tokenType: guest ? 'Guest' : 'Bearer',
+    userType: guest ? 'guest' : 'customer',
+  });
+}
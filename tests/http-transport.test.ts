@@ -4,8 +4,14 @@
  * Tests for the HTTP/SSE transport functionality
  */
 
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { config } from '../src/config/index.js';
 import { createServer } from '../src/index.js';
 import { MCPServer } from '../src/servers/types.js';
+import { SprykerApiService } from '../src/services/spryker-api.js';
 
 describe('HTTP Transport', () => {
   let server: MCPServer;
@@ -63,3 +69,64 @@ describe('HTTP Transport', () => {
     await expect(server.shutdown()).resolves.not.toThrow();
   });
 });
+
+describe('Session cleanup', () => {
+  const ports = { http: 3945, sse: 3946 };
+  const fetch = global.fetch;
+  let server: MCPServer;
+
+  const glueResponse = (accessToken: string) => new Response(JSON.stringify({
+    data: {
+      type: 'access-tokens',
+      id: null,
+      attributes: { tokenType: 'Bearer', accessToken, refreshToken: `${accessToken}-refresh`, expiresIn: 3600 },
+    },
+  }), { status: 201, headers: { 'content-type': 'application/vnd.api+json' } });
+
+  beforeEach(() => {
+    // Glue issues numbered access tokens, everything else reaches the MCP server
+    let issued = 0;
+    jest.spyOn(global, 'fetch').mockImplementation((input, init) => {
+      const url = String(input instanceof Request ? input.url : input);
+      if (!url.startsWith(config.api.baseUrl)) {
+        return fetch(input, init);
+      }
+      return Promise.resolve(/\/(access|refresh)-tokens$/.test(url) ? glueResponse(`access-${++issued}`) : new Response(null, { status: 200 }));
+    });
+  });
+
+  afterEach(async () => {
+    await server.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it.each<keyof typeof ports>(['http', 'sse'])('should forget the customer tokens of a closed %s session', async transport => {
+    const url = new URL(`http://localhost:${ports[transport]}/mcp`);
+    server = createServer({ transport, httpHost: 'localhost', httpPort: ports[transport], httpEndpoint: '/mcp' });
+    await server.start();
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const clientTransport = transport === 'http' ? new StreamableHTTPClientTransport(url) : new SSEClientTransport(url);
+    await client.connect(clientTransport as Transport);
+
+    const api = SprykerApiService.getInstance();
+    const cleared = new Promise<void>(resolve => {
+      jest.spyOn(api, 'clearSession').mockImplementation(function (this: SprykerApiService, sessionId: string) {
+        SprykerApiService.prototype.clearSession.call(this, sessionId);
+        resolve();
+      });
+    });
+
+    const result = await client.callTool({ name: 'authenticate', arguments: { username: 'customer@example.com', password: 'secret' } });
+    expect(result.isError).toBeFalsy();
+    await expect(api.refreshAccessToken('access-1')).resolves.toMatchObject({ accessToken: 'access-2' });
+
+    if (clientTransport instanceof StreamableHTTPClientTransport) {
+      await clientTransport.terminateSession();
+    }
+    await client.close();
+    await cleared;
+
+    await expect(api.refreshAccessToken('access-1')).rejects.toThrow('not tracked');
+    await expect(api.refreshAccessToken('access-2')).rejects.toThrow('not tracked');
+  });
+});
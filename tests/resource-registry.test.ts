@@ -0,0 +1,105 @@
+/**
+ * Resource Registry Tests
+ */
+
+jest.mock('../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+import { resourceRegistry, ResourceRegistry } from '../src/resources/index.js';
+import { readFromTool } from '../src/resources/tool-backed.js';
+import type { SprykerTool } from '../src/tools/types.js';
+
+describe('ResourceRegistry', () => {
+  test('should have catalog, cart and order resources registered', () => {
+    expect(resourceRegistry.list().map(resource => resource.name)).toEqual([
+      'product',
+      'category-tree',
+      'cart',
+      'order',
+    ]);
+  });
+
+  test('should list fixed URIs as resources', () => {
+    expect(resourceRegistry.getMCPResources()).toEqual([
+      expect.objectContaining({ uri: 'spryker://category-tree', name: 'category-tree', mimeType: 'application/json' }),
+    ]);
+  });
+
+  test('should list parameterized URIs as resource templates', () => {
+    const templates = resourceRegistry.getMCPResourceTemplates().map(template => template.uriTemplate);
+
+    expect(templates).toEqual([
+      'spryker://product/{sku}',
+      'spryker://cart/{cartId}',
+      'spryker://order/{orderReference}',
+    ]);
+  });
+
+  describe('reading resources', () => {
+    let registry: ResourceRegistry;
+    let read: jest.Mock;
+
+    beforeEach(() => {
+      registry = new ResourceRegistry();
+      read = jest.fn().mockResolvedValue('{"sku":"001"}');
+      registry.register({
+        name: 'product',
+        description: 'Product',
+        mimeType: 'application/json',
+        uriTemplate: 'spryker://product/{sku}',
+        read,
+      });
+    });
+
+    test('should pass decoded URI variables to the resource', async () => {
+      const contents = await registry.readResource('spryker://product/SKU%20001');
+
+      expect(read).toHaveBeenCalledWith({ sku: 'SKU 001' });
+      expect(contents).toEqual({
+        uri: 'spryker://product/SKU%20001',
+        mimeType: 'application/json',
+        text: '{"sku":"001"}',
+      });
+    });
+
+    test('should reject unknown URIs', async () => {
+      await expect(registry.readResource('spryker://unknown/1')).rejects.toThrow(
+        'Resource not found: spryker://unknown/1'
+      );
+      expect(read).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('readFromTool', () => {
+    const createTool = (result: Awaited<ReturnType<SprykerTool['handler']>>): SprykerTool => ({
+      name: 'test-tool',
+      description: 'Test tool',
+      annotations: { title: 'Test', readOnlyHint: true, openWorldHint: false },
+      scope: 'catalog:read',
+      inputSchema: { type: 'object', properties: {} },
+      handler: jest.fn().mockResolvedValue(result),
+    });
+
+    test('should return the tool output', async () => {
+      const tool = createTool({ content: [{ type: 'text', text: '{"success":true}' }] });
+
+      await expect(readFromTool(tool, { sku: '001' })).resolves.toBe('{"success":true}');
+      expect(tool.handler).toHaveBeenCalledWith({ sku: '001' });
+    });
+
+    test('should surface tool errors', async () => {
+      const tool = createTool({
+        content: [{ type: 'text', text: JSON.stringify({ success: false, message: 'Failed to get order' }) }],
+        isError: true,
+      } as Awaited<ReturnType<SprykerTool['handler']>>);
+
+      await expect(readFromTool(tool, {})).rejects.toThrow('Failed to get order');
+    });
+  });
+});
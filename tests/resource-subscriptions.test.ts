@@ -0,0 +1,152 @@
+/**
+ * Resource Subscription Tests
+ */
+
+jest.mock('../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '../src/config/index.js';
+import { createServer } from '../src/index.js';
+import { resourceRegistry, ResourceRegistry } from '../src/resources/registry.js';
+import { ResourceSubscriptionManager } from '../src/resources/subscriptions.js';
+import type { MCPServer } from '../src/servers/types.js';
+import { getSessionId } from '../src/services/session-context.js';
+import { logger } from '../src/utils/logger.js';
+
+describe('ResourceSubscriptionManager', () => {
+  let registry: ResourceRegistry;
+  let fingerprint: jest.Mock;
+  let server: { sendResourceUpdated: jest.Mock };
+  let manager: ResourceSubscriptionManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    registry = new ResourceRegistry();
+    fingerprint = jest.fn().mockResolvedValue('v1');
+    registry.register({
+      name: 'cart',
+      description: 'Cart',
+      mimeType: 'application/json',
+      uriTemplate: 'spryker://cart/{cartId}',
+      read: jest.fn(),
+      fingerprint,
+    });
+    registry.register({
+      name: 'category-tree',
+      description: 'Category tree',
+      mimeType: 'application/json',
+      uriTemplate: 'spryker://category-tree',
+      read: jest.fn(),
+    });
+
+    server = { sendResourceUpdated: jest.fn().mockResolvedValue(undefined) };
+    manager = new ResourceSubscriptionManager(server as unknown as Server, 1000, registry);
+  });
+
+  afterEach(() => {
+    manager.stop();
+  });
+
+  it('should record a baseline within the subscribing session', async () => {
+    fingerprint.mockImplementation(async () => getSessionId());
+
+    await manager.subscribe('spryker://cart/cart-1', 'mcp-1');
+
+    expect(fingerprint).toHaveBeenCalledWith({ cartId: 'cart-1' });
+    expect(await fingerprint.mock.results[0]!.value).toBe('mcp-1');
+    expect(manager.list()).toEqual(['spryker://cart/cart-1']);
+  });
+
+  it('should reject resources that cannot be subscribed to', async () => {
+    await expect(manager.subscribe('spryker://category-tree')).rejects.toThrow(
+      'Resource does not support subscriptions'
+    );
+    await expect(manager.subscribe('spryker://unknown/1')).rejects.toThrow('Resource not found');
+  });
+
+  it('should keep polling after a failed check', async () => {
+    await manager.subscribe('spryker://cart/cart-1');
+
+    fingerprint.mockRejectedValueOnce(new Error('Service unavailable'));
+    await manager.poll();
+
+    expect(logger.warn).toHaveBeenCalledWith('Failed to poll resource spryker://cart/cart-1', {
+      error: 'Service unavailable',
+    });
+
+    fingerprint.mockResolvedValue('v2');
+    await manager.poll();
+
+    expect(server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+  });
+
+  it('should poll on the configured interval until unsubscribed', async () => {
+    jest.useFakeTimers();
+    try {
+      await manager.subscribe('spryker://cart/cart-1');
+      fingerprint.mockResolvedValue('v2');
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+
+      manager.unsubscribe('spryker://cart/cart-1');
+      fingerprint.mockResolvedValue('v3');
+
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(server.sendResourceUpdated).toHaveBeenCalledTimes(1);
+      expect(manager.list()).toEqual([]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe('Resource update notifications', () => {
+  const ports = { http: 3941, sse: 3942 };
+  const uri = 'spryker://cart/cart-1';
+  let server: MCPServer;
+  let client: Client;
+
+  beforeEach(() => {
+    // Every poll sees a new version, so clients get notified as soon as they listen
+    let version = 0;
+    const fingerprint = jest.fn(async () => `v${++version}`);
+    const cart = resourceRegistry.match(uri)!.resource;
+    jest.spyOn(resourceRegistry, 'match').mockReturnValue({ resource: { ...cart, fingerprint }, variables: { cartId: 'cart-1' } });
+    (config.mcp.resources as { pollInterval: number }).pollInterval = 50;
+  });
+
+  afterEach(async () => {
+    await client.close();
+    await server.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it.each<keyof typeof ports>(['http', 'sse'])('should reach clients of the %s transport', async transport => {
+    const url = new URL(`http://localhost:${ports[transport]}/mcp`);
+    server = createServer({ transport, httpHost: 'localhost', httpPort: ports[transport], httpEndpoint: '/mcp' });
+    await server.start();
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect((transport === 'http' ? new StreamableHTTPClientTransport(url) : new SSEClientTransport(url)) as Transport);
+
+    const updated = new Promise<string>(resolve => {
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => resolve(notification.params.uri));
+    });
+    await client.subscribeResource({ uri });
+
+    await expect(updated).resolves.toBe(uri);
+  });
+});
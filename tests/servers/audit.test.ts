@@ -0,0 +1,93 @@
+/**
+ * Tests for the audit route
+ */
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    server: {
+      logLevel: 'info',
+      redaction: {
+        strategy: 'mask'
+      }
+    },
+    audit: {
+      enabled: true,
+      file: '/tmp/audit.jsonl',
+      maxSize: 1024,
+      maxFiles: 1,
+      tool: false,
+      adminToken: 'admin-token-0123456789'
+    }
+  }
+}));
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+import type { IncomingMessage } from 'node:http';
+import { config } from '../../src/config/index.js';
+import { auditTrail } from '../../src/services/audit-trail.js';
+import { auditRoute } from '../../src/servers/audit.js';
+
+const request = (method = 'GET', authorization?: string) =>
+  ({ method, headers: authorization ? { authorization } : {} }) as unknown as IncomingMessage;
+
+const url = (query = '') => new URL(`http://localhost/audit${query}`);
+
+describe('Audit route', () => {
+  const audit = config.audit as { adminToken?: string };
+  let query: jest.SpyInstance;
+
+  beforeEach(() => {
+    audit.adminToken = 'admin-token-0123456789';
+    query = jest.spyOn(auditTrail, 'query').mockResolvedValue([]);
+    jest.spyOn(auditTrail, 'verify').mockResolvedValue({ valid: true, entries: 0 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should not exist without an admin token', async () => {
+    delete audit.adminToken;
+
+    await expect(auditRoute(request('GET', 'Bearer admin-token-0123456789'), url())).resolves.toMatchObject({ status: 404 });
+  });
+
+  it('should only answer GET requests', async () => {
+    await expect(auditRoute(request('DELETE', 'Bearer admin-token-0123456789'), url())).resolves.toMatchObject({ status: 405 });
+  });
+
+  it.each([undefined, 'Bearer wrong-token', 'Basic admin-token-0123456789'])('should reject the authorization %s', async authorization => {
+    const response = await auditRoute(request('GET', authorization), url());
+
+    expect(response).toMatchObject({ status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="audit"' } });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid queries', async () => {
+    const response = await auditRoute(request('GET', 'Bearer admin-token-0123456789'), url('?limit=1000&since=yesterday'));
+
+    expect(response.status).toBe(400);
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should answer with the matching entries', async () => {
+    const response = await auditRoute(
+      request('GET', 'Bearer admin-token-0123456789'),
+      url('?tool=checkout&since=2026-10-19T00:00:00Z&limit=10&verify=true')
+    );
+
+    expect(query).toHaveBeenCalledWith({ tool: 'checkout', since: Date.parse('2026-10-19T00:00:00Z'), limit: 10 });
+    expect(response).toEqual({
+      status: 200,
+      body: { success: true, entries: [], count: 0, integrity: { valid: true, entries: 0 } },
+    });
+  });
+});
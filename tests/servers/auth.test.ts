@@ -0,0 +1,204 @@
+/**
+ * Tests for the bearer authorization of the HTTP and SSE transports
+ */
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    server: {
+      name: 'spryker-mcp-server',
+      logLevel: 'info',
+      redaction: {
+        strategy: 'mask'
+      }
+    },
+    mcp: {
+      auth: {
+        enabled: true,
+        jwksCacheTtl: 600000,
+        clockTolerance: 30000,
+        devIssuer: true
+      },
+      tls: {
+        enabled: false
+      }
+    }
+  }
+}));
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+jest.mock('../../src/tools/index.js', () => ({
+  toolRegistry: {
+    getTool: (name: string) => ({ 'get-product': { scope: 'catalog:read' }, checkout: { scope: 'checkout' } })[name],
+  }
+}));
+
+import { Readable } from 'node:stream';
+import type { ServerResponse } from 'node:http';
+import { config } from '../../src/config/index.js';
+import { logger } from '../../src/utils/logger.js';
+import { BearerAuth, createBearerAuth, principalOf, type AuthenticatedRequest } from '../../src/servers/auth.js';
+
+const options = { transport: 'http' as const, httpHost: 'localhost', httpPort: 3000, httpEndpoint: '/mcp' };
+const METADATA_URL = 'http://localhost:3000/.well-known/oauth-protected-resource/mcp';
+
+const request = (method = 'GET', headers: Record<string, string> = {}, body = '') =>
+  Object.assign(Readable.from([body]), { method, headers }) as unknown as AuthenticatedRequest;
+
+const response = () => {
+  const res = { writeHead: jest.fn(), end: jest.fn() };
+  return res as typeof res & ServerResponse;
+};
+
+const url = (path: string) => new URL(`http://localhost:3000${path}`);
+
+const issueToken = async (auth: BearerAuth, scope: string): Promise<string> => {
+  const body = new URLSearchParams({ grant_type: 'client_credentials', scope, client_id: 'cli' }).toString();
+  const issued = await auth.route(request('POST', { 'content-type': 'application/x-www-form-urlencoded' }, body), url('/oauth/token'));
+  return (issued?.body as { access_token: string }).access_token;
+};
+
+describe('BearerAuth', () => {
+  const authConfig = config.mcp.auth as { enabled: boolean; devIssuer: boolean };
+  let auth: BearerAuth;
+
+  beforeEach(() => {
+    authConfig.enabled = true;
+    authConfig.devIssuer = true;
+    auth = new BearerAuth(options);
+  });
+
+  describe('metadata', () => {
+    it.each(['/.well-known/oauth-protected-resource', '/.well-known/oauth-protected-resource/mcp'])('should be served at %s', async path => {
+      const route = await auth.route(request(), url(path));
+
+      expect(route).toMatchObject({
+        status: 200,
+        body: {
+          resource: 'http://localhost:3000/mcp',
+          authorization_servers: ['http://localhost:3000'],
+          bearer_methods_supported: ['header'],
+          resource_name: 'spryker-mcp-server',
+        },
+      });
+      expect((route?.body as { scopes_supported: string[] }).scopes_supported).toContain('cart:write');
+    });
+
+    it('should only answer GET requests', async () => {
+      await expect(auth.route(request('POST'), url('/.well-known/oauth-protected-resource'))).resolves.toMatchObject({ status: 405 });
+    });
+
+    it('should leave other paths to the server', async () => {
+      await expect(auth.route(request(), url('/health'))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should challenge requests without an access token', async () => {
+      const res = response();
+
+      await expect(auth.authenticate(request(), res)).resolves.toBe(false);
+      expect(res.writeHead).toHaveBeenCalledWith(401, expect.objectContaining({
+        'WWW-Authenticate': `Bearer resource_metadata="${METADATA_URL}"`,
+      }));
+    });
+
+    it('should reject invalid access tokens', async () => {
+      const res = response();
+
+      await expect(auth.authenticate(request('POST', { authorization: 'Bearer not-a-token' }), res)).resolves.toBe(false);
+      expect(res.writeHead).toHaveBeenCalledWith(401, expect.objectContaining({
+        'WWW-Authenticate': `Bearer error="invalid_token", error_description="Malformed access token", resource_metadata="${METADATA_URL}"`,
+      }));
+      expect(logger.warn).toHaveBeenCalledWith('Rejected access token', { reason: 'Malformed access token' });
+    });
+
+    it('should attach the verified access token to the request', async () => {
+      const token = await issueToken(auth, 'catalog:read');
+      const req = request('POST', { authorization: `Bearer ${token}` });
+
+      await expect(auth.authenticate(req, response())).resolves.toBe(true);
+      expect(req.auth).toMatchObject({ token, clientId: 'cli', scopes: ['catalog:read'] });
+      expect(principalOf(req)).toBe(JSON.stringify(['http://localhost:3000', 'cli', 'cli', null]));
+    });
+  });
+
+  describe('authorizeTools', () => {
+    const authorized = () => Object.assign(request('POST'), {
+      auth: { token: 'token', clientId: 'cli', scopes: ['catalog:read'] },
+    });
+
+    it('should allow calls of tools the access token grants', () => {
+      const res = response();
+
+      expect(auth.authorizeTools(authorized(), res, ['get-product', 'unknown-tool'])).toBe(true);
+      expect(res.writeHead).not.toHaveBeenCalled();
+    });
+
+    it('should answer calls of other tools with the scopes they need', () => {
+      const res = response();
+
+      expect(auth.authorizeTools(authorized(), res, ['get-product', 'checkout'])).toBe(false);
+      expect(res.writeHead).toHaveBeenCalledWith(403, expect.objectContaining({
+        'WWW-Authenticate': `Bearer error="insufficient_scope", error_description="Insufficient scope, requires checkout", scope="checkout", resource_metadata="${METADATA_URL}"`,
+      }));
+    });
+  });
+
+  describe('development issuer', () => {
+    it('should publish its metadata and keys', async () => {
+      await expect(auth.route(request(), url('/.well-known/oauth-authorization-server'))).resolves.toMatchObject({
+        status: 200,
+        body: { issuer: 'http://localhost:3000', grant_types_supported: ['client_credentials'] },
+      });
+      await expect(auth.route(request(), url('/oauth/jwks'))).resolves.toMatchObject({
+        status: 200,
+        body: { keys: [expect.objectContaining({ kty: 'EC' })] },
+      });
+    });
+
+    it('should refuse unknown scopes', async () => {
+      const body = new URLSearchParams({ grant_type: 'client_credentials', scope: 'admin' }).toString();
+
+      await expect(auth.route(request('POST', {}, body), url('/oauth/token'))).resolves.toMatchObject({
+        status: 400,
+        headers: { 'Cache-Control': 'no-store' },
+        body: { error: 'invalid_scope' },
+      });
+    });
+
+    it('should only run on a loopback host', () => {
+      expect(() => new BearerAuth({ ...options, httpHost: '0.0.0.0' })).toThrow('only allowed on a loopback host');
+    });
+
+    it('should not exist unless enabled', async () => {
+      authConfig.devIssuer = false;
+      const withoutIssuer = new BearerAuth(options);
+
+      await expect(withoutIssuer.route(request(), url('/oauth/jwks'))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('createBearerAuth', () => {
+    it('should not authorize requests when disabled', () => {
+      authConfig.enabled = false;
+
+      expect(createBearerAuth(options)).toBeUndefined();
+    });
+
+    it('should warn when disabled on a public host', () => {
+      authConfig.enabled = false;
+
+      createBearerAuth({ ...options, httpHost: '0.0.0.0' });
+
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Authorization is disabled'));
+    });
+  });
+});
@@ -94,6 +94,7 @@ describe('BaseServer', () => {
     // Create mock server instance
     mockServer = {
       setRequestHandler: jest.fn(),
+      getClientCapabilities: jest.fn(),
       connect: jest.fn().mockResolvedValue(undefined),
       close: jest.fn().mockResolvedValue(undefined),
     };
@@ -118,6 +119,7 @@ describe('BaseServer', () => {
           capabilities: {
             tools: {},
             prompts: {},
+            resources: {},
             logging: {},
           },
         }
@@ -126,7 +128,7 @@ describe('BaseServer', () => {
 
     it('should register handlers during construction', () => {
       expect(mockLogger.info).toHaveBeenCalledWith('Registering MCP handlers...');
-      expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(4); // 4 handlers
+      expect(mockServer.setRequestHandler).toHaveBeenCalledTimes(7); // 7 handlers
       expect(mockToolRegistry.registerAll).toHaveBeenCalledWith(mockServer);
       expect(mockLogger.info).toHaveBeenCalledWith('MCP handlers registered successfully');
     });
@@ -159,7 +161,7 @@ describe('BaseServer', () => {
 
       const result = await toolCallHandler(request);
 
-      expect(mockLogger.info).toHaveBeenCalledWith('Executing tool: test-tool', { args: { param1: 'value1' } });
+      expect(mockLogger.info).toHaveBeenCalledWith('Executing tool: test-tool', { tool: 'test-tool', args: { param1: 'value1' } });
       expect(mockToolRegistry.callTool).toHaveBeenCalledWith('test-tool', { param1: 'value1' });
       expect(mockLogger.info).toHaveBeenCalledWith('Tool test-tool executed successfully');
       expect(result).toBe(mockResult);
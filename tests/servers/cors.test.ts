@@ -0,0 +1,164 @@
+/**
+ * Tests for the CORS headers and origin and Host checks
+ */
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    server: {
+      logLevel: 'info',
+      redaction: {
+        strategy: 'mask'
+      }
+    },
+    mcp: {
+      cors: {
+        origins: ['*'],
+        credentials: false,
+        allowedHeaders: ['Content-Type', 'Authorization'],
+        dnsRebindingProtection: true
+      }
+    }
+  }
+}));
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from '../../src/config/index.js';
+import { OriginPolicy, allowedHosts, hostnameOf } from '../../src/servers/cors.js';
+
+const options = { transport: 'http' as const, httpHost: 'localhost', httpPort: 3000, httpEndpoint: '/mcp' };
+
+const request = (headers: Record<string, string>, method = 'POST') =>
+  ({ method, headers }) as unknown as IncomingMessage;
+
+const response = () => {
+  const res = { setHeader: jest.fn(), writeHead: jest.fn(), end: jest.fn() };
+  return res as typeof res & ServerResponse;
+};
+
+describe('Origin policy', () => {
+  const cors = config.mcp.cors as {
+    origins: string[];
+    credentials: boolean;
+    allowedHosts?: string[];
+    dnsRebindingProtection: boolean;
+  };
+
+  beforeEach(() => {
+    cors.origins = ['*'];
+    cors.credentials = false;
+    delete cors.allowedHosts;
+    cors.dnsRebindingProtection = true;
+  });
+
+  describe('allowedHosts', () => {
+    it('should default to the loopback names on a loopback host', () => {
+      expect(allowedHosts(options)).toEqual(['localhost', '127.0.0.1', '[::1]']);
+    });
+
+    it('should accept any host on a public interface', () => {
+      expect(allowedHosts({ ...options, httpHost: '0.0.0.0' })).toBeUndefined();
+    });
+
+    it('should use the configured hosts', () => {
+      cors.allowedHosts = ['MCP.example.com', 'localhost:3000'];
+
+      expect(allowedHosts({ ...options, httpHost: '0.0.0.0' })).toEqual(['mcp.example.com', 'localhost:3000']);
+    });
+
+    it('should accept any host without DNS rebinding protection', () => {
+      cors.dnsRebindingProtection = false;
+
+      expect(allowedHosts(options)).toBeUndefined();
+    });
+  });
+
+  it.each([
+    ['localhost:3000', 'localhost'],
+    ['[::1]:3000', '[::1]'],
+    ['Shop.Example.com', 'shop.example.com'],
+  ])('should take the host name of %s', (host, hostname) => {
+    expect(hostnameOf(host)).toBe(hostname);
+  });
+
+  describe('hosts', () => {
+    it.each(['localhost:3000', '127.0.0.1:3000', '[::1]:3000'])('should accept %s', host => {
+      expect(new OriginPolicy(options, []).handle(request({ host }), response())).toBe(true);
+    });
+
+    it.each(['attacker.example.com:3000', ''])('should refuse "%s" as a DNS rebinding attempt', host => {
+      const res = response();
+
+      expect(new OriginPolicy(options, []).handle(request({ host }), res)).toBe(false);
+      expect(res.writeHead).toHaveBeenCalledWith(403, { 'Content-Type': 'application/json' });
+      expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({
+        error: 'Forbidden',
+        message: `Host ${host || '(none)'} is not allowed`,
+      });
+    });
+
+    it('should match configured hosts with a port exactly', () => {
+      cors.allowedHosts = ['mcp.example.com:8443'];
+      const policy = new OriginPolicy(options, []);
+
+      expect(policy.handle(request({ host: 'mcp.example.com:8443' }), response())).toBe(true);
+      expect(policy.handle(request({ host: 'mcp.example.com:3000' }), response())).toBe(false);
+    });
+  });
+
+  describe('origins', () => {
+    it('should allow any origin by default', () => {
+      const res = response();
+
+      expect(new OriginPolicy(options, ['mcp-session-id']).handle(request({ host: 'localhost:3000', origin: 'https://shop.example.com' }), res)).toBe(true);
+      expect(res.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Origin', '*');
+      expect(res.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      expect(res.setHeader).toHaveBeenCalledWith('Access-Control-Expose-Headers', 'mcp-session-id');
+    });
+
+    it('should echo allowed origins and allow credentials', () => {
+      cors.origins = ['https://shop.example.com'];
+      cors.credentials = true;
+      const res = response();
+
+      expect(new OriginPolicy(options, []).handle(request({ host: 'localhost:3000', origin: 'https://shop.example.com' }), res)).toBe(true);
+      expect(res.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Origin', 'https://shop.example.com');
+      expect(res.setHeader).toHaveBeenCalledWith('Vary', 'Origin');
+      expect(res.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Credentials', 'true');
+    });
+
+    it('should refuse other origins', () => {
+      cors.origins = ['https://shop.example.com'];
+      const res = response();
+
+      expect(new OriginPolicy(options, []).handle(request({ host: 'localhost:3000', origin: 'https://attacker.example.com' }), res)).toBe(false);
+      expect(res.writeHead).toHaveBeenCalledWith(403, { 'Content-Type': 'application/json' });
+      expect(JSON.parse(res.end.mock.calls[0][0]).message).toBe('Origin https://attacker.example.com is not allowed');
+    });
+
+    it('should accept clients that send no origin', () => {
+      cors.origins = ['https://shop.example.com'];
+      const res = response();
+
+      expect(new OriginPolicy(options, []).handle(request({ host: 'localhost:3000' }), res)).toBe(true);
+      expect(res.setHeader).not.toHaveBeenCalledWith('Access-Control-Allow-Origin', expect.anything());
+    });
+  });
+
+  it('should answer preflight requests', () => {
+    const res = response();
+
+    expect(new OriginPolicy(options, []).handle(request({ host: 'localhost:3000', origin: 'https://shop.example.com' }, 'OPTIONS'), res)).toBe(false);
+    expect(res.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    expect(res.writeHead).toHaveBeenCalledWith(200);
+    expect(res.end).toHaveBeenCalled();
+  });
+});
@@ -8,12 +8,14 @@ import { HttpMCPServer } from '../../src/servers/http-server.js';
 import { logger } from '../../src/utils/logger.js';
 import { validateEnvironment } from '../../src/utils/validation.js';
 import { config } from '../../src/config/index.js';
+import { SprykerApiService } from '../../src/services/spryker-api.js';
 
 // Mock external dependencies
 jest.mock('../../src/utils/logger.js', () => ({
   logger: {
     info: jest.fn(),
     debug: jest.fn(),
+    warn: jest.fn(),
     error: jest.fn(),
     getLevel: jest.fn().mockReturnValue('info'),
     setLevel: jest.fn(),
@@ -358,7 +360,7 @@ describe('HttpMCPServer', () => {
       await (httpServer as any).handleHttpRequest(mockReq, mockRes);
       
       expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Origin', '*');
-      expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
       expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, mcp-session-id');
       expect(mockRes.writeHead).toHaveBeenCalledWith(200);
       expect(mockRes.end).toHaveBeenCalled();
@@ -374,6 +376,54 @@ describe('HttpMCPServer', () => {
       expect(mockRes.end).toHaveBeenCalledWith(expect.stringContaining('MCP server is running'));
     });
 
+    test('should open the notification stream of a session', async () => {
+      const transport = { handleRequest: jest.fn().mockResolvedValue(undefined) };
+      (httpServer as any).transports.set('session-1', transport);
+      (httpServer as any).sessionPrincipals.set('session-1', undefined);
+      mockReq.headers = { host: 'localhost:3000', accept: 'text/event-stream', 'mcp-session-id': 'session-1' };
+
+      await (httpServer as any).handleHttpRequest(mockReq, mockRes);
+
+      expect(transport.handleRequest).toHaveBeenCalledWith(mockReq, mockRes);
+    });
+
+    test.each([
+      [{}, 400, 'Bad Request: Missing session ID for notification stream'],
+      [{ 'mcp-session-id': 'unknown' }, 404, 'Session not found'],
+    ])('should refuse notification streams of other sessions', async (headers, status, message) => {
+      mockReq.headers = { host: 'localhost:3000', accept: 'text/event-stream', ...headers };
+
+      await (httpServer as any).handleHttpRequest(mockReq, mockRes);
+
+      expect(mockRes.writeHead).toHaveBeenCalledWith(status, { 'Content-Type': 'application/json' });
+      expect(JSON.parse(mockRes.end.mock.calls[0][0]).error.message).toBe(message);
+    });
+
+    test('should terminate a session at the request of its client', async () => {
+      const transport = { handleRequest: jest.fn().mockResolvedValue(undefined) };
+      (httpServer as any).transports.set('session-1', transport);
+      (httpServer as any).sessionPrincipals.set('session-1', undefined);
+      mockReq.method = 'DELETE';
+      mockReq.headers = { host: 'localhost:3000', 'mcp-session-id': 'session-1' };
+
+      await (httpServer as any).handleHttpRequest(mockReq, mockRes);
+
+      expect(transport.handleRequest).toHaveBeenCalledWith(mockReq, mockRes);
+    });
+
+    test.each([
+      [{}, 400, 'Bad Request: Missing session ID for session termination'],
+      [{ 'mcp-session-id': 'unknown' }, 404, 'Session not found'],
+    ])('should refuse to terminate other sessions', async (headers, status, message) => {
+      mockReq.method = 'DELETE';
+      mockReq.headers = { host: 'localhost:3000', ...headers };
+
+      await (httpServer as any).handleHttpRequest(mockReq, mockRes);
+
+      expect(mockRes.writeHead).toHaveBeenCalledWith(status, { 'Content-Type': 'application/json' });
+      expect(JSON.parse(mockRes.end.mock.calls[0][0]).error.message).toBe(message);
+    });
+
     test('should handle GET request to health endpoint', async () => {
       mockReq.method = 'GET';
       mockReq.url = '/health';
@@ -384,6 +434,37 @@ describe('HttpMCPServer', () => {
       expect(mockRes.end).toHaveBeenCalledWith(expect.stringContaining('healthy'));
     });
 
+    test('should report open circuits of the Glue API as degraded', async () => {
+      const circuits = [{ key: 'glue.example.com', state: 'open', consecutiveFailures: 5 }];
+      const spy = jest.spyOn(SprykerApiService.prototype, 'getCircuitStatuses').mockReturnValue(circuits as any);
+      mockReq.method = 'GET';
+      mockReq.url = '/health';
+
+      await (httpServer as any).handleHttpRequest(mockReq, mockRes);
+
+      expect(mockRes.writeHead).toHaveBeenCalledWith(200, { 'Content-Type': 'application/json' });
+      expect(JSON.parse(mockRes.end.mock.calls[0][0])).toMatchObject({
+        status: 'degraded',
+        upstream: { circuits },
+      });
+      spy.mockRestore();
+    });
+
+    test('should expose metrics in the Prometheus text format', async () => {
+      const spy = jest.spyOn(SprykerApiService.prototype, 'getCacheStats').mockReturnValue({ hits: 3, misses: 1, revalidations: 0 });
+      mockReq.method = 'GET';
+      mockReq.url = '/metrics';
+
+      await (httpServer as any).handleHttpRequest(mockReq, mockRes);
+
+      expect(mockRes.writeHead).toHaveBeenCalledWith(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+      const body = mockRes.end.mock.calls[0][0];
+      expect(body).toContain('# TYPE mcp_tool_calls_total counter');
+      expect(body).toContain('spryker_cache_lookups_total{result="hit"} 3');
+      expect(body).toContain('spryker_cache_hit_ratio 0.75');
+      spy.mockRestore();
+    });
+
     test('should handle POST request to MCP endpoint with valid JSON', async () => {
       mockReq.method = 'POST';
       mockReq.url = '/mcp';
@@ -679,6 +760,7 @@ describe('HttpMCPServer', () => {
       
       const mockServer = {
         connect: jest.fn().mockResolvedValue(undefined),
+        setRequestHandler: jest.fn(),
       };
       const { Server } = require('@modelcontextprotocol/sdk/server/index.js');
       Server.mockImplementation(() => mockServer);
@@ -721,7 +803,7 @@ describe('HttpMCPServer', () => {
       expect(mockLogger.debug).toHaveBeenCalledWith('Reusing transport for session: test-session');
     });
 
-    test('should handle non-initialization request without session (gets 500 due to error handling)', async () => {
+    test('should reject non-initialization request without session', async () => {
       const { isInitializeRequest } = require('@modelcontextprotocol/sdk/types.js');
       isInitializeRequest.mockClear();
       isInitializeRequest.mockReturnValue(false);
@@ -745,13 +827,12 @@ describe('HttpMCPServer', () => {
       
       await (httpServer as any).handleMCPRequest(mockReq, mockRes, message);
       
-      // The actual behavior returns 500 due to error handling in the catch block
-      expect(mockRes.writeHead).toHaveBeenCalledWith(500, { 'Content-Type': 'application/json' });
+      expect(mockRes.writeHead).toHaveBeenCalledWith(400, { 'Content-Type': 'application/json' });
       expect(mockRes.end).toHaveBeenCalledWith(JSON.stringify({
         jsonrpc: '2.0',
         error: {
-          code: -32603,
-          message: 'Internal server error',
+          code: -32000,
+          message: 'Bad Request: Missing session ID for non-initialization request',
         },
         id: 1,
       }));
@@ -767,6 +848,7 @@ describe('HttpMCPServer', () => {
       
       const mockServer = {
         connect: jest.fn().mockResolvedValue(undefined),
+        setRequestHandler: jest.fn(),
       };
       const { Server } = require('@modelcontextprotocol/sdk/server/index.js');
       Server.mockImplementation(() => mockServer);
@@ -818,6 +900,7 @@ describe('HttpMCPServer', () => {
       
       const mockServer = {
         connect: jest.fn().mockRejectedValue(new Error('Connection failed')),
+        setRequestHandler: jest.fn(),
       };
       const { Server } = require('@modelcontextprotocol/sdk/server/index.js');
       Server.mockImplementation(() => mockServer);
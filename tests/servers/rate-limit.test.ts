@@ -0,0 +1,187 @@
+/**
+ * Tests for HTTP rate limiting
+ */
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    server: {
+      logLevel: 'info'
+    },
+    mcp: {
+      tls: {
+        clientIdentities: {}
+      }
+    },
+    rateLimit: {
+      enabled: true,
+      windowMs: 60000,
+      maxRequests: 3,
+      ipMaxRequests: 5,
+      trustProxy: false,
+      tools: {
+        checkout: { maxRequests: 1 },
+        'product-search': { maxRequests: 2, windowMs: 1000 }
+      }
+    }
+  }
+}));
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { config } from '../../src/config/index.js';
+import { rateLimiter } from '../../src/services/rate-limiter.js';
+import {
+  calledTools,
+  clientAddress,
+  enforceRateLimit,
+  rateLimitChecks,
+} from '../../src/servers/rate-limit.js';
+
+const request = (remoteAddress = '10.0.0.1', headers: Record<string, string> = {}) =>
+  ({ headers, socket: { remoteAddress } }) as unknown as IncomingMessage;
+
+const response = () => ({
+  writeHead: jest.fn(),
+  end: jest.fn(),
+}) as unknown as ServerResponse & { writeHead: jest.Mock; end: jest.Mock };
+
+const toolCall = (name: string, id = 1) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: {} } });
+
+describe('HTTP rate limiting', () => {
+  const rateLimit = config.rateLimit as { enabled: boolean; trustProxy: boolean };
+
+  beforeEach(() => {
+    rateLimiter.reset();
+    rateLimit.enabled = true;
+    rateLimit.trustProxy = false;
+  });
+
+  describe('clientAddress', () => {
+    it('should use the socket address', () => {
+      expect(clientAddress(request('10.0.0.1', { 'x-forwarded-for': '192.168.0.1' }))).toBe('10.0.0.1');
+    });
+
+    it('should use the first forwarded address behind a trusted proxy', () => {
+      rateLimit.trustProxy = true;
+      expect(clientAddress(request('10.0.0.1', { 'x-forwarded-for': '192.168.0.1, 10.0.0.2' }))).toBe('192.168.0.1');
+    });
+  });
+
+  describe('calledTools', () => {
+    it('should return the tools called by a message or batch', () => {
+      expect(calledTools(toolCall('checkout'))).toEqual(['checkout']);
+      expect(calledTools([toolCall('checkout'), { method: 'tools/list' }, toolCall('get-cart')])).toEqual(['checkout', 'get-cart']);
+      expect(calledTools(null)).toEqual([]);
+    });
+  });
+
+  describe('rateLimitChecks', () => {
+    it('should count requests per IP, session and overridden tool', () => {
+      expect(rateLimitChecks(request(), { sessionId: 'session-1', tools: ['checkout', 'get-cart', 'product-search'] })).toEqual([
+        { key: 'ip:10.0.0.1', maxRequests: 5, windowMs: 60000 },
+        { key: 'session:session-1', maxRequests: 3, windowMs: 60000 },
+        { key: 'tool:checkout:ip:10.0.0.1', maxRequests: 1, windowMs: 60000 },
+        { key: 'tool:product-search:ip:10.0.0.1', maxRequests: 2, windowMs: 1000 },
+      ]);
+    });
+
+    it('should count every call of a tool in a batch', () => {
+      expect(rateLimitChecks(request(), { sessionId: 'session-1', tools: ['product-search', 'get-cart', 'product-search'] })[2]).toEqual(
+        { key: 'tool:product-search:ip:10.0.0.1', maxRequests: 2, windowMs: 1000, cost: 2 }
+      );
+    });
+
+    it('should count tool calls per IP without a session', () => {
+      expect(rateLimitChecks(request(), { tools: ['checkout'] })[1]?.key).toBe('tool:checkout:ip:10.0.0.1');
+    });
+
+    it('should count clients with a TLS client certificate by its identity', () => {
+      const req = {
+        headers: {},
+        socket: { remoteAddress: '10.0.0.1', authorized: true, getPeerCertificate: () => ({ subject: { CN: 'assistant' } }) },
+      } as unknown as IncomingMessage;
+
+      expect(rateLimitChecks(req, { tools: ['checkout'] }).map(check => check.key)).toEqual(['client:assistant', 'tool:checkout:client:assistant']);
+    });
+  });
+
+  describe('enforceRateLimit', () => {
+    it('should answer requests over the budget with 429 and Retry-After', () => {
+      expect(enforceRateLimit(request(), response(), { sessionId: 'session-1', tools: ['checkout'] })).toBe(true);
+
+      const res = response();
+      expect(enforceRateLimit(request(), res, { sessionId: 'session-1', tools: ['checkout'], id: 7 })).toBe(false);
+
+      expect(res.writeHead).toHaveBeenCalledWith(429, {
+        'Content-Type': 'application/json',
+        'Retry-After': '60',
+      });
+      expect(JSON.parse(res.end.mock.calls[0][0])).toEqual({
+        jsonrpc: '2.0',
+        error: {
+          code: -32000,
+          message: 'Rate limit exceeded, retry after 60 seconds',
+          data: { scope: 'tool', tool: 'checkout', retryAfter: 60 },
+        },
+        id: 7,
+      });
+    });
+
+    it('should refuse batches with more calls of a tool than its budget allows', () => {
+      expect(enforceRateLimit(request(), response(), { sessionId: 'session-1', tools: ['product-search'] })).toBe(true);
+
+      const res = response();
+      expect(enforceRateLimit(request(), res, { sessionId: 'session-1', tools: ['product-search', 'product-search'] })).toBe(false);
+      expect(JSON.parse(res.end.mock.calls[0][0]).error.data).toMatchObject({ scope: 'tool', tool: 'product-search' });
+    });
+
+    it('should limit sessions independently of their tools', () => {
+      for (let i = 0; i < 3; i++) {
+        expect(enforceRateLimit(request(), response(), { sessionId: 'session-1' })).toBe(true);
+      }
+
+      const res = response();
+      expect(enforceRateLimit(request(), res, { sessionId: 'session-1' })).toBe(false);
+      expect(JSON.parse(res.end.mock.calls[0][0]).error.data.scope).toBe('session');
+
+      expect(enforceRateLimit(request(), response(), { sessionId: 'session-2' })).toBe(true);
+    });
+
+    it('should keep the tool budgets of a client when it opens new sessions', () => {
+      expect(enforceRateLimit(request(), response(), { sessionId: 'session-1', tools: ['checkout'] })).toBe(true);
+
+      for (const sessionId of ['session-2', 'session-3']) {
+        const res = response();
+        expect(enforceRateLimit(request(), res, { sessionId, tools: ['checkout'] })).toBe(false);
+        expect(JSON.parse(res.end.mock.calls[0][0]).error.data).toMatchObject({ scope: 'tool', tool: 'checkout' });
+      }
+
+      expect(enforceRateLimit(request('10.0.0.2'), response(), { sessionId: 'session-4', tools: ['checkout'] })).toBe(true);
+    });
+
+    it('should limit clients across sessions', () => {
+      for (let i = 0; i < 5; i++) {
+        enforceRateLimit(request(), response(), { sessionId: `session-${i}` });
+      }
+
+      expect(enforceRateLimit(request(), response(), { sessionId: 'session-9' })).toBe(false);
+      expect(enforceRateLimit(request('10.0.0.2'), response())).toBe(true);
+    });
+
+    it('should allow everything when disabled', () => {
+      rateLimit.enabled = false;
+
+      for (let i = 0; i < 3; i++) {
+        expect(enforceRateLimit(request(), response(), { tools: ['checkout'] })).toBe(true);
+      }
+    });
+  });
+});
@@ -4,16 +4,19 @@
  * Tests for the SSE (Server-Sent Events) MCP server implementation
  */
 
+import { Readable } from 'node:stream';
 import { SSEMCPServer } from '../../src/servers/sse-server.js';
 import { logger } from '../../src/utils/logger.js';
 import { validateEnvironment } from '../../src/utils/validation.js';
 import { config } from '../../src/config/index.js';
+import { rateLimiter } from '../../src/services/rate-limiter.js';
 
 // Mock external dependencies
 jest.mock('../../src/utils/logger.js', () => ({
   logger: {
     info: jest.fn(),
     debug: jest.fn(),
+    warn: jest.fn(),
     error: jest.fn(),
     getLevel: jest.fn().mockReturnValue('info'),
     setLevel: jest.fn(),
@@ -26,7 +29,9 @@ jest.mock('../../src/utils/validation.js', () => ({
 
 jest.mock('@modelcontextprotocol/sdk/server/sse.js', () => ({
   SSEServerTransport: jest.fn().mockImplementation(() => ({
-    // Mock transport implementation
+    sessionId: 'sse-session-1',
+    handlePostMessage: jest.fn().mockResolvedValue(undefined),
+    close: jest.fn().mockResolvedValue(undefined),
   })),
 }));
 
@@ -50,10 +55,11 @@ jest.mock('node:http', () => ({
 
 jest.mock('node:url', () => ({
   URL: jest.fn().mockImplementation((url: string, base?: string) => {
-    // Simple URL parsing mock that extracts pathname
-    const urlPath = url.startsWith('/') ? url : '/' + url;
+    // Simple URL parsing mock that extracts pathname and query
+    const [urlPath, query = ''] = (url.startsWith('/') ? url : '/' + url).split('?');
     return {
       pathname: urlPath,
+      searchParams: new URLSearchParams(query),
       href: url
     };
   }),
@@ -366,14 +372,14 @@ describe('SSEMCPServer', () => {
 
       expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Origin', '*');
       expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      expect(mockRes.setHeader).toHaveBeenCalledWith('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-protocol-version, mcp-session-id');
       expect(mockRes.writeHead).toHaveBeenCalledWith(200);
       expect(mockRes.end).toHaveBeenCalled();
     });
 
-    test('should handle POST request to SSE endpoint (method not allowed)', async () => {
+    test('should handle PUT request to SSE endpoint (method not allowed)', async () => {
       const mockReq = {
-        method: 'POST',
+        method: 'PUT',
         url: '/sse',
         headers: { host: 'localhost:3001' }
       };
@@ -390,6 +396,102 @@ describe('SSEMCPServer', () => {
       expect(mockRes.end).toHaveBeenCalledWith(JSON.stringify({ error: 'Method not allowed' }));
     });
 
+    describe('posted messages', () => {
+      const message = { jsonrpc: '2.0', id: 1, method: 'resources/subscribe', params: { uri: 'spryker://cart/cart-1' } };
+      const post = (url: string, body: string) =>
+        Object.assign(Readable.from([body]), { method: 'POST', url, headers: { host: 'localhost:3001' } });
+      const response = () => ({
+        setHeader: jest.fn(),
+        writeHead: jest.fn(),
+        end: jest.fn(),
+        headersSent: false
+      });
+      let transport: { handlePostMessage: jest.Mock };
+
+      beforeEach(async () => {
+        (Server as jest.Mock).mockImplementation(() => ({
+          connect: jest.fn().mockResolvedValue(undefined),
+          setRequestHandler: jest.fn(),
+        }));
+        await (sseServer as any).handleHttpRequest({ method: 'GET', url: '/sse', headers: { host: 'localhost:3001' } }, response());
+        transport = (SSEServerTransport as jest.Mock).mock.results[0]!.value;
+      });
+
+      test('should pass messages to the connection of their session', async () => {
+        const req = post('/sse?sessionId=sse-session-1', JSON.stringify(message));
+        const res = response();
+
+        await (sseServer as any).handleHttpRequest(req, res);
+
+        expect(transport.handlePostMessage).toHaveBeenCalledWith(req, res, message);
+      });
+
+      test('should answer messages of unknown sessions with 404', async () => {
+        const res = response();
+
+        await (sseServer as any).handleHttpRequest(post('/sse?sessionId=other', JSON.stringify(message)), res);
+
+        expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'application/json' });
+        expect(res.end).toHaveBeenCalledWith(JSON.stringify({ error: 'Session not found' }));
+        expect(transport.handlePostMessage).not.toHaveBeenCalled();
+      });
+
+      test('should answer messages of other clients with 404', async () => {
+        (sseServer as any).sessionPrincipals.set('sse-session-1', JSON.stringify(['issuer', 'other-client', 'user', null]));
+        const res = response();
+
+        await (sseServer as any).handleHttpRequest(post('/sse?sessionId=sse-session-1', JSON.stringify(message)), res);
+
+        expect(res.writeHead).toHaveBeenCalledWith(404, { 'Content-Type': 'application/json' });
+        expect(mockLogger.warn).toHaveBeenCalledWith('Rejected message for session sse-session-1 of another client', { clientId: undefined });
+        expect(transport.handlePostMessage).not.toHaveBeenCalled();
+      });
+
+      test('should refuse calls of tools the access token does not grant', async () => {
+        const auth = {
+          route: jest.fn().mockResolvedValue(undefined),
+          authenticate: jest.fn().mockResolvedValue(true),
+          authorizeTools: jest.fn().mockReturnValue(false),
+        };
+        (sseServer as any).auth = auth;
+        const call = { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'checkout', arguments: {} } };
+
+        await (sseServer as any).handleHttpRequest(post('/sse?sessionId=sse-session-1', JSON.stringify(call)), response());
+
+        expect(auth.authorizeTools).toHaveBeenCalledWith(expect.anything(), expect.anything(), ['checkout']);
+        expect(transport.handlePostMessage).not.toHaveBeenCalled();
+      });
+
+      test('should count messages against the session and tool budgets', async () => {
+        const { tools } = config.rateLimit;
+        (config.rateLimit as { tools: typeof tools }).tools = { checkout: { maxRequests: 5 } };
+        const consume = jest.spyOn(rateLimiter, 'consume').mockReturnValue({ allowed: false, limitedBy: 'tool:checkout:sse-session-1', retryAfterMs: 1000 });
+        const call = { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'checkout', arguments: {} } };
+        const res = response();
+
+        try {
+          await (sseServer as any).handleHttpRequest(post('/sse?sessionId=sse-session-1', JSON.stringify(call)), res);
+          expect(consume.mock.calls[0]![0].map(check => check.key)).toEqual(expect.arrayContaining(['session:sse-session-1', 'tool:checkout:ip:unknown']));
+        } finally {
+          consume.mockRestore();
+          (config.rateLimit as { tools: typeof tools }).tools = tools;
+        }
+
+        expect(res.writeHead).toHaveBeenCalledWith(429, expect.objectContaining({ 'Retry-After': '1' }));
+        expect(JSON.parse(res.end.mock.calls[0][0]).id).toBe(3);
+        expect(transport.handlePostMessage).not.toHaveBeenCalled();
+      });
+
+      test('should refuse messages that are not JSON', async () => {
+        const res = response();
+
+        await (sseServer as any).handleHttpRequest(post('/sse?sessionId=sse-session-1', '{'), res);
+
+        expect(res.writeHead).toHaveBeenCalledWith(400, { 'Content-Type': 'application/json' });
+        expect(transport.handlePostMessage).not.toHaveBeenCalled();
+      });
+    });
+
     test('should handle health check endpoint', async () => {
       const mockReq = {
         method: 'GET',
@@ -448,7 +550,8 @@ describe('SSEMCPServer', () => {
       (SSEServerTransport as jest.Mock).mockClear();
 
       const mockServer = {
-        connect: jest.fn().mockResolvedValue(undefined)
+        connect: jest.fn().mockResolvedValue(undefined),
+        setRequestHandler: jest.fn(),
       };
       (Server as jest.Mock).mockImplementation(() => mockServer);
 
@@ -463,6 +566,7 @@ describe('SSEMCPServer', () => {
           capabilities: {
             tools: {},
             prompts: {},
+            resources: { subscribe: true },
             logging: {},
           },
         }
@@ -490,7 +594,8 @@ describe('SSEMCPServer', () => {
       (SSEServerTransport as jest.Mock).mockClear();
 
       const mockServer = {
-        connect: jest.fn().mockRejectedValue(new Error('Connection failed'))
+        connect: jest.fn().mockRejectedValue(new Error('Connection failed')),
+        setRequestHandler: jest.fn(),
       };
       (Server as jest.Mock).mockImplementation(() => mockServer);
 
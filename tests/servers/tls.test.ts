@@ -0,0 +1,184 @@
+/**
+ * Tests for HTTPS and client certificates of the HTTP and SSE transports
+ */
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    server: {
+      logLevel: 'info',
+      redaction: {
+        strategy: 'mask'
+      }
+    },
+    mcp: {
+      tls: {
+        enabled: true,
+        clientAuth: 'required',
+        clientIdentities: {},
+        reloadInterval: 1000
+      }
+    }
+  }
+}));
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+jest.mock('node:fs', () => ({
+  ...jest.requireActual('node:fs'),
+  watchFile: jest.fn(),
+  unwatchFile: jest.fn(),
+}));
+
+import { mkdtempSync, rmSync, unwatchFile, watchFile, writeFileSync, type Stats } from 'node:fs';
+import type { IncomingMessage } from 'node:http';
+import type { Server as TlsServer } from 'node:tls';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { config } from '../../src/config/index.js';
+import { logger } from '../../src/utils/logger.js';
+import { TlsCertificates, clientIdentityOf, subjectOf } from '../../src/servers/tls.js';
+
+const request = (socket: Record<string, unknown>) => ({ socket }) as unknown as IncomingMessage;
+
+const certificateRequest = (subject: Record<string, string | string[]>, authorized = true) =>
+  request({ authorized, getPeerCertificate: () => ({ subject }) });
+
+describe('TLS', () => {
+  describe('clientIdentityOf', () => {
+    const tls = config.mcp.tls as { clientIdentities: Record<string, string> };
+
+    beforeEach(() => {
+      tls.clientIdentities = {};
+    });
+
+    it('should identify clients by the common name of their certificate', () => {
+      expect(clientIdentityOf(certificateRequest({ O: 'Acme', CN: 'assistant.internal' }))).toBe('assistant.internal');
+    });
+
+    it('should map subjects and common names to configured identities', () => {
+      tls.clientIdentities = { 'O=Acme,CN=reporting': 'reporting', 'assistant.internal': 'assistant' };
+
+      expect(clientIdentityOf(certificateRequest({ O: 'Acme', CN: 'reporting' }))).toBe('reporting');
+      expect(clientIdentityOf(certificateRequest({ O: 'Other', CN: 'assistant.internal' }))).toBe('assistant');
+    });
+
+    it('should use the subject of certificates without a common name', () => {
+      expect(clientIdentityOf(certificateRequest({ O: 'Acme', OU: ['Shop', 'Support'] }))).toBe('O=Acme,OU=Shop,OU=Support');
+    });
+
+    it('should not identify clients without a verified certificate', () => {
+      expect(clientIdentityOf(certificateRequest({ CN: 'assistant' }, false))).toBeUndefined();
+      expect(clientIdentityOf(request({ remoteAddress: '127.0.0.1' }))).toBeUndefined();
+    });
+
+    it('should format subjects in the order of the certificate', () => {
+      expect(subjectOf({ subject: { C: 'DE', O: 'Acme', CN: 'assistant' } } as never)).toBe('C=DE,O=Acme,CN=assistant');
+    });
+  });
+
+  describe('TlsCertificates', () => {
+    let dir: string;
+    let settings: ConstructorParameters<typeof TlsCertificates>[0];
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      dir = mkdtempSync(join(tmpdir(), 'spryker-mcp-tls-'));
+      writeFileSync(join(dir, 'cert.pem'), 'certificate');
+      writeFileSync(join(dir, 'key.pem'), 'key');
+      writeFileSync(join(dir, 'ca.pem'), 'ca');
+      settings = {
+        enabled: true,
+        certFile: join(dir, 'cert.pem'),
+        keyFile: join(dir, 'key.pem'),
+        keyPassphrase: undefined,
+        caFile: join(dir, 'ca.pem'),
+        clientAuth: 'required',
+        clientIdentities: {},
+        reloadInterval: 1000,
+      };
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it.each([
+      ['required', true, true],
+      ['optional', true, false],
+      ['none', false, false],
+    ] as const)('should request client certificates with client authentication %s', (clientAuth, requestCert, rejectUnauthorized) => {
+      const options = new TlsCertificates({ ...settings, clientAuth }).serverOptions();
+
+      expect(options).toMatchObject({ requestCert, rejectUnauthorized });
+      expect(String(options.cert)).toBe('certificate');
+      expect(String(options.key)).toBe('key');
+      expect(String(options.ca)).toBe('ca');
+    });
+
+    it('should name files that cannot be read', () => {
+      const certificates = new TlsCertificates({ ...settings, keyFile: join(dir, 'missing.pem') });
+
+      expect(() => certificates.serverOptions()).toThrow(`Cannot read TLS key file ${join(dir, 'missing.pem')}`);
+    });
+
+    describe('reloading', () => {
+      const stats = (mtimeMs: number) => ({ mtimeMs }) as Stats;
+      let server: { setSecureContext: jest.Mock };
+      let certificates: TlsCertificates;
+      let onChange: (current: Stats, previous: Stats) => void;
+
+      beforeEach(() => {
+        server = { setSecureContext: jest.fn() };
+        certificates = new TlsCertificates(settings);
+        certificates.watch(server as unknown as TlsServer);
+        onChange = (watchFile as unknown as jest.Mock).mock.calls[0][2];
+      });
+
+      it('should watch the certificate, key and CA files', () => {
+        expect((watchFile as unknown as jest.Mock).mock.calls.map(([file, options]) => [file, options])).toEqual([
+          [settings.certFile, { persistent: false, interval: 1000 }],
+          [settings.keyFile, { persistent: false, interval: 1000 }],
+          [settings.caFile, { persistent: false, interval: 1000 }],
+        ]);
+      });
+
+      it('should load rotated certificates for new connections', () => {
+        writeFileSync(settings.certFile!, 'rotated certificate');
+
+        onChange(stats(2), stats(1));
+
+        expect(server.setSecureContext).toHaveBeenCalledTimes(1);
+        expect(String(server.setSecureContext.mock.calls[0][0].cert)).toBe('rotated certificate');
+      });
+
+      it('should ignore file accesses that changed nothing', () => {
+        onChange(stats(1), stats(1));
+
+        expect(server.setSecureContext).not.toHaveBeenCalled();
+      });
+
+      it('should keep the previous certificate when the new one cannot be loaded', () => {
+        server.setSecureContext.mockImplementation(() => {
+          throw new Error('key values mismatch');
+        });
+
+        expect(certificates.reload()).toBe(false);
+        expect(logger.error).toHaveBeenCalledWith('Failed to reload TLS certificate, keeping the previous one', new Error('key values mismatch'));
+      });
+
+      it('should stop watching the files', () => {
+        certificates.close();
+
+        expect(unwatchFile).toHaveBeenCalledTimes(3);
+        expect(unwatchFile).toHaveBeenCalledWith(settings.certFile, onChange);
+      });
+    });
+  });
+});
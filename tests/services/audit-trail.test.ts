@@ -0,0 +1,265 @@
+/**
+ * Tests for the audit trail
+ */
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+import { appendFile, mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  AuditTrail,
+  GENESIS_HASH,
+  collectGlueRequests,
+  recordGlueRequest,
+  type AuditEvent,
+  type GlueRequestRecord,
+} from '../../src/services/audit-trail.js';
+import { sessionVault } from '../../src/services/session-vault.js';
+import { clientIdentities } from '../../src/services/client-identity.js';
+import { runInSession } from '../../src/services/session-context.js';
+import { logger } from '../../src/utils/logger.js';
+
+describe('AuditTrail', () => {
+  let directory: string;
+  let file: string;
+  let now: number;
+
+  const trail = (options: { maxSize?: number; maxFiles?: number } = {}) => new AuditTrail({
+    enabled: true,
+    file,
+    maxSize: options.maxSize ?? 1024 * 1024,
+    maxFiles: options.maxFiles ?? 3,
+  }, () => now);
+
+  const event = (overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+    tool: 'add-to-cart',
+    args: { cartId: 'cart-1', sku: '001_25904006', quantity: 1 },
+    outcome: 'success',
+    glueRequests: [{ method: 'POST', endpoint: 'carts/cart-1/items', status: 201 }],
+    ...overrides,
+  });
+
+  const lines = async (path = file) => (await readFile(path, 'utf8')).split('\n').filter(Boolean);
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'audit-trail-'));
+    file = join(directory, 'audit.jsonl');
+    now = Date.parse('2026-10-19T10:00:00.000Z');
+  });
+
+  afterEach(async () => {
+    sessionVault.clearSession('session-1');
+    clientIdentities.clearSession('session-1');
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append hash-chained entries as JSON lines', async () => {
+    const audit = trail();
+
+    const first = await audit.record(event(), 'session-1');
+    now += 1000;
+    const second = await audit.record(event({ tool: 'remove-from-cart', args: { cartId: 'cart-1', itemId: 'sku-1' } }), 'session-1');
+
+    expect(first).toMatchObject({
+      sequence: 1,
+      timestamp: '2026-10-19T10:00:00.000Z',
+      sessionId: 'session-1',
+      tool: 'add-to-cart',
+      outcome: 'success',
+      glueStatus: 201,
+      resources: { cartId: 'cart-1' },
+      previousHash: GENESIS_HASH,
+      hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+    });
+    expect(second).toMatchObject({ sequence: 2, previousHash: first.hash, resources: { cartId: 'cart-1', itemId: 'sku-1' } });
+    expect((await lines()).map(line => JSON.parse(line))).toEqual([first, second]);
+  });
+
+  it('should redact secrets and personal data from the arguments', async () => {
+    const entry = await trail().record(event({
+      tool: 'register-customer',
+      args: { email: 'jane@example.com', password: 'S3cret-Passw0rd', firstName: 'Jane', acceptedTerms: true },
+      result: { success: true, customer: { data: { type: 'customers', id: 'DE--7' } } },
+    }), 'session-1');
+
+    expect(entry.arguments).toEqual({ email: '[REDACTED]', password: '[REDACTED]', firstName: '[REDACTED]', acceptedTerms: true });
+    expect(entry.customerReference).toBe('DE--7');
+    expect(await readFile(file, 'utf8')).not.toMatch(/jane@example.com|S3cret|"Jane"/);
+  });
+
+  it('should record failed calls with their error code and Glue status', async () => {
+    const entry = await trail().record(event({
+      tool: 'checkout',
+      args: { cartId: 'cart-1' },
+      outcome: 'error',
+      errorCode: 'CART_EMPTY',
+      glueRequests: [
+        { method: 'GET', endpoint: 'carts/cart-1' },
+        { method: 'POST', endpoint: 'checkout', status: 422 },
+      ],
+    }), 'session-1');
+
+    expect(entry).toMatchObject({ outcome: 'error', errorCode: 'CART_EMPTY', glueStatus: 422 });
+    expect(entry.glueRequests).toHaveLength(2);
+  });
+
+  it('should record the order placed by a checkout', async () => {
+    const entry = await trail().record(event({
+      tool: 'checkout',
+      args: { cartId: 'cart-1' },
+      result: { success: true, order: { orderReference: 'DE--42' } },
+    }), 'session-1');
+
+    expect(entry.resources).toEqual({ orderReference: 'DE--42', cartId: 'cart-1' });
+  });
+
+  it('should record the client of the session and filter by it', async () => {
+    const audit = trail();
+    clientIdentities.setIdentity('session-1', 'assistant');
+
+    const certificateEntry = await audit.record(event(), 'session-1');
+    const tokenEntry = await runInSession('session-2', () => audit.record(event()), { token: 'token', clientId: 'web-app', scopes: [] });
+    const anonymousEntry = await audit.record(event(), 'session-3');
+
+    expect(certificateEntry.clientId).toBe('assistant');
+    expect(tokenEntry).toMatchObject({ sessionId: 'session-2', clientId: 'web-app' });
+    expect(anonymousEntry).not.toHaveProperty('clientId');
+    await expect(audit.query({ clientId: 'assistant' })).resolves.toEqual([certificateEntry]);
+  });
+
+  it('should take the customer reference from the access token of the session', async () => {
+    const claims = { sub: JSON.stringify({ customer_reference: 'DE--3', id_customer: 3 }) };
+    sessionVault.store({
+      accessToken: `eyJhbGciOiJIUzI1NiJ9.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.c2ln`,
+      tokenType: 'Bearer',
+      userType: 'customer',
+    }, 'session-1');
+
+    const entry = await trail().record(event(), 'session-1');
+
+    expect(entry.customerReference).toBe('DE--3');
+  });
+
+  it('should continue the chain of an existing file', async () => {
+    const first = await trail().record(event(), 'session-1');
+
+    const second = await trail().record(event(), 'session-1');
+
+    expect(second).toMatchObject({ sequence: 2, previousHash: first.hash });
+  });
+
+  it('should write concurrent entries one after another', async () => {
+    const audit = trail();
+
+    const entries = await Promise.all([1, 2, 3].map(() => audit.record(event(), 'session-1')));
+
+    expect(entries.map(entry => entry.sequence)).toEqual([1, 2, 3]);
+    await expect(audit.verify()).resolves.toEqual({ valid: true, entries: 3 });
+  });
+
+  it('should rotate the file and keep the configured number of rotated files', async () => {
+    const audit = trail({ maxSize: 600, maxFiles: 2 });
+
+    for (let index = 0; index < 6; index++) {
+      await audit.record(event(), 'session-1');
+    }
+
+    const current = await lines();
+    const rotated = await lines(`${file}.1`);
+    expect(JSON.parse(rotated.at(-1)!).hash).toBe(JSON.parse(current[0]!).previousHash);
+    await expect(readFile(`${file}.3`)).rejects.toThrow();
+    await expect(audit.verify()).resolves.toMatchObject({ valid: true });
+  });
+
+  it('should detect changed and removed entries', async () => {
+    const audit = trail();
+    for (let index = 0; index < 3; index++) {
+      await audit.record(event(), 'session-1');
+    }
+    const original = await lines();
+
+    await writeFile(file, `${[original[0], original[1]!.replace('"quantity":1', '"quantity":5'), original[2]].join('\n')}\n`);
+    await expect(audit.verify()).resolves.toEqual({ valid: false, entries: 3, brokenAt: 2 });
+
+    await writeFile(file, `${[original[0], original[2]].join('\n')}\n`);
+    await expect(audit.verify()).resolves.toEqual({ valid: false, entries: 2, brokenAt: 3 });
+  });
+
+  it('should query entries newest first', async () => {
+    const audit = trail();
+    await audit.record(event({ args: { customerReference: 'DE--1', cartId: 'cart-1' } }), 'session-1');
+    now += 1000;
+    await audit.record(event({ tool: 'checkout' }), 'session-2');
+    now += 1000;
+    await audit.record(event({ tool: 'checkout' }), 'session-1');
+
+    expect((await audit.query()).map(entry => entry.sequence)).toEqual([3, 2, 1]);
+    expect((await audit.query({ tool: 'checkout', sessionId: 'session-1' })).map(entry => entry.sequence)).toEqual([3]);
+    expect((await audit.query({ customerReference: 'DE--1' })).map(entry => entry.sequence)).toEqual([1]);
+    expect((await audit.query({ since: Date.parse('2026-10-19T10:00:01.000Z'), until: Date.parse('2026-10-19T10:00:02.000Z') }))
+      .map(entry => entry.sequence)).toEqual([2]);
+    expect(await audit.query({ limit: 1 })).toHaveLength(1);
+  });
+
+  it('should query rotated files newest first and stop reading once the limit is reached', async () => {
+    const audit = trail({ maxSize: 600, maxFiles: 2 });
+    for (let index = 0; index < 6; index++) {
+      await audit.record(event(), 'session-1');
+    }
+    const newer = (await lines()).length + (await lines(`${file}.1`)).length;
+
+    expect((await audit.query()).map(entry => entry.sequence)).toEqual([6, 5, 4, 3, 2, 1].slice(0, newer + (await lines(`${file}.2`)).length));
+
+    // The oldest file cannot be read at all, which only matters once it is reached
+    await rm(`${file}.2`);
+    await mkdir(`${file}.2`);
+    expect((await audit.query({ limit: newer })).map(entry => entry.sequence)).toEqual([6, 5, 4, 3, 2, 1].slice(0, newer));
+    await expect(audit.query({ limit: newer + 1 })).rejects.toThrow('EISDIR');
+  });
+
+  it('should keep recording after a line was cut off and report where the chain breaks', async () => {
+    await trail().record(event(), 'session-1');
+    const second = await trail().record(event(), 'session-1');
+    await appendFile(file, '{"sequence":3,"timestamp":"2026-10-');
+
+    // A restarted server continues the chain from the last valid entry
+    const audit = trail();
+    const third = await audit.record(event({ tool: 'checkout' }), 'session-1');
+
+    expect(third).toMatchObject({ sequence: 3, previousHash: second.hash });
+    expect(logger.error).toHaveBeenCalledWith(
+      `Audit log ${file} has unreadable lines, the chain continues from the last valid entry`,
+      { file, lines: [3], sequence: 2 }
+    );
+    expect(JSON.parse((await lines())[3]!)).toEqual(third);
+    expect((await audit.query()).map(entry => entry.sequence)).toEqual([3, 2, 1]);
+    await expect(audit.verify()).resolves.toEqual({ valid: false, entries: 3, brokenAt: 3, unreadable: { file, line: 3 } });
+  });
+
+  it('should return no entries before anything was recorded', async () => {
+    await expect(trail().query()).resolves.toEqual([]);
+    await expect(trail().verify()).resolves.toEqual({ valid: true, entries: 0 });
+  });
+
+  describe('Glue requests', () => {
+    it('should collect the Glue requests of a tool call', async () => {
+      const requests: GlueRequestRecord[] = [];
+
+      await collectGlueRequests(requests, async () => {
+        await Promise.resolve();
+        recordGlueRequest({ method: 'POST', endpoint: 'checkout', status: 201 });
+      });
+      recordGlueRequest({ method: 'GET', endpoint: 'carts' });
+
+      expect(requests).toEqual([{ method: 'POST', endpoint: 'checkout', status: 201 }]);
+    });
+  });
+});
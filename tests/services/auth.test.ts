@@ -0,0 +1,264 @@
+/**
+ * Tests for the authorization of access tokens
+ */
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+import { generateKeyPairSync, type KeyObject } from 'node:crypto';
+import { signJwt, verifyJwt } from '../../src/services/auth/jwt.js';
+import { RemoteKeySet, StaticKeySet } from '../../src/services/auth/key-sets.js';
+import { AuthError, DevIssuer, TokenVerifier, requireScope, type Jwk } from '../../src/services/auth/index.js';
+import { runInSession } from '../../src/services/session-context.js';
+
+const NOW = Date.parse('2026-10-19T10:00:00.000Z');
+const AUDIENCE = 'https://mcp.example.com/mcp';
+const ISSUER = 'https://auth.example.com';
+
+const ecKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const rsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const edKeys = generateKeyPairSync('ed25519');
+
+const jwk = (key: KeyObject, extra: Partial<Jwk> = {}): Jwk => ({ ...key.export({ format: 'jwk' }), ...extra } as Jwk);
+
+const claims = (overrides: Record<string, unknown> = {}) => ({
+  iss: ISSUER,
+  sub: 'user-1',
+  aud: AUDIENCE,
+  client_id: 'assistant',
+  scope: 'catalog:read cart:write',
+  iat: NOW / 1000,
+  exp: NOW / 1000 + 300,
+  ...overrides,
+});
+
+const thrownBy = (fn: () => unknown): unknown => {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+};
+
+describe('JSON web tokens', () => {
+  it.each([
+    ['ES256', ecKeys],
+    ['RS256', rsaKeys],
+    ['PS256', rsaKeys],
+    ['EdDSA', edKeys],
+  ] as const)('should verify %s signatures', (alg, keys) => {
+    const token = signJwt(claims(), keys.privateKey, { alg, kid: 'key-1' });
+
+    expect(verifyJwt(token, [{ kid: 'key-1', key: keys.publicKey }])).toMatchObject({ sub: 'user-1' });
+  });
+
+  it('should reject tokens signed with another key', () => {
+    const token = signJwt(claims(), generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey, { alg: 'ES256' });
+
+    expect(() => verifyJwt(token, [{ key: ecKeys.publicKey }])).toThrow('Invalid access token signature');
+  });
+
+  it('should reject changed claims', () => {
+    const [header, , signature] = signJwt(claims(), ecKeys.privateKey, { alg: 'ES256' }).split('.');
+    const payload = Buffer.from(JSON.stringify(claims({ scope: 'checkout' }))).toString('base64url');
+
+    expect(() => verifyJwt(`${header}.${payload}.${signature}`, [{ key: ecKeys.publicKey }])).toThrow('Invalid access token signature');
+  });
+
+  it.each(['none', 'HS256'])('should reject the %s algorithm', alg => {
+    const header = Buffer.from(JSON.stringify({ alg, typ: 'JWT' })).toString('base64url');
+    const payload = Buffer.from(JSON.stringify(claims())).toString('base64url');
+
+    const error = thrownBy(() => verifyJwt(`${header}.${payload}.`, [{ key: rsaKeys.publicKey }]));
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error).toMatchObject({ code: 'invalid_token', message: `Unsupported token algorithm: ${alg}` });
+  });
+
+  it('should not try keys of another algorithm', () => {
+    const token = signJwt(claims(), ecKeys.privateKey, { alg: 'ES256' });
+
+    expect(() => verifyJwt(token, [{ alg: 'ES384', key: ecKeys.publicKey }, { key: rsaKeys.publicKey }]))
+      .toThrow('Invalid access token signature');
+  });
+
+  it.each(['not-a-token', 'a.b', 'e30.e30.e30.e30.e30'])('should reject malformed tokens: %s', token => {
+    expect(() => verifyJwt(token, [{ key: ecKeys.publicKey }])).toThrow(AuthError);
+  });
+});
+
+describe('TokenVerifier', () => {
+  const keySet = new StaticKeySet({ keys: [jwk(ecKeys.publicKey, { kid: 'key-1' })] });
+  const verifier = new TokenVerifier(keySet, { issuer: ISSUER, audience: AUDIENCE, clockTolerance: 30000 }, () => NOW);
+  const token = (overrides: Record<string, unknown> = {}) => signJwt(claims(overrides), ecKeys.privateKey, { alg: 'ES256', kid: 'key-1' });
+
+  it('should return the client, scopes and expiry of a valid token', async () => {
+    const accessToken = token();
+
+    await expect(verifier.verify(accessToken)).resolves.toEqual({
+      token: accessToken,
+      clientId: 'assistant',
+      scopes: ['catalog:read', 'cart:write'],
+      expiresAt: NOW / 1000 + 300,
+      extra: { subject: 'user-1', issuer: ISSUER },
+    });
+  });
+
+  it('should read scopes from a scp list and fall back to the authorized party', async () => {
+    const info = await verifier.verify(token({ scope: undefined, scp: ['checkout'], client_id: undefined, azp: 'web-app', aud: ['other', AUDIENCE] }));
+
+    expect(info).toMatchObject({ clientId: 'web-app', scopes: ['checkout'] });
+  });
+
+  it.each([
+    ['another issuer', { iss: 'https://evil.example.com' }, 'Access token was issued by another authorization server'],
+    ['another audience', { aud: 'https://other.example.com/mcp' }, 'Access token was issued for another resource'],
+    ['no expiry', { exp: undefined }, 'Access token does not expire'],
+    ['an expired token', { exp: NOW / 1000 - 31 }, 'Access token expired'],
+    ['a future token', { nbf: NOW / 1000 + 31 }, 'Access token is not valid yet'],
+  ])('should reject %s', async (_, overrides, message) => {
+    await expect(verifier.verify(token(overrides))).rejects.toMatchObject({ code: 'invalid_token', message });
+  });
+
+  it('should accept tokens within the clock tolerance', async () => {
+    await expect(verifier.verify(token({ exp: NOW / 1000 - 29, nbf: NOW / 1000 + 29 }))).resolves.toBeDefined();
+  });
+
+  it('should reject tokens of unknown keys', async () => {
+    const unknown = signJwt(claims(), ecKeys.privateKey, { alg: 'ES256', kid: 'key-2' });
+
+    await expect(verifier.verify(unknown)).rejects.toThrow('Invalid access token signature');
+  });
+});
+
+describe('Key sets', () => {
+  it('should skip encryption keys and keys that cannot be imported', async () => {
+    const keySet = new StaticKeySet({
+      keys: [
+        jwk(ecKeys.publicKey, { kid: 'sig' }),
+        jwk(rsaKeys.publicKey, { kid: 'enc', use: 'enc' }),
+        { kty: 'EC', kid: 'broken', crv: 'P-256' },
+      ],
+    });
+
+    expect((await keySet.getKeys()).map(key => key.kid)).toEqual(['sig']);
+    await expect(keySet.getKeys('enc')).resolves.toEqual([]);
+  });
+
+  describe('RemoteKeySet', () => {
+    let now: number;
+    const fetchMock = jest.fn();
+    const response = (...keys: Jwk[]) => ({ ok: true, status: 200, json: async () => ({ keys }) });
+
+    beforeEach(() => {
+      now = NOW;
+      fetchMock.mockReset();
+      global.fetch = fetchMock;
+    });
+
+    it('should cache the keys until the cache expires', async () => {
+      fetchMock.mockResolvedValue(response(jwk(ecKeys.publicKey, { kid: 'key-1' })));
+      const keySet = new RemoteKeySet('https://auth.example.com/jwks', 60000, () => now);
+
+      await keySet.getKeys('key-1');
+      await keySet.getKeys('key-1');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock).toHaveBeenCalledWith('https://auth.example.com/jwks', expect.objectContaining({ headers: { Accept: 'application/json' } }));
+
+      now += 60000;
+      await keySet.getKeys('key-1');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch the keys again for an unknown key id, at most every 30 seconds', async () => {
+      fetchMock
+        .mockResolvedValueOnce(response(jwk(ecKeys.publicKey, { kid: 'key-1' })))
+        .mockResolvedValue(response(jwk(ecKeys.publicKey, { kid: 'key-1' }), jwk(rsaKeys.publicKey, { kid: 'key-2' })));
+      const keySet = new RemoteKeySet('https://auth.example.com/jwks', 600000, () => now);
+      await keySet.getKeys('key-1');
+
+      await expect(keySet.getKeys('key-2')).resolves.toEqual([]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      now += 30000;
+      await expect(keySet.getKeys('key-2')).resolves.toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the previous keys when a fetch fails', async () => {
+      fetchMock
+        .mockResolvedValueOnce(response(jwk(ecKeys.publicKey, { kid: 'key-1' })))
+        .mockResolvedValueOnce({ ok: false, status: 503 });
+      const keySet = new RemoteKeySet('https://auth.example.com/jwks', 60000, () => now);
+      await keySet.getKeys();
+
+      now += 60000;
+
+      await expect(keySet.getKeys('key-1')).resolves.toHaveLength(1);
+    });
+  });
+});
+
+describe('DevIssuer', () => {
+  const issuer = new DevIssuer('http://localhost:3000', 'http://localhost:3000/mcp', () => NOW);
+  const verifier = new TokenVerifier(issuer, { issuer: issuer.issuer, audience: 'http://localhost:3000/mcp', clockTolerance: 0 }, () => NOW);
+
+  it('should issue tokens the verifier accepts', async () => {
+    const response = issuer.issueToken(new URLSearchParams({ grant_type: 'client_credentials', scope: 'catalog:read cart:read', client_id: 'cli' }));
+
+    expect(response).toMatchObject({ token_type: 'Bearer', expires_in: 3600, scope: 'catalog:read cart:read' });
+    const info = await verifier.verify((response as { access_token: string }).access_token);
+    expect(info).toMatchObject({ clientId: 'cli', scopes: ['catalog:read', 'cart:read'] });
+  });
+
+  it('should grant all scopes when none are requested', () => {
+    const response = issuer.issueToken(new URLSearchParams({ grant_type: 'client_credentials' }));
+
+    expect((response as { scope: string }).scope.split(' ')).toContain('checkout');
+  });
+
+  it('should publish its key and metadata', async () => {
+    const [key] = issuer.jwks().keys;
+
+    expect(key).toMatchObject({ kty: 'EC', crv: 'P-256', alg: 'ES256', use: 'sig' });
+    expect(key).not.toHaveProperty('d');
+    expect(issuer.metadata()).toMatchObject({ issuer: 'http://localhost:3000', token_endpoint: 'http://localhost:3000/oauth/token' });
+  });
+
+  it.each([
+    [{ grant_type: 'authorization_code' }, 'unsupported_grant_type'],
+    [{ grant_type: 'client_credentials', scope: 'catalog:read admin' }, 'invalid_scope'],
+  ])('should refuse %j', (params, error) => {
+    expect(issuer.issueToken(new URLSearchParams(params))).toMatchObject({ error });
+  });
+});
+
+describe('requireScope', () => {
+  const auth = { token: 'token', clientId: 'assistant', scopes: ['catalog:read'] };
+
+  it('should allow calls the access token grants', () => {
+    expect(() => runInSession('session-1', () => requireScope('catalog:read', 'Tool get-product'), auth)).not.toThrow();
+  });
+
+  it('should refuse calls the access token does not grant', () => {
+    const error = thrownBy(() => runInSession('session-1', () => requireScope('checkout', 'Tool checkout'), auth));
+
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error).toMatchObject({
+      code: 'insufficient_scope',
+      scope: 'checkout',
+      message: 'Insufficient scope: Tool checkout requires the checkout scope',
+    });
+  });
+
+  it('should allow calls without an access token', () => {
+    expect(() => runInSession('session-1', () => requireScope('checkout', 'Tool checkout'))).not.toThrow();
+  });
+});
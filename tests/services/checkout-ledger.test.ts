@@ -0,0 +1,93 @@
+/**
+ * Tests for the checkout ledger
+ */
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+import { CheckoutLedger, type CheckoutAttempt } from '../../src/services/checkout-ledger.js';
+import { CircuitOpenError } from '../../src/services/circuit-breaker.js';
+import { runInSession } from '../../src/services/session-context.js';
+
+describe('CheckoutLedger', () => {
+  let now: number;
+  let ledger: CheckoutLedger;
+
+  const attempt = (orderReference: string, overrides: Partial<CheckoutAttempt> = {}): CheckoutAttempt => ({
+    customer: 'DE--1',
+    cartId: 'cart-1',
+    submit: jest.fn(() => Promise.resolve({ orderReference })),
+    findPlacedOrder: jest.fn(() => Promise.resolve(null)),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    now = 0;
+    ledger = new CheckoutLedger(1000, () => now);
+  });
+
+  it('should keep checkouts per customer and cart', async () => {
+    await ledger.checkout(attempt('DE--1'));
+    const otherCustomer = await ledger.checkout(attempt('DE--2', { customer: 'DE--2' }));
+    const otherCart = await ledger.checkout(attempt('DE--3', { cartId: 'cart-2' }));
+
+    expect(otherCustomer).toEqual({ order: { orderReference: 'DE--2' }, replayed: false, reconciled: false });
+    expect(otherCart).toEqual({ order: { orderReference: 'DE--3' }, replayed: false, reconciled: false });
+    expect(ledger.size).toBe(3);
+  });
+
+  it('should return the placed order to a retry from another MCP session', async () => {
+    await runInSession('session-1', () => ledger.checkout(attempt('DE--1')));
+
+    const retried = attempt('DE--2');
+    const outcome = await runInSession('session-2', () => ledger.checkout(retried));
+
+    expect(outcome).toEqual({ order: { orderReference: 'DE--1' }, replayed: true, reconciled: false });
+    expect(retried.submit).not.toHaveBeenCalled();
+  });
+
+  it('should forget checkouts after the window', async () => {
+    await ledger.checkout(attempt('DE--1'));
+    now = 999;
+    expect((await ledger.checkout(attempt('DE--2'))).order.orderReference).toBe('DE--1');
+
+    now = 1001;
+    expect(ledger.size).toBe(0);
+    expect((await ledger.checkout(attempt('DE--2'))).order.orderReference).toBe('DE--2');
+  });
+
+  it('should not treat requests that were never sent as ambiguous', async () => {
+    const rejected = attempt('DE--1', {
+      submit: jest.fn(() => Promise.reject(new CircuitOpenError('Spryker API is unavailable', 'CIRCUIT_OPEN', 1000))),
+    });
+
+    await expect(ledger.checkout(rejected)).rejects.toThrow(CircuitOpenError);
+
+    expect(rejected.findPlacedOrder).not.toHaveBeenCalled();
+    expect(ledger.size).toBe(0);
+  });
+
+  it('should keep an ambiguous checkout when looking for its order fails', async () => {
+    const ambiguous = attempt('DE--1', {
+      submit: jest.fn(() => Promise.reject(new Error('socket hang up'))),
+      findPlacedOrder: jest.fn(() => Promise.reject(new Error('socket hang up'))),
+    });
+
+    await expect(ledger.checkout(ambiguous)).rejects.toThrow('socket hang up');
+
+    const retried = attempt('DE--1', { findPlacedOrder: jest.fn(() => Promise.resolve({ orderReference: 'DE--1' })) });
+    expect(await ledger.checkout(retried)).toEqual({
+      order: { orderReference: 'DE--1' },
+      replayed: true,
+      reconciled: true,
+    });
+    expect(retried.findPlacedOrder).toHaveBeenCalledWith(0);
+    expect(retried.submit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for the circuit breaker
+ */
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+import {
+  CircuitBreaker,
+  CircuitBreakerRegistry,
+  CircuitOpenError,
+  isUpstreamFailure,
+} from '../../src/services/circuit-breaker.js';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  const trip = () => {
+    for (let i = 0; i < 3; i++) {
+      breaker.acquire();
+      breaker.recordFailure(new Error('HTTP 503: Service Unavailable'));
+    }
+  };
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker('glue.example.com', { failureThreshold: 3, resetTimeout: 10000, halfOpenProbes: 1 }, () => now);
+  });
+
+  it('should stay closed below the failure threshold', () => {
+    breaker.recordFailure(new Error('timeout'));
+    breaker.recordFailure(new Error('timeout'));
+    breaker.recordSuccess();
+    breaker.recordFailure(new Error('timeout'));
+
+    expect(() => breaker.acquire()).not.toThrow();
+    expect(breaker.status()).toEqual({
+      key: 'glue.example.com',
+      state: 'closed',
+      consecutiveFailures: 1,
+      lastFailure: 'timeout',
+    });
+  });
+
+  it('should fail fast while open', () => {
+    trip();
+    now = 4000;
+
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    try {
+      breaker.acquire();
+    } catch (error) {
+      expect((error as CircuitOpenError).code).toBe('CIRCUIT_OPEN');
+      expect((error as CircuitOpenError).retryAfterMs).toBe(6000);
+      expect((error as Error).message).toBe('Spryker API glue.example.com is unavailable after 3 consecutive failures, retry in 6 seconds');
+    }
+    expect(breaker.status()).toMatchObject({
+      state: 'open',
+      openedAt: new Date(0).toISOString(),
+      retryAt: new Date(10000).toISOString(),
+    });
+  });
+
+  it('should let a limited number of probes through once the reset timeout passed', () => {
+    trip();
+    now = 10000;
+
+    expect(() => breaker.acquire()).not.toThrow();
+    expect(breaker.status().state).toBe('half-open');
+    expect(() => breaker.acquire()).toThrow(expect.objectContaining({ code: 'CIRCUIT_HALF_OPEN' }));
+  });
+
+  it('should close after a successful probe', () => {
+    trip();
+    now = 10000;
+    breaker.acquire();
+    breaker.recordSuccess();
+
+    expect(breaker.status()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('should open again after a failed probe', () => {
+    trip();
+    now = 10000;
+    breaker.acquire();
+    breaker.recordFailure(new Error('HTTP 502: Bad Gateway'));
+
+    expect(breaker.status()).toMatchObject({ state: 'open', openedAt: new Date(10000).toISOString() });
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('should ignore responses to requests sent before the circuit opened', () => {
+    trip();
+    breaker.recordSuccess();
+
+    expect(breaker.status().state).toBe('open');
+  });
+});
+
+describe('CircuitBreakerRegistry', () => {
+  it('should keep one circuit per key', () => {
+    const registry = new CircuitBreakerRegistry({ failureThreshold: 1, resetTimeout: 1000, halfOpenProbes: 1 });
+
+    registry.get('glue.de.example.com').recordFailure(new Error('timeout'));
+
+    expect(registry.get('glue.de.example.com')).toBe(registry.get('glue.de.example.com'));
+    expect(registry.getStatuses().map(status => [status.key, status.state])).toEqual([['glue.de.example.com', 'open']]);
+    expect(() => registry.get('glue.us.example.com').acquire()).not.toThrow();
+  });
+});
+
+describe('isUpstreamFailure', () => {
+  it('should count server errors, timeouts and network errors', () => {
+    expect(isUpstreamFailure(Object.assign(new Error('HTTP 500'), { status: 500 }))).toBe(true);
+    expect(isUpstreamFailure(new Error('The operation was aborted'))).toBe(true);
+    expect(isUpstreamFailure(Object.assign(new Error('HTTP 404'), { status: 404 }))).toBe(false);
+    expect(isUpstreamFailure(new CircuitOpenError('open', 'CIRCUIT_OPEN', 1000))).toBe(false);
+  });
+});
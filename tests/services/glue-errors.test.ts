@@ -0,0 +1,110 @@
+/**
+ * Tests for decoding Glue errors
+ */
+
+import { describeError, describeGlueFailure, parseGlueErrors } from '../../src/services/glue-errors.js';
+import { ApiError } from '../../src/services/spryker-api.js';
+import { CircuitOpenError } from '../../src/services/circuit-breaker.js';
+import { SessionError } from '../../src/services/session-vault.js';
+
+describe('parseGlueErrors', () => {
+  it('should decode the errors of a JSON:API document', () => {
+    expect(parseGlueErrors({
+      errors: [
+        { code: 1101, status: '422', detail: 'Checkout data is invalid.', source: { pointer: '/data/attributes/payments' } },
+        'not an error object',
+      ],
+    })).toEqual([
+      { code: '1101', status: 422, detail: 'Checkout data is invalid.', source: { pointer: '/data/attributes/payments' } },
+    ]);
+  });
+
+  it('should ignore responses without errors', () => {
+    expect(parseGlueErrors(['bad code'])).toEqual([]);
+    expect(parseGlueErrors('Bad Gateway')).toEqual([]);
+    expect(parseGlueErrors(undefined)).toEqual([]);
+  });
+});
+
+describe('describeGlueFailure', () => {
+  it.each([
+    [422, [{ code: '113', detail: 'Product "001_123" is not available at the moment.' }], 'OUT_OF_STOCK'],
+    [422, [{ code: '3301', detail: 'Cart code can\'t be added.' }], 'INVALID_VOUCHER'],
+    [404, [{ code: '101', detail: 'Cart with given uuid not found.' }], 'CART_NOT_FOUND'],
+    [422, [{ code: '1104', detail: 'Cart is empty.' }], 'CART_EMPTY'],
+    [404, [{ code: '302', detail: 'Concrete product is not found.' }], 'PRODUCT_NOT_FOUND'],
+    [401, [{ code: '001', detail: 'Invalid access token.' }], 'TOKEN_EXPIRED'],
+    [401, [{ code: '003', detail: 'Failed to authenticate user.' }], 'INVALID_CREDENTIALS'],
+    [403, [{ code: '002', detail: 'Missing access token.' }], 'AUTHENTICATION_REQUIRED'],
+  ])('should map a %i response with %j to %s', (status, errors, errorCode) => {
+    expect(describeGlueFailure(status, errors).errorCode).toBe(errorCode);
+  });
+
+  it('should report out of stock items before invalid checkout data', () => {
+    const description = describeGlueFailure(422, [
+      { code: '1101', detail: 'Checkout data is invalid.' },
+      { code: '1102', detail: 'Product "001_123" is not available at the moment.' },
+    ]);
+
+    expect(description.errorCode).toBe('OUT_OF_STOCK');
+  });
+
+  it('should name the missing checkout fields in the hint', () => {
+    const description = describeGlueFailure(422, [
+      { code: '901', detail: 'shippingAddress.zipCode => This value should not be blank.' },
+      { code: '901', detail: 'payments => This value should not be blank.', source: { pointer: '/data/attributes/payments' } },
+    ]);
+
+    expect(description.errorCode).toBe('CHECKOUT_DATA_MISSING');
+    expect(description.hint).toMatch(/get-checkout-data/);
+    expect(description.hint).toMatch(/Invalid fields: shippingAddress\.zipCode, payments\.$/);
+  });
+
+  it.each([
+    [400, 'VALIDATION_FAILED'],
+    [404, 'NOT_FOUND'],
+    [429, 'RATE_LIMITED'],
+    [503, 'UPSTREAM_ERROR'],
+    [undefined, 'UNKNOWN_ERROR'],
+  ])('should fall back to the HTTP status %s', (status, errorCode) => {
+    expect(describeGlueFailure(status, []).errorCode).toBe(errorCode);
+  });
+});
+
+describe('describeError', () => {
+  it('should describe API errors by their Glue errors', () => {
+    const error = new ApiError('HTTP 404: Not Found', 404, 'Not Found', {
+      errors: [{ code: '1001', status: 404, detail: 'Can\'t find order by the given order reference' }],
+    });
+
+    expect(error.errorCode).toBe('ORDER_NOT_FOUND');
+    expect(describeError(error)).toEqual({
+      errorCode: 'ORDER_NOT_FOUND',
+      hint: error.hint,
+      errors: error.errors,
+    });
+  });
+
+  it('should tell when Glue asked to retry', () => {
+    const error = new ApiError('HTTP 429: Too Many Requests', 429, 'Too Many Requests', { errors: [] }, 4200);
+
+    expect(error.errorCode).toBe('RATE_LIMITED');
+    expect(error.hint).toBe('Glue is rate limiting requests. Wait a moment before retrying. Glue asked to retry in 5 seconds.');
+  });
+
+  it('should describe errors of this server', () => {
+    expect(describeError(new SessionError('No authenticated session.', 'SESSION_NOT_AUTHENTICATED')).errorCode)
+      .toBe('AUTHENTICATION_REQUIRED');
+    expect(describeError(new CircuitOpenError('Spryker API is unavailable', 'CIRCUIT_OPEN', 12500))).toEqual({
+      errorCode: 'UPSTREAM_UNAVAILABLE',
+      hint: 'The Spryker API is temporarily unavailable. Retry in 13 seconds.',
+      errors: [],
+    });
+  });
+
+  it('should describe failed connections and unknown errors', () => {
+    expect(describeError(new TypeError('fetch failed')).errorCode).toBe('UPSTREAM_UNAVAILABLE');
+    expect(describeError(Object.assign(new Error('aborted'), { name: 'AbortError' })).errorCode).toBe('UPSTREAM_UNAVAILABLE');
+    expect(describeError('boom').errorCode).toBe('UNKNOWN_ERROR');
+  });
+});
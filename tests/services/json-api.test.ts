@@ -0,0 +1,154 @@
+/**
+ * Tests for the JSON:API resolver
+ */
+
+import {
+  JsonApiResolver,
+  relationshipProperty,
+  type JsonApiDocument,
+  type OrderResource,
+} from '../../src/services/json-api/index.js';
+
+describe('JsonApiResolver', () => {
+  const abstractProduct = {
+    type: 'abstract-products',
+    id: '001',
+    attributes: { sku: '001', name: 'Camera' },
+    relationships: {
+      'concrete-products': { data: [{ type: 'concrete-products', id: '001_1' }] },
+      'abstract-product-prices': { data: [{ type: 'abstract-product-prices', id: '001' }] },
+    },
+  };
+
+  const document: JsonApiDocument = {
+    data: abstractProduct,
+    included: [
+      {
+        type: 'concrete-products',
+        id: '001_1',
+        attributes: { sku: '001_1', name: 'Camera black' },
+        relationships: {
+          'abstract-products': { data: [{ type: 'abstract-products', id: '001' }] },
+          'concrete-product-prices': { data: [{ type: 'concrete-product-prices', id: '001_1' }] },
+        },
+      },
+      { type: 'concrete-product-prices', id: '001_1', attributes: { price: 1000 } },
+      { type: 'abstract-product-prices', id: '001', attributes: { price: 1200 } },
+    ],
+  };
+
+  it('should convert relationship names to property names', () => {
+    expect(relationshipProperty('concrete-product-prices')).toBe('concreteProductPrices');
+    expect(relationshipProperty('items')).toBe('items');
+  });
+
+  it('should return single and collection primary data as a list', () => {
+    expect(new JsonApiResolver(document).primary()).toEqual([abstractProduct]);
+    expect(new JsonApiResolver({ data: [abstractProduct, abstractProduct] }).primary()).toHaveLength(2);
+    expect(new JsonApiResolver({ data: null }).primary()).toEqual([]);
+    expect(new JsonApiResolver(undefined).primary()).toEqual([]);
+  });
+
+  it('should find included resources by type and id', () => {
+    const resolver = new JsonApiResolver(document);
+
+    expect(resolver.find('concrete-product-prices', '001_1')?.attributes).toEqual({ price: 1000 });
+    expect(resolver.find('concrete-product-prices', 'missing')).toBeUndefined();
+    expect(resolver.ofType('abstract-product-prices')).toHaveLength(1);
+    expect(resolver.ofType('abstract-products')).toEqual([]);
+  });
+
+  it('should resolve relationships and skip resources that were not included', () => {
+    const resolver = new JsonApiResolver({
+      data: {
+        ...abstractProduct,
+        relationships: {
+          ...abstractProduct.relationships,
+          'category-nodes': { data: [{ type: 'category-nodes', id: '5' }] },
+        },
+      },
+      included: document.included!,
+    });
+    const product = resolver.primary()[0]!;
+
+    expect(resolver.related(product, 'concrete-products').map(resource => resource.id)).toEqual(['001_1']);
+    expect(resolver.related(product, 'category-nodes')).toEqual([]);
+    expect(resolver.related(product, 'unknown')).toEqual([]);
+  });
+
+  it('should denormalize resources without expanding cycles', () => {
+    const resolver = new JsonApiResolver(document);
+
+    expect(resolver.denormalize(resolver.primary()[0]!)).toEqual({
+      id: '001',
+      sku: '001',
+      name: 'Camera',
+      concreteProducts: [{
+        id: '001_1',
+        sku: '001_1',
+        name: 'Camera black',
+        abstractProducts: [],
+        concreteProductPrices: [{ id: '001_1', price: 1000 }],
+      }],
+      abstractProductPrices: [{ id: '001', price: 1200 }],
+    });
+  });
+
+  it('should limit the resolved depth', () => {
+    const resolver = new JsonApiResolver(document);
+    const product = resolver.primary()[0]!;
+
+    expect(resolver.denormalize(product, 0)).toEqual({ id: '001', sku: '001', name: 'Camera' });
+    expect(resolver.denormalizeRelated(product, 'concrete-products', 0)).toEqual([
+      { id: '001_1', sku: '001_1', name: 'Camera black' },
+    ]);
+  });
+
+  it('should keep to-one relationships as single resources', () => {
+    const resolver = new JsonApiResolver({
+      data: {
+        type: 'items',
+        id: 'item-1',
+        attributes: { sku: '001_1' },
+        relationships: {
+          'concrete-products': { data: { type: 'concrete-products', id: '001_1' } },
+          'bundle-items': { data: { type: 'bundle-items', id: 'missing' } },
+        },
+      },
+      included: [{ type: 'concrete-products', id: '001_1', attributes: { name: 'Camera black' } }],
+    });
+
+    expect(resolver.denormalize(resolver.primary()[0]!)).toEqual({
+      id: 'item-1',
+      sku: '001_1',
+      concreteProducts: { id: '001_1', name: 'Camera black' },
+      bundleItems: null,
+    });
+  });
+
+  it('should stitch related resources to the right primary resource', () => {
+    const order = (id: string, itemIds: string[]): OrderResource => ({
+      type: 'orders',
+      id,
+      attributes: {
+        createdAt: '2024-01-01',
+        totals: { expenseTotal: 0, discountTotal: 0, taxTotal: 0, subtotal: 0, grandTotal: 0 },
+        billingAddress: null,
+        shippingAddress: null,
+        items: [],
+      },
+      relationships: {
+        'order-items': { data: itemIds.map(itemId => ({ type: 'order-items', id: itemId })) },
+      },
+    });
+
+    const resolver = new JsonApiResolver<OrderResource>({
+      data: [order('DE--1', ['a']), order('DE--2', ['b', 'c'])],
+      included: ['a', 'b', 'c'].map(id => ({ type: 'order-items', id, attributes: { sku: `sku-${id}` } })),
+    });
+
+    const [first, second] = resolver.primary();
+    expect(resolver.denormalizeRelated(first!, 'order-items').map(item => item['sku'])).toEqual(['sku-a']);
+    expect(resolver.denormalizeRelated(second!, 'order-items').map(item => item['sku'])).toEqual(['sku-b', 'sku-c']);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Tests for the metrics registry
+ */
+
+import { MetricsRegistry } from '../../src/services/metrics.js';
+import { endpointTemplate } from '../../src/services/spryker-api.js';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    registry = new MetricsRegistry();
+  });
+
+  it('should render counters and gauges by label values', () => {
+    const calls = registry.counter('mcp_tool_calls_total', 'Tool calls', ['tool', 'outcome']);
+    const sessions = registry.gauge('mcp_sessions_active', 'Active sessions', ['transport']);
+
+    calls.inc({ tool: 'get-cart', outcome: 'success' });
+    calls.inc({ outcome: 'success', tool: 'get-cart' });
+    calls.inc({ tool: 'checkout', outcome: 'error' });
+    sessions.set({ transport: 'http' }, 2);
+
+    expect(registry.render()).toBe([
+      '# HELP mcp_tool_calls_total Tool calls',
+      '# TYPE mcp_tool_calls_total counter',
+      'mcp_tool_calls_total{tool="get-cart",outcome="success"} 2',
+      'mcp_tool_calls_total{tool="checkout",outcome="error"} 1',
+      '# HELP mcp_sessions_active Active sessions',
+      '# TYPE mcp_sessions_active gauge',
+      'mcp_sessions_active{transport="http"} 2',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render cumulative histogram buckets', () => {
+    const duration = registry.histogram('request_duration_seconds', 'Request duration', ['endpoint'], [0.1, 1]);
+
+    duration.observe({ endpoint: 'carts/{id}' }, 0.05);
+    duration.observe({ endpoint: 'carts/{id}' }, 0.5);
+    duration.observe({ endpoint: 'carts/{id}' }, 2);
+
+    expect(registry.render()).toContain([
+      'request_duration_seconds_bucket{endpoint="carts/{id}",le="0.1"} 1',
+      'request_duration_seconds_bucket{endpoint="carts/{id}",le="1"} 2',
+      'request_duration_seconds_bucket{endpoint="carts/{id}",le="+Inf"} 3',
+      'request_duration_seconds_sum{endpoint="carts/{id}"} 2.55',
+      'request_duration_seconds_count{endpoint="carts/{id}"} 3',
+    ].join('\n'));
+  });
+
+  it('should escape label values and collect metrics kept elsewhere', () => {
+    let hits = 0;
+    const lookups = registry.counter('cache_lookups_total', 'Cache lookups', ['result'], () => {
+      lookups.set({ result: 'hit "fresh"' }, hits);
+    });
+
+    hits = 7;
+
+    expect(registry.render()).toContain('cache_lookups_total{result="hit \\"fresh\\""} 7');
+  });
+
+  it('should clear all series on reset', () => {
+    registry.counter('retries_total', 'Retries').inc();
+    registry.reset();
+
+    expect(registry.render()).toBe('# HELP retries_total Retries\n# TYPE retries_total counter\n');
+  });
+});
+
+describe('endpointTemplate', () => {
+  it('should replace the IDs of Glue endpoints', () => {
+    expect(endpointTemplate('carts/abc/items/001_1')).toBe('carts/{id}/items/{id}');
+    expect(endpointTemplate('/abstract-products/001/abstract-product-prices?currency=EUR')).toBe('abstract-products/{id}/abstract-product-prices');
+    expect(endpointTemplate('catalog-search?q=camera')).toBe('catalog-search');
+    expect(endpointTemplate(undefined)).toBe('unknown');
+  });
+});
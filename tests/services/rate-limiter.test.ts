@@ -0,0 +1,82 @@
+/**
+ * Tests for the sliding window rate limiter
+ */
+
+import { RateLimiter } from '../../src/services/rate-limiter.js';
+
+describe('RateLimiter', () => {
+  let now: number;
+  let limiter: RateLimiter;
+
+  const check = (key: string, maxRequests = 2, windowMs = 1000) => ({ key, maxRequests, windowMs });
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new RateLimiter(() => now);
+  });
+
+  it('should allow requests within the budget', () => {
+    expect(limiter.consume([check('ip:1')])).toEqual({ allowed: true, retryAfterMs: 0 });
+    expect(limiter.consume([check('ip:1')]).allowed).toBe(true);
+  });
+
+  it('should limit requests over the budget until the oldest leaves the window', () => {
+    limiter.consume([check('ip:1')]);
+    now = 400;
+    limiter.consume([check('ip:1')]);
+    now = 600;
+
+    expect(limiter.consume([check('ip:1')])).toEqual({ allowed: false, limitedBy: 'ip:1', retryAfterMs: 400 });
+
+    now = 1001;
+    expect(limiter.consume([check('ip:1')]).allowed).toBe(true);
+  });
+
+  it('should slide the window instead of resetting it', () => {
+    now = 900;
+    limiter.consume([check('ip:1')]);
+    limiter.consume([check('ip:1')]);
+
+    // A fixed window would start over at 1000
+    now = 1100;
+    expect(limiter.consume([check('ip:1')]).allowed).toBe(false);
+  });
+
+  it('should keep budgets of keys apart', () => {
+    limiter.consume([check('ip:1', 1)]);
+
+    expect(limiter.consume([check('ip:1', 1)]).allowed).toBe(false);
+    expect(limiter.consume([check('ip:2', 1)]).allowed).toBe(true);
+  });
+
+  it('should not use up budget of any key when one key is limited', () => {
+    limiter.consume([check('tool:checkout', 1)]);
+
+    const result = limiter.consume([check('session:a', 2), check('tool:checkout', 1)]);
+    expect(result.limitedBy).toBe('tool:checkout');
+
+    expect(limiter.consume([check('session:a', 2)]).allowed).toBe(true);
+    expect(limiter.consume([check('session:a', 2)]).allowed).toBe(true);
+  });
+
+  it('should count every request of a check against its budget', () => {
+    limiter.consume([check('tool:checkout', 5)]);
+    now = 100;
+    limiter.consume([check('tool:checkout', 5)]);
+
+    expect(limiter.consume([{ ...check('tool:checkout', 5), cost: 4 }])).toEqual({ allowed: false, limitedBy: 'tool:checkout', retryAfterMs: 900 });
+    expect(limiter.consume([{ ...check('tool:checkout', 5), cost: 3 }]).allowed).toBe(true);
+    expect(limiter.consume([check('tool:checkout', 5)]).allowed).toBe(false);
+  });
+
+  it('should never allow more requests at once than the budget', () => {
+    expect(limiter.consume([{ ...check('tool:checkout', 5), cost: 6 }])).toEqual({ allowed: false, limitedBy: 'tool:checkout', retryAfterMs: 1000 });
+  });
+
+  it('should forget recorded requests on reset', () => {
+    limiter.consume([check('ip:1', 1)]);
+    limiter.reset();
+
+    expect(limiter.consume([check('ip:1', 1)]).allowed).toBe(true);
+  });
+});
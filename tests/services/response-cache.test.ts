@@ -0,0 +1,260 @@
+/**
+ * Tests for the Response Cache and its backends
+ */
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+import { createServer, Server as NetServer, Socket } from 'node:net';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  ResponseCache,
+  MemoryCacheBackend,
+  FileCacheBackend,
+  RedisCacheBackend,
+  resourceTypeOf,
+  type CachedResponse,
+} from '../../src/services/cache/index.js';
+
+const cachedResponse = (data: unknown, expiresIn = 60000): CachedResponse => ({
+  data,
+  status: 200,
+  statusText: 'OK',
+  headers: {},
+  expiresAt: Date.now() + expiresIn,
+});
+
+describe('ResponseCache', () => {
+  let backend: MemoryCacheBackend;
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    backend = new MemoryCacheBackend(10);
+    cache = new ResponseCache(backend, {
+      ttls: { 'abstract-products': 300000, 'catalog-search': 60000, carts: 60000 },
+      staleTtl: 600000,
+    });
+  });
+
+  it('should determine the resource type of an endpoint', () => {
+    expect(resourceTypeOf('catalog-search')).toBe('catalog-search');
+    expect(resourceTypeOf('abstract-products/001?include=concrete-products')).toBe('abstract-products');
+    expect(resourceTypeOf('/abstract-products/001/abstract-product-prices')).toBe('abstract-product-prices');
+  });
+
+  it('should only cache configured endpoints without customer data', () => {
+    expect(cache.ttlFor('abstract-products/001')).toBe(300000);
+    expect(cache.ttlFor('abstract-products/001/abstract-product-availabilities')).toBe(0);
+    expect(cache.ttlFor('carts/cart-1')).toBe(0);
+  });
+
+  it('should store responses for the configured TTL', async () => {
+    await cache.set('key', 'catalog-search', { data: { data: [] }, status: 200, statusText: 'OK', headers: {} });
+
+    const cached = await cache.get('key');
+    expect(cached?.data).toEqual({ data: [] });
+    expect(cache.isFresh(cached!)).toBe(true);
+    expect(cached!.expiresAt - Date.now()).toBeLessThanOrEqual(60000);
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 0, revalidations: 0 });
+  });
+
+  it('should honour Cache-Control from Glue', async () => {
+    await cache.set('no-store', 'catalog-search', {
+      data: {}, status: 200, statusText: 'OK', headers: { 'cache-control': 'no-store' },
+    });
+    await cache.set('max-age', 'catalog-search', {
+      data: {}, status: 200, statusText: 'OK', headers: { 'cache-control': 'public, max-age=10' },
+    });
+
+    expect(await cache.get('no-store')).toBeUndefined();
+    expect((await cache.get('max-age'))!.expiresAt - Date.now()).toBeLessThanOrEqual(10000);
+  });
+
+  it('should keep expired responses with an ETag for revalidation', async () => {
+    await cache.set('key', 'catalog-search', {
+      data: { data: [] }, status: 200, statusText: 'OK', headers: { etag: '"v1"', 'cache-control': 'max-age=0' },
+    });
+
+    const cached = await cache.get('key');
+    expect(cached?.etag).toBe('"v1"');
+    expect(cache.isFresh(cached!)).toBe(false);
+
+    const refreshed = await cache.revalidated('key', 'catalog-search', cached!, { 'cache-control': 'max-age=30' });
+    expect(cache.isFresh(refreshed)).toBe(true);
+    expect(cache.getStats().revalidations).toBe(1);
+  });
+
+  it('should treat backend failures as misses', async () => {
+    jest.spyOn(backend, 'get').mockRejectedValueOnce(new Error('Backend down'));
+
+    await expect(cache.get('key')).resolves.toBeUndefined();
+    expect(cache.getStats().misses).toBe(1);
+  });
+});
+
+describe('MemoryCacheBackend', () => {
+  it('should evict the least recently used entry', async () => {
+    const backend = new MemoryCacheBackend(2);
+    await backend.set('a', cachedResponse('a'), 60000);
+    await backend.set('b', cachedResponse('b'), 60000);
+    await backend.get('a');
+    await backend.set('c', cachedResponse('c'), 60000);
+
+    expect(await backend.get('a')).toBeDefined();
+    expect(await backend.get('b')).toBeUndefined();
+    expect(backend.size).toBe(2);
+  });
+
+  it('should drop entries after their TTL', async () => {
+    const backend = new MemoryCacheBackend(2);
+    await backend.set('a', cachedResponse('a'), -1);
+
+    expect(await backend.get('a')).toBeUndefined();
+  });
+});
+
+describe('FileCacheBackend', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'spryker-mcp-cache-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist entries across backend instances', async () => {
+    await new FileCacheBackend(directory).set('key', cachedResponse({ sku: '001' }), 60000);
+
+    expect((await new FileCacheBackend(directory).get('key'))?.data).toEqual({ sku: '001' });
+  });
+
+  it('should remove expired entries and clear all entries', async () => {
+    const backend = new FileCacheBackend(directory);
+    await backend.set('expired', cachedResponse('a'), -1);
+    await backend.set('valid', cachedResponse('b'), 60000);
+
+    expect(await backend.get('expired')).toBeUndefined();
+    expect(await readdir(directory)).toHaveLength(1);
+
+    await backend.clear();
+    expect(await readdir(directory)).toHaveLength(0);
+  });
+});
+
+describe('RedisCacheBackend', () => {
+  let server: NetServer;
+  let port: number;
+  let store: Map<string, string>;
+  let commands: string[][];
+
+  /**
+   * Minimal Redis stand-in answering the commands the backend sends
+   */
+  const handleConnection = (socket: Socket) => {
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      const lines = buffer.split('\r\n');
+
+      while (lines[0]?.startsWith('*')) {
+        const count = Number(lines[0].slice(1));
+        if (lines.length < 1 + count * 2) {
+          break;
+        }
+
+        const args = Array.from({ length: count }, (_, index) => lines[2 + index * 2]!);
+        lines.splice(0, 1 + count * 2);
+        commands.push(args);
+
+        const [command, ...rest] = args;
+        switch (command) {
+          case 'GET': {
+            const value = store.get(rest[0]!);
+            socket.write(value === undefined ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+            break;
+          }
+          case 'SET':
+            store.set(rest[0]!, rest[1]!);
+            socket.write('+OK\r\n');
+            break;
+          case 'DEL':
+            rest.forEach(key => store.delete(key));
+            socket.write(`:${rest.length}\r\n`);
+            break;
+          case 'SCAN': {
+            const keys = Array.from(store.keys());
+            socket.write(`*2\r\n$1\r\n0\r\n*${keys.length}\r\n${keys.map(key => `$${key.length}\r\n${key}\r\n`).join('')}`);
+            break;
+          }
+          default:
+            socket.write(`-ERR unknown command '${command}'\r\n`);
+        }
+      }
+
+      buffer = lines.join('\r\n');
+    });
+  };
+
+  beforeEach(async () => {
+    store = new Map();
+    commands = [];
+    server = createServer(handleConnection);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as { port: number }).port;
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should store, read and delete entries with a key prefix', async () => {
+    const backend = new RedisCacheBackend(`redis://127.0.0.1:${port}`, 'test:', 5000);
+
+    try {
+      await backend.set('key', cachedResponse({ sku: '001' }), 60000);
+      expect(commands[0]).toEqual(['SET', 'test:key', expect.any(String), 'PX', '60000']);
+      expect((await backend.get('key'))?.data).toEqual({ sku: '001' });
+
+      await backend.delete('key');
+      expect(await backend.get('key')).toBeUndefined();
+    } finally {
+      await backend.close();
+    }
+  });
+
+  it('should clear all prefixed entries', async () => {
+    const backend = new RedisCacheBackend(`redis://127.0.0.1:${port}`, 'test:', 5000);
+
+    try {
+      await backend.set('a', cachedResponse('a'), 60000);
+      await backend.set('b', cachedResponse('b'), 60000);
+      await backend.clear();
+
+      expect(store.size).toBe(0);
+      expect(commands.find(command => command[0] === 'SCAN')).toEqual(['SCAN', '0', 'MATCH', 'test:*', 'COUNT', '100']);
+    } finally {
+      await backend.close();
+    }
+  });
+
+  it('should reject commands when Redis is unreachable', async () => {
+    await new Promise(resolve => server.close(resolve));
+    const backend = new RedisCacheBackend(`redis://127.0.0.1:${port}`, 'test:', 5000);
+
+    await expect(backend.get('key')).rejects.toThrow();
+
+    // Reopen so afterEach can close the server again
+    server = createServer(handleConnection);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for the retry budget
+ */
+
+import { RetryBudget } from '../../src/services/retry-budget.js';
+
+describe('RetryBudget', () => {
+  let now: number;
+  let budget: RetryBudget;
+
+  beforeEach(() => {
+    now = 0;
+    budget = new RetryBudget({ ratio: 0.5, minRetries: 1, windowMs: 1000 }, () => now);
+  });
+
+  it('should allow the minimum retries without requests', () => {
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.tryAcquire()).toBe(false);
+  });
+
+  it('should allow a share of the requests as retries', () => {
+    for (let request = 0; request < 4; request++) {
+      budget.recordRequest();
+    }
+
+    expect(budget.getStatus()).toEqual({ requests: 4, retries: 0, available: 3 });
+    expect([budget.tryAcquire(), budget.tryAcquire(), budget.tryAcquire(), budget.tryAcquire()])
+      .toEqual([true, true, true, false]);
+  });
+
+  it('should refill once retries leave the window', () => {
+    budget.tryAcquire();
+    now = 999;
+    expect(budget.tryAcquire()).toBe(false);
+
+    now = 1000;
+    expect(budget.tryAcquire()).toBe(true);
+    expect(budget.getStatus()).toEqual({ requests: 0, retries: 1, available: 0 });
+  });
+});
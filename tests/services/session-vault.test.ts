@@ -0,0 +1,96 @@
+/**
+ * Tests for the Session Vault and MCP session context
+ */
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+import { SessionVault, SessionError } from '../../src/services/session-vault.js';
+import { runInSession, getSessionId, PROCESS_SESSION_ID } from '../../src/services/session-context.js';
+
+describe('session context', () => {
+  it('should default to the process session outside of a request', () => {
+    expect(getSessionId()).toBe(PROCESS_SESSION_ID);
+  });
+
+  it('should expose the session id across async calls', async () => {
+    const sessionId = await runInSession('mcp-1', async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      return getSessionId();
+    });
+
+    expect(sessionId).toBe('mcp-1');
+  });
+
+  it('should fall back to the process session when no session id is given', () => {
+    expect(runInSession(undefined, () => getSessionId())).toBe(PROCESS_SESSION_ID);
+  });
+});
+
+describe('SessionVault', () => {
+  let vault: SessionVault;
+
+  beforeEach(() => {
+    vault = new SessionVault();
+  });
+
+  it('should store credentials behind an opaque handle', () => {
+    const handle = vault.store({ accessToken: 'secret', tokenType: 'Bearer', userType: 'customer' });
+
+    expect(handle).toMatch(/^session-/);
+    expect(handle).not.toContain('secret');
+    expect(vault.resolve(handle)).toMatchObject({ accessToken: 'secret', userType: 'customer' });
+  });
+
+  it('should resolve the most recently stored credentials without a handle', () => {
+    vault.store({ accessToken: 'first', tokenType: 'Bearer', userType: 'customer' });
+    vault.store({ accessToken: 'guest-second', tokenType: 'Guest', userType: 'guest' });
+
+    expect(vault.resolve().accessToken).toBe('guest-second');
+  });
+
+  it('should isolate credentials between MCP sessions', async () => {
+    const handle = await runInSession('mcp-a', async () =>
+      vault.store({ accessToken: 'a-token', tokenType: 'Bearer', userType: 'customer' })
+    );
+
+    expect(() => runInSession('mcp-b', () => vault.resolve(handle))).toThrow(SessionError);
+    expect(() => runInSession('mcp-b', () => vault.resolve())).toThrow('No authenticated session');
+    expect(runInSession('mcp-a', () => vault.resolve(handle)).accessToken).toBe('a-token');
+  });
+
+  it('should reject unknown handles', () => {
+    vault.store({ accessToken: 'token', tokenType: 'Bearer', userType: 'customer' });
+
+    expect(() => vault.resolve('session-unknown')).toThrow('Unknown session handle');
+  });
+
+  it('should update stored tokens', () => {
+    const handle = vault.store({
+      accessToken: 'old',
+      tokenType: 'Bearer',
+      userType: 'customer',
+      refreshToken: 'old-refresh',
+    });
+
+    vault.update(handle, { accessToken: 'new', refreshToken: 'new-refresh' });
+
+    expect(vault.resolve(handle)).toMatchObject({ accessToken: 'new', refreshToken: 'new-refresh' });
+  });
+
+  it('should forget all credentials of a cleared session', () => {
+    const handle = runInSession('mcp-a', () =>
+      vault.store({ accessToken: 'token', tokenType: 'Bearer', userType: 'customer' })
+    );
+
+    vault.clearSession('mcp-a');
+
+    expect(() => runInSession('mcp-a', () => vault.resolve(handle))).toThrow(SessionError);
+  });
+});
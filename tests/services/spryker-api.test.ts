@@ -6,18 +6,50 @@
 jest.mock('../../src/config/index.js', () => ({
   config: {
     server: {
-      logLevel: 'info'
+      logLevel: 'info',
+      redaction: {
+        strategy: 'mask'
+      }
     },
     api: {
       baseUrl: 'https://test-api.example.com',
       timeout: 5000,
       retryAttempts: 3,
-      retryDelay: 1000
+      retryDelay: 1000,
+      retryMaxDelay: 30000,
+      retryBudget: { ratio: 0.1, minRetries: 10, windowMs: 10000 },
+      tokenRefreshMargin: 60000,
+      refreshTokenTtl: 2592000000,
+      locale: 'en_US'
+    },
+    stores: {
+      definitions: {
+        DE: { baseUrl: 'https://glue.de.example.com', locale: 'de_DE' }
+      }
+    },
+    cache: {
+      backend: 'memory',
+      maxEntries: 100,
+      staleTtl: 600000,
+      ttls: { 'category-trees': 3600000, 'catalog-search': 60000 }
+    },
+    circuitBreaker: {
+      enabled: true,
+      failureThreshold: 5,
+      resetTimeout: 30000,
+      halfOpenProbes: 1,
+      scope: 'host'
+    },
+    tracing: {
+      exporter: 'none'
     }
   }
 }));
 
-import { SprykerApiService, ApiError } from '../../src/services/spryker-api.js';
+import { SprykerApiService, ApiError, parseRetryAfter } from '../../src/services/spryker-api.js';
+import { runWithStoreSelection } from '../../src/services/store-context.js';
+import { CircuitOpenError } from '../../src/services/circuit-breaker.js';
+import { runInSession } from '../../src/services/session-context.js';
 
 // Mock fetch globally
 const mockFetch = jest.fn();
@@ -282,16 +314,51 @@ describe('SprykerApiService', () => {
       // Mock a network failure by making fetch reject immediately
       const networkError = new Error('Network failure');
       mockFetch.mockRejectedValue(networkError);
+      (global.clearTimeout as jest.Mock).mockClear();
 
       // Since the service has retries, we need to expect it to retry multiple times
       // The service is configured with 3 retry attempts, so it will try 4 times total
       await expect(service.get('/test-endpoint'))
         .rejects
         .toThrow('Network failure');
+
+      // The request timeout of every failed attempt is cleared
+      expect(global.clearTimeout).toHaveBeenCalledTimes(mockFetch.mock.calls.length);
+      expect(global.clearTimeout).toHaveBeenCalledWith(123);
       
       // Reset the mock for other tests
       mockFetch.mockClear();
     });
+
+    it('should keep the request timeout running while reading the body', async () => {
+      const clearedBeforeBody: number[] = [];
+      const readBody = (result: Promise<unknown>) => () => {
+        clearedBeforeBody.push((global.clearTimeout as jest.Mock).mock.calls.length);
+        return result;
+      };
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          headers: createMockHeaders([['content-type', 'application/json']]),
+          json: readBody(Promise.reject(new Error('The operation was aborted'))),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          headers: createMockHeaders([['content-type', 'application/json']]),
+          json: readBody(Promise.resolve({ data: [] })),
+        });
+      (global.clearTimeout as jest.Mock).mockClear();
+
+      // A body cut off by the timeout fails the attempt, which is retried
+      await expect(service.get('/stalled')).resolves.toMatchObject({ data: { data: [] } });
+
+      expect(clearedBeforeBody).toEqual([0, 1]);
+      expect(global.clearTimeout).toHaveBeenCalledTimes(2);
+    });
   });
 
   describe('response parsing', () => {
@@ -358,6 +425,113 @@ describe('SprykerApiService', () => {
       expect(mockFetch).toHaveBeenCalledTimes(2);
       expect(result.data).toEqual(successResponse);
     });
+
+    const failedResponse = (status: number, statusText: string, retryAfter?: string) => ({
+      ok: false,
+      status,
+      statusText,
+      headers: createMockHeaders([
+        ['content-type', 'application/json'],
+        ...(retryAfter ? [['retry-after', retryAfter] as [string, string]] : []),
+      ]),
+      json: () => Promise.resolve({ errors: [] }),
+      text: () => Promise.resolve('{"errors":[]}'),
+    });
+
+    const okResponse = () => ({
+      ok: true,
+      status: 200,
+      headers: createMockHeaders([['content-type', 'application/json']]),
+      json: () => Promise.resolve({ data: 'success' }),
+      text: () => Promise.resolve('{"data":"success"}'),
+    });
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should not retry requests that are not idempotent', async () => {
+      mockFetch.mockRejectedValue(new Error('The operation was aborted'));
+
+      await expect(service.post('carts/cart-1/items', { data: {} }, 'token')).rejects.toThrow('The operation was aborted');
+      await expect(service.patch('carts/cart-1/items/sku-1', { data: {} }, 'token')).rejects.toThrow('The operation was aborted');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry requests that opt in', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('The operation was aborted'))
+        .mockResolvedValueOnce(okResponse());
+
+      const result = await service.post('checkout-data', { data: {} }, 'token', { idempotent: true });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.data).toEqual({ data: 'success' });
+    });
+
+    it('should wait a random delay of up to the exponential backoff', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce(okResponse());
+
+      await service.get('abstract-products/001');
+
+      expect(global.setTimeout).toHaveBeenCalledWith(expect.any(Function), 500);
+      expect(global.setTimeout).toHaveBeenCalledWith(expect.any(Function), 1000);
+    });
+
+    it('should retry rate limited requests after the Retry-After delay', async () => {
+      mockFetch
+        .mockResolvedValueOnce(failedResponse(429, 'Too Many Requests', '2'))
+        .mockResolvedValueOnce(okResponse());
+
+      await service.get('abstract-products/001');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(global.setTimeout).toHaveBeenCalledWith(expect.any(Function), 2000);
+    });
+
+    it('should not retry when Glue asks to wait longer than the maximum delay', async () => {
+      mockFetch.mockResolvedValue(failedResponse(503, 'Service Unavailable', '120'));
+
+      const error = await service.get('abstract-products/001').catch(caught => caught);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(error).toBeInstanceOf(ApiError);
+      expect(error.retryAfterMs).toBe(120000);
+      expect(error.hint).toContain('Glue asked to retry in 120 seconds.');
+    });
+
+    it('should stop retrying when the retry budget is exhausted', async () => {
+      mockFetch.mockResolvedValue(failedResponse(429, 'Too Many Requests'));
+
+      for (let request = 0; request < 5; request++) {
+        await expect(service.get('abstract-products/001')).rejects.toThrow('HTTP 429');
+      }
+
+      // 5 requests allow 10 + 0.1 * 5 retries: 3 each for the first three,
+      // 1 for the fourth and none for the fifth
+      expect(mockFetch).toHaveBeenCalledTimes(15);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delay seconds and HTTP dates', () => {
+      const now = Date.parse('2024-01-01T10:00:00Z');
+
+      expect(parseRetryAfter('30', now)).toBe(30000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 10:00:05 GMT', now)).toBe(5000);
+      expect(parseRetryAfter('Mon, 01 Jan 2024 09:59:00 GMT', now)).toBe(0);
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
   });
 
   describe('request method', () => {
@@ -387,6 +561,149 @@ describe('SprykerApiService', () => {
     });
   });
 
+  describe('automatic token refresh', () => {
+    const jsonResponse = (status: number, body: unknown) => ({
+      ok: status < 400,
+      status,
+      statusText: status === 401 ? 'Unauthorized' : 'OK',
+      headers: createMockHeaders([['content-type', 'application/vnd.api+json']]),
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    });
+
+    const tokenBody = (accessToken: string, refreshToken: string, expiresIn = 3600) => ({
+      data: {
+        type: 'access-tokens',
+        attributes: { tokenType: 'Bearer', accessToken, refreshToken, expiresIn },
+      },
+    });
+
+    const authorizationOf = (call: number) =>
+      (mockFetch.mock.calls[call]?.[1] as { headers: Record<string, string> }).headers['Authorization'];
+
+    const authenticate = async (expiresIn = 3600) => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(201, tokenBody('access-1', 'refresh-1', expiresIn)));
+      await service.post('access-tokens', { data: { type: 'access-tokens', attributes: {} } });
+    };
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should refresh once after a 401 and replay the request', async () => {
+      await authenticate();
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(401, { errors: [] }))
+        .mockResolvedValueOnce(jsonResponse(201, tokenBody('access-2', 'refresh-2')))
+        .mockResolvedValueOnce(jsonResponse(200, { data: [] }));
+
+      const result = await service.get('carts', 'access-1');
+
+      expect(result.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(mockFetch.mock.calls[2]?.[0]).toContain('/refresh-tokens');
+      expect(JSON.parse(mockFetch.mock.calls[2]?.[1].body)).toEqual({
+        data: { type: 'refresh-tokens', attributes: { refreshToken: 'refresh-1' } },
+      });
+      expect(authorizationOf(3)).toBe('Bearer access-2');
+    });
+
+    it('should keep using the refreshed token for the original token', async () => {
+      await authenticate();
+      mockFetch.mockResolvedValueOnce(jsonResponse(201, tokenBody('access-2', 'refresh-2')));
+      await service.refreshAccessToken('access-1');
+      mockFetch.mockResolvedValueOnce(jsonResponse(200, { data: [] }));
+
+      await service.get('carts', 'access-1');
+
+      expect(authorizationOf(2)).toBe('Bearer access-2');
+    });
+
+    it('should refresh before the token expires', async () => {
+      await authenticate(30); // Expires within the refresh margin
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(201, tokenBody('access-2', 'refresh-2')))
+        .mockResolvedValueOnce(jsonResponse(200, { data: [] }));
+
+      await service.get('carts', 'access-1');
+
+      expect(mockFetch.mock.calls[1]?.[0]).toContain('/refresh-tokens');
+      expect(authorizationOf(2)).toBe('Bearer access-2');
+    });
+
+    it('should share a single in-flight refresh between concurrent callers', async () => {
+      await authenticate();
+      mockFetch.mockResolvedValueOnce(jsonResponse(201, tokenBody('access-2', 'refresh-2')));
+
+      const [first, second] = await Promise.all([
+        service.refreshAccessToken('access-1'),
+        service.refreshAccessToken('access-1'),
+      ]);
+
+      expect(first.accessToken).toBe('access-2');
+      expect(second).toEqual(first);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should rethrow the 401 when the refresh fails', async () => {
+      await authenticate();
+      mockFetch
+        .mockResolvedValueOnce(jsonResponse(401, { errors: [] }))
+        .mockResolvedValueOnce(jsonResponse(401, { errors: [] }));
+
+      await expect(service.get('carts', 'access-1')).rejects.toMatchObject({ status: 401 });
+      await expect(service.refreshAccessToken('access-1')).rejects.toThrow('not tracked');
+    });
+
+    it('should keep refreshing after a transient refresh failure', async () => {
+      await authenticate();
+      mockFetch.mockResolvedValueOnce(jsonResponse(503, { errors: [] }));
+
+      await expect(service.refreshAccessToken('access-1')).rejects.toMatchObject({ status: 503 });
+
+      mockFetch.mockResolvedValueOnce(jsonResponse(201, tokenBody('access-2', 'refresh-2')));
+      await expect(service.refreshAccessToken('access-1')).resolves.toMatchObject({ accessToken: 'access-2' });
+    });
+
+    it('should stop tracking the tokens of a closed session', async () => {
+      await runInSession('mcp-1', () => authenticate());
+      mockFetch.mockResolvedValueOnce(jsonResponse(201, tokenBody('access-2', 'refresh-2')));
+      await service.refreshAccessToken('access-1');
+
+      service.clearSession('mcp-2');
+      mockFetch.mockResolvedValueOnce(jsonResponse(201, tokenBody('access-3', 'refresh-3')));
+      await expect(service.refreshAccessToken('access-2')).resolves.toMatchObject({ accessToken: 'access-3' });
+
+      service.clearSession('mcp-1');
+      await expect(service.refreshAccessToken('access-1')).rejects.toThrow('not tracked');
+      await expect(service.refreshAccessToken('access-2')).rejects.toThrow('not tracked');
+    });
+
+    it('should forget tokens once their refresh token has expired', async () => {
+      const start = Date.now();
+      const now = jest.spyOn(Date, 'now');
+      try {
+        now.mockReturnValue(start);
+        await authenticate();
+
+        now.mockReturnValue(start + 2592000000);
+        mockFetch.mockResolvedValueOnce(jsonResponse(200, { data: [] }));
+        await service.get('carts', 'other-token');
+
+        await expect(service.refreshAccessToken('access-1')).rejects.toThrow('not tracked');
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    it('should not refresh untracked tokens', async () => {
+      mockFetch.mockResolvedValueOnce(jsonResponse(401, { errors: [] }));
+
+      await expect(service.get('carts', 'unknown-token')).rejects.toMatchObject({ status: 401 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('ApiError', () => {
     it('should create proper error objects', () => {
       const error = new ApiError('Test error', 404, 'Not Found', { error: 'data' });
@@ -398,4 +715,263 @@ describe('SprykerApiService', () => {
       expect(error.name).toBe('ApiError');
     });
   });
+
+  describe('store selection', () => {
+    const okResponse = (body: unknown) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: createMockHeaders([['content-type', 'application/vnd.api+json']]),
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    });
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should use the default base URL and locale without a store selection', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ data: [] }));
+
+      await service.get('catalog-search');
+
+      expect(mockFetch.mock.calls[0]?.[0]).toBe('https://test-api.example.com/catalog-search');
+      expect(mockFetch.mock.calls[0]?.[1].headers['content-language']).toBe('en_US');
+    });
+
+    it('should send requests to the selected store with its locale', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ data: [] }));
+
+      await runWithStoreSelection({ store: 'DE' }, () => service.get('catalog-search'));
+
+      expect(mockFetch.mock.calls[0]?.[0]).toBe('https://glue.de.example.com/catalog-search');
+      expect(mockFetch.mock.calls[0]?.[1].headers['content-language']).toBe('de_DE');
+    });
+
+    it('should reject unknown stores without calling Glue', async () => {
+      await expect(
+        runWithStoreSelection({ store: 'FR' }, () => service.get('catalog-search'))
+      ).rejects.toThrow('Unknown store: FR. Available stores: DE');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should refresh tokens with the store that issued them', async () => {
+      const tokenBody = (accessToken: string) => ({
+        data: {
+          type: 'access-tokens',
+          attributes: { tokenType: 'Bearer', accessToken, refreshToken: `${accessToken}-refresh`, expiresIn: 3600 },
+        },
+      });
+
+      mockFetch.mockResolvedValueOnce(okResponse(tokenBody('access-de')));
+      await runWithStoreSelection({ store: 'DE' }, () =>
+        service.post('access-tokens', { data: { type: 'access-tokens', attributes: {} } })
+      );
+
+      mockFetch.mockResolvedValueOnce(okResponse(tokenBody('access-de-2')));
+      await service.refreshAccessToken('access-de');
+
+      expect(mockFetch.mock.calls[1]?.[0]).toBe('https://glue.de.example.com/refresh-tokens');
+    });
+  });
+
+  describe('response cache', () => {
+    const response = (status: number, body: unknown, headers: [string, string][] = []) => ({
+      ok: status < 400,
+      status,
+      statusText: status === 304 ? 'Not Modified' : 'OK',
+      headers: createMockHeaders([['content-type', 'application/vnd.api+json'], ...headers]),
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    });
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should serve repeated anonymous catalog requests from the cache', async () => {
+      mockFetch.mockResolvedValueOnce(response(200, { data: [{ id: 'tree' }] }));
+
+      await service.get('category-trees');
+      const result = await service.get('category-trees');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.data).toEqual({ data: [{ id: 'tree' }] });
+      expect(service.getCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it('should not cache authenticated requests', async () => {
+      mockFetch.mockResolvedValue(response(200, { data: [] }));
+
+      await service.get('category-trees', 'customer-token');
+      await service.get('category-trees', 'customer-token');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache endpoints without a TTL', async () => {
+      mockFetch.mockResolvedValue(response(200, { data: [] }));
+
+      await service.get('abstract-products/001/abstract-product-availabilities');
+      await service.get('abstract-products/001/abstract-product-availabilities');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should revalidate expired responses with their ETag', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(200, { data: [] }, [['etag', '"v1"'], ['cache-control', 'max-age=0']]))
+        .mockResolvedValueOnce(response(304, undefined));
+
+      await service.request('GET', 'catalog-search', { params: { q: 'revalidate' } });
+      const result = await service.request('GET', 'catalog-search', { params: { q: 'revalidate' } });
+
+      expect(mockFetch.mock.calls[1]?.[1].headers['If-None-Match']).toBe('"v1"');
+      expect(result.status).toBe(200);
+      expect(result.data).toEqual({ data: [] });
+    });
+  });
+
+  describe('request coalescing', () => {
+    const okResponse = (body: unknown) => ({
+      ok: true,
+      status: 200,
+      headers: createMockHeaders([['content-type', 'application/json']]),
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(JSON.stringify(body)),
+    });
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should share one request between identical concurrent GETs', async () => {
+      let respond: (value: unknown) => void = () => undefined;
+      mockFetch.mockReturnValueOnce(new Promise(resolve => {
+        respond = resolve;
+      }));
+
+      const first = service.get('abstract-products/001', 'token');
+      const second = service.get('abstract-products/001', 'token');
+      respond(okResponse({ data: { id: '001' } }));
+
+      const results = await Promise.all([first, second]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(results[0].data).toEqual({ data: { id: '001' } });
+      expect(results[1].data).toEqual({ data: { id: '001' } });
+    });
+
+    it('should not share requests with different tokens or methods', async () => {
+      mockFetch.mockImplementation(() => Promise.resolve(okResponse({ data: [] })));
+
+      await Promise.all([
+        service.get('carts', 'token-a'),
+        service.get('carts', 'token-b'),
+        service.post('carts', {}, 'token-a'),
+        service.post('carts', {}, 'token-a'),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should send a new request once the previous one completed', async () => {
+      mockFetch.mockImplementation(() => Promise.resolve(okResponse({ data: [] })));
+
+      await service.get('carts', 'token');
+      await service.get('carts', 'token');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass failures to every caller', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        headers: createMockHeaders([['content-type', 'application/json']]),
+        json: () => Promise.resolve({ errors: [] }),
+        text: () => Promise.resolve('{"errors":[]}'),
+      });
+
+      const results = await Promise.allSettled([
+        service.get('abstract-products/missing', 'token'),
+        service.get('abstract-products/missing', 'token'),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const errorResponse = (status: number, statusText: string) => ({
+      ok: false,
+      status,
+      statusText,
+      headers: createMockHeaders([['content-type', 'application/json']]),
+      json: () => Promise.resolve({ errors: [] }),
+      text: () => Promise.resolve('{"errors":[]}'),
+    });
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+    });
+
+    it('should open after consecutive server errors and stop retrying', async () => {
+      mockFetch.mockImplementation(() => Promise.resolve(errorResponse(503, 'Service Unavailable')));
+
+      // Four attempts of the first request, the fifth failure opens the circuit
+      await expect(service.get('carts', 'token')).rejects.toThrow(ApiError);
+      await expect(service.get('carts', 'token')).rejects.toThrow(CircuitOpenError);
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+
+      await expect(service.get('abstract-products/001')).rejects.toThrow(/unavailable after 5 consecutive failures/);
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+
+      expect(service.getCircuitStatuses()).toEqual([
+        expect.objectContaining({ key: 'test-api.example.com', state: 'open', consecutiveFailures: 5 }),
+      ]);
+    });
+
+    it('should count timeouts and network errors as failures', async () => {
+      mockFetch.mockImplementation(() => Promise.reject(new Error('The operation was aborted')));
+
+      await expect(service.get('carts', 'token')).rejects.toThrow('The operation was aborted');
+
+      expect(service.getCircuitStatuses()).toEqual([
+        expect.objectContaining({ state: 'closed', consecutiveFailures: 4, lastFailure: 'The operation was aborted' }),
+      ]);
+    });
+
+    it('should keep a circuit per endpoint family with endpoint scope', async () => {
+      const { config } = jest.requireMock('../../src/config/index.js');
+      config.circuitBreaker.scope = 'endpoint';
+      mockFetch.mockImplementation(() => Promise.resolve(errorResponse(500, 'Internal Server Error')));
+
+      try {
+        await expect(service.get('carts/cart-1/items', 'token')).rejects.toThrow(ApiError);
+        await expect(service.get('catalog-search?q=camera')).rejects.toThrow(ApiError);
+      } finally {
+        config.circuitBreaker.scope = 'host';
+      }
+
+      expect(service.getCircuitStatuses()?.map(status => status.key)).toEqual([
+        'test-api.example.com/carts',
+        'test-api.example.com/catalog-search',
+      ]);
+    });
+
+    it('should not count client errors as failures', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(500, 'Internal Server Error'))
+        .mockResolvedValueOnce(errorResponse(404, 'Not Found'));
+
+      await expect(service.get('abstract-products/missing')).rejects.toThrow('HTTP 404');
+
+      expect(service.getCircuitStatuses()).toEqual([
+        expect.objectContaining({ state: 'closed', consecutiveFailures: 0 }),
+      ]);
+    });
+  });
 });
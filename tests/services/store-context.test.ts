@@ -0,0 +1,105 @@
+/**
+ * Tests for the Store Context
+ */
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    api: {
+      baseUrl: 'https://glue.example.com',
+      locale: 'en_US',
+      currency: undefined,
+      priceMode: 'GROSS_MODE',
+    },
+    stores: {
+      defaultStore: 'DE',
+      definitions: {
+        DE: { baseUrl: 'https://glue.de.example.com', locale: 'de_DE', currency: 'EUR' },
+        US: { baseUrl: 'https://glue.us.example.com', locale: 'en_US', currency: 'USD', priceMode: 'NET_MODE' },
+      },
+    },
+  }
+}));
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+import { StoreContextManager, StoreContextError, runWithStoreSelection } from '../../src/services/store-context.js';
+import { runInSession } from '../../src/services/session-context.js';
+
+describe('StoreContextManager', () => {
+  let manager: StoreContextManager;
+
+  beforeEach(() => {
+    manager = new StoreContextManager();
+  });
+
+  it('should fall back to the default store and configured defaults', () => {
+    expect(manager.resolve()).toEqual({
+      store: 'DE',
+      baseUrl: 'https://glue.de.example.com',
+      locale: 'de_DE',
+      currency: 'EUR',
+      priceMode: 'GROSS_MODE',
+    });
+  });
+
+  it('should apply the session selection', () => {
+    manager.select({ store: 'US' });
+
+    expect(manager.resolve()).toEqual({
+      store: 'US',
+      baseUrl: 'https://glue.us.example.com',
+      locale: 'en_US',
+      currency: 'USD',
+      priceMode: 'NET_MODE',
+    });
+  });
+
+  it('should let the call selection override the session selection', () => {
+    manager.select({ store: 'DE', locale: 'en_US' });
+
+    const context = runWithStoreSelection({ currency: 'CHF', locale: undefined }, () => manager.resolve());
+
+    expect(context).toMatchObject({ store: 'DE', locale: 'en_US', currency: 'CHF' });
+  });
+
+  it('should not apply session settings of another store to a call for a different store', () => {
+    manager.select({ store: 'DE', currency: 'CHF' });
+
+    const context = runWithStoreSelection({ store: 'US' }, () => manager.resolve());
+
+    expect(context).toMatchObject({ store: 'US', currency: 'USD' });
+  });
+
+  it('should drop settings of the previous store when switching stores', () => {
+    manager.select({ store: 'DE', locale: 'en_US' });
+    manager.select({ store: 'US' });
+    manager.select({ priceMode: 'GROSS_MODE' });
+
+    expect(manager.getSelection()).toEqual({ store: 'US', priceMode: 'GROSS_MODE' });
+  });
+
+  it('should keep selections per MCP session', () => {
+    runInSession('mcp-a', () => manager.select({ store: 'US' }));
+
+    expect(runInSession('mcp-a', () => manager.resolve().store)).toBe('US');
+    expect(runInSession('mcp-b', () => manager.resolve().store)).toBe('DE');
+
+    manager.clearSession('mcp-a');
+
+    expect(runInSession('mcp-a', () => manager.resolve().store)).toBe('DE');
+  });
+
+  it('should reject unknown stores', () => {
+    expect(() => manager.select({ store: 'FR' })).toThrow(StoreContextError);
+    expect(() => runWithStoreSelection({ store: 'FR' }, () => manager.resolve())).toThrow(
+      'Unknown store: FR. Available stores: DE, US'
+    );
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Tests for tracing of MCP requests, tool calls and Glue requests
+ */
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    server: {
+      name: 'spryker-mcp-server',
+      version: '0.1.0',
+    },
+    api: {
+      baseUrl: 'https://glue.example.com',
+      timeout: 50,
+      retryAttempts: 1,
+      retryDelay: 1,
+      retryMaxDelay: 1000,
+      retryBudget: { ratio: 0.1, minRetries: 10, windowMs: 10000 },
+      tokenRefreshMargin: 60000,
+      refreshTokenTtl: 2592000000,
+      locale: 'en_US'
+    },
+    stores: {
+      definitions: {}
+    },
+    cache: {
+      backend: 'none'
+    },
+    circuitBreaker: {
+      enabled: false
+    },
+    tracing: {
+      exporter: 'file',
+      file: require('node:path').join(require('node:os').tmpdir(), `spryker-mcp-traces-${process.pid}.jsonl`),
+      serviceName: 'spryker-mcp-server',
+    }
+  }
+}));
+
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { config } from '../../src/config/index.js';
+import { logger } from '../../src/utils/logger.js';
+import { SprykerApiService } from '../../src/services/spryker-api.js';
+import {
+  BatchSpanProcessor,
+  FileSpanExporter,
+  OtlpHttpSpanExporter,
+  Tracer,
+  formatTraceparent,
+  parseTraceparent,
+  traceRequestHandler,
+  tracer,
+  type FinishedSpan,
+  type SpanExporter,
+} from '../../src/services/tracing/index.js';
+
+class MemorySpanExporter implements SpanExporter {
+  spans: FinishedSpan[] = [];
+
+  async export(spans: FinishedSpan[]): Promise<void> {
+    this.spans.push(...spans);
+  }
+}
+
+const finishedSpan = (overrides: Partial<FinishedSpan> = {}): FinishedSpan => ({
+  traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+  spanId: '00f067aa0ba902b7',
+  name: 'GET',
+  kind: 'client',
+  startTime: 1700000000000,
+  endTime: 1700000000250.5,
+  attributes: { 'http.request.method': 'GET', 'http.response.status_code': 200 },
+  events: [],
+  status: { code: 'unset' },
+  ...overrides,
+});
+
+describe('traceparent', () => {
+  it('should parse and format W3C traceparent headers', () => {
+    const context = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+
+    expect(context).toEqual({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7' });
+    expect(formatTraceparent(context!)).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+  });
+
+  it('should ignore malformed and all-zero traceparents', () => {
+    expect(parseTraceparent('not-a-traceparent')).toBeUndefined();
+    expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeUndefined();
+    expect(parseTraceparent(undefined)).toBeUndefined();
+  });
+});
+
+describe('Tracer', () => {
+  let exporter: MemorySpanExporter;
+  let testTracer: Tracer;
+
+  beforeEach(() => {
+    exporter = new MemorySpanExporter();
+    testTracer = new Tracer(new BatchSpanProcessor(exporter));
+  });
+
+  it('should nest spans started within an active span', async () => {
+    await testTracer.startActiveSpan('tools/call', { kind: 'server' }, async () => {
+      await testTracer.startActiveSpan('execute_tool get-cart', {}, async span => {
+        span.addEvent('retry', { 'http.request.resend_count': 1 });
+      });
+    });
+    await testTracer.flush();
+
+    const [child, parent] = exporter.spans;
+    expect(parent).toMatchObject({ name: 'tools/call', kind: 'server' });
+    expect(parent!.parentSpanId).toBeUndefined();
+    expect(child).toMatchObject({
+      name: 'execute_tool get-cart',
+      kind: 'internal',
+      traceId: parent!.traceId,
+      parentSpanId: parent!.spanId,
+      events: [expect.objectContaining({ name: 'retry', attributes: { 'http.request.resend_count': 1 } })],
+    });
+  });
+
+  it('should continue a remote trace and record errors', async () => {
+    const parent = { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7' };
+
+    await expect(testTracer.startActiveSpan('tools/call', { parent }, async () => {
+      throw new Error('Glue unavailable');
+    })).rejects.toThrow('Glue unavailable');
+    await testTracer.flush();
+
+    expect(exporter.spans[0]).toMatchObject({
+      traceId: parent.traceId,
+      parentSpanId: parent.spanId,
+      status: { code: 'error', message: 'Glue unavailable' },
+      events: [expect.objectContaining({ name: 'exception' })],
+    });
+  });
+
+  it('should inject the traceparent of the active span', async () => {
+    const headers = await testTracer.startActiveSpan('GET', { kind: 'client' }, async span => ({
+      injected: testTracer.inject({ Accept: 'application/json' }),
+      traceparent: formatTraceparent(span.context),
+    }));
+
+    expect(headers.injected).toEqual({ Accept: 'application/json', traceparent: headers.traceparent });
+    expect(testTracer.inject({})).toEqual({});
+  });
+
+  it('should record nothing without a processor', async () => {
+    const disabled = new Tracer(null);
+
+    const headers = await disabled.startActiveSpan('GET', {}, async span => {
+      span.setAttributes({ 'http.response.status_code': 200 });
+      return disabled.inject({});
+    });
+
+    expect(disabled.enabled).toBe(false);
+    expect(headers).toEqual({});
+  });
+});
+
+describe('BatchSpanProcessor', () => {
+  it('should export once a batch is full', async () => {
+    const exporter = new MemorySpanExporter();
+    const processor = new BatchSpanProcessor(exporter, { maxBatchSize: 2 });
+
+    processor.onEnd(finishedSpan({ name: 'first' }));
+    expect(exporter.spans).toHaveLength(0);
+
+    processor.onEnd(finishedSpan({ name: 'second' }));
+    await processor.flush();
+
+    expect(exporter.spans.map(span => span.name)).toEqual(['first', 'second']);
+  });
+
+  it('should drop spans while the queue is full', async () => {
+    const exporter = new MemorySpanExporter();
+    const processor = new BatchSpanProcessor(exporter, { maxBatchSize: 10, maxQueueSize: 1 });
+
+    processor.onEnd(finishedSpan({ name: 'kept' }));
+    processor.onEnd(finishedSpan({ name: 'dropped' }));
+    await processor.flush();
+
+    expect(exporter.spans.map(span => span.name)).toEqual(['kept']);
+  });
+
+  it('should log failed exports instead of throwing', async () => {
+    const processor = new BatchSpanProcessor({ export: () => Promise.reject(new Error('collector down')) });
+
+    processor.onEnd(finishedSpan());
+
+    await expect(processor.flush()).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith('Failed to export spans', { count: 1, error: 'collector down' });
+  });
+});
+
+describe('OtlpHttpSpanExporter', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should post spans in the OTLP JSON encoding', async () => {
+    const mockFetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    global.fetch = mockFetch;
+    const exporter = new OtlpHttpSpanExporter(
+      'http://collector:4318/v1/traces',
+      { authorization: 'Bearer abc' },
+      { serviceName: 'spryker-mcp-server', serviceVersion: '0.1.0' }
+    );
+
+    await exporter.export([finishedSpan({
+      parentSpanId: 'b7ad6b7169203331',
+      events: [{ name: 'retry', time: 1700000000100, attributes: { 'retry.delay_ms': 1000 } }],
+      status: { code: 'error', message: 'HTTP 503' },
+    })]);
+
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://collector:4318/v1/traces');
+    expect(init.headers).toEqual({ authorization: 'Bearer abc', 'Content-Type': 'application/json' });
+
+    const payload = JSON.parse(init.body);
+    expect(payload.resourceSpans[0].resource.attributes).toEqual([
+      { key: 'service.name', value: { stringValue: 'spryker-mcp-server' } },
+      { key: 'service.version', value: { stringValue: '0.1.0' } },
+    ]);
+    expect(payload.resourceSpans[0].scopeSpans[0].spans[0]).toEqual({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      spanId: '00f067aa0ba902b7',
+      parentSpanId: 'b7ad6b7169203331',
+      name: 'GET',
+      kind: 3,
+      startTimeUnixNano: '1700000000000000000',
+      endTimeUnixNano: '1700000000250500000',
+      attributes: [
+        { key: 'http.request.method', value: { stringValue: 'GET' } },
+        { key: 'http.response.status_code', value: { intValue: '200' } },
+      ],
+      events: [{
+        name: 'retry',
+        timeUnixNano: '1700000000100000000',
+        attributes: [{ key: 'retry.delay_ms', value: { intValue: '1000' } }],
+      }],
+      status: { code: 2, message: 'HTTP 503' },
+    });
+  });
+
+  it('should fail when the collector rejects the spans', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 400 });
+    const exporter = new OtlpHttpSpanExporter('http://collector:4318/v1/traces', {}, {
+      serviceName: 'spryker-mcp-server',
+      serviceVersion: '0.1.0',
+    });
+
+    await expect(exporter.export([finishedSpan()])).rejects.toThrow('OTLP export failed with HTTP 400');
+  });
+});
+
+describe('FileSpanExporter', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'spryker-mcp-traces-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per span', async () => {
+    const path = join(directory, 'nested', 'traces.jsonl');
+    const exporter = new FileSpanExporter(path);
+
+    await exporter.export([finishedSpan({ name: 'first' })]);
+    await exporter.export([finishedSpan({ name: 'second' })]);
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.name)).toEqual(['first', 'second']);
+    expect(lines[0]).toMatchObject({
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      startTime: new Date(1700000000000).toISOString(),
+      durationMs: 250.5,
+    });
+  });
+});
+
+describe('traced Glue requests', () => {
+  const originalFetch = global.fetch;
+  const mockFetch = jest.fn();
+  const traceFile = config.tracing.file;
+
+  const readSpans = async (): Promise<FinishedSpan[]> => {
+    await tracer.flush();
+    return (await readFile(traceFile, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+  };
+
+  beforeEach(async () => {
+    global.fetch = mockFetch;
+    mockFetch.mockReset();
+    await rm(traceFile, { force: true });
+  });
+
+  afterAll(async () => {
+    global.fetch = originalFetch;
+    await rm(traceFile, { force: true });
+  });
+
+  it('should propagate the trace of an MCP request to Glue', async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      headers: new Headers({ 'content-type': 'application/vnd.api+json' }),
+      json: () => Promise.resolve({ data: [] }),
+    });
+    const service = new SprykerApiService();
+    const handler = traceRequestHandler(async (_request: { method: string; params: { name: string } }) =>
+      service.get('catalog-search?q=camera'));
+
+    await handler(
+      { method: 'tools/call', params: { name: 'product-search' } },
+      {
+        sessionId: 'session-1',
+        requestId: 7,
+        requestInfo: { headers: { traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01' } },
+      }
+    );
+
+    const [client, server] = await readSpans();
+    expect(server).toMatchObject({
+      name: 'tools/call product-search',
+      kind: 'server',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      parentSpanId: '00f067aa0ba902b7',
+      attributes: { 'mcp.method.name': 'tools/call', 'mcp.session.id': 'session-1', 'jsonrpc.request.id': '7' },
+    });
+    expect(client).toMatchObject({
+      name: 'GET',
+      kind: 'client',
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      parentSpanId: server!.spanId,
+      attributes: {
+        'http.request.method': 'GET',
+        'server.address': 'glue.example.com',
+        'http.response.status_code': 200,
+      },
+    });
+    expect(mockFetch.mock.calls[0][1].headers.traceparent)
+      .toBe(`00-4bf92f3577b34da6a3ce929d0e0e4736-${client!.spanId}-01`);
+  });
+
+  it('should record retries as events of the Glue request span', async () => {
+    jest.spyOn(Math, 'random').mockReturnValueOnce(1);
+    mockFetch
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        headers: new Headers({ 'content-type': 'application/vnd.api+json' }),
+        json: () => Promise.resolve({ data: [] }),
+      });
+
+    await new SprykerApiService().get('category-trees');
+
+    const [client] = await readSpans();
+    expect(client!.attributes).toMatchObject({ 'http.request.resend_count': 1, 'http.response.status_code': 200 });
+    expect(client!.events).toEqual([expect.objectContaining({
+      name: 'retry',
+      attributes: { 'http.request.resend_count': 1, 'retry.delay_ms': 1, 'error.message': 'socket hang up' },
+    })]);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Tests for the confirmation of actions by the user
+ */
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    debug: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }
+}));
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  UserConfirmation,
+  elicitationFor,
+  runWithElicitation,
+  type PendingAction,
+} from '../../src/services/user-confirmation.js';
+
+describe('UserConfirmation', () => {
+  let now: number;
+
+  const action: PendingAction = {
+    tool: 'remove-from-cart',
+    summary: 'Remove item sku-1 from cart cart-1.',
+    request: { cartId: 'cart-1', itemId: 'sku-1' },
+  };
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  describe('with elicitation', () => {
+    it('should ask the user with the summary of the action', async () => {
+      const elicit = jest.fn(async () => ({ action: 'accept' as const, content: { confirm: true } }));
+      const confirmation = new UserConfirmation('deny', 1000);
+
+      const outcome = await runWithElicitation(elicit, () => confirmation.confirm(action, undefined, 'session-1'));
+
+      expect(outcome).toEqual({ confirmed: true });
+      expect(elicit).toHaveBeenCalledWith({
+        message: 'Remove item sku-1 from cart cart-1.',
+        requestedSchema: expect.objectContaining({ required: ['confirm'] }),
+      });
+    });
+
+    it.each([
+      ['declines', { action: 'decline' as const }, 'The user did not confirm the action.'],
+      ['dismisses the request', { action: 'cancel' as const }, 'The user dismissed the confirmation.'],
+      ['accepts without confirming', { action: 'accept' as const, content: { confirm: false } }, 'The user did not confirm the action.'],
+    ])('should reject the action when the user %s', async (_, answer, message) => {
+      const confirmation = new UserConfirmation('allow', 1000);
+
+      await expect(runWithElicitation(async () => answer, () => confirmation.ask(action.summary)))
+        .rejects.toMatchObject({ code: 'CONFIRMATION_DECLINED', message });
+    });
+
+    it('should ask again although a confirmation token was passed', async () => {
+      const elicit = jest.fn(async () => ({ action: 'decline' as const }));
+      const confirmation = new UserConfirmation('token', 1000);
+
+      await expect(runWithElicitation(elicit, () => confirmation.confirm(action, 'confirm-1', 'session-1')))
+        .rejects.toMatchObject({ code: 'CONFIRMATION_DECLINED' });
+      expect(elicit).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('without elicitation', () => {
+    it('should allow the action with the allow fallback', async () => {
+      await expect(new UserConfirmation('allow', 1000).confirm(action, undefined, 'session-1'))
+        .resolves.toEqual({ confirmed: true });
+    });
+
+    it('should deny the action with the deny fallback', async () => {
+      await expect(new UserConfirmation('deny', 1000).confirm(action, undefined, 'session-1'))
+        .rejects.toMatchObject({ code: 'CONFIRMATION_UNAVAILABLE' });
+    });
+
+    it('should issue a token and accept it once for the same action', async () => {
+      const confirmation = new UserConfirmation('token', 1000, () => now);
+
+      const pending = await confirmation.confirm(action, undefined, 'session-1');
+      expect(pending).toEqual({ confirmed: false, token: expect.stringMatching(/^confirm-/), expiresAt: 1000 });
+      const token = pending.confirmed ? '' : pending.token;
+
+      await expect(confirmation.confirm(action, token, 'session-1')).resolves.toEqual({ confirmed: true });
+      await expect(confirmation.confirm(action, token, 'session-1'))
+        .rejects.toMatchObject({ code: 'CONFIRMATION_INVALID' });
+    });
+
+    it.each([
+      ['another session', action, 'session-2'],
+      ['another tool', { ...action, tool: 'delete-address' }, 'session-1'],
+      ['other arguments', { ...action, request: { cartId: 'cart-1', itemId: 'sku-2' } }, 'session-1'],
+    ])('should reject a token used for %s', async (_, other, sessionId) => {
+      const confirmation = new UserConfirmation('token', 1000, () => now);
+      const pending = await confirmation.confirm(action, undefined, 'session-1');
+      const token = pending.confirmed ? '' : pending.token;
+
+      await expect(confirmation.confirm(other, token, sessionId)).rejects.toMatchObject({ code: 'CONFIRMATION_INVALID' });
+    });
+
+    it('should reject an expired token', async () => {
+      const confirmation = new UserConfirmation('token', 1000, () => now);
+      const pending = await confirmation.confirm(action, undefined, 'session-1');
+      now = 1000;
+
+      await expect(confirmation.confirm(action, pending.confirmed ? '' : pending.token, 'session-1'))
+        .rejects.toMatchObject({ code: 'CONFIRMATION_INVALID' });
+    });
+  });
+
+  describe('elicitationFor', () => {
+    const server = (capabilities: object | undefined) => ({
+      getClientCapabilities: jest.fn(() => capabilities),
+      elicitInput: jest.fn(async () => ({ action: 'accept' })),
+    });
+
+    it('should not elicit from clients without form elicitation', () => {
+      expect(elicitationFor(server(undefined) as unknown as Server, 1)).toBeUndefined();
+      expect(elicitationFor(server({ elicitation: { url: {} } }) as unknown as Server, 1)).toBeUndefined();
+    });
+
+    it('should send elicitations along with the request', async () => {
+      const client = server({ elicitation: { form: {} } });
+      const elicit = elicitationFor(client as unknown as Server, 7);
+
+      await elicit!({ message: 'Confirm?', requestedSchema: { type: 'object', properties: {} } });
+
+      expect(client.elicitInput).toHaveBeenCalledWith(
+        { message: 'Confirm?', requestedSchema: { type: 'object', properties: {} } },
+        expect.objectContaining({ relatedRequestId: 7 })
+      );
+    });
+  });
+});
@@ -26,6 +26,8 @@ describe('ToolRegistry', () => {
     const mockTool = {
       name: 'test_tool',
       description: 'A test tool',
+      annotations: { title: 'Test', readOnlyHint: true as const, openWorldHint: false },
+      scope: 'catalog:read' as const,
       inputSchema: {
         type: 'object' as const,
         properties: {},
@@ -48,6 +50,8 @@ describe('ToolRegistry', () => {
     const mockTool = {
       name: 'test_tool',
       description: 'A test tool',
+      annotations: { title: 'Test', readOnlyHint: true as const, openWorldHint: false },
+      scope: 'catalog:read' as const,
       inputSchema: {
         type: 'object' as const,
         properties: {},
@@ -29,6 +29,7 @@ jest.mock('../../src/utils/logger.js', () => ({
 
 import { authenticateTool } from '../../src/tools/authenticate.js';
 import { ApiError } from '../../src/services/spryker-api.js';
+import { sessionVault } from '../../src/services/session-vault.js';
 
 // Mock the API service
 const mockPost = jest.fn();
@@ -58,9 +59,19 @@ describe('Authenticate Tool', () => {
       expect(result.content).toHaveLength(1);
       expect(result.content[0]?.text).toContain('"success": true');
       expect(result.content[0]?.text).toContain('"tokenType": "Guest"');
-      expect(result.content[0]?.text).toContain('"accessToken": "guest-');
+      expect(result.content[0]?.text).not.toContain('"accessToken"');
       expect(result.content[0]?.text).toContain('"user_type": "guest"');
-      expect(result.content[0]?.text).toContain('"message": "Guest session created. Use this ID for cart and checkout operations."');
+      expect(result.content[0]?.text).toContain('"message": "Guest session created. It is used automatically for cart and checkout operations."');
+    });
+
+    it('should store the guest id in the session vault', async () => {
+      const result = await authenticateTool.handler({});
+      const { session } = JSON.parse(result.content[0]!.text);
+
+      const credentials = sessionVault.resolve(session);
+      expect(credentials.userType).toBe('guest');
+      expect(credentials.accessToken).toMatch(/^guest-/);
+      expect(sessionVault.resolve()).toBe(credentials);
     });
 
     it('should create guest session when only username provided', async () => {
@@ -71,7 +82,7 @@ describe('Authenticate Tool', () => {
       expect(result.content).toHaveLength(1);
       expect(result.content[0]?.text).toContain('"success": true');
       expect(result.content[0]?.text).toContain('"tokenType": "Guest"');
-      expect(result.content[0]?.text).toContain('"accessToken": "guest-');
+      expect(result.content[0]?.text).toContain('"session": "session-');
       expect(result.content[0]?.text).toContain('"user_type": "guest"');
     });
 
@@ -83,7 +94,7 @@ describe('Authenticate Tool', () => {
       expect(result.content).toHaveLength(1);
       expect(result.content[0]?.text).toContain('"success": true');
       expect(result.content[0]?.text).toContain('"tokenType": "Guest"');
-      expect(result.content[0]?.text).toContain('"accessToken": "guest-');
+      expect(result.content[0]?.text).toContain('"session": "session-');
       expect(result.content[0]?.text).toContain('"user_type": "guest"');
     });
   });
@@ -127,8 +138,16 @@ describe('Authenticate Tool', () => {
       expect(result.content).toHaveLength(1);
       expect(result.content[0]?.text).toContain('"success": true');
       expect(result.content[0]?.text).toContain('"user_type": "LoggedIn customer"');
-      expect(result.content[0]?.text).toContain('"accessToken": "access-token-123"');
+      expect(result.content[0]?.text).not.toContain('access-token-123');
+      expect(result.content[0]?.text).not.toContain('refresh-token-123');
       expect(result.content[0]?.text).toContain('"expiresIn": 3600');
+
+      const { session } = JSON.parse(result.content[0]!.text);
+      expect(sessionVault.resolve(session)).toMatchObject({
+        accessToken: 'access-token-123',
+        refreshToken: 'refresh-token-123',
+        userType: 'customer',
+      });
     });
 
     it('should handle authentication failure', async () => {
@@ -9,6 +9,10 @@ const mockConfig = {
     timeout: 5000,
     retryAttempts: 3,
     retryDelay: 1000
+  },
+  confirmation: {
+    fallback: 'allow',
+    tokenTtl: 300000
   }
 };
 
@@ -56,6 +60,7 @@ import { removeFromCartTool } from '../../src/tools/remove-from-cart.js';
 import { updateCartItemTool } from '../../src/tools/update-cart-item.js';
 import { guestAddToCartTool } from '../../src/tools/guest-add-to-cart.js';
 import { ApiError } from '../../src/services/spryker-api.js';
+import { withSession } from '../helpers/session.js';
 
 // Get reference to mocked API methods
 const mockApiService = mockApiMethods;
@@ -72,7 +77,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await addToCartTool.handler({
         sku: 'TEST-SKU',
         quantity: 1,
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -91,7 +96,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await addToCartTool.handler({
         sku: 'TEST-SKU',
         quantity: 1,
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -105,7 +110,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await removeFromCartTool.handler({
         cartId: 'cart123',
         itemId: 'item456',
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('Failed to remove item from cart');
@@ -122,7 +127,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await removeFromCartTool.handler({
         cartId: 'cart123',
         itemId: 'item456',
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('Failed to remove item from cart');
@@ -137,7 +142,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
         cartId: 'cart123',
         itemId: 'item456',
         quantity: 2,
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('Failed to update cart item');
@@ -155,7 +160,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
         cartId: 'cart123',
         itemId: 'item456',
         quantity: 2,
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('Failed to update cart item');
@@ -169,7 +174,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await guestAddToCartTool.handler({
         sku: 'TEST-SKU',
         quantity: 1,
-        token: 'guest-token-123'
+        session: withSession('guest-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -181,7 +186,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await guestAddToCartTool.handler({
         sku: 'INVALID-SKU',
         quantity: 1,
-        token: 'guest-token-123'
+        session: withSession('guest-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -220,7 +225,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await addToCartTool.handler({
         sku: 'TEST-SKU',
         quantity: 1,
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('success');
@@ -250,7 +255,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await removeFromCartTool.handler({
         cartId: 'cart123',
         itemId: 'item456',
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('success');
@@ -287,7 +292,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
         cartId: 'cart123',
         itemId: 'item456',
         quantity: 2,
-        token: 'token123'
+        session: withSession('token123')
       });
 
       expect(result.content?.[0]?.text).toContain('success');
@@ -311,7 +316,7 @@ describe('Cart Tools Branch Coverage Tests', () => {
       const result = await guestAddToCartTool.handler({
         sku: 'TEST-SKU',
         quantity: 1,
-        token: 'guest-token-123'
+        session: withSession('guest-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success');
@@ -6,6 +6,8 @@ import { addCartVoucherTool } from '../../src/tools/add-cart-voucher';
 import { removeCartVoucherTool } from '../../src/tools/remove-cart-voucher';
 import { SprykerApiService } from '../../src/services/spryker-api';
 import { logger } from '../../src/utils/logger';
+import { withSession } from '../helpers/session.js';
+import { asUser } from '../helpers/confirmation.js';
 
 jest.mock('../../src/utils/logger');
 
@@ -38,7 +40,7 @@ describe('addCartVoucherTool', () => {
   it('should apply a voucher to a registered cart', async () => {
     mockApiService.post.mockResolvedValue({ status: 201, data: { data: {} } });
 
-    const result = await addCartVoucherTool.handler({ token: 'auth-token', cartId: 'c1', code: 'SAVE10' });
+    const result = await addCartVoucherTool.handler({ session: withSession('auth-token'), cartId: 'c1', code: 'SAVE10' });
 
     expect(mockApiService.post).toHaveBeenCalledWith(
       'carts/c1/vouchers',
@@ -51,7 +53,7 @@ describe('addCartVoucherTool', () => {
   it('should apply a voucher to a guest cart', async () => {
     mockApiService.post.mockResolvedValue({ status: 201, data: { data: {} } });
 
-    await addCartVoucherTool.handler({ token: 'guest-abc', cartId: 'c1', code: 'SAVE10' });
+    await addCartVoucherTool.handler({ session: withSession('guest-abc'), cartId: 'c1', code: 'SAVE10' });
 
     expect(mockApiService.post).toHaveBeenCalledWith(
       'guest-carts/c1/vouchers',
@@ -62,19 +64,36 @@ describe('addCartVoucherTool', () => {
 
   it('should handle ApiError with response data', async () => {
     mockApiService.post.mockRejectedValue(new ApiError('invalid', 422, 'Unprocessable', ['bad code']));
-    const result = await addCartVoucherTool.handler({ token: 'auth', cartId: 'c1', code: 'X' });
+    const result = await addCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1', code: 'X' });
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).responseData).toEqual(['bad code']);
   });
 
+  it('should decode a rejected voucher code', async () => {
+    mockApiService.post.mockRejectedValue(new ApiError('HTTP 422: Unprocessable Entity', 422, 'Unprocessable Entity', {
+      errors: [{ code: '3301', status: 422, detail: 'Cart code can\'t be added.' }],
+    }));
+
+    const result = await addCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1', code: 'X' });
+
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({
+      success: false,
+      error: 'Failed to apply voucher',
+      errorCode: 'INVALID_VOUCHER',
+      hint: expect.stringContaining('voucher code was rejected'),
+      errors: [{ code: '3301', status: 422, detail: 'Cart code can\'t be added.' }],
+      code: 'X',
+    });
+  });
+
   it('should handle non-Error rejection', async () => {
     mockApiService.post.mockRejectedValue('boom');
-    const result = await addCartVoucherTool.handler({ token: 'auth', cartId: 'c1', code: 'X' });
+    const result = await addCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1', code: 'X' });
     expect(JSON.parse(result.content[0]!.text).message).toBe('Unknown error occurred');
   });
 
   it('should validate input', async () => {
-    await expect(addCartVoucherTool.handler({ token: 'auth', cartId: 'c1' })).rejects.toThrow();
+    await expect(addCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1' })).rejects.toThrow();
   });
 });
 
@@ -86,7 +105,7 @@ describe('removeCartVoucherTool', () => {
   it('should remove a voucher from a registered cart', async () => {
     mockApiService.delete.mockResolvedValue({ status: 204, data: {} });
 
-    const result = await removeCartVoucherTool.handler({ token: 'auth', cartId: 'c1', code: 'SAVE 10' });
+    const result = await asUser(() => removeCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1', code: 'SAVE 10' }));
 
     expect(mockApiService.delete).toHaveBeenCalledWith('carts/c1/vouchers/SAVE%2010', 'auth');
     expect(JSON.parse(result.content[0]!.text).success).toBe(true);
@@ -94,18 +113,43 @@ describe('removeCartVoucherTool', () => {
 
   it('should remove a voucher from a guest cart', async () => {
     mockApiService.delete.mockResolvedValue({ status: 204, data: {} });
-    await removeCartVoucherTool.handler({ token: 'guest-x', cartId: 'c1', code: 'AB' });
+    await asUser(() => removeCartVoucherTool.handler({ session: withSession('guest-x'), cartId: 'c1', code: 'AB' }));
     expect(mockApiService.delete).toHaveBeenCalledWith('guest-carts/c1/vouchers/AB', 'guest-x');
   });
 
   it('should handle ApiError with response data', async () => {
     mockApiService.delete.mockRejectedValue(new ApiError('nope', 404, 'Not Found', ['missing']));
-    const result = await removeCartVoucherTool.handler({ token: 'auth', cartId: 'c1', code: 'AB' });
+    const result = await asUser(() => removeCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1', code: 'AB' }));
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).responseData).toEqual(['missing']);
   });
 
+  it('should keep the voucher when the user dismisses the confirmation', async () => {
+    const result = await asUser(
+      () => removeCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1', code: 'AB' }),
+      { action: 'cancel' }
+    );
+
+    expect(mockApiService.delete).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({
+      success: false,
+      errorCode: 'CONFIRMATION_DECLINED',
+      message: 'The user dismissed the confirmation.',
+    });
+  });
+
+  it('should return a confirmation token when the client cannot ask the user', async () => {
+    const result = JSON.parse((await removeCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1', code: 'AB' })).content[0]!.text);
+
+    expect(mockApiService.delete).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      errorCode: 'CONFIRMATION_REQUIRED',
+      summary: 'Remove the voucher AB from cart c1; its discount no longer applies.',
+    });
+    expect(result.confirmationToken).toMatch(/^confirm-/);
+  });
+
   it('should validate input', async () => {
-    await expect(removeCartVoucherTool.handler({ token: 'auth', cartId: 'c1' })).rejects.toThrow();
+    await expect(removeCartVoucherTool.handler({ session: withSession('auth'), cartId: 'c1' })).rejects.toThrow();
   });
 });
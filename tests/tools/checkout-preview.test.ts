@@ -0,0 +1,224 @@
+import { jest } from '@jest/globals';
+import { checkoutPreviewTool } from '../../src/tools/checkout-preview.js';
+import { checkoutTool } from '../../src/tools/checkout.js';
+import { checkoutConfirmations } from '../../src/services/checkout-confirmations.js';
+import { checkoutLedger } from '../../src/services/checkout-ledger.js';
+import { withSession } from '../helpers/session.js';
+
+// Mock the logger and config
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    server: {
+      port: 3000
+    },
+    api: {
+      baseUrl: 'https://api.example.com',
+      defaultHeaders: { 'Content-Type': 'application/json' }
+    },
+    cache: {
+      backend: 'none'
+    },
+    circuitBreaker: {
+      enabled: false
+    },
+    checkout: {
+      idempotencyWindow: 3600000,
+      confirmationTtl: 300000
+    },
+    confirmation: {
+      fallback: 'token',
+      tokenTtl: 300000
+    },
+    tracing: {
+      exporter: 'none'
+    }
+  }
+}));
+
+// Mock the API service
+const mockPost = jest.fn() as jest.MockedFunction<any>;
+const mockGet = jest.fn() as jest.MockedFunction<any>;
+
+jest.mock('../../src/services/spryker-api.js', () => {
+  const actualModule = jest.requireActual('../../src/services/spryker-api.js') as any;
+  return {
+    ...actualModule,
+    SprykerApiService: {
+      getInstance: jest.fn(() => ({
+        post: mockPost,
+        get: mockGet,
+      })),
+    },
+    ApiError: actualModule.ApiError,
+  };
+});
+
+describe('Checkout Preview Tool', () => {
+  const address = {
+    salutation: 'Mr',
+    firstName: 'John',
+    lastName: 'Doe',
+    address1: '123 Main St',
+    address2: 'Apt 1',
+    zipCode: '12345',
+    city: 'Berlin',
+    country: 'DE',
+  };
+
+  const checkoutDetails = {
+    session: withSession('test-token-123'),
+    cartId: 'cart-123',
+    customerData: {
+      email: 'test@example.com',
+      firstName: 'John',
+      lastName: 'Doe',
+      salutation: 'Mr'
+    },
+    billingAddress: address,
+    shippingAddress: address,
+    paymentMethod: {
+      provider: 'DummyPayment',
+      method: 'invoice'
+    },
+    shipmentMethod: {
+      id: 1
+    }
+  };
+
+  const checkoutDataResponse = {
+    data: {
+      data: {
+        type: 'checkout-data',
+        id: null,
+        attributes: {},
+        relationships: {
+          'shipment-methods': { data: [{ type: 'shipment-methods', id: '1' }] },
+          'payment-methods': { data: [{ type: 'payment-methods', id: '1' }] },
+        },
+      },
+      included: [
+        { type: 'shipment-methods', id: '1', attributes: { name: 'Standard', carrierName: 'Spryker Dummy Shipment', price: 490 } },
+        { type: 'payment-methods', id: '1', attributes: { paymentMethodName: 'Invoice', paymentProviderName: 'DummyPayment' } },
+      ],
+    },
+  };
+
+  const cartResponse = (items: Array<[string, number]>) => ({
+    data: {
+      data: {
+        type: 'carts',
+        id: 'cart-123',
+        attributes: {
+          currency: 'EUR',
+          priceMode: 'GROSS_MODE',
+          totals: { expenseTotal: 490, discountTotal: 0, taxTotal: 238, subtotal: 1000, grandTotal: 1490, priceToPay: 1490 },
+          discounts: [],
+        },
+      },
+      included: items.map(([sku, quantity]) => ({
+        type: 'items',
+        id: sku,
+        attributes: {
+          sku,
+          quantity,
+          calculations: { unitPriceToPayAggregation: 1000, sumPriceToPayAggregation: 1000 * quantity },
+        },
+      })),
+    },
+  });
+
+  const parse = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0]!.text);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    checkoutConfirmations.clear();
+    checkoutLedger.clear();
+    mockGet.mockResolvedValue(cartResponse([['sku-1', 1]]));
+  });
+
+  it('should summarize the checkout with a confirmation token', async () => {
+    mockPost.mockResolvedValueOnce(checkoutDataResponse);
+
+    const result = parse(await checkoutPreviewTool.handler(checkoutDetails));
+
+    expect(mockPost).toHaveBeenCalledWith(
+      'checkout-data?include=shipments,shipment-methods,payment-methods',
+      expect.objectContaining({ data: expect.objectContaining({ type: 'checkout-data' }) }),
+      'test-token-123',
+      { idempotent: true }
+    );
+    expect(mockGet).toHaveBeenCalledWith('carts/cart-123?include=items,vouchers', 'test-token-123');
+    expect(result).toMatchObject({
+      success: true,
+      cartId: 'cart-123',
+      currency: 'EUR',
+      items: [{ sku: 'sku-1', quantity: 1, unitPrice: 1000, sumPrice: 1000 }],
+      taxTotal: 238,
+      shipping: { id: 1, name: 'Standard', carrierName: 'Spryker Dummy Shipment', price: 490 },
+      payment: { provider: 'DummyPayment', method: 'invoice' },
+    });
+    expect(result.confirmationToken).toMatch(/^confirm-/);
+    expect(new Date(result.expiresAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should reject a shipment method that is not available', async () => {
+    mockPost.mockResolvedValueOnce(checkoutDataResponse);
+
+    const result = parse(await checkoutPreviewTool.handler({ ...checkoutDetails, shipmentMethod: { id: 7 } }));
+
+    expect(result).toMatchObject({ success: false, errorCode: 'CHECKOUT_DATA_MISSING' });
+    expect(result.message).toContain('1 (Standard)');
+    expect(result.confirmationToken).toBeUndefined();
+  });
+
+  it('should reject a payment method that is not available', async () => {
+    mockPost.mockResolvedValueOnce(checkoutDataResponse);
+
+    const result = parse(await checkoutPreviewTool.handler({
+      ...checkoutDetails,
+      paymentMethod: { provider: 'DummyPayment', method: 'creditCard' },
+    }));
+
+    expect(result).toMatchObject({ success: false, errorCode: 'CHECKOUT_DATA_MISSING' });
+    expect(result.message).toContain('Invoice (DummyPayment)');
+  });
+
+  it('should not preview the checkout of an empty cart', async () => {
+    mockPost.mockResolvedValueOnce(checkoutDataResponse);
+    mockGet.mockResolvedValueOnce(cartResponse([]));
+
+    const result = parse(await checkoutPreviewTool.handler(checkoutDetails));
+
+    expect(result).toMatchObject({ success: false, errorCode: 'CART_EMPTY' });
+  });
+
+  it('should let checkout place the previewed order', async () => {
+    mockPost.mockResolvedValueOnce(checkoutDataResponse);
+    const preview = parse(await checkoutPreviewTool.handler(checkoutDetails));
+
+    mockPost.mockResolvedValueOnce({
+      data: { data: { type: 'checkout', id: 'DE--1', attributes: { orderReference: 'DE--1' } } },
+    });
+    const result = parse(await checkoutTool.handler({ ...checkoutDetails, confirmationToken: preview.confirmationToken }));
+
+    expect(result).toMatchObject({ success: true, order: { orderReference: 'DE--1' } });
+    expect(mockPost).toHaveBeenLastCalledWith('checkout', expect.anything(), 'test-token-123');
+  });
+
+  it('should have proper tool definition', () => {
+    expect(checkoutPreviewTool.name).toBe('checkout-preview');
+    expect(checkoutPreviewTool.description).toContain('without placing the order');
+    expect(checkoutPreviewTool.inputSchema.required).toEqual(
+      expect.arrayContaining(['cartId', 'customerData', 'billingAddress', 'shippingAddress'])
+    );
+  });
+});
@@ -1,6 +1,15 @@
 import { jest } from '@jest/globals';
 import { checkoutTool } from '../../src/tools/checkout.js';
 import { SprykerApiService, ApiError } from '../../src/services/spryker-api.js';
+import { checkoutLedger } from '../../src/services/checkout-ledger.js';
+import { checkoutConfirmations } from '../../src/services/checkout-confirmations.js';
+import { runWithElicitation } from '../../src/services/user-confirmation.js';
+import { loadCartSnapshot } from '../../src/services/cart-snapshot.js';
+import { sessionVault } from '../../src/services/session-vault.js';
+import { runInSession } from '../../src/services/session-context.js';
+import { CheckoutDetailsSchema, buildCheckoutAttributes } from '../../src/tools/checkout-request.js';
+import { withSession } from '../helpers/session.js';
+import { asUser } from '../helpers/confirmation.js';
 
 // Mock the logger and config
 jest.mock('../../src/utils/logger.js', () => ({
@@ -20,12 +29,30 @@ jest.mock('../../src/config/index.js', () => ({
     api: {
       baseUrl: 'https://api.example.com',
       defaultHeaders: { 'Content-Type': 'application/json' }
+    },
+    cache: {
+      backend: 'none'
+    },
+    circuitBreaker: {
+      enabled: false
+    },
+    checkout: {
+      idempotencyWindow: 3600000,
+      confirmationTtl: 300000
+    },
+    confirmation: {
+      fallback: 'token',
+      tokenTtl: 300000
+    },
+    tracing: {
+      exporter: 'none'
     }
   }
 }));
 
 // Mock the API service
 const mockPost = jest.fn() as jest.MockedFunction<any>;
+const mockGet = jest.fn() as jest.MockedFunction<any>;
 
 jest.mock('../../src/services/spryker-api.js', () => {
   const actualModule = jest.requireActual('../../src/services/spryker-api.js') as any;
@@ -34,6 +61,7 @@ jest.mock('../../src/services/spryker-api.js', () => {
     SprykerApiService: {
       getInstance: jest.fn(() => ({
         post: mockPost,
+        get: mockGet,
       })),
     },
     ApiError: actualModule.ApiError,
@@ -42,7 +70,7 @@ jest.mock('../../src/services/spryker-api.js', () => {
 
 describe('Checkout Tool', () => {
   const sampleCheckoutData = {
-    token: 'test-token-123',
+    session: withSession('test-token-123'),
     cartId: 'cart-123',
     customerData: {
       email: 'test@example.com',
@@ -83,8 +111,50 @@ describe('Checkout Tool', () => {
     }
   };
 
+  const cartResponse = {
+    data: {
+      data: {
+        type: 'carts',
+        id: 'cart-123',
+        attributes: {
+          currency: 'EUR',
+          priceMode: 'GROSS_MODE',
+          totals: { expenseTotal: 490, discountTotal: 0, taxTotal: 238, subtotal: 1000, grandTotal: 1490, priceToPay: 1490 },
+          discounts: [],
+        },
+        relationships: { items: { data: [{ type: 'items', id: 'sku-1' }] } },
+      },
+      included: [
+        { type: 'items', id: 'sku-1', attributes: { sku: 'sku-1', quantity: 1, groupKey: 'sku-1' } },
+      ],
+    },
+  };
+
+  // Orders listed by the orders endpoint, one response per call
+  let orders: unknown[];
+
+  /**
+   * Add the confirmation token of a preview of the checkout
+   */
+  const confirmed = async <T extends { cartId: string; session?: string }>(args: T) => {
+    const details = CheckoutDetailsSchema.parse(args);
+    const { fingerprint } = await loadCartSnapshot(details.cartId, sessionVault.resolve(details.session));
+    const { token } = checkoutConfirmations.issue({
+      cartId: details.cartId,
+      request: JSON.stringify(buildCheckoutAttributes(details)),
+      cartFingerprint: fingerprint,
+    });
+    return { ...args, confirmationToken: token };
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
+    checkoutLedger.clear();
+    checkoutConfirmations.clear();
+    orders = [];
+    mockGet.mockImplementation((endpoint: string) =>
+      Promise.resolve(endpoint === 'orders' ? orders.shift() ?? { data: { data: [] } } : cartResponse)
+    );
   });
 
   describe('successful checkout', () => {
@@ -105,7 +175,7 @@ describe('Checkout Tool', () => {
 
       mockPost.mockResolvedValueOnce(mockResponse);
 
-      const result = await checkoutTool.handler(sampleCheckoutData);
+      const result = await checkoutTool.handler(await confirmed(sampleCheckoutData));
 
       expect(mockPost).toHaveBeenCalledWith('checkout', {
         data: {
@@ -146,7 +216,7 @@ describe('Checkout Tool', () => {
             }
           }
         }
-      }, sampleCheckoutData.token);
+      }, 'test-token-123');
 
       expect(result.content).toHaveLength(1);
       const response = JSON.parse(result.content[0]!.text);
@@ -173,7 +243,7 @@ describe('Checkout Tool', () => {
 
       mockPost.mockResolvedValueOnce(mockResponse);
 
-      const result = await checkoutTool.handler(sampleCheckoutData);
+      const result = await checkoutTool.handler(await confirmed(sampleCheckoutData));
 
       expect(result.content).toHaveLength(1);
       const response = JSON.parse(result.content[0]!.text);
@@ -217,7 +287,7 @@ describe('Checkout Tool', () => {
 
       mockPost.mockResolvedValueOnce(mockResponse);
 
-      await checkoutTool.handler(checkoutDataWithDefaults);
+      await checkoutTool.handler(await confirmed(checkoutDataWithDefaults));
 
       expect(mockPost).toHaveBeenCalledWith('checkout', expect.objectContaining({
         data: expect.objectContaining({
@@ -234,7 +304,7 @@ describe('Checkout Tool', () => {
             })
           })
         })
-      }), sampleCheckoutData.token);
+      }), 'test-token-123');
     });
   });
 
@@ -243,7 +313,7 @@ describe('Checkout Tool', () => {
       const apiError = new ApiError('Cart is empty', 400, 'Bad Request', { errors: [{ detail: 'Cart has no items' }] });
       mockPost.mockRejectedValueOnce(apiError);
 
-      const result = await checkoutTool.handler(sampleCheckoutData);
+      const result = await checkoutTool.handler(await confirmed(sampleCheckoutData));
 
       expect(result.content).toHaveLength(1);
       const response = JSON.parse(result.content[0]!.text);
@@ -257,7 +327,7 @@ describe('Checkout Tool', () => {
       const networkError = new Error('Network timeout');
       mockPost.mockRejectedValueOnce(networkError);
 
-      const result = await checkoutTool.handler(sampleCheckoutData);
+      const result = await checkoutTool.handler(await confirmed(sampleCheckoutData));
 
       expect(result.content).toHaveLength(1);
       const response = JSON.parse(result.content[0]!.text);
@@ -281,7 +351,7 @@ describe('Checkout Tool', () => {
 
     it('should handle validation errors for missing required fields', async () => {
       const incompleteData = {
-        token: 'test-token',
+        session: withSession('test-token'),
         cartId: 'cart-123'
         // Missing customerData, billingAddress, shippingAddress, etc.
       };
@@ -290,6 +360,245 @@ describe('Checkout Tool', () => {
     });
   });
 
+  describe('duplicate order protection', () => {
+    const orderResponse = (orderReference: string) => ({
+      data: { data: { type: 'checkout', id: orderReference, attributes: { orderReference } } },
+    });
+
+    const ordersResponse = (...orders: Array<[string, Date]>) => ({
+      data: {
+        data: orders.map(([orderReference, createdAt]) => ({
+          type: 'orders',
+          id: orderReference,
+          attributes: { orderReference, createdAt: createdAt.toISOString().replace('T', ' ').replace('Z', '') },
+        })),
+      },
+    });
+
+    const parse = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0]!.text);
+
+    const ordersCalls = () => mockGet.mock.calls.filter(([endpoint]: unknown[]) => endpoint === 'orders').length;
+
+    it('should return the placed order when the checkout is repeated', async () => {
+      mockPost.mockResolvedValueOnce(orderResponse('DE--1'));
+      const args = await confirmed({ ...sampleCheckoutData, idempotencyKey: 'key-1' });
+
+      const first = parse(await checkoutTool.handler(args));
+      const second = parse(await checkoutTool.handler(args));
+      const withoutKey = parse(await checkoutTool.handler(sampleCheckoutData));
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(first.replayed).toBeUndefined();
+      expect(second).toMatchObject({ success: true, replayed: true, order: { orderReference: 'DE--1' } });
+      expect(second.message).toContain('already placed');
+      expect(withoutKey.order.orderReference).toBe('DE--1');
+    });
+
+    it('should share a checkout in flight', async () => {
+      let resolve!: (value: unknown) => void;
+      mockPost.mockReturnValueOnce(new Promise(done => { resolve = done; }));
+      const args = await confirmed(sampleCheckoutData);
+
+      const first = checkoutTool.handler(args);
+      const second = checkoutTool.handler(args);
+      await new Promise(done => setImmediate(done));
+      resolve(orderResponse('DE--2'));
+
+      const results = (await Promise.all([first, second])).map(parse);
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(results.map(result => result.order.orderReference)).toEqual(['DE--2', 'DE--2']);
+    });
+
+    it('should return the placed order to a retry after the customer reconnected', async () => {
+      const signIn = (tokenId: string) => withSession(`eyJhbGciOiJIUzI1NiJ9.${Buffer.from(JSON.stringify({
+        jti: tokenId,
+        sub: JSON.stringify({ customer_reference: 'DE--35', id_customer: 35 }),
+      })).toString('base64url')}.c2ln`);
+      mockPost.mockResolvedValueOnce(orderResponse('DE--8'));
+
+      try {
+        const first = parse(await runInSession('session-1', async () =>
+          checkoutTool.handler(await confirmed({ ...sampleCheckoutData, session: signIn('token-1') }))));
+        const retried = parse(await runInSession('session-2', async () =>
+          checkoutTool.handler(await confirmed({ ...sampleCheckoutData, session: signIn('token-2') }))));
+
+        expect(first.order.orderReference).toBe('DE--8');
+        expect(retried).toMatchObject({ success: true, replayed: true, order: { orderReference: 'DE--8' } });
+        expect(mockPost).toHaveBeenCalledTimes(1);
+      } finally {
+        sessionVault.clearSession('session-1');
+        sessionVault.clearSession('session-2');
+      }
+    });
+
+    it('should check out again with a new idempotency key', async () => {
+      mockPost
+        .mockResolvedValueOnce(orderResponse('DE--3'))
+        .mockResolvedValueOnce(orderResponse('DE--4'));
+
+      await checkoutTool.handler(await confirmed({ ...sampleCheckoutData, idempotencyKey: 'key-1' }));
+      const result = parse(await checkoutTool.handler(await confirmed({ ...sampleCheckoutData, idempotencyKey: 'key-2' })));
+
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      expect(result.order.orderReference).toBe('DE--4');
+    });
+
+    it('should find the order in the customer\'s orders after a timeout', async () => {
+      mockPost.mockRejectedValueOnce(new Error('The operation was aborted'));
+      orders.push(ordersResponse(['DE--4', new Date(Date.now() - 86400000)], ['DE--5', new Date()]));
+
+      const result = parse(await checkoutTool.handler(await confirmed(sampleCheckoutData)));
+
+      expect(mockGet).toHaveBeenCalledWith('orders', 'test-token-123');
+      expect(result).toMatchObject({ success: true, reconciled: true, order: { orderReference: 'DE--5' } });
+      expect(result.replayed).toBeUndefined();
+
+      const repeated = parse(await checkoutTool.handler(sampleCheckoutData));
+      expect(repeated).toMatchObject({ replayed: true, order: { orderReference: 'DE--5' } });
+      expect(mockPost).toHaveBeenCalledTimes(1);
+    });
+
+    it('should look for the order again before resubmitting an ambiguous checkout', async () => {
+      mockPost
+        .mockRejectedValueOnce(new ApiError('HTTP 503: Service Unavailable', 503, 'Service Unavailable', {}))
+        .mockResolvedValueOnce(orderResponse('DE--6'));
+      const args = await confirmed(sampleCheckoutData);
+
+      const failed = parse(await checkoutTool.handler(args));
+      const retried = parse(await checkoutTool.handler(args));
+
+      expect(failed.success).toBe(false);
+      expect(ordersCalls()).toBe(2);
+      expect(mockPost).toHaveBeenCalledTimes(2);
+      expect(retried).toMatchObject({ success: true, order: { orderReference: 'DE--6' } });
+    });
+
+    it('should submit again after Glue rejected the checkout', async () => {
+      mockPost
+        .mockRejectedValueOnce(new ApiError('HTTP 422: Unprocessable Entity', 422, 'Unprocessable Entity', {}))
+        .mockResolvedValueOnce(orderResponse('DE--7'));
+      const args = await confirmed(sampleCheckoutData);
+
+      await checkoutTool.handler(args);
+      const result = parse(await checkoutTool.handler(args));
+
+      expect(ordersCalls()).toBe(0);
+      expect(result.order.orderReference).toBe('DE--7');
+    });
+
+    it('should not look for orders of guests', async () => {
+      mockPost.mockRejectedValueOnce(new Error('The operation was aborted'));
+
+      const result = parse(await checkoutTool.handler(await confirmed({ ...sampleCheckoutData, session: withSession('guest-token-1') })));
+
+      expect(result.success).toBe(false);
+      expect(ordersCalls()).toBe(0);
+    });
+  });
+
+  describe('confirmation', () => {
+    const parse = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0]!.text);
+
+    it('should not place an order without a confirmation token', async () => {
+      const result = parse(await checkoutTool.handler(sampleCheckoutData));
+
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: false, errorCode: 'CONFIRMATION_REQUIRED' });
+      expect(result.hint).toContain('checkout-preview');
+    });
+
+    it('should reject a token issued for other checkout details', async () => {
+      const args = await confirmed(sampleCheckoutData);
+
+      const result = parse(await checkoutTool.handler({ ...args, shipmentMethod: { id: 2 } }));
+
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(result.errorCode).toBe('CONFIRMATION_REQUIRED');
+      expect(result.message).toContain('differ from the preview');
+    });
+
+    it('should reject a token issued to another session', async () => {
+      const { token } = checkoutConfirmations.issue({ cartId: 'cart-123', request: '{}', cartFingerprint: '' }, 'other-session');
+
+      const result = parse(await checkoutTool.handler({ ...sampleCheckoutData, confirmationToken: token }));
+
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(result.message).toBe('Unknown or expired confirmation token.');
+    });
+
+    it('should not place an order when the cart changed since the preview', async () => {
+      const args = await confirmed(sampleCheckoutData);
+      mockGet.mockResolvedValueOnce({
+        data: { ...cartResponse.data, included: [{ type: 'items', id: 'sku-1', attributes: { sku: 'sku-1', quantity: 3 } }] },
+      });
+
+      const result = parse(await checkoutTool.handler(args));
+
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: false, errorCode: 'CART_CHANGED' });
+    });
+
+    it('should require a preview when the client can ask the user', async () => {
+      const elicit = jest.fn(async (_params: { message: string }) => ({ action: 'accept' as const, content: { confirm: true } }));
+
+      const result = parse(await runWithElicitation(elicit, () => checkoutTool.handler(sampleCheckoutData)));
+
+      expect(elicit).not.toHaveBeenCalled();
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: false, errorCode: 'CONFIRMATION_REQUIRED' });
+    });
+
+    it('should not ask the user about a cart that changed since the preview', async () => {
+      const elicit = jest.fn(async (_params: { message: string }) => ({ action: 'accept' as const, content: { confirm: true } }));
+      const args = await confirmed(sampleCheckoutData);
+      mockGet.mockResolvedValueOnce({
+        data: { ...cartResponse.data, included: [{ type: 'items', id: 'sku-1', attributes: { sku: 'sku-1', quantity: 3 } }] },
+      });
+
+      const result = parse(await runWithElicitation(elicit, () => checkoutTool.handler(args)));
+
+      expect(elicit).not.toHaveBeenCalled();
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: false, errorCode: 'CART_CHANGED' });
+    });
+
+    it('should ask the user to confirm the previewed order as well', async () => {
+      mockPost.mockResolvedValueOnce({ data: { data: { type: 'checkout', id: 'DE--1', attributes: { orderReference: 'DE--1' } } } });
+      const elicit = jest.fn(async (_params: { message: string }) => ({ action: 'accept' as const, content: { confirm: true } }));
+      const args = await confirmed(sampleCheckoutData);
+
+      const result = parse(await runWithElicitation(elicit, () => checkoutTool.handler(args)));
+
+      expect(result).toMatchObject({ success: true, order: { orderReference: 'DE--1' } });
+      const { message } = elicit.mock.calls[0]![0];
+      expect(message).toContain('Place the order for cart cart-123:');
+      expect(message).toContain('- 1 x sku-1');
+      expect(message).toContain('Total: 14.90 EUR, including 2.38 EUR tax and 4.90 EUR shipping');
+      expect(message).toContain('Shipping to: John Doe, 123 Main St Apt 1, 12345 Berlin, DE');
+    });
+
+    it('should not place an order the user declined', async () => {
+      const args = await confirmed(sampleCheckoutData);
+
+      const result = parse(await asUser(() => checkoutTool.handler(args), { action: 'decline' }));
+
+      expect(mockPost).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: false, errorCode: 'CONFIRMATION_DECLINED' });
+    });
+
+    it('should invalidate the token once the order was placed', async () => {
+      mockPost.mockResolvedValueOnce({ data: { data: { type: 'checkout', id: 'DE--1', attributes: { orderReference: 'DE--1' } } } });
+      const args = await confirmed(sampleCheckoutData);
+
+      await checkoutTool.handler(args);
+      checkoutLedger.clear();
+      const result = parse(await checkoutTool.handler(args));
+
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(result.errorCode).toBe('CONFIRMATION_REQUIRED');
+    });
+  });
+
   describe('address handling', () => {
     it('should correctly map billing and shipping addresses', async () => {
       // Note: The implementation appears to have billing and shipping addresses swapped
@@ -323,7 +632,7 @@ describe('Checkout Tool', () => {
         }
       };
 
-      await checkoutTool.handler(testData);
+      await checkoutTool.handler(await confirmed(testData));
 
       const callArgs = mockPost.mock.calls[0][1];
       // Due to the implementation bug, billing and shipping are swapped
@@ -372,7 +681,7 @@ describe('Checkout Tool', () => {
         }
       };
 
-      await checkoutTool.handler(dataWithOptionalFields);
+      await checkoutTool.handler(await confirmed(dataWithOptionalFields));
 
       const callArgs = mockPost.mock.calls[0][1];
       expect(callArgs.data.attributes.billingAddress.salutation).toBeUndefined();
@@ -385,7 +694,7 @@ describe('Checkout Tool', () => {
   describe('tool configuration', () => {
     it('should have proper tool definition', () => {
       expect(checkoutTool.name).toBe('checkout');
-      expect(checkoutTool.description).toContain('Process checkout');
+      expect(checkoutTool.description).toContain('checkout-preview');
       expect(typeof checkoutTool.handler).toBe('function');
       expect(checkoutTool.inputSchema).toBeDefined();
       expect(checkoutTool.inputSchema.type).toBe('object');
@@ -5,6 +5,7 @@
 import { registerCustomerTool } from '../../src/tools/register-customer';
 import { refreshTokenTool } from '../../src/tools/refresh-token';
 import { SprykerApiService } from '../../src/services/spryker-api';
+import { sessionVault } from '../../src/services/session-vault';
 import { logger } from '../../src/utils/logger';
 
 jest.mock('../../src/utils/logger');
@@ -19,7 +20,7 @@ jest.mock('../../src/services/spryker-api', () => {
 
 const { ApiError } = jest.requireActual('../../src/services/spryker-api');
 
-const mockApiService = { post: jest.fn() };
+const mockApiService = { post: jest.fn(), refreshAccessToken: jest.fn() };
 const mockLogger = logger as any;
 
 beforeEach(() => {
@@ -93,44 +94,63 @@ describe('registerCustomerTool', () => {
 });
 
 describe('refreshTokenTool', () => {
+  let session: string;
+
+  beforeEach(() => {
+    sessionVault.clear();
+    session = sessionVault.store({
+      accessToken: 'old-access',
+      tokenType: 'Bearer',
+      userType: 'customer',
+      refreshToken: 'old-refresh',
+      expiresIn: 3600,
+    });
+  });
+
   it('should have correct name and schema', () => {
     expect(refreshTokenTool.name).toBe('refresh-token');
-    expect(refreshTokenTool.inputSchema.properties.refreshToken).toBeDefined();
+    expect(refreshTokenTool.inputSchema.properties.session).toBeDefined();
   });
 
-  it('should refresh an access token', async () => {
-    mockApiService.post.mockResolvedValue({
-      status: 201,
-      data: {
-        data: {
-          attributes: {
-            tokenType: 'Bearer',
-            expiresIn: 3600,
-            accessToken: 'new-access',
-            refreshToken: 'new-refresh',
-          },
-        },
-      },
+  it('should refresh the access token stored for the session', async () => {
+    mockApiService.refreshAccessToken.mockResolvedValue({
+      tokenType: 'Bearer',
+      expiresIn: 3600,
+      accessToken: 'new-access',
+      refreshToken: 'new-refresh',
     });
 
-    const result = await refreshTokenTool.handler({ refreshToken: 'old-refresh' });
+    const result = await refreshTokenTool.handler({ session });
 
-    expect(mockApiService.post).toHaveBeenCalledWith('refresh-tokens', {
-      data: { type: 'refresh-tokens', attributes: { refreshToken: 'old-refresh' } },
-    });
+    expect(mockApiService.refreshAccessToken).toHaveBeenCalledWith('old-access');
     const response = JSON.parse(result.content[0]!.text);
     expect(response.success).toBe(true);
-    expect(response.accessToken).toBe('new-access');
+    expect(response.accessToken).toBeUndefined();
+    expect(response.refreshToken).toBeUndefined();
+    expect(sessionVault.resolve(session)).toMatchObject({
+      accessToken: 'new-access',
+      refreshToken: 'new-refresh',
+    });
+  });
+
+  it('should fail for a session without a refresh token', async () => {
+    const guest = sessionVault.store({ accessToken: 'guest-1', tokenType: 'Guest', userType: 'guest' });
+
+    const result = await refreshTokenTool.handler({ session: guest });
+
+    expect(mockApiService.refreshAccessToken).not.toHaveBeenCalled();
+    expect('isError' in result && result.isError).toBe(true);
+    expect(JSON.parse(result.content[0]!.text).message).toContain('no refresh token');
   });
 
   it('should handle non-Error rejection', async () => {
-    mockApiService.post.mockRejectedValue('boom');
-    const result = await refreshTokenTool.handler({ refreshToken: 'x' });
+    mockApiService.refreshAccessToken.mockRejectedValue('boom');
+    const result = await refreshTokenTool.handler({});
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).message).toBe('Unknown error occurred');
   });
 
   it('should validate input', async () => {
-    await expect(refreshTokenTool.handler({})).rejects.toThrow();
+    await expect(refreshTokenTool.handler({ session: 42 })).rejects.toThrow();
   });
 });
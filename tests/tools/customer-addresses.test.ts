@@ -10,6 +10,9 @@ import {
 } from '../../src/tools/customer-addresses';
 import { SprykerApiService } from '../../src/services/spryker-api';
 import { logger } from '../../src/utils/logger';
+import { runWithElicitation, userConfirmation } from '../../src/services/user-confirmation';
+import { withSession } from '../helpers/session.js';
+import { asUser } from '../helpers/confirmation.js';
 
 jest.mock('../../src/utils/logger');
 
@@ -48,33 +51,33 @@ describe('getAddressesTool', () => {
       status: 200,
       data: { data: [{ type: 'addresses', id: 'a1', attributes: address }] },
     });
-    const result = await getAddressesTool.handler({ token: 'auth', customerReference: 'ref-1' });
+    const result = await getAddressesTool.handler({ session: withSession('auth'), customerReference: 'ref-1' });
     expect(mockApiService.get).toHaveBeenCalledWith('customers/ref-1/addresses', 'auth');
     expect(JSON.parse(result.content[0]!.text).addresses).toHaveLength(1);
   });
 
   it('should handle null data', async () => {
     mockApiService.get.mockResolvedValue({ status: 200, data: { data: null } });
-    const result = await getAddressesTool.handler({ token: 'auth', customerReference: 'ref-1' });
+    const result = await getAddressesTool.handler({ session: withSession('auth'), customerReference: 'ref-1' });
     expect(JSON.parse(result.content[0]!.text).addresses).toHaveLength(0);
   });
 
   it('should handle ApiError', async () => {
     mockApiService.get.mockRejectedValue(new ApiError('x', 403, 'Forbidden', ['no']));
-    const result = await getAddressesTool.handler({ token: 'auth', customerReference: 'ref-1' });
+    const result = await getAddressesTool.handler({ session: withSession('auth'), customerReference: 'ref-1' });
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).responseData).toEqual(['no']);
   });
 
   it('should validate input', async () => {
-    await expect(getAddressesTool.handler({ token: 'auth' })).rejects.toThrow();
+    await expect(getAddressesTool.handler({ session: withSession('auth') })).rejects.toThrow();
   });
 });
 
 describe('addAddressTool', () => {
   it('should add an address', async () => {
     mockApiService.post.mockResolvedValue({ status: 201, data: { data: { id: 'a1' } } });
-    const result = await addAddressTool.handler({ token: 'auth', customerReference: 'ref-1', address });
+    const result = await addAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1', address });
     expect(mockApiService.post).toHaveBeenCalledWith(
       'customers/ref-1/addresses',
       { data: { type: 'addresses', attributes: address } },
@@ -85,14 +88,14 @@ describe('addAddressTool', () => {
 
   it('should handle non-Error rejection', async () => {
     mockApiService.post.mockRejectedValue('boom');
-    const result = await addAddressTool.handler({ token: 'auth', customerReference: 'ref-1', address });
+    const result = await addAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1', address });
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).message).toBe('Unknown error occurred');
   });
 
   it('should validate input (missing required address field)', async () => {
     await expect(
-      addAddressTool.handler({ token: 'auth', customerReference: 'ref-1', address: { firstName: 'Jane' } })
+      addAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1', address: { firstName: 'Jane' } })
     ).rejects.toThrow();
   });
 });
@@ -101,7 +104,7 @@ describe('updateAddressTool', () => {
   it('should update an address', async () => {
     mockApiService.patch.mockResolvedValue({ status: 200, data: { data: { id: 'a1' } } });
     const result = await updateAddressTool.handler({
-      token: 'auth',
+      session: withSession('auth'),
       customerReference: 'ref-1',
       addressId: 'a1',
       address: { city: 'Hamburg' },
@@ -117,7 +120,7 @@ describe('updateAddressTool', () => {
   it('should handle ApiError', async () => {
     mockApiService.patch.mockRejectedValue(new ApiError('x', 404, 'Not Found', ['missing']));
     const result = await updateAddressTool.handler({
-      token: 'auth',
+      session: withSession('auth'),
       customerReference: 'ref-1',
       addressId: 'a1',
       address: { city: 'Hamburg' },
@@ -126,26 +129,74 @@ describe('updateAddressTool', () => {
   });
 
   it('should validate input', async () => {
-    await expect(updateAddressTool.handler({ token: 'auth', customerReference: 'ref-1' })).rejects.toThrow();
+    await expect(updateAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1' })).rejects.toThrow();
   });
 });
 
 describe('deleteAddressTool', () => {
-  it('should delete an address', async () => {
+  beforeEach(() => {
+    userConfirmation.clear();
+    mockApiService.get.mockResolvedValue({ status: 200, data: { data: { type: 'addresses', id: 'a1', attributes: address } } });
+  });
+
+  it('should delete an address once the user confirmed it', async () => {
+    mockApiService.delete.mockResolvedValue({ status: 204, data: {} });
+    const elicit = jest.fn(async () => ({ action: 'accept' as const, content: { confirm: true } }));
+
+    const result = await runWithElicitation(elicit, () =>
+      deleteAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1', addressId: 'a1' }));
+
+    expect(elicit).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Delete the address Jane Doe, Main Street, 10115 Berlin, DE from the address book.',
+    }));
+    expect(mockApiService.delete).toHaveBeenCalledWith('customers/ref-1/addresses/a1', 'auth');
+    expect(JSON.parse(result.content[0]!.text).success).toBe(true);
+  });
+
+  it('should keep the address when the user declines', async () => {
+    const result = await asUser(
+      () => deleteAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1', addressId: 'a1' }),
+      { action: 'decline' }
+    );
+
+    expect(mockApiService.delete).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0]!.text)).toMatchObject({ success: false, errorCode: 'CONFIRMATION_DECLINED' });
+  });
+
+  it('should delete an address with the confirmation token of a previous call', async () => {
     mockApiService.delete.mockResolvedValue({ status: 204, data: {} });
-    const result = await deleteAddressTool.handler({ token: 'auth', customerReference: 'ref-1', addressId: 'a1' });
+    const args = { session: withSession('auth'), customerReference: 'ref-1', addressId: 'a1' };
+
+    const pending = JSON.parse((await deleteAddressTool.handler(args)).content[0]!.text);
+    expect(mockApiService.delete).not.toHaveBeenCalled();
+    expect(pending).toMatchObject({ success: false, errorCode: 'CONFIRMATION_REQUIRED' });
+    expect(pending.summary).toContain('Jane Doe');
+
+    const result = await deleteAddressTool.handler({ ...args, confirmationToken: pending.confirmationToken });
     expect(mockApiService.delete).toHaveBeenCalledWith('customers/ref-1/addresses/a1', 'auth');
     expect(JSON.parse(result.content[0]!.text).success).toBe(true);
   });
 
+  it('should not accept the confirmation token of another address', async () => {
+    const pending = JSON.parse((await deleteAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1', addressId: 'a1' })).content[0]!.text);
+
+    const result = await deleteAddressTool.handler({
+      session: withSession('auth'), customerReference: 'ref-1', addressId: 'a2', confirmationToken: pending.confirmationToken,
+    });
+
+    expect(mockApiService.delete).not.toHaveBeenCalled();
+    expect(JSON.parse(result.content[0]!.text).errorCode).toBe('CONFIRMATION_REQUIRED');
+  });
+
   it('should handle ApiError', async () => {
     mockApiService.delete.mockRejectedValue(new ApiError('x', 404, 'Not Found', ['missing']));
-    const result = await deleteAddressTool.handler({ token: 'auth', customerReference: 'ref-1', addressId: 'a1' });
+    const result = await asUser(() =>
+      deleteAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1', addressId: 'a1' }));
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).responseData).toEqual(['missing']);
   });
 
   it('should validate input', async () => {
-    await expect(deleteAddressTool.handler({ token: 'auth', customerReference: 'ref-1' })).rejects.toThrow();
+    await expect(deleteAddressTool.handler({ session: withSession('auth'), customerReference: 'ref-1' })).rejects.toThrow();
   });
 });
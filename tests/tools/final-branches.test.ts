@@ -9,6 +9,10 @@ const mockConfig = {
     timeout: 5000,
     retryAttempts: 3,
     retryDelay: 1000
+  },
+  confirmation: {
+    fallback: 'allow',
+    tokenTtl: 300000
   }
 };
 
@@ -55,6 +59,7 @@ import { guestAddToCartTool } from '../../src/tools/guest-add-to-cart.js';
 import { removeFromCartTool } from '../../src/tools/remove-from-cart.js';
 import { updateCartItemTool } from '../../src/tools/update-cart-item.js';
 import { ApiError } from '../../src/services/spryker-api.js';
+import { withSession } from '../helpers/session.js';
 
 // Get reference to mocked API methods
 const mockApiService = mockApiMethods;
@@ -72,7 +77,7 @@ describe('Final Branch Coverage Tests', () => {
       const result = await guestAddToCartTool.handler({
         sku: 'NONEXISTENT-SKU',
         quantity: 1,
-        token: 'guest-token-123'
+        session: withSession('guest-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -88,7 +93,7 @@ describe('Final Branch Coverage Tests', () => {
       const result = await removeFromCartTool.handler({
         cartId: 'nonexistent-cart',
         itemId: 'item123',
-        token: 'customer-token-123'
+        session: withSession('customer-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -105,7 +110,7 @@ describe('Final Branch Coverage Tests', () => {
         cartId: 'cart123',
         itemId: 'nonexistent-item',
         quantity: 2,
-        token: 'customer-token-123'
+        session: withSession('customer-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -120,7 +125,7 @@ describe('Final Branch Coverage Tests', () => {
       const result = await guestAddToCartTool.handler({
         sku: 'TEST-SKU',
         quantity: 1,
-        token: 'guest-token-123'
+        session: withSession('guest-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -132,7 +137,7 @@ describe('Final Branch Coverage Tests', () => {
       const result = await removeFromCartTool.handler({
         cartId: 'cart123',
         itemId: 'item123',
-        token: 'customer-token-123'
+        session: withSession('customer-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -146,7 +151,7 @@ describe('Final Branch Coverage Tests', () => {
         cartId: 'cart123',
         itemId: 'item123',
         quantity: 2,
-        token: 'customer-token-123'
+        session: withSession('customer-token-123')
       });
 
       expect(result.content?.[0]?.text).toContain('success": false');
@@ -1,6 +1,8 @@
 import { jest } from '@jest/globals';
 import { getCheckoutDataTool } from '../../src/tools/get-checkout-data.js';
 import { SprykerApiService, ApiError } from '../../src/services/spryker-api.js';
+import { withSession } from '../helpers/session.js';
+import { sessionVault } from '../../src/services/session-vault.js';
 
 // Mock the logger and config
 jest.mock('../../src/utils/logger.js', () => ({
@@ -20,6 +22,15 @@ jest.mock('../../src/config/index.js', () => ({
     api: {
       baseUrl: 'https://api.example.com',
       defaultHeaders: { 'Content-Type': 'application/json' }
+    },
+    cache: {
+      backend: 'none'
+    },
+    circuitBreaker: {
+      enabled: false
+    },
+    tracing: {
+      exporter: 'none'
     }
   }
 }));
@@ -119,7 +130,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockResolvedValueOnce(mockResponse);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'test-token-123',
+        session: withSession('test-token-123'),
         cartId: 'cart-123'
       });
 
@@ -133,7 +144,8 @@ describe('Get Checkout Data Tool', () => {
             }
           }
         },
-        'test-token-123'
+        'test-token-123',
+        { idempotent: true }
       );
 
       expect(result.content).toHaveLength(1);
@@ -209,7 +221,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockResolvedValueOnce(mockResponse);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'test-token-456',
+        session: withSession('test-token-456'),
         cartId: 'cart-456'
       });
 
@@ -247,7 +259,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockResolvedValueOnce(mockResponse);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'test-token-789',
+        session: withSession('test-token-789'),
         cartId: 'cart-789'
       });
 
@@ -292,7 +304,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockResolvedValueOnce(mockResponse);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'guest-token-abc123',
+        session: withSession('guest-token-abc123'),
         cartId: 'guest-cart-123'
       });
 
@@ -306,7 +318,8 @@ describe('Get Checkout Data Tool', () => {
             }
           }
         },
-        'guest-token-abc123'
+        'guest-token-abc123',
+        { idempotent: true }
       );
 
       expect(result.content).toHaveLength(1);
@@ -324,7 +337,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockRejectedValueOnce(apiError);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'test-token',
+        session: withSession('test-token'),
         cartId: 'cart-999'
       });
 
@@ -343,7 +356,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockRejectedValueOnce(networkError);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'test-token',
+        session: withSession('test-token'),
         cartId: 'cart-123'
       });
 
@@ -360,7 +373,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockRejectedValueOnce(authError);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'invalid-token',
+        session: withSession('invalid-token'),
         cartId: 'cart-123'
       });
 
@@ -372,24 +385,33 @@ describe('Get Checkout Data Tool', () => {
 
     it('should handle validation errors for missing fields', async () => {
       await expect(getCheckoutDataTool.handler({
-        token: 'test-token'
+        session: withSession('test-token')
         // Missing cartId
       })).rejects.toThrow();
 
-      await expect(getCheckoutDataTool.handler({
+    });
+
+    it('should report a missing session', async () => {
+      sessionVault.clear();
+
+      const result = await getCheckoutDataTool.handler({
         cartId: 'cart-123'
-        // Missing token
-      })).rejects.toThrow();
+      });
+
+      expect('isError' in result && result.isError).toBe(true);
+      const response = JSON.parse(result.content[0]!.text);
+      expect(response.success).toBe(false);
+      expect(response.message).toContain('No authenticated session');
     });
 
     it('should handle validation errors for invalid field types', async () => {
       await expect(getCheckoutDataTool.handler({
-        token: 123, // Should be string
+        session: 123, // Should be string
         cartId: 'cart-123'
       })).rejects.toThrow();
 
       await expect(getCheckoutDataTool.handler({
-        token: 'test-token',
+        session: withSession('test-token'),
         cartId: null // Should be string
       })).rejects.toThrow();
     });
@@ -418,7 +440,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockResolvedValueOnce(mockResponse);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'test-token',
+        session: withSession('test-token'),
         cartId: 'cart-test'
       });
 
@@ -466,7 +488,7 @@ describe('Get Checkout Data Tool', () => {
       mockPost.mockResolvedValueOnce(mockResponse);
 
       const result = await getCheckoutDataTool.handler({
-        token: 'test-token',
+        session: withSession('test-token'),
         cartId: 'cart-test'
       });
 
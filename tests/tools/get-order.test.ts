@@ -5,13 +5,16 @@
 import { getOrderTool } from '../../src/tools/get-order';
 import { SprykerApiService, ApiError } from '../../src/services/spryker-api';
 import { logger } from '../../src/utils/logger';
+import { withSession } from '../helpers/session.js';
+import { sessionVault } from '../../src/services/session-vault';
 
 // Mock dependencies
 jest.mock('../../src/services/spryker-api');
 jest.mock('../../src/utils/logger', () => ({
   logger: {
     info: jest.fn(),
-    error: jest.fn()
+    error: jest.fn(),
+    debug: jest.fn()
   }
 }));
 
@@ -87,7 +90,7 @@ describe('getOrderTool', () => {
       mockApiService.get.mockResolvedValue(createApiResponse(mockOrderData));
 
       const result = await getOrderTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         orderReference: 'DE--123'
       });
 
@@ -130,7 +133,7 @@ describe('getOrderTool', () => {
       mockApiService.get.mockResolvedValue(createApiResponse(mockOrdersData));
 
       const result = await getOrderTool.handler({
-        token: 'customer-token'
+        session: withSession('customer-token')
       });
 
       const responseData = JSON.parse(result.content?.[0]?.text || '{}');
@@ -148,7 +151,7 @@ describe('getOrderTool', () => {
       mockApiService.get.mockResolvedValue(createApiResponse(mockEmptyData));
 
       const result = await getOrderTool.handler({
-        token: 'customer-token'
+        session: withSession('customer-token')
       });
 
       const responseData = JSON.parse(result.content?.[0]?.text || '{}');
@@ -169,7 +172,7 @@ describe('getOrderTool', () => {
       mockApiService.get.mockRejectedValue(apiError);
 
       const result = await getOrderTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         orderReference: 'DE--123'
       });
 
@@ -188,7 +191,7 @@ describe('getOrderTool', () => {
       mockApiService.get.mockRejectedValue(genericError);
 
       const result = await getOrderTool.handler({
-        token: 'customer-token'
+        session: withSession('customer-token')
       });
 
       const responseData = JSON.parse(result.content?.[0]?.text || '{}');
@@ -196,12 +199,18 @@ describe('getOrderTool', () => {
       expect(responseData.message).toBe('Network error');
     });
 
-    it('should validate required token parameter', async () => {
-      await expect(getOrderTool.handler({})).rejects.toThrow();
+    it('should report a missing session', async () => {
+      sessionVault.clear();
+
+      const result = await getOrderTool.handler({});
+
+      const responseData = JSON.parse(result.content?.[0]?.text || '{}');
+      expect('isError' in result && result.isError).toBe(true);
+      expect(responseData.message).toContain('No authenticated session');
     });
 
-    it('should validate token parameter type', async () => {
-      await expect(getOrderTool.handler({ token: 123 })).rejects.toThrow();
+    it('should validate session parameter type', async () => {
+      await expect(getOrderTool.handler({ session: 123 })).rejects.toThrow();
     });
 
     it('should handle orders without relationships', async () => {
@@ -230,7 +239,7 @@ describe('getOrderTool', () => {
       mockApiService.get.mockResolvedValue(createApiResponse(mockOrderData));
 
       const result = await getOrderTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         orderReference: 'DE--123'
       });
 
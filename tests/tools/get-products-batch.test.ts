@@ -0,0 +1,141 @@
+/**
+ * Test for Get Products Batch Tool
+ */
+
+import { getProductsBatchTool } from '../../src/tools/get-products-batch';
+import { SprykerApiService } from '../../src/services/spryker-api';
+import { logger } from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger');
+
+// Partial mock for SprykerApiService to keep ApiError class intact
+jest.mock('../../src/services/spryker-api', () => {
+  const originalModule = jest.requireActual('../../src/services/spryker-api');
+  return {
+    ...originalModule,
+    SprykerApiService: {
+      getInstance: jest.fn(),
+    },
+  };
+});
+
+const { ApiError } = jest.requireActual('../../src/services/spryker-api');
+
+const mockApiService = {
+  get: jest.fn()
+};
+const mockLogger = logger as any;
+
+const productResponse = (type: string, sku: string) => ({
+  status: 200,
+  data: {
+    data: {
+      type,
+      id: sku,
+      attributes: { sku, name: `Product ${sku}`, description: '', attributes: {} },
+    },
+    included: [],
+  },
+});
+
+const parse = (result: { content: Array<{ text: string }> }) => JSON.parse(result.content[0]!.text);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+
+  (SprykerApiService.getInstance as jest.Mock).mockReturnValue(mockApiService);
+
+  mockLogger.info = jest.fn();
+  mockLogger.warn = jest.fn();
+  mockLogger.error = jest.fn();
+});
+
+describe('getProductsBatchTool', () => {
+  it('should have correct tool definition', () => {
+    expect(getProductsBatchTool.name).toBe('get-products-batch');
+    expect(getProductsBatchTool.inputSchema.properties).toHaveProperty('skus');
+    expect(getProductsBatchTool.inputSchema.properties).toHaveProperty('productType');
+  });
+
+  it('should retrieve abstract products in input order', async () => {
+    mockApiService.get.mockImplementation(async (endpoint: string) =>
+      productResponse('abstract-products', endpoint.split('/')[1]!.split('?')[0]!)
+    );
+
+    const result = await getProductsBatchTool.handler({ skus: ['001', '002', '001'] });
+    const response = parse(result);
+
+    expect(mockApiService.get).toHaveBeenCalledTimes(2);
+    expect(mockApiService.get).toHaveBeenCalledWith(expect.stringMatching(/^abstract-products\/001\?/));
+    expect(response).toMatchObject({ success: true, requested: 2, succeeded: 2, failed: 0, errors: [] });
+    expect(response.products.map((product: { sku: string }) => product.sku)).toEqual(['001', '002']);
+    expect(response.products[0].product.name).toBe('Product 001');
+    expect(response.products[0]).not.toHaveProperty('message');
+  });
+
+  it('should retrieve concrete products', async () => {
+    mockApiService.get.mockResolvedValue(productResponse('concrete-products', '001_1'));
+
+    const response = parse(await getProductsBatchTool.handler({ skus: ['001_1'], productType: 'concrete' }));
+
+    expect(mockApiService.get).toHaveBeenCalledWith(expect.stringMatching(/^concrete-products\/001_1/));
+    expect(response.productType).toBe('concrete');
+    expect(response.succeeded).toBe(1);
+  });
+
+  it('should report per-SKU errors alongside found products', async () => {
+    mockApiService.get.mockImplementation(async (endpoint: string) => {
+      if (endpoint.includes('missing')) {
+        throw new ApiError('Product not found', 404, 'Not Found', { errors: [{ code: '301' }] });
+      }
+      return productResponse('abstract-products', '001');
+    });
+
+    const result = await getProductsBatchTool.handler({ skus: ['001', 'missing'] });
+    const response = parse(result);
+
+    expect('isError' in result && result.isError).toBeFalsy();
+    expect(response).toMatchObject({ success: true, succeeded: 1, failed: 1 });
+    expect(response.errors).toEqual([{
+      sku: 'missing',
+      error: 'Failed to retrieve product',
+      errorCode: 'PRODUCT_NOT_FOUND',
+      message: 'Product not found',
+      hint: 'No product has this SKU. Use product-search to find the correct SKU.',
+      responseData: { errors: [{ code: '301' }] },
+    }]);
+    expect(mockLogger.warn).toHaveBeenCalledWith('Some products could not be retrieved', { failed: ['missing'] });
+  });
+
+  it('should fail when no product could be retrieved', async () => {
+    mockApiService.get.mockRejectedValue(new Error('Network error'));
+
+    const result = await getProductsBatchTool.handler({ skus: ['001', '002'] });
+
+    expect('isError' in result && result.isError).toBe(true);
+    expect(parse(result)).toMatchObject({ success: false, succeeded: 0, failed: 2 });
+  });
+
+  it('should not exceed the requested concurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+    mockApiService.get.mockImplementation(async (endpoint: string) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setImmediate(resolve));
+      active--;
+      return productResponse('abstract-products', endpoint);
+    });
+
+    const skus = Array.from({ length: 12 }, (_, index) => `SKU-${index}`);
+    const response = parse(await getProductsBatchTool.handler({ skus, concurrency: 3 }));
+
+    expect(response.succeeded).toBe(12);
+    expect(maxActive).toBe(3);
+  });
+
+  it('should validate the SKU list', async () => {
+    await expect(getProductsBatchTool.handler({ skus: [] })).rejects.toThrow();
+    await expect(getProductsBatchTool.handler({ skus: ['001'], concurrency: 20 })).rejects.toThrow();
+  });
+});
@@ -13,7 +13,15 @@ jest.mock('../../src/config/index.js', () => ({
       baseUrl: 'https://test-api.example.com',
       timeout: 5000,
       retryAttempts: 3,
-      retryDelay: 1000
+      retryDelay: 1000,
+      locale: 'en_US'
+    },
+    stores: {
+      definitions: {}
+    },
+    confirmation: {
+      fallback: 'allow',
+      tokenTtl: 300000
     }
   }
 }));
@@ -62,6 +70,7 @@ import { removeFromCartTool } from '../../src/tools/remove-from-cart.js';
 import { updateCartItemTool } from '../../src/tools/update-cart-item.js';
 import { guestAddToCartTool } from '../../src/tools/guest-add-to-cart.js';
 import { ApiError } from '../../src/services/spryker-api.js';
+import { withSession } from '../helpers/session.js';
 
 describe('Individual Tools', () => {
   beforeEach(() => {
@@ -81,7 +90,7 @@ describe('Individual Tools', () => {
       });
 
       const result = await getCartTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         cartId: 'cart-123'
       });
 
@@ -105,7 +114,7 @@ describe('Individual Tools', () => {
       });
 
       const result = await getCartTool.handler({
-        token: 'guest-token-123',
+        session: withSession('guest-token-123'),
         cartId: 'guest-cart-123'
       });
 
@@ -126,7 +135,7 @@ describe('Individual Tools', () => {
       });
 
       const result = await getCartTool.handler({
-        token: 'customer-token'
+        session: withSession('customer-token')
       });
 
       expect(mockGet).toHaveBeenCalledWith('carts', 'customer-token');
@@ -143,7 +152,7 @@ describe('Individual Tools', () => {
       });
 
       const result = await getCartTool.handler({
-        token: 'customer-token'
+        session: withSession('customer-token')
       });
 
       expect(result.content).toHaveLength(1);
@@ -157,7 +166,7 @@ describe('Individual Tools', () => {
       mockGet.mockRejectedValueOnce(apiError);
 
       const result = await getCartTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         cartId: 'invalid-cart'
       });
 
@@ -188,7 +197,7 @@ describe('Individual Tools', () => {
       const result = await addToCartTool.handler({
         sku: 'SKU-001',
         quantity: 2,
-        token: 'customer-token'
+        session: withSession('customer-token')
       });
 
       expect(mockGet).toHaveBeenCalledWith('carts', 'customer-token');
@@ -217,7 +226,7 @@ describe('Individual Tools', () => {
       const result = await addToCartTool.handler({
         sku: 'invalid-sku',
         quantity: 1,
-        token: 'customer-token'
+        session: withSession('customer-token')
       });
 
       expect(result.content).toHaveLength(1);
@@ -237,7 +246,7 @@ describe('Individual Tools', () => {
       mockDelete.mockResolvedValueOnce(mockResponse);
 
       const result = await removeFromCartTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         cartId: 'cart-123',
         itemId: 'item-456'
       });
@@ -255,7 +264,7 @@ describe('Individual Tools', () => {
       mockDelete.mockRejectedValueOnce(apiError);
 
       const result = await removeFromCartTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         cartId: 'cart-123',
         itemId: 'invalid-item'
       });
@@ -277,7 +286,7 @@ describe('Individual Tools', () => {
       mockPatch.mockResolvedValueOnce(mockResponse);
 
       const result = await updateCartItemTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         cartId: 'cart-123',
         itemId: 'item-456',
         quantity: 5
@@ -304,7 +313,7 @@ describe('Individual Tools', () => {
       mockPatch.mockRejectedValueOnce(apiError);
 
       const result = await updateCartItemTool.handler({
-        token: 'customer-token',
+        session: withSession('customer-token'),
         cartId: 'cart-123',
         itemId: 'invalid-item',
         quantity: 3
@@ -329,7 +338,7 @@ describe('Individual Tools', () => {
       const result = await guestAddToCartTool.handler({
         sku: 'SKU-001',
         quantity: 1,
-        token: 'guest-123'
+        session: withSession('guest-123')
       });
 
       expect(mockPost).toHaveBeenCalledWith(
@@ -356,7 +365,7 @@ describe('Individual Tools', () => {
       const result = await guestAddToCartTool.handler({
         sku: 'SKU-001',
         quantity: 1,
-        token: 'guest-123'
+        session: withSession('guest-123')
       });
 
       expect(result.content).toHaveLength(1);
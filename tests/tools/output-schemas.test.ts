@@ -0,0 +1,186 @@
+/**
+ * Tests for tool output schemas and structured content
+ */
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    server: {
+      logLevel: 'info',
+      redaction: {
+        strategy: 'mask'
+      }
+    },
+    api: {
+      baseUrl: 'https://test-api.example.com',
+      timeout: 5000,
+      retryAttempts: 3,
+      retryDelay: 1000
+    },
+    mcp: {
+      responses: {
+        verbosity: 'standard'
+      }
+    },
+    cache: {
+      backend: 'none'
+    },
+    circuitBreaker: {
+      enabled: false
+    },
+    checkout: {
+      idempotencyWindow: 3600000,
+      confirmationTtl: 300000
+    },
+    confirmation: {
+      fallback: 'token',
+      tokenTtl: 300000
+    },
+    audit: {
+      enabled: false,
+      tool: true
+    },
+    tracing: {
+      exporter: 'none'
+    }
+  }
+}));
+
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv-provider.js';
+import type { JsonSchemaType } from '@modelcontextprotocol/sdk/validation/types.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolRegistry } from '../../src/tools/index.js';
+import { withStructuredContent } from '../../src/tools/output-schemas.js';
+import type { SprykerTool } from '../../src/tools/types.js';
+
+const validator = new AjvJsonSchemaValidator();
+
+function validate(tools: Tool[], name: string, value: unknown) {
+  const schema = tools.find(tool => tool.name === name)?.outputSchema;
+  expect(schema).toBeDefined();
+  return validator.getValidator(schema as JsonSchemaType)(value);
+}
+
+const jsonTool = (result: Record<string, unknown>, isError = false): SprykerTool => ({
+  name: 'json-tool',
+  description: 'JSON tool',
+  annotations: { title: 'Test', readOnlyHint: true, openWorldHint: false },
+  scope: 'catalog:read',
+  inputSchema: { type: 'object', properties: {} },
+  outputSchema: { type: 'object', properties: { success: { type: 'boolean' } }, required: ['success'] },
+  handler: jest.fn().mockResolvedValue({
+    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    ...(isError ? { isError: true } : {}),
+  }),
+});
+
+describe('Tool output schemas', () => {
+  let tools: Tool[];
+
+  beforeAll(() => {
+    const registry = new ToolRegistry();
+    registry.registerAll({ setRequestHandler: jest.fn() } as unknown as Server);
+    tools = registry.getTools();
+  });
+
+  it('should declare a compilable output schema for every tool', () => {
+    expect(tools.length).toBeGreaterThan(0);
+    tools.forEach(tool => {
+      expect(tool.outputSchema?.type).toBe('object');
+      expect(() => validator.getValidator(tool.outputSchema as JsonSchemaType)).not.toThrow();
+    });
+  });
+
+  it('should accept product search results', () => {
+    const result = validate(tools, 'product-search', {
+      products: [{ sku: '001', name: 'Camera', price: 9999, priceFormatted: '99.99', images: [] }],
+      pagination: { total: 1, count: 1, ipp: 12, page: 1, currentPage: 1, maxPage: 1 },
+      sort: [],
+      valueFacets: [],
+      rangeFacets: [],
+      query: { q: 'camera' },
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should accept order results', () => {
+    const result = validate(tools, 'get-order', {
+      success: true,
+      order: {
+        orderReference: 'DE--1',
+        createdAt: '2024-01-01 10:00:00',
+        totals: { grandTotal: 9999 },
+        items: [{ id: 'item-1', sku: '001_123', quantity: 1 }],
+      },
+    });
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject results that do not match the schema', () => {
+    const result = validate(tools, 'get-cart', { cart: {} });
+
+    expect(result.valid).toBe(false);
+    expect(result.errorMessage).toContain('success');
+  });
+});
+
+describe('withStructuredContent', () => {
+  it('should add the parsed result as structured content', async () => {
+    const tool = jsonTool({ success: true, cartId: 'cart-1' });
+
+    const result = withStructuredContent(tool, await tool.handler({}));
+
+    expect(result.structuredContent).toEqual({ success: true, cartId: 'cart-1' });
+    expect(result.content[0]?.text).toContain('cart-1');
+  });
+
+  it('should not add structured content to errors', async () => {
+    const tool = jsonTool({ success: false, error: 'Failed' }, true);
+
+    const result = withStructuredContent(tool, await tool.handler({}));
+
+    expect(result.isError).toBe(true);
+    expect(result).not.toHaveProperty('structuredContent');
+  });
+
+  it('should not add structured content for tools without an output schema', async () => {
+    const { outputSchema: _outputSchema, ...tool } = jsonTool({ success: true });
+
+    const result = withStructuredContent(tool, await tool.handler({}));
+
+    expect(result).not.toHaveProperty('structuredContent');
+  });
+
+  it('should shape the structured content like the text', async () => {
+    const registry = new ToolRegistry();
+    registry.registerTool(jsonTool({ success: true, cartId: 'cart-1', items: [] }));
+
+    const result = await registry.callTool('json-tool', { fields: ['cartId'] });
+
+    expect(JSON.parse(result.content[0]!.text)).toEqual({ success: true, cartId: 'cart-1' });
+    expect(result.structuredContent).toEqual({ success: true, cartId: 'cart-1' });
+  });
+
+  it('should keep the complete structured content when the shaped result does not match the output schema', async () => {
+    const registry = new ToolRegistry();
+    registry.registerTool({
+      ...jsonTool({ success: true, cartId: 'cart-1', items: [] }),
+      outputSchema: { type: 'object', properties: { success: { type: 'boolean' }, items: { type: 'array' } }, required: ['success', 'items'] },
+    });
+
+    const result = await registry.callTool('json-tool', { verbosity: 'standard' });
+
+    expect(JSON.parse(result.content[0]!.text)).toEqual({ success: true, cartId: 'cart-1' });
+    expect(result.structuredContent).toEqual({ success: true, cartId: 'cart-1', items: [] });
+  });
+
+  it('should not shape the structured content without a response format', async () => {
+    const tool = jsonTool({ success: true, cartId: 'cart-1', items: [] });
+
+    const result = withStructuredContent(tool, await tool.handler({}));
+
+    expect(result.structuredContent).toEqual({ success: true, cartId: 'cart-1', items: [] });
+  });
+});
@@ -19,7 +19,20 @@ jest.mock('../../src/config/index.js', () => ({
     },
     api: {
       baseUrl: 'https://api.example.com',
-      defaultHeaders: { 'Content-Type': 'application/json' }
+      defaultHeaders: { 'Content-Type': 'application/json' },
+      locale: 'en_US'
+    },
+    stores: {
+      definitions: {}
+    },
+    cache: {
+      backend: 'none'
+    },
+    circuitBreaker: {
+      enabled: false
+    },
+    tracing: {
+      exporter: 'none'
     }
   }
 }));
@@ -160,6 +173,26 @@ describe('Product Search Tool', () => {
         }
       });
     });
+
+    it('should search in the selected currency and price mode', async () => {
+      mockRequest.mockResolvedValueOnce({ data: { data: [] } });
+
+      await productSearchTool.handler({
+        q: 'shirt',
+        currency: 'CHF',
+        priceMode: 'NET_MODE'
+      });
+
+      expect(mockRequest).toHaveBeenCalledWith('GET', 'catalog-search', {
+        params: {
+          q: 'shirt',
+          'page[limit]': '20',
+          'page[offset]': '0',
+          currency: 'CHF',
+          priceMode: 'NET_MODE'
+        }
+      });
+    });
   });
 
   describe('facet filters', () => {
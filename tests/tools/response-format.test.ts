@@ -0,0 +1,169 @@
+/**
+ * Tests for response formatting
+ */
+
+import {
+  formatToolResult,
+  renderMarkdown,
+  shapeResponse,
+  splitResponseFormat,
+  withResponseFormatProperties,
+} from '../../src/tools/response-format.js';
+import type { SprykerTool } from '../../src/tools/types.js';
+
+const searchResult = {
+  products: [
+    {
+      sku: '001',
+      name: 'Camera',
+      price: 9999,
+      description: 'A long description',
+      images: [{ externalUrlSmall: 'https://images.example.com/001.jpg' }],
+      labels: [],
+    },
+    { sku: '002', name: 'Tripod | Pro', price: 2999, images: null },
+  ],
+  pagination: { total: 2, currentPage: 1 },
+  valueFacets: [{ name: 'brand', values: [] }],
+  query: { q: 'camera' },
+  error: null,
+};
+
+const tool = (properties: Record<string, object> = {}): SprykerTool => ({
+  name: 'test-tool',
+  description: 'Test tool',
+  annotations: { title: 'Test', readOnlyHint: true, openWorldHint: false },
+  scope: 'catalog:read',
+  inputSchema: { type: 'object', properties },
+  handler: jest.fn(),
+});
+
+describe('shapeResponse', () => {
+  it('should return the result unchanged at full verbosity', () => {
+    expect(shapeResponse(searchResult, { verbosity: 'full' })).toEqual(searchResult);
+  });
+
+  it('should drop empty fields at standard verbosity', () => {
+    const shaped = shapeResponse(searchResult, { verbosity: 'standard' }) as typeof searchResult;
+
+    expect(shaped).not.toHaveProperty('error');
+    expect(shaped.products[0]).not.toHaveProperty('labels');
+    expect(shaped.products[1]).toEqual({ sku: '002', name: 'Tripod | Pro', price: 2999 });
+    expect(shaped.valueFacets).toEqual([{ name: 'brand' }]);
+    expect(shaped.products[0]!.description).toBe('A long description');
+  });
+
+  it('should drop verbose fields at minimal verbosity', () => {
+    expect(shapeResponse(searchResult, { verbosity: 'minimal' })).toEqual({
+      products: [
+        { sku: '001', name: 'Camera', price: 9999 },
+        { sku: '002', name: 'Tripod | Pro', price: 2999 },
+      ],
+      pagination: { total: 2, currentPage: 1 },
+    });
+  });
+
+  it('should project fields through lists and keep status fields', () => {
+    const result = { success: false, message: 'Partial', products: searchResult.products, pagination: searchResult.pagination };
+
+    expect(shapeResponse(result, { verbosity: 'minimal', fields: ['products.sku', 'products.images', 'pagination.total'] })).toEqual({
+      success: false,
+      message: 'Partial',
+      products: [
+        { sku: '001', images: [{ externalUrlSmall: 'https://images.example.com/001.jpg' }] },
+        { sku: '002' },
+      ],
+      pagination: { total: 2 },
+    });
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('should render listings as tables and other values as lines', () => {
+    const markdown = renderMarkdown({
+      success: true,
+      products: [
+        { sku: '001', name: 'Camera', price: { amount: 9999, currency: 'EUR' }, tags: ['new', 'sale'] },
+        { sku: '002', name: 'Tripod | Pro', images: [{ url: 'a' }, { url: 'b' }] },
+      ],
+      pagination: { total: 2 },
+    });
+
+    expect(markdown).toBe([
+      '- **success:** true',
+      '',
+      '### products',
+      '',
+      '| sku | name | price.amount | price.currency | tags | images |',
+      '| --- | --- | --- | --- | --- | --- |',
+      '| 001 | Camera | 9999 | EUR | new, sale |  |',
+      '| 002 | Tripod \\| Pro |  |  |  | 2 items |',
+      '',
+      '- **pagination.total:** 2',
+    ].join('\n'));
+  });
+
+  it('should limit the number of table columns', () => {
+    const row = Object.fromEntries(Array.from({ length: 12 }, (_, index) => [`c${index}`, index]));
+    const markdown = renderMarkdown([row]);
+
+    expect(markdown.split('\n')[0]).toBe('| c0 | c1 | c2 | c3 | c4 | c5 | c6 | c7 | c8 | c9 |');
+    expect(markdown).toContain('_Columns not shown: c10, c11_');
+  });
+});
+
+describe('splitResponseFormat', () => {
+  it('should separate response format options from tool arguments', () => {
+    expect(splitResponseFormat(tool(), { q: 'camera', verbosity: 'minimal', format: 'markdown' })).toEqual({
+      format: { verbosity: 'minimal', format: 'markdown' },
+      toolArgs: { q: 'camera' },
+    });
+  });
+
+  it('should leave arguments the tool defines itself to the tool', () => {
+    expect(splitResponseFormat(tool({ format: { type: 'string' } }), { format: 'pdf' })).toEqual({
+      format: {},
+      toolArgs: { format: 'pdf' },
+    });
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => splitResponseFormat(tool(), { verbosity: 'verbose' })).toThrow();
+  });
+
+  it('should add the options to input schemas', () => {
+    const schema = withResponseFormatProperties(tool({ q: { type: 'string' } }).inputSchema);
+
+    expect(Object.keys(schema.properties)).toEqual(['verbosity', 'fields', 'format', 'q']);
+  });
+});
+
+describe('formatToolResult', () => {
+  const result = {
+    content: [{ type: 'text' as const, text: JSON.stringify(searchResult, null, 2) }],
+    isError: false,
+  };
+
+  it('should return compact shaped JSON', () => {
+    const formatted = formatToolResult(result, { verbosity: 'standard' });
+
+    expect(formatted.content[0]!.text).toBe(JSON.stringify(shapeResponse(searchResult, { verbosity: 'standard' })));
+    expect(formatted).toHaveProperty('isError', false);
+  });
+
+  it('should leave full results untouched', () => {
+    expect(formatToolResult(result, { verbosity: 'full' })).toBe(result);
+  });
+
+  it('should render Markdown', () => {
+    const formatted = formatToolResult(result, { verbosity: 'minimal', format: 'markdown' });
+
+    expect(formatted.content[0]!.text).toContain('| sku | name | price |');
+  });
+
+  it('should pass through text that is not JSON', () => {
+    const text = { content: [{ type: 'text' as const, text: 'Processed: hello' }] };
+
+    expect(formatToolResult(text, { verbosity: 'minimal', format: 'markdown' })).toEqual(text);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Test for Select Store Tool
+ */
+
+jest.mock('../../src/config/index.js', () => ({
+  config: {
+    api: {
+      baseUrl: 'https://glue.example.com',
+      locale: 'en_US',
+    },
+    stores: {
+      definitions: {
+        AT: { baseUrl: 'https://glue.at.example.com', locale: 'de_AT', currency: 'EUR' },
+      },
+    },
+  }
+}));
+
+jest.mock('../../src/utils/logger.js', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  }
+}));
+
+import { selectStoreTool } from '../../src/tools/select-store.js';
+import { storeContext } from '../../src/services/store-context.js';
+import { PROCESS_SESSION_ID } from '../../src/services/session-context.js';
+
+describe('selectStoreTool', () => {
+  afterEach(() => {
+    storeContext.clearSession(PROCESS_SESSION_ID);
+  });
+
+  it('should have correct name and schema', () => {
+    expect(selectStoreTool.name).toBe('select-store');
+    expect(selectStoreTool.inputSchema.properties.store).toBeDefined();
+    expect(selectStoreTool.inputSchema.properties.priceMode).toBeDefined();
+  });
+
+  it('should select the store for the session', async () => {
+    const result = await selectStoreTool.handler({ store: 'AT', priceMode: 'NET_MODE' });
+
+    const response = JSON.parse(result.content[0]!.text);
+    expect(response.success).toBe(true);
+    expect(response.context).toEqual({ store: 'AT', locale: 'de_AT', currency: 'EUR', priceMode: 'NET_MODE' });
+    expect(response.availableStores).toEqual(['AT']);
+    expect(storeContext.resolve().baseUrl).toBe('https://glue.at.example.com');
+  });
+
+  it('should report the current selection when called without arguments', async () => {
+    const result = await selectStoreTool.handler({});
+
+    const response = JSON.parse(result.content[0]!.text);
+    expect(response.context).toEqual({ locale: 'en_US' });
+  });
+
+  it('should return an error for unknown stores', async () => {
+    const result = await selectStoreTool.handler({ store: 'CH' });
+
+    expect('isError' in result && result.isError).toBe(true);
+    const response = JSON.parse(result.content[0]!.text);
+    expect(response.success).toBe(false);
+    expect(response.message).toBe('Unknown store: CH. Available stores: AT');
+  });
+});
@@ -53,6 +53,7 @@ jest.mock('../../src/services/spryker-api.js', () => ({
 
 import { getCartTool } from '../../src/tools/get-cart.js';
 import { authenticateTool } from '../../src/tools/authenticate.js';
+import { withSession } from '../helpers/session.js';
 
 // Get reference to mocked API methods
 const mockApiService = mockApiMethods;
@@ -72,7 +73,7 @@ describe('Targeted Branch Coverage Tests', () => {
       });
 
       const result = await getCartTool.handler({
-        token: 'customer-token'
+        session: withSession('customer-token')
         // No cartId - this should trigger the "no carts found" branch
       });
 
@@ -89,7 +90,7 @@ describe('Targeted Branch Coverage Tests', () => {
       });
 
       const result = await getCartTool.handler({
-        token: 'guest-abc123'
+        session: withSession('guest-abc123')
         // No cartId - this should trigger guest-carts endpoint
       });
 
@@ -6,7 +6,10 @@
 jest.mock('../../src/config/index.js', () => ({
   config: {
     server: {
-      logLevel: 'info'
+      logLevel: 'info',
+      redaction: {
+        strategy: 'mask'
+      }
     },
     api: {
       baseUrl: 'https://test-api.example.com',
@@ -17,11 +20,41 @@ jest.mock('../../src/config/index.js', () => ({
     spryker: {
       baseUrl: 'https://test-api.example.com',
       timeout: 5000
+    },
+    mcp: {
+      responses: {
+        verbosity: 'standard'
+      }
+    },
+    cache: {
+      backend: 'none'
+    },
+    circuitBreaker: {
+      enabled: false
+    },
+    checkout: {
+      idempotencyWindow: 3600000,
+      confirmationTtl: 300000
+    },
+    confirmation: {
+      fallback: 'token',
+      tokenTtl: 300000
+    },
+    audit: {
+      enabled: false,
+      tool: false
+    },
+    tracing: {
+      exporter: 'none'
     }
   }
 }));
 
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { ToolRegistry } from '../../src/tools/index.js';
+import { auditTrail, recordGlueRequest } from '../../src/services/audit-trail.js';
+import { Logger, LogLevel } from '../../src/utils/logger.js';
+import { runInSession } from '../../src/services/session-context.js';
 
 describe('Tool Registry', () => {
   let toolRegistry: ToolRegistry;
@@ -33,6 +66,8 @@ describe('Tool Registry', () => {
     toolRegistry.registerTool({
       name: 'testTool',
       description: 'A test tool',
+      annotations: { title: 'Test', readOnlyHint: true, openWorldHint: false },
+      scope: 'catalog:read',
       inputSchema: {
         type: 'object',
         properties: {
@@ -69,6 +104,44 @@ describe('Tool Registry', () => {
       const tool = toolRegistry.getTool('unknownTool');
       expect(tool).toBeUndefined();
     });
+
+    it('should list tools with their title and annotations', () => {
+      const tools = toolRegistry.getTools();
+      expect(tools[0]?.title).toBe('Test');
+      expect(tools[0]?.annotations).toEqual({ title: 'Test', readOnlyHint: true, openWorldHint: false });
+    });
+  });
+
+  describe('registering all tools', () => {
+    const server = () => ({ setRequestHandler: jest.fn() }) as unknown as Server;
+
+    it('should annotate every tool', () => {
+      const registry = new ToolRegistry();
+      registry.registerAll(server(), false);
+
+      const tools = registry.getTools();
+      expect(tools.length).toBeGreaterThan(0);
+      tools.forEach(tool => {
+        expect(tool.title).toEqual(expect.any(String));
+        expect(tool.annotations?.readOnlyHint).toEqual(expect.any(Boolean));
+      });
+      expect(tools.find(tool => tool.name === 'checkout')?.annotations)
+        .toMatchObject({ readOnlyHint: false, destructiveHint: true, idempotentHint: true });
+      expect(tools.find(tool => tool.name === 'add-to-cart')?.annotations)
+        .toMatchObject({ readOnlyHint: false, destructiveHint: false, idempotentHint: false });
+    });
+
+    it('should only register read-only tools in read-only mode', async () => {
+      const registry = new ToolRegistry();
+      registry.registerAll(server(), true);
+
+      const names = registry.getTools().map(tool => tool.name);
+      expect(names).toEqual(expect.arrayContaining(['product-search', 'get-product', 'get-category-tree', 'checkout-preview']));
+      expect(names).not.toContain('add-to-cart');
+      expect(names).not.toContain('checkout');
+      registry.getTools().forEach(tool => expect(tool.annotations?.readOnlyHint).toBe(true));
+      await expect(registry.callTool('checkout', {})).rejects.toThrow('Unknown tool: checkout');
+    });
   });
 
   describe('tool execution', () => {
@@ -77,6 +150,30 @@ describe('Tool Registry', () => {
       expect(result.content?.[0]?.text).toBe('Processed: hello');
     });
 
+    it('should shape JSON results with the response format options', async () => {
+      const handler = jest.fn().mockResolvedValue({
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ products: [{ sku: '001', images: [] }], valueFacets: [{ name: 'brand' }] }, null, 2)
+        }]
+      });
+      toolRegistry.registerTool({
+        name: 'jsonTool',
+        description: 'A JSON tool',
+        annotations: { title: 'Test', readOnlyHint: true, openWorldHint: false },
+        scope: 'catalog:read',
+        inputSchema: { type: 'object', properties: { q: { type: 'string' } } },
+        handler
+      });
+
+      const result = await toolRegistry.callTool('jsonTool', { q: 'camera', verbosity: 'minimal', fields: ['products.sku'] });
+
+      expect(handler).toHaveBeenCalledWith({ q: 'camera' });
+      expect(result.content?.[0]?.text).toBe('{"products":[{"sku":"001"}]}');
+      expect(toolRegistry.getTools().find(tool => tool.name === 'jsonTool')?.inputSchema.properties)
+        .toHaveProperty('verbosity');
+    });
+
     it('should throw error for unknown tools', async () => {
       await expect(toolRegistry.callTool('unknownTool', {}))
         .rejects
@@ -90,6 +187,8 @@ describe('Tool Registry', () => {
       toolRegistry.registerTool({
         name: 'testTool',
         description: 'Updated test tool',
+        annotations: { title: 'Test', readOnlyHint: true, openWorldHint: false },
+        scope: 'catalog:read',
         inputSchema: {
           type: 'object',
           properties: {}
@@ -109,4 +208,142 @@ describe('Tool Registry', () => {
       expect(tools[0]?.description).toBe('Updated test tool');
     });
   });
-});
\ No newline at end of file
+
+  describe('auditing tool calls', () => {
+    let record: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(auditTrail, 'enabled', 'get').mockReturnValue(true);
+      record = jest.spyOn(auditTrail, 'record').mockResolvedValue({} as never);
+      toolRegistry.registerTool({
+        name: 'mutatingTool',
+        description: 'A state-changing tool',
+        annotations: { title: 'Test', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+        scope: 'cart:write',
+        inputSchema: { type: 'object', properties: { cartId: { type: 'string' } } },
+        handler: async (args: any) => {
+          recordGlueRequest({ method: 'POST', endpoint: `carts/${args.cartId}/items`, status: 201 });
+          if (args.cartId === 'missing') {
+            return { content: [{ type: 'text', text: JSON.stringify({ success: false, errorCode: 'CART_NOT_FOUND' }) }] };
+          }
+          return { content: [{ type: 'text', text: JSON.stringify({ success: true, cartId: args.cartId }) }] };
+        }
+      });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should record state-changing tool calls with their Glue requests', async () => {
+      await toolRegistry.callTool('mutatingTool', { cartId: 'cart-1' });
+
+      expect(record).toHaveBeenCalledWith({
+        tool: 'mutatingTool',
+        args: { cartId: 'cart-1' },
+        result: { success: true, cartId: 'cart-1' },
+        outcome: 'success',
+        glueRequests: [{ method: 'POST', endpoint: 'carts/cart-1/items', status: 201 }],
+      });
+    });
+
+    it('should record failed calls with their error code', async () => {
+      await toolRegistry.callTool('mutatingTool', { cartId: 'missing' });
+
+      expect(record).toHaveBeenCalledWith(expect.objectContaining({ outcome: 'error', errorCode: 'CART_NOT_FOUND' }));
+    });
+
+    it('should not record read-only tool calls', async () => {
+      await toolRegistry.callTool('testTool', { input: 'hello' });
+
+      expect(record).not.toHaveBeenCalled();
+    });
+
+    it('should return the result when the audit trail cannot be written', async () => {
+      record.mockRejectedValue(new Error('disk full'));
+
+      const result = await toolRegistry.callTool('mutatingTool', { cartId: 'cart-1' });
+
+      expect(JSON.parse(result.content?.[0]?.text ?? '')).toEqual({ success: true, cartId: 'cart-1' });
+    });
+  });
+
+  describe('authorizing tool calls', () => {
+    const auth = { token: 'token', clientId: 'assistant', scopes: ['catalog:read'] };
+
+    beforeEach(() => {
+      toolRegistry.registerTool({
+        name: 'checkoutTool',
+        description: 'A checkout tool',
+        annotations: { title: 'Test', readOnlyHint: false, destructiveHint: true, idempotentHint: true, openWorldHint: true },
+        scope: 'checkout',
+        inputSchema: { type: 'object', properties: {} },
+        handler: async () => ({ content: [{ type: 'text', text: 'Ordered' }] })
+      });
+    });
+
+    it('should only list tools the access token grants', () => {
+      expect(toolRegistry.getTools(auth).map(tool => tool.name)).toEqual(['testTool']);
+      expect(toolRegistry.getTools().map(tool => tool.name)).toEqual(['testTool', 'checkoutTool']);
+    });
+
+    it('should refuse calls of tools the access token does not grant', async () => {
+      await expect(runInSession('session-1', () => toolRegistry.callTool('checkoutTool', {}), auth))
+        .rejects
+        .toThrow('Insufficient scope: Tool checkoutTool requires the checkout scope');
+      await expect(runInSession('session-1', () => toolRegistry.callTool('testTool', { input: 'hello' }), auth))
+        .resolves
+        .toBeDefined();
+    });
+  });
+
+  describe('logging tool arguments', () => {
+    const address = {
+      salutation: 'Ms',
+      firstName: 'Janet',
+      lastName: 'Doevenbury',
+      address1: 'Rosenthaler Strasse',
+      address2: '42b',
+      zipCode: '10119',
+      city: 'Berlin',
+      company: 'Acme Widgets GmbH',
+      phone: '+49 30 9876543',
+    };
+    const secrets = [
+      'S3cret-Passw0rd', 'janet.doevenbury@example.com', 'Janet', 'Doevenbury', 'Rosenthaler', '10119',
+      'Berlin', 'Acme Widgets', '9876543', 'eyJhbGciOiJIUzI1NiJ9',
+    ];
+    const calls: Array<[string, Record<string, unknown>]> = [
+      ['authenticate', { username: 'janet.doevenbury@example.com', password: 'S3cret-Passw0rd' }],
+      ['register-customer', {
+        email: 'janet.doevenbury@example.com', password: 'S3cret-Passw0rd', confirmPassword: 'S3cret-Passw0rd',
+        firstName: 'Janet', lastName: 'Doevenbury',
+      }],
+      ['checkout', {
+        cartId: 'cart-1',
+        customerData: { email: 'janet.doevenbury@example.com', firstName: 'Janet', lastName: 'Doevenbury' },
+        billingAddress: address,
+        shippingAddress: address,
+        confirmationToken: 'preview-1',
+      }],
+      ['add-address', { customerReference: 'DE--1', address }],
+      ['update-address', { customerReference: 'DE--1', addressId: 'address-1', address }],
+      ['get-cart', { cartId: 'cart-1', session: 'Bearer eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.c2ln' }],
+    ];
+
+    it.each(calls)('should not leak secrets or personal data of %s calls', (tool, args) => {
+      new ToolRegistry().registerAll({ setRequestHandler: jest.fn() } as unknown as Server, false);
+      const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      consoleErrorSpy.mockClear();
+      try {
+        new Logger('Test', LogLevel.DEBUG).info(`Executing tool: ${tool}`, { tool, args });
+
+        const output = String(consoleErrorSpy.mock.calls[0]?.[0]);
+        expect(output).toContain(`Executing tool: ${tool}`);
+        secrets.forEach(secret => expect(output).not.toContain(secret));
+      } finally {
+        consoleErrorSpy.mockRestore();
+      }
+    });
+  });
+});
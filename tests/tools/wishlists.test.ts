@@ -8,6 +8,7 @@ import { addToWishlistTool } from '../../src/tools/add-to-wishlist';
 import { wishlistToCartTool } from '../../src/tools/wishlist-to-cart';
 import { SprykerApiService } from '../../src/services/spryker-api';
 import { logger } from '../../src/utils/logger';
+import { withSession } from '../helpers/session.js';
 
 jest.mock('../../src/utils/logger');
 
@@ -38,7 +39,7 @@ describe('getWishlistsTool', () => {
       data: { data: [{ type: 'wishlists', id: 'w1', attributes: { name: 'Birthday' } }] },
     });
 
-    const result = await getWishlistsTool.handler({ token: 'auth' });
+    const result = await getWishlistsTool.handler({ session: withSession('auth') });
 
     expect(mockApiService.get).toHaveBeenCalledWith('wishlists', 'auth');
     const response = JSON.parse(result.content[0]!.text);
@@ -55,7 +56,7 @@ describe('getWishlistsTool', () => {
       },
     });
 
-    const result = await getWishlistsTool.handler({ token: 'auth', wishlistUuid: 'w1' });
+    const result = await getWishlistsTool.handler({ session: withSession('auth'), wishlistUuid: 'w1' });
 
     expect(mockApiService.get).toHaveBeenCalledWith('wishlists/w1?include=wishlist-items', 'auth');
     const response = JSON.parse(result.content[0]!.text);
@@ -65,26 +66,26 @@ describe('getWishlistsTool', () => {
 
   it('should handle null data', async () => {
     mockApiService.get.mockResolvedValue({ status: 200, data: { data: null } });
-    const result = await getWishlistsTool.handler({ token: 'auth' });
+    const result = await getWishlistsTool.handler({ session: withSession('auth') });
     expect(JSON.parse(result.content[0]!.text).wishlists).toHaveLength(0);
   });
 
   it('should handle ApiError', async () => {
     mockApiService.get.mockRejectedValue(new ApiError('x', 401, 'Unauthorized', ['nope']));
-    const result = await getWishlistsTool.handler({ token: 'auth' });
+    const result = await getWishlistsTool.handler({ session: withSession('auth') });
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).responseData).toEqual(['nope']);
   });
 
   it('should validate input', async () => {
-    await expect(getWishlistsTool.handler({})).rejects.toThrow();
+    await expect(getWishlistsTool.handler({ session: 42 })).rejects.toThrow();
   });
 });
 
 describe('createWishlistTool', () => {
   it('should create a wishlist', async () => {
     mockApiService.post.mockResolvedValue({ status: 201, data: { data: { id: 'w2' } } });
-    const result = await createWishlistTool.handler({ token: 'auth', name: 'Holiday' });
+    const result = await createWishlistTool.handler({ session: withSession('auth'), name: 'Holiday' });
     expect(mockApiService.post).toHaveBeenCalledWith(
       'wishlists',
       { data: { type: 'wishlists', attributes: { name: 'Holiday' } } },
@@ -95,20 +96,20 @@ describe('createWishlistTool', () => {
 
   it('should handle non-Error rejection', async () => {
     mockApiService.post.mockRejectedValue('boom');
-    const result = await createWishlistTool.handler({ token: 'auth', name: 'Holiday' });
+    const result = await createWishlistTool.handler({ session: withSession('auth'), name: 'Holiday' });
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).message).toBe('Unknown error occurred');
   });
 
   it('should validate input', async () => {
-    await expect(createWishlistTool.handler({ token: 'auth' })).rejects.toThrow();
+    await expect(createWishlistTool.handler({ session: withSession('auth') })).rejects.toThrow();
   });
 });
 
 describe('addToWishlistTool', () => {
   it('should add an item to a wishlist', async () => {
     mockApiService.post.mockResolvedValue({ status: 201, data: { data: { id: 'i1' } } });
-    const result = await addToWishlistTool.handler({ token: 'auth', wishlistUuid: 'w1', sku: 'SKU-1' });
+    const result = await addToWishlistTool.handler({ session: withSession('auth'), wishlistUuid: 'w1', sku: 'SKU-1' });
     expect(mockApiService.post).toHaveBeenCalledWith(
       'wishlists/w1/wishlist-items',
       { data: { type: 'wishlist-items', attributes: { sku: 'SKU-1' } } },
@@ -119,12 +120,12 @@ describe('addToWishlistTool', () => {
 
   it('should handle ApiError', async () => {
     mockApiService.post.mockRejectedValue(new ApiError('x', 404, 'Not Found', ['missing']));
-    const result = await addToWishlistTool.handler({ token: 'auth', wishlistUuid: 'w1', sku: 'SKU-1' });
+    const result = await addToWishlistTool.handler({ session: withSession('auth'), wishlistUuid: 'w1', sku: 'SKU-1' });
     expect(JSON.parse(result.content[0]!.text).responseData).toEqual(['missing']);
   });
 
   it('should validate input', async () => {
-    await expect(addToWishlistTool.handler({ token: 'auth', wishlistUuid: 'w1' })).rejects.toThrow();
+    await expect(addToWishlistTool.handler({ session: withSession('auth'), wishlistUuid: 'w1' })).rejects.toThrow();
   });
 });
 
@@ -142,7 +143,7 @@ describe('wishlistToCartTool', () => {
     });
     mockApiService.post.mockResolvedValue({ status: 201, data: {} });
 
-    const result = await wishlistToCartTool.handler({ token: 'auth', wishlistUuid: 'w1', cartId: 'c1' });
+    const result = await wishlistToCartTool.handler({ session: withSession('auth'), wishlistUuid: 'w1', cartId: 'c1' });
 
     expect(mockApiService.get).toHaveBeenCalledWith('wishlists/w1?include=wishlist-items', 'auth');
     expect(mockApiService.post).toHaveBeenCalledTimes(2);
@@ -159,7 +160,7 @@ describe('wishlistToCartTool', () => {
     });
     mockApiService.post.mockRejectedValue(new Error('out of stock'));
 
-    const result = await wishlistToCartTool.handler({ token: 'auth', wishlistUuid: 'w1', cartId: 'c1' });
+    const result = await wishlistToCartTool.handler({ session: withSession('auth'), wishlistUuid: 'w1', cartId: 'c1' });
 
     expect('isError' in result && result.isError).toBe(true);
     const response = JSON.parse(result.content[0]!.text);
@@ -170,7 +171,7 @@ describe('wishlistToCartTool', () => {
 
   it('should handle empty wishlist (no included)', async () => {
     mockApiService.get.mockResolvedValue({ status: 200, data: {} });
-    const result = await wishlistToCartTool.handler({ token: 'auth', wishlistUuid: 'w1', cartId: 'c1' });
+    const result = await wishlistToCartTool.handler({ session: withSession('auth'), wishlistUuid: 'w1', cartId: 'c1' });
     const response = JSON.parse(result.content[0]!.text);
     expect(response.success).toBe(true);
     expect(response.added).toHaveLength(0);
@@ -178,12 +179,12 @@ describe('wishlistToCartTool', () => {
 
   it('should handle wishlist fetch failure', async () => {
     mockApiService.get.mockRejectedValue(new ApiError('x', 500, 'Server Error', ['oops']));
-    const result = await wishlistToCartTool.handler({ token: 'auth', wishlistUuid: 'w1', cartId: 'c1' });
+    const result = await wishlistToCartTool.handler({ session: withSession('auth'), wishlistUuid: 'w1', cartId: 'c1' });
     expect('isError' in result && result.isError).toBe(true);
     expect(JSON.parse(result.content[0]!.text).responseData).toEqual(['oops']);
   });
 
   it('should validate input', async () => {
-    await expect(wishlistToCartTool.handler({ token: 'auth', wishlistUuid: 'w1' })).rejects.toThrow();
+    await expect(wishlistToCartTool.handler({ session: withSession('auth'), wishlistUuid: 'w1' })).rejects.toThrow();
   });
 });
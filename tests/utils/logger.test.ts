@@ -7,7 +7,10 @@
 // Mock config first
 const mockConfig = {
   server: {
-    logLevel: 'info'
+    logLevel: 'info',
+    redaction: {
+      strategy: 'mask'
+    }
   }
 };
 
@@ -324,4 +327,36 @@ describe('Logger Comprehensive Tests', () => {
       });
     });
   });
+
+  describe('Redaction', () => {
+    let testLogger: Logger;
+
+    beforeEach(() => {
+      testLogger = new Logger('TestComponent', LogLevel.DEBUG);
+    });
+
+    it('should redact secrets and personal data from metadata', () => {
+      testLogger.info('Authenticating customer', { username: 'jane@example.com', password: 'hunter2', cartId: 'cart-1' });
+
+      const parsedLog = JSON.parse(consoleErrorSpy.mock.calls[0][0]);
+      expect(parsedLog.metadata).toEqual({ username: '[REDACTED]', password: '[REDACTED]', cartId: 'cart-1' });
+    });
+
+    it('should redact messages and errors', () => {
+      testLogger.error('Login of jane@example.com failed', new Error('Token eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.c2ln expired'));
+
+      const logCall = consoleErrorSpy.mock.calls[0][0];
+      const parsedLog = JSON.parse(logCall);
+      expect(parsedLog.message).toBe('Login of [REDACTED] failed');
+      expect(parsedLog.error.message).toBe('Token [REDACTED] expired');
+      expect(logCall).not.toContain('jane@example.com');
+      expect(logCall).not.toContain('eyJ');
+    });
+
+    it('should keep redacting in child loggers', () => {
+      testLogger.child('Child').info('Registering customer', { email: 'jane@example.com' });
+
+      expect(consoleErrorSpy.mock.calls[0][0]).not.toContain('jane@example.com');
+    });
+  });
 });
@@ -16,6 +16,34 @@ const mockConfig = {
   rateLimit: {
     windowMs: 60000,
     maxRequests: 100
+  },
+  stores: {
+    defaultStore: undefined as string | undefined,
+    definitions: {} as Record<string, { baseUrl: string }>
+  },
+  mcp: {
+    auth: {
+      enabled: false,
+      devIssuer: false,
+      issuer: undefined as string | undefined,
+      jwksUrl: undefined as string | undefined,
+      jwks: undefined as { keys: unknown[] } | undefined
+    },
+    cors: {
+      origins: ['*'],
+      credentials: false
+    },
+    tls: {
+      enabled: false,
+      certFile: undefined as string | undefined,
+      keyFile: undefined as string | undefined,
+      caFile: undefined as string | undefined,
+      clientAuth: 'none'
+    }
+  },
+  audit: {
+    enabled: false,
+    file: undefined as string | undefined
   }
 };
 
@@ -146,6 +174,92 @@ describe('Validation Utilities', () => {
       await expect(validateEnvironment()).resolves.not.toThrow();
     });
 
+    it('should fail with a default store missing from STORES', async () => {
+      mockConfig.stores.defaultStore = 'DE';
+
+      try {
+        await expect(validateEnvironment()).rejects.toThrow('Default store DE is not configured in STORES');
+      } finally {
+        mockConfig.stores.defaultStore = undefined;
+      }
+    });
+
+    it('should fail when authorization has no issuer or keys', async () => {
+      mockConfig.mcp.auth.enabled = true;
+
+      try {
+        await expect(validateEnvironment()).rejects.toThrow('MCP_AUTH_ENABLED requires MCP_AUTH_ISSUER and MCP_AUTH_JWKS_URL or MCP_AUTH_JWKS');
+
+        mockConfig.mcp.auth.issuer = 'https://auth.example.com';
+        mockConfig.mcp.auth.jwksUrl = 'https://auth.example.com/jwks';
+        mockFetch.mockResolvedValueOnce({ status: 200 });
+        await expect(validateEnvironment()).resolves.not.toThrow();
+      } finally {
+        mockConfig.mcp.auth = { enabled: false, devIssuer: false, issuer: undefined, jwksUrl: undefined, jwks: undefined };
+      }
+    });
+
+    it('should fail with the development issuer but authorization disabled', async () => {
+      mockConfig.mcp.auth.devIssuer = true;
+
+      try {
+        await expect(validateEnvironment()).rejects.toThrow('MCP_AUTH_DEV_ISSUER requires MCP_AUTH_ENABLED=true');
+      } finally {
+        mockConfig.mcp.auth.devIssuer = false;
+      }
+    });
+
+    it('should fail with credentialed CORS for any origin', async () => {
+      mockConfig.mcp.cors.credentials = true;
+
+      try {
+        await expect(validateEnvironment()).rejects.toThrow('MCP_CORS_CREDENTIALS requires MCP_CORS_ORIGINS to list the allowed origins instead of *');
+      } finally {
+        mockConfig.mcp.cors.credentials = false;
+      }
+    });
+
+    it('should fail with a certificate but no key', async () => {
+      mockConfig.mcp.tls.enabled = true;
+      mockConfig.mcp.tls.certFile = '/etc/spryker-mcp/cert.pem';
+
+      try {
+        await expect(validateEnvironment()).rejects.toThrow('HTTPS requires both MCP_TLS_CERT_FILE and MCP_TLS_KEY_FILE');
+      } finally {
+        mockConfig.mcp.tls = { enabled: false, certFile: undefined, keyFile: undefined, caFile: undefined, clientAuth: 'none' };
+      }
+    });
+
+    it('should fail with client certificates but no CA', async () => {
+      mockConfig.mcp.tls = { enabled: true, certFile: '/etc/spryker-mcp/cert.pem', keyFile: '/etc/spryker-mcp/key.pem', caFile: undefined, clientAuth: 'required' };
+
+      try {
+        await expect(validateEnvironment()).rejects.toThrow('MCP_TLS_CLIENT_AUTH requires HTTPS and MCP_TLS_CA_FILE');
+      } finally {
+        mockConfig.mcp.tls = { enabled: false, certFile: undefined, keyFile: undefined, caFile: undefined, clientAuth: 'none' };
+      }
+    });
+
+    it('should fail with the audit trail enabled but no file', async () => {
+      mockConfig.audit.enabled = true;
+
+      try {
+        await expect(validateEnvironment()).rejects.toThrow('AUDIT_LOG_ENABLED requires AUDIT_LOG_FILE');
+      } finally {
+        mockConfig.audit.enabled = false;
+      }
+    });
+
+    it('should pass with the audit trail enabled and a file', async () => {
+      mockConfig.audit = { enabled: true, file: '/var/log/spryker-mcp/audit.jsonl' };
+
+      try {
+        await expect(validateEnvironment()).resolves.not.toThrow();
+      } finally {
+        mockConfig.audit = { enabled: false, file: undefined };
+      }
+    });
+
     it('should fail with invalid API timeout configuration', async () => {
       const originalConfig = { ...mockConfig };
       mockConfig.api.timeout = 0;